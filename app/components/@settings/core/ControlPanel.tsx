@@ -8,6 +8,7 @@ import { useNotifications } from '~/lib/hooks/useNotifications';
 import { useConnectionStatus } from '~/lib/hooks/useConnectionStatus';
 import { tabConfigurationStore, resetTabConfiguration } from '~/lib/stores/settings';
 import { profileStore } from '~/lib/stores/profile';
+import { bitbucketConnectionStore, giteaConnectionStore } from '~/lib/stores/gitHostConnection';
 import type { TabType, Profile } from './types';
 import { TAB_LABELS, DEFAULT_TAB_CONFIG, TAB_DESCRIPTIONS } from './constants';
 import { DialogTitle } from '~/components/ui/Dialog';
@@ -23,6 +24,7 @@ import { DataTab } from '~/components/@settings/tabs/data/DataTab';
 import { EventLogsTab } from '~/components/@settings/tabs/event-logs/EventLogsTab';
 import GitHubTab from '~/components/@settings/tabs/github/GitHubTab';
 import GitLabTab from '~/components/@settings/tabs/gitlab/GitLabTab';
+import GitHostTab from '~/components/@settings/tabs/git-host/GitHostTab';
 import SupabaseTab from '~/components/@settings/tabs/supabase/SupabaseTab';
 import VercelTab from '~/components/@settings/tabs/vercel/VercelTab';
 import NetlifyTab from '~/components/@settings/tabs/netlify/NetlifyTab';
@@ -141,6 +143,10 @@ export const ControlPanel = ({ open, onClose }: ControlPanelProps) => {
         return <GitHubTab />;
       case 'gitlab':
         return <GitLabTab />;
+      case 'bitbucket':
+        return <GitHostTab store={bitbucketConnectionStore} />;
+      case 'gitea':
+        return <GitHostTab store={giteaConnectionStore} />;
       case 'supabase':
         return <SupabaseTab />;
       case 'vercel':
@@ -1,5 +1,5 @@
 import type { TabType } from './types';
-import { User, Settings, Bell, Star, Database, Cloud, Laptop, Github, Wrench, List } from 'lucide-react';
+import { User, Settings, Bell, Star, Database, Cloud, Laptop, Github, GitBranch, Wrench, List } from 'lucide-react';
 
 // GitLab icon component
 const GitLabIcon = () => (
@@ -11,6 +11,16 @@ const GitLabIcon = () => (
   </svg>
 );
 
+// Bitbucket icon component
+const BitbucketIcon = () => (
+  <svg viewBox="0 0 24 24" className="w-4 h-4">
+    <path
+      fill="currentColor"
+      d="M.778 1.213a.768.768 0 0 0-.768.892l3.263 19.81c.084.5.515.868 1.022.873H19.95a.772.772 0 0 0 .77-.646l3.27-20.03a.768.768 0 0 0-.768-.891zM14.52 15.53H9.522L8.17 8.466h7.561z"
+    />
+  </svg>
+);
+
 // Vercel icon component
 const VercelIcon = () => (
   <svg viewBox="0 0 24 24" className="w-4 h-4">
@@ -48,6 +58,8 @@ export const TAB_ICONS: Record<TabType, React.ComponentType<{ className?: string
   'local-providers': Laptop,
   github: Github,
   gitlab: () => <GitLabIcon />,
+  bitbucket: () => <BitbucketIcon />,
+  gitea: GitBranch,
   netlify: () => <NetlifyIcon />,
   vercel: () => <VercelIcon />,
   supabase: () => <SupabaseIcon />,
@@ -65,6 +77,8 @@ export const TAB_LABELS: Record<TabType, string> = {
   'local-providers': 'Local Providers',
   github: 'GitHub',
   gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  gitea: 'Gitea / Forgejo',
   netlify: 'Netlify',
   vercel: 'Vercel',
   supabase: 'Supabase',
@@ -82,6 +96,8 @@ export const TAB_DESCRIPTIONS: Record<TabType, string> = {
   'local-providers': 'Configure local AI providers and models',
   github: 'Connect and manage GitHub integration',
   gitlab: 'Connect and manage GitLab integration',
+  bitbucket: 'Connect and manage Bitbucket Cloud integration',
+  gitea: 'Connect a self-hosted Gitea or Forgejo instance',
   netlify: 'Configure Netlify deployment settings',
   vercel: 'Manage Vercel projects and deployments',
   supabase: 'Setup Supabase database connection',
@@ -97,12 +113,14 @@ export const DEFAULT_TAB_CONFIG = [
   { id: 'local-providers', visible: true, window: 'user' as const, order: 3 },
   { id: 'github', visible: true, window: 'user' as const, order: 4 },
   { id: 'gitlab', visible: true, window: 'user' as const, order: 5 },
-  { id: 'netlify', visible: true, window: 'user' as const, order: 6 },
-  { id: 'vercel', visible: true, window: 'user' as const, order: 7 },
-  { id: 'supabase', visible: true, window: 'user' as const, order: 8 },
-  { id: 'notifications', visible: true, window: 'user' as const, order: 9 },
-  { id: 'event-logs', visible: true, window: 'user' as const, order: 10 },
-  { id: 'mcp', visible: true, window: 'user' as const, order: 11 },
+  { id: 'bitbucket', visible: true, window: 'user' as const, order: 6 },
+  { id: 'gitea', visible: true, window: 'user' as const, order: 7 },
+  { id: 'netlify', visible: true, window: 'user' as const, order: 8 },
+  { id: 'vercel', visible: true, window: 'user' as const, order: 9 },
+  { id: 'supabase', visible: true, window: 'user' as const, order: 10 },
+  { id: 'notifications', visible: true, window: 'user' as const, order: 11 },
+  { id: 'event-logs', visible: true, window: 'user' as const, order: 12 },
+  { id: 'mcp', visible: true, window: 'user' as const, order: 13 },
 
   // User Window Tabs (In dropdown, initially hidden)
 ];
@@ -13,6 +13,8 @@ export type TabType =
   | 'local-providers'
   | 'github'
   | 'gitlab'
+  | 'bitbucket'
+  | 'gitea'
   | 'netlify'
   | 'vercel'
   | 'supabase'
@@ -76,6 +78,8 @@ export const TAB_LABELS: Record<TabType, string> = {
   'local-providers': 'Local Providers',
   github: 'GitHub',
   gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  gitea: 'Gitea / Forgejo',
   netlify: 'Netlify',
   vercel: 'Vercel',
   supabase: 'Supabase',
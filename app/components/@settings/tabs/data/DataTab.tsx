@@ -1,12 +1,21 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { Button } from '~/components/ui/Button';
+import { Checkbox } from '~/components/ui/Checkbox';
 import { ConfirmationDialog, SelectionDialog } from '~/components/ui/Dialog';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '~/components/ui/Card';
 import { motion } from 'framer-motion';
 import { useDataOperations } from '~/lib/hooks/useDataOperations';
-import { openDatabase } from '~/lib/persistence/db';
+import { BUNDLE_EXTENSION } from '~/lib/persistence/bundle';
+import { getAllTurnCosts, openDatabase } from '~/lib/persistence/db';
+import type { TurnCostRecord } from '~/lib/persistence/types';
 import { getAllChats, type Chat } from '~/lib/persistence/chats';
 import { DataVisualization } from './DataVisualization';
+import { StorageReport } from './StorageReport';
+import { RetentionSettings } from './RetentionSettings';
+import { StorageBackendSettings } from './StorageBackendSettings';
+import { VaultSettings } from './VaultSettings';
+import { vaultStatus } from '~/lib/persistence/vault';
+import { useStore } from '@nanostores/react';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 
@@ -99,6 +108,9 @@ export function DataTab() {
 
   const [availableChats, setAvailableChats] = useState<ExtendedChat[]>([]);
   const [chatItems, setChatItems] = useState<ChatItem[]>([]);
+  const [turnCosts, setTurnCosts] = useState<TurnCostRecord[]>([]);
+  const vault = useStore(vaultStatus);
+  const [decryptExports, setDecryptExports] = useState(false);
 
   // Data operations hook with boltHistory database
   const {
@@ -162,6 +174,10 @@ export function DataTab() {
           console.error('Error loading chats:', error);
           toast.error('Failed to load chats: ' + (error instanceof Error ? error.message : 'Unknown error'));
         });
+
+      getAllTurnCosts(db)
+        .then(setTurnCosts)
+        .catch((error) => console.error('Error loading costs:', error));
     }
   }, [db]);
 
@@ -220,7 +236,7 @@ export function DataTab() {
       <input
         ref={chatFileInputRef}
         type="file"
-        accept=".json"
+        accept={`${BUNDLE_EXTENSION},.json`}
         onChange={handleChatFileInputChange}
         className="hidden"
       />
@@ -243,7 +259,7 @@ export function DataTab() {
         isOpen={showDeleteInlineConfirm}
         onClose={() => setShowDeleteInlineConfirm(false)}
         title="Delete All Chats?"
-        description="This will permanently delete all your chat history. This action cannot be undone."
+        description="This will move all your chats to the trash. They can be restored from the sidebar until the trash is emptied."
         confirmLabel="Delete All"
         cancelLabel="Cancel"
         variant="destructive"
@@ -271,7 +287,7 @@ export function DataTab() {
         title="Select Chats to Export"
         items={chatItems}
         onConfirm={(selectedIds) => {
-          handleExportSelectedChats(selectedIds);
+          handleExportSelectedChats(selectedIds, decryptExports);
           setShowChatsSelection(false);
         }}
         confirmLabel="Export Selected"
@@ -280,6 +296,12 @@ export function DataTab() {
       {/* Chats Section */}
       <div>
         <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Chats</h2>
+        {vault !== 'disabled' && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-bolt-elements-textSecondary">
+            <Checkbox checked={decryptExports} onCheckedChange={(checked) => setDecryptExports(checked === true)} />
+            Decrypt exported chats, they can otherwise only be imported while this vault is unlocked
+          </label>
+        )}
         {dbLoading ? (
           <div className="flex items-center justify-center p-4">
             <div className="i-ph-spinner-gap-bold animate-spin w-6 h-6 mr-2" />
@@ -297,7 +319,7 @@ export function DataTab() {
                     Export All Chats
                   </CardTitle>
                 </div>
-                <CardDescription>Export all your chats to a JSON file.</CardDescription>
+                <CardDescription>Export all your chats with their files to a .bolt bundle.</CardDescription>
               </CardHeader>
               <CardFooter>
                 <motion.div whileHover={{ scale: 1.03 }} whileTap={{ scale: 0.97 }} className="w-full">
@@ -320,7 +342,7 @@ export function DataTab() {
                           return;
                         }
 
-                        await handleExportAllChats();
+                        await handleExportAllChats(decryptExports);
                       } catch (error) {
                         console.error('Error exporting chats:', error);
                         toast.error(
@@ -398,7 +420,7 @@ export function DataTab() {
                     Import Chats
                   </CardTitle>
                 </div>
-                <CardDescription>Import chats from a JSON file.</CardDescription>
+                <CardDescription>Import chats from a .bolt bundle or an older JSON export.</CardDescription>
               </CardHeader>
               <CardFooter>
                 <motion.div whileHover={{ scale: 1.03 }} whileTap={{ scale: 0.97 }} className="w-full">
@@ -712,10 +734,58 @@ export function DataTab() {
         <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Data Usage</h2>
         <Card>
           <CardContent className="p-5">
-            <DataVisualization chats={availableChats} />
+            <DataVisualization chats={availableChats} costs={turnCosts} />
           </CardContent>
         </Card>
       </div>
+
+      {/* Snapshot Storage Section */}
+      {db && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Snapshot Storage</h2>
+          <Card>
+            <CardContent className="p-5">
+              <StorageReport db={db} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Trash & Archive Section */}
+      {db && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Trash &amp; Archive</h2>
+          <Card>
+            <CardContent className="p-5">
+              <RetentionSettings db={db} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Encryption Section */}
+      {db && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Encryption</h2>
+          <Card>
+            <CardContent className="p-5">
+              <VaultSettings db={db} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Storage Backend Section */}
+      {db && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4 text-bolt-elements-textPrimary">Storage Backend</h2>
+          <Card>
+            <CardContent className="p-5">
+              <StorageBackendSettings db={db} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 }
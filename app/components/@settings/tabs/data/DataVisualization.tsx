@@ -13,6 +13,8 @@ import {
 } from 'chart.js';
 import { Bar, Pie } from 'react-chartjs-2';
 import type { Chat } from '~/lib/persistence/chats';
+import type { TurnCostRecord } from '~/lib/persistence/types';
+import { toDayKey } from '~/lib/stores/spending';
 import { classNames } from '~/utils/classNames';
 
 // Register ChartJS components
@@ -20,14 +22,24 @@ ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend,
 
 type DataVisualizationProps = {
   chats: Chat[];
+  costs?: TurnCostRecord[];
 };
 
-export function DataVisualization({ chats }: DataVisualizationProps) {
+// days shown in the daily spend chart
+const SPEND_HISTORY_DAYS = 30;
+
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+
+export function DataVisualization({ chats, costs = [] }: DataVisualizationProps) {
   const [chatsByDate, setChatsByDate] = useState<Record<string, number>>({});
   const [messagesByRole, setMessagesByRole] = useState<Record<string, number>>({});
   const [apiKeyUsage, setApiKeyUsage] = useState<Array<{ provider: string; count: number }>>([]);
   const [averageMessagesPerChat, setAverageMessagesPerChat] = useState<number>(0);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [spendByDay, setSpendByDay] = useState<Record<string, number>>({});
+  const [spendByModel, setSpendByModel] = useState<Record<string, number>>({});
+  const [spendByStage, setSpendByStage] = useState<Record<string, number>>({});
+  const [topChats, setTopChats] = useState<Array<{ id: string; description: string; total: number }>>([]);
 
   useEffect(() => {
     const isDark = document.documentElement.classList.contains('dark');
@@ -85,6 +97,45 @@ export function DataVisualization({ chats }: DataVisualizationProps) {
     setAverageMessagesPerChat(totalMessages / chats.length);
   }, [chats]);
 
+  useEffect(() => {
+    const days: Record<string, number> = {};
+    const models: Record<string, number> = {};
+    const stages: Record<string, number> = {};
+    const chatTotals: Record<string, number> = {};
+
+    for (let i = SPEND_HISTORY_DAYS - 1; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      days[toDayKey(date)] = 0;
+    }
+
+    costs.forEach((record) => {
+      if (record.day in days) {
+        days[record.day] += record.cost.total;
+      }
+
+      chatTotals[record.chatId] = (chatTotals[record.chatId] || 0) + record.cost.total;
+
+      record.cost.entries.forEach((entry) => {
+        const model = `${entry.model} (${entry.provider})`;
+        models[model] = (models[model] || 0) + (entry.cost ?? 0);
+        stages[entry.stage] = (stages[entry.stage] || 0) + (entry.cost ?? 0);
+      });
+    });
+
+    const descriptions = new Map(chats.map((chat) => [chat.id, chat.description || chat.urlId || chat.id]));
+
+    setSpendByDay(days);
+    setSpendByModel(models);
+    setSpendByStage(stages);
+    setTopChats(
+      Object.entries(chatTotals)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([id, total]) => ({ id, total, description: descriptions.get(id) ?? 'Deleted chat' })),
+    );
+  }, [costs, chats]);
+
   // Get theme colors from CSS variables to ensure theme consistency
   const getThemeColor = (varName: string): string => {
     // Get the CSS variable value from document root
@@ -205,6 +256,33 @@ export function DataVisualization({ chats }: DataVisualizationProps) {
     },
   };
 
+  const costChartData = {
+    daily: {
+      labels: Object.keys(spendByDay),
+      datasets: [
+        {
+          label: 'Spend (USD)',
+          data: Object.values(spendByDay),
+          backgroundColor: getChartColors(2).bg,
+          borderColor: getChartColors(2).border,
+          borderWidth: 1,
+        },
+      ],
+    },
+    models: {
+      labels: Object.keys(spendByModel),
+      datasets: [
+        {
+          label: 'Spend by Model',
+          data: Object.values(spendByModel),
+          backgroundColor: Object.keys(spendByModel).map((_, i) => getChartColors(i).bg),
+          borderColor: Object.keys(spendByModel).map((_, i) => getChartColors(i).border),
+          borderWidth: 1,
+        },
+      ],
+    },
+  };
+
   const baseChartOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -379,6 +457,83 @@ export function DataVisualization({ chats }: DataVisualizationProps) {
           </div>
         </div>
       )}
+
+      {costs.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className={cardClasses}>
+              <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Total Spend</h3>
+              <div className={statClasses}>
+                <div className="i-ph-currency-dollar-duotone w-8 h-8 text-yellow-500 dark:text-yellow-400" />
+                <span>{formatUsd(costs.reduce((sum, record) => sum + record.cost.total, 0))}</span>
+              </div>
+            </div>
+
+            <div className={cardClasses}>
+              <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Spend Today</h3>
+              <div className={statClasses}>
+                <div className="i-ph-calendar-check-duotone w-8 h-8 text-sky-500 dark:text-sky-400" />
+                <span>{formatUsd(spendByDay[toDayKey()] ?? 0)}</span>
+              </div>
+            </div>
+
+            <div className={cardClasses}>
+              <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Spend by Step</h3>
+              <ul className="text-sm text-bolt-elements-textSecondary space-y-1">
+                {Object.entries(spendByStage).map(([stage, total]) => (
+                  <li key={stage} className="flex justify-between">
+                    <span className="capitalize">{stage}</span>
+                    <span className="text-bolt-elements-textPrimary">{formatUsd(total)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className={cardClasses}>
+              <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-6">Daily Spend</h3>
+              <div className="h-64">
+                <Bar
+                  data={costChartData.daily}
+                  options={{
+                    ...chartOptions,
+                    plugins: {
+                      ...chartOptions.plugins,
+                      title: { ...chartOptions.plugins.title, text: `Last ${SPEND_HISTORY_DAYS} Days` },
+                    },
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className={cardClasses}>
+              <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-6">Spend by Model</h3>
+              <div className="h-64">
+                <Pie
+                  data={costChartData.models}
+                  options={{
+                    ...pieOptions,
+                    plugins: { ...pieOptions.plugins, title: { ...pieOptions.plugins.title, text: 'Spend by Model' } },
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className={cardClasses}>
+            <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Most Expensive Chats</h3>
+            <ul className="text-sm text-bolt-elements-textSecondary space-y-2">
+              {topChats.map((chat) => (
+                <li key={chat.id} className="flex justify-between gap-4">
+                  <span className="truncate">{chat.description}</span>
+                  <span className="text-bolt-elements-textPrimary">{formatUsd(chat.total)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
     </div>
   );
 }
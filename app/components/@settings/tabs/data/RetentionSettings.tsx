@@ -0,0 +1,86 @@
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { applyRetentionPolicies, chatId, retentionSettings, setRetentionSettings } from '~/lib/persistence';
+import type { RetentionSettings as Retention } from '~/lib/persistence/trash';
+import { classNames } from '~/utils/classNames';
+
+interface RetentionSettingsProps {
+  db: IDBDatabase;
+}
+
+const TRASH_OPTIONS = [7, 30, 90, 0];
+const ARCHIVE_OPTIONS = [0, 30, 90, 180, 365];
+
+const selectClassName = classNames(
+  'p-2 rounded-lg text-sm min-w-[200px]',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+/**
+ * How long deleted chats stay in the trash and when untouched chats move to the archive.
+ */
+export function RetentionSettings({ db }: RetentionSettingsProps) {
+  const settings = useStore(retentionSettings);
+
+  const update = (changes: Partial<Retention>) => setRetentionSettings({ ...settings, ...changes });
+
+  const applyNow = async () => {
+    try {
+      const { purged, archived } = await applyRetentionPolicies(db, settings, chatId.get());
+      toast.success(`Purged ${purged} chat${purged === 1 ? '' : 's'}, archived ${archived}`);
+    } catch (error) {
+      toast.error('Failed to apply the retention rules: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-bolt-elements-textPrimary">Keep deleted chats</div>
+          <p className="text-xs text-bolt-elements-textSecondary">
+            Deleted chats can be restored from the trash in the sidebar until they expire.
+          </p>
+        </div>
+        <select
+          value={settings.trashDays}
+          onChange={(event) => update({ trashDays: Number(event.target.value) })}
+          className={selectClassName}
+        >
+          {TRASH_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {days > 0 ? `${days} days` : 'Until the trash is emptied'}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-bolt-elements-textPrimary">Archive inactive chats</div>
+          <p className="text-xs text-bolt-elements-textSecondary">
+            Chats not updated for this long leave the chat list and are kept compressed in the archive.
+          </p>
+        </div>
+        <select
+          value={settings.archiveAfterDays}
+          onChange={(event) => update({ archiveAfterDays: Number(event.target.value) })}
+          className={selectClassName}
+        >
+          {ARCHIVE_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {days > 0 ? `After ${days} days` : 'Never'}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={applyNow}>
+          Apply now
+        </Button>
+      </div>
+    </div>
+  );
+}
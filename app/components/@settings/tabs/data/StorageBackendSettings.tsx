@@ -0,0 +1,142 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { createIndexedDBStorage } from '~/lib/persistence/db';
+import {
+  migrateStorage,
+  ServerStorage,
+  setStorageBackend,
+  setStorageToken,
+  storageBackend,
+  type StorageAdapter,
+  type ServerStorageStatus,
+  type StorageBackend,
+} from '~/lib/persistence/storage';
+import { vaultStatus } from '~/lib/persistence/vault';
+import { classNames } from '~/utils/classNames';
+
+interface StorageBackendSettingsProps {
+  db: IDBDatabase;
+}
+
+/**
+ * Picks where chats are kept besides this browser and copies them between the backends.
+ */
+export function StorageBackendSettings({ db }: StorageBackendSettingsProps) {
+  const backend = useStore(storageBackend);
+  const vault = useStore(vaultStatus);
+  const [serverStatus, setServerStatus] = useState<ServerStorageStatus>();
+  const [token, setToken] = useState('');
+  const [progress, setProgress] = useState<string>();
+  const serverAvailable = serverStatus && serverStatus.available && serverStatus.authorized;
+
+  useEffect(() => {
+    ServerStorage.getInstance().status().then(setServerStatus);
+  }, []);
+
+  const saveToken = async () => {
+    setStorageToken(token.trim());
+
+    const status = await ServerStorage.getInstance().status();
+
+    setServerStatus(status);
+    setToken('');
+
+    if (status.authorized) {
+      toast.success('Connected to the server storage');
+    } else {
+      toast.error('The server did not accept the storage token');
+    }
+  };
+
+  const changeBackend = (value: StorageBackend) => {
+    setStorageBackend(value);
+    toast.success(value === 'server' ? 'Chats are now synced with the server' : 'Chats are now kept in this browser');
+  };
+
+  const migrate = async (source: StorageAdapter, target: StorageAdapter) => {
+    setProgress('Starting...');
+
+    try {
+      const report = await migrateStorage(source, target, (done, total) => setProgress(`${done} of ${total} chats`));
+      toast.success(
+        `Copied ${report.copied} chat${report.copied === 1 ? '' : 's'}` +
+          (report.skipped > 0 ? `, kept ${report.skipped} newer version${report.skipped === 1 ? '' : 's'}` : ''),
+      );
+    } catch (error) {
+      toast.error('Failed to copy chats: ' + (error as Error).message);
+    } finally {
+      setProgress(undefined);
+    }
+  };
+
+  const local = createIndexedDBStorage(db);
+  const server = ServerStorage.getInstance();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-bolt-elements-textPrimary">Backend</div>
+          <p className="text-xs text-bolt-elements-textSecondary">
+            {vault !== 'disabled'
+              ? 'Chats are not synced with the server while they are encrypted.'
+              : serverStatus?.available === false
+                ? 'Set BOLT_STORAGE_DIR and BOLT_STORAGE_TOKEN on the server to keep chats in a directory there.'
+                : serverStatus?.authorized === false
+                  ? 'Enter the BOLT_STORAGE_TOKEN of the server to sync chats with it.'
+                  : 'The server keeps a copy of every chat, the newer version wins when they differ.'}
+          </p>
+        </div>
+        <select
+          value={backend}
+          onChange={(event) => changeBackend(event.target.value as StorageBackend)}
+          className={classNames(
+            'p-2 rounded-lg text-sm min-w-[200px]',
+            'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+            'text-bolt-elements-textPrimary',
+            'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+          )}
+        >
+          <option value="indexeddb">This browser (IndexedDB)</option>
+          <option value="server" disabled={!serverAvailable && backend !== 'server'}>
+            Server
+          </option>
+        </select>
+      </div>
+
+      {serverStatus?.available && !serverStatus.authorized && (
+        <div className="flex items-center gap-3">
+          <input
+            type="password"
+            value={token}
+            onChange={(event) => setToken(event.target.value)}
+            placeholder="Storage token"
+            className={classNames(
+              'flex-1 p-2 rounded-lg text-sm',
+              'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+              'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+              'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+            )}
+          />
+          <Button variant="outline" size="sm" disabled={!token.trim()} onClick={saveToken}>
+            Save token
+          </Button>
+        </div>
+      )}
+
+      {serverAvailable && vault === 'disabled' && (
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" disabled={!!progress} onClick={() => migrate(local, server)}>
+            Copy chats to server
+          </Button>
+          <Button variant="outline" size="sm" disabled={!!progress} onClick={() => migrate(server, local)}>
+            Copy chats to this browser
+          </Button>
+          {progress && <span className="text-sm text-bolt-elements-textSecondary">{progress}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { collectSnapshotGarbage, getSnapshotStorageReport } from '~/lib/persistence/db';
+import type { SnapshotStorageReport } from '~/lib/persistence/snapshotBlobs';
+import { classNames } from '~/utils/classNames';
+import { formatSize } from '~/utils/formatSize';
+
+interface StorageReportProps {
+  db: IDBDatabase;
+}
+
+const cardClasses = classNames(
+  'p-6 rounded-lg shadow-sm',
+  'bg-bolt-elements-bg-depth-1',
+  'border border-bolt-elements-borderColor',
+);
+const statClasses = classNames('text-3xl font-bold text-bolt-elements-textPrimary', 'flex items-center gap-3');
+
+export function StorageReport({ db }: StorageReportProps) {
+  const [report, setReport] = useState<SnapshotStorageReport>();
+  const [isCleaning, setIsCleaning] = useState(false);
+
+  const loadReport = useCallback(() => {
+    getSnapshotStorageReport(db)
+      .then(setReport)
+      .catch((error) => console.error('Error loading the storage report:', error));
+  }, [db]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const cleanUp = async () => {
+    setIsCleaning(true);
+
+    try {
+      const removed = await collectSnapshotGarbage(db);
+      toast.success(`Removed ${removed} orphaned snapshot${removed === 1 ? '' : 's'}`);
+      loadReport();
+    } catch (error) {
+      toast.error('Failed to clean up snapshots: ' + (error as Error).message);
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  if (!report) {
+    return <div className="text-sm text-bolt-elements-textSecondary">Loading storage report...</div>;
+  }
+
+  const savings = Math.max(0, report.logicalSize - report.storedSize);
+  const savingsPercent = report.logicalSize > 0 ? Math.round((savings / report.logicalSize) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={cardClasses}>
+          <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Snapshot Files</h3>
+          <div className={statClasses}>
+            <div className="i-ph-files-duotone w-8 h-8 text-indigo-500 dark:text-indigo-400" />
+            <span>{formatSize(report.logicalSize)}</span>
+          </div>
+          <p className="mt-2 text-sm text-bolt-elements-textSecondary">
+            {report.files} files in {report.snapshots} snapshots
+          </p>
+        </div>
+
+        <div className={cardClasses}>
+          <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Stored</h3>
+          <div className={statClasses}>
+            <div className="i-ph-database-duotone w-8 h-8 text-pink-500 dark:text-pink-400" />
+            <span>{formatSize(report.storedSize)}</span>
+          </div>
+          <p className="mt-2 text-sm text-bolt-elements-textSecondary">{report.blobs} unique file contents</p>
+        </div>
+
+        <div className={cardClasses}>
+          <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Saved by Deduplication</h3>
+          <div className={statClasses}>
+            <div className="i-ph-arrows-in-duotone w-8 h-8 text-green-500 dark:text-green-400" />
+            <span>{formatSize(savings)}</span>
+          </div>
+          <p className="mt-2 text-sm text-bolt-elements-textSecondary">{savingsPercent}% less than one copy per chat</p>
+        </div>
+      </div>
+
+      {(report.legacySnapshots > 0 || report.orphanedSnapshots > 0) && (
+        <div className="flex items-center justify-between gap-4 text-sm text-bolt-elements-textSecondary">
+          <span>
+            {report.legacySnapshots > 0 &&
+              `${report.legacySnapshots} older snapshot${report.legacySnapshots === 1 ? ' is' : 's are'} not deduplicated yet and will be when their chat is saved again. `}
+            {report.orphanedSnapshots > 0 &&
+              `${report.orphanedSnapshots} snapshot${report.orphanedSnapshots === 1 ? ' belongs' : 's belong'} to deleted chats.`}
+          </span>
+          {report.orphanedSnapshots > 0 && (
+            <Button onClick={cleanUp} disabled={isCleaning} variant="outline" size="sm">
+              {isCleaning ? 'Cleaning up...' : 'Clean up'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { Input } from '~/components/ui/Input';
+import { resealStoredData } from '~/lib/persistence/db';
+import {
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  getVaultConfig,
+  lockVault,
+  setAutoLockMinutes,
+  vaultStatus,
+} from '~/lib/persistence/vault';
+import { classNames } from '~/utils/classNames';
+
+interface VaultSettingsProps {
+  db: IDBDatabase;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+type VaultAction = 'enable' | 'change' | 'disable';
+
+/**
+ * Encrypts chats, snapshots and API keys with a passphrase, and changes or removes it.
+ */
+export function VaultSettings({ db }: VaultSettingsProps) {
+  const status = useStore(vaultStatus);
+  const [action, setAction] = useState<VaultAction>();
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLockMinutes, setAutoLock] = useState(getVaultConfig()?.autoLockMinutes ?? 0);
+  const [progress, setProgress] = useState<string>();
+
+  const reset = () => {
+    setAction(undefined);
+    setPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+  };
+
+  const reseal = () => resealStoredData(db, (done, total) => setProgress(`${done} of ${total} records`));
+
+  const submit = async () => {
+    const chosen = action === 'enable' ? passphrase : newPassphrase;
+
+    if (action !== 'disable' && chosen !== confirmation) {
+      toast.error('The passphrases do not match');
+      return;
+    }
+
+    setProgress('Starting...');
+
+    try {
+      if (action === 'enable') {
+        await enableVault(passphrase, reseal);
+        setAutoLock(getVaultConfig()?.autoLockMinutes ?? 0);
+        toast.success('Chats and API keys are now encrypted');
+      } else if (action === 'change') {
+        await changeVaultPassphrase(passphrase, newPassphrase);
+        toast.success('Passphrase changed');
+      } else if (action === 'disable') {
+        await disableVault(passphrase, reseal);
+        toast.success('Chats and API keys are no longer encrypted');
+      }
+
+      reset();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setProgress(undefined);
+    }
+  };
+
+  const changeAutoLock = (minutes: number) => {
+    setAutoLock(minutes);
+    setAutoLockMinutes(minutes);
+  };
+
+  const passphraseInput = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Input
+      type="password"
+      autoComplete="off"
+      placeholder={placeholder}
+      value={value}
+      disabled={!!progress}
+      onChange={(event) => onChange(event.target.value)}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-bolt-elements-textPrimary">
+            {status === 'disabled' ? 'Encryption is off' : 'Encryption is on'}
+          </div>
+          <p className="text-xs text-bolt-elements-textSecondary">
+            {status === 'disabled'
+              ? 'Encrypt chats, snapshots and API keys in this browser with a passphrase. The search index and server storage are turned off while it is on.'
+              : 'The passphrase cannot be recovered, chats encrypted with it are lost if it is forgotten.'}
+          </p>
+        </div>
+        {status === 'disabled' ? (
+          <Button variant="outline" size="sm" disabled={!!action} onClick={() => setAction('enable')}>
+            Enable
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled={!!progress} onClick={() => lockVault()}>
+            Lock now
+          </Button>
+        )}
+      </div>
+
+      {status !== 'disabled' && (
+        <div className="flex items-center justify-between gap-4">
+          <div className="text-sm font-medium text-bolt-elements-textPrimary">Lock automatically</div>
+          <select
+            value={autoLockMinutes}
+            onChange={(event) => changeAutoLock(Number(event.target.value))}
+            className={classNames(
+              'p-2 rounded-lg text-sm min-w-[200px]',
+              'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+              'text-bolt-elements-textPrimary',
+              'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+            )}
+          >
+            {AUTO_LOCK_OPTIONS.map(({ minutes, label }) => (
+              <option key={minutes} value={minutes}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {status !== 'disabled' && !action && (
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={() => setAction('change')}>
+            Change passphrase
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAction('disable')}>
+            Turn off encryption
+          </Button>
+        </div>
+      )}
+
+      {action && (
+        <div className="space-y-3">
+          {passphraseInput(passphrase, setPassphrase, action === 'enable' ? 'Passphrase' : 'Current passphrase')}
+          {action === 'change' && passphraseInput(newPassphrase, setNewPassphrase, 'New passphrase')}
+          {action !== 'disable' && passphraseInput(confirmation, setConfirmation, 'Repeat the passphrase')}
+          <div className="flex items-center gap-3">
+            <Button
+              size="sm"
+              disabled={!!progress || !passphrase || (action === 'change' && !newPassphrase)}
+              onClick={submit}
+            >
+              {action === 'enable' ? 'Encrypt' : action === 'change' ? 'Change passphrase' : 'Decrypt and turn off'}
+            </Button>
+            <Button variant="ghost" size="sm" disabled={!!progress} onClick={reset}>
+              Cancel
+            </Button>
+            {progress && <span className="text-sm text-bolt-elements-textSecondary">{progress}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { spendingStore } from '~/lib/stores/spending';
+import type { BudgetCap, BudgetCaps } from '~/types/cost';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'w-24 p-2 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const SCOPES: Array<{ key: keyof BudgetCaps; label: string; spentKey: 'chat' | 'day' }> = [
+  { key: 'perChat', label: 'Per chat', spentKey: 'chat' },
+  { key: 'perDay', label: 'Per day', spentKey: 'day' },
+];
+
+export default function BudgetSettings() {
+  const { budgetCaps, setBudgetCaps } = useSettings();
+  const spending = useStore(spendingStore);
+
+  const updateCap = (scope: keyof BudgetCaps, level: keyof BudgetCap, value: string) => {
+    const amount = parseFloat(value);
+
+    setBudgetCaps({
+      ...budgetCaps,
+      [scope]: { ...budgetCaps[scope], [level]: Number.isFinite(amount) && amount > 0 ? amount : undefined },
+    });
+  };
+
+  return (
+    <motion.div
+      layout
+      className={classNames(
+        'bg-bolt-elements-background-depth-2',
+        'hover:bg-bolt-elements-background-depth-3',
+        'transition-all duration-200',
+        'rounded-lg p-4',
+        'group',
+      )}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+    >
+      <div className="flex items-center gap-4">
+        <div
+          className={classNames(
+            'p-2 rounded-lg text-xl',
+            'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+            'transition-colors duration-200',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:currency-dollar" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+            Spending Limits
+          </h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Soft limits show a warning, hard limits block new requests once reached. Amounts are in USD and only cover
+            models with known pricing. The limits are advisory: spending is tracked in this browser, not enforced by the
+            server
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-2">
+        {SCOPES.map(({ key, label, spentKey }) => (
+          <div key={key} className="flex items-center gap-3 text-sm">
+            <span className="w-20 text-bolt-elements-textPrimary">{label}</span>
+            <label className="flex items-center gap-2 text-bolt-elements-textSecondary">
+              Soft
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={budgetCaps[key]?.soft ?? ''}
+                onChange={(e) => updateCap(key, 'soft', e.target.value)}
+                placeholder="None"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-bolt-elements-textSecondary">
+              Hard
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={budgetCaps[key]?.hard ?? ''}
+                onChange={(e) => updateCap(key, 'hard', e.target.value)}
+                placeholder="None"
+                className={inputClassName}
+              />
+            </label>
+            <span className="ml-auto text-xs text-bolt-elements-textTertiary">
+              Spent: ${spending[spentKey].toFixed(2)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Switch } from '~/components/ui/Switch';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { classNames } from '~/utils/classNames';
+
+const THRESHOLD_OPTIONS = [0.4, 0.5, 0.6, 0.7, 0.8];
+
+export default function CompactionSettings() {
+  const { compaction, setCompaction } = useSettings();
+
+  return (
+    <motion.div
+      layout
+      className={classNames(
+        'bg-bolt-elements-background-depth-2',
+        'hover:bg-bolt-elements-background-depth-3',
+        'transition-all duration-200',
+        'rounded-lg p-4',
+        'group',
+      )}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+    >
+      <div className="flex items-center gap-4">
+        <div
+          className={classNames(
+            'p-2 rounded-lg text-xl',
+            'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+            'transition-colors duration-200',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:arrows-in-line-vertical" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+            Conversation Compaction
+          </h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Replace older turns of long chats with a summary of the decisions, files and open TODOs. The summary can be
+            edited from the chat header
+          </p>
+        </div>
+        <Switch checked={compaction.enabled} onCheckedChange={(enabled) => setCompaction({ ...compaction, enabled })} />
+      </div>
+
+      {compaction.enabled && (
+        <label className="mt-4 flex items-center gap-3 text-sm text-bolt-elements-textSecondary">
+          Compact when the history exceeds
+          <select
+            value={compaction.threshold}
+            onChange={(e) => setCompaction({ ...compaction, threshold: Number(e.target.value) })}
+            className={classNames(
+              'p-2 rounded-lg text-sm',
+              'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+              'text-bolt-elements-textPrimary',
+              'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+              'transition-all duration-200',
+            )}
+          >
+            {THRESHOLD_OPTIONS.map((threshold) => (
+              <option key={threshold} value={threshold}>
+                {Math.round(threshold * 100)}%
+              </option>
+            ))}
+          </select>
+          of the model&apos;s context window
+        </label>
+      )}
+    </motion.div>
+  );
+}
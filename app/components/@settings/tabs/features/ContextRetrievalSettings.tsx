@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { ContextRetrievalMode } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'p-2 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const MODES: Array<{ value: ContextRetrievalMode; label: string }> = [
+  { value: 'hybrid', label: 'Index + LLM: the model picks from the best ranked files' },
+  { value: 'index', label: 'Index only: no extra model call' },
+  { value: 'llm', label: 'LLM only: the model picks from every file' },
+];
+
+export default function ContextRetrievalSettings() {
+  const { activeProviders, contextOptimizationEnabled, contextRetrieval, setContextRetrieval } = useSettings();
+  const [provider, setProvider] = useState(contextRetrieval.embedding?.provider ?? '');
+  const [model, setModel] = useState(contextRetrieval.embedding?.model ?? '');
+
+  const selectedProvider = provider || activeProviders[0]?.name || '';
+
+  const saveEmbedding = () => {
+    const trimmedModel = model.trim();
+
+    setContextRetrieval({
+      ...contextRetrieval,
+      embedding: selectedProvider && trimmedModel ? { provider: selectedProvider, model: trimmedModel } : undefined,
+    });
+  };
+
+  return (
+    <motion.div
+      layout
+      className={classNames(
+        'bg-bolt-elements-background-depth-2',
+        'hover:bg-bolt-elements-background-depth-3',
+        'transition-all duration-200',
+        'rounded-lg p-4',
+        'group',
+        !contextOptimizationEnabled && 'opacity-60',
+      )}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <div className="flex items-center gap-4">
+        <div
+          className={classNames(
+            'p-2 rounded-lg text-xl',
+            'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+            'transition-colors duration-200',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:magnifying-glass" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+            Context Retrieval
+          </h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            How files are picked for the context buffer when context optimization is enabled. The project is indexed
+            locally as files change
+          </p>
+        </div>
+        <select
+          value={contextRetrieval.mode}
+          onChange={(e) => setContextRetrieval({ ...contextRetrieval, mode: e.target.value as ContextRetrievalMode })}
+          disabled={!contextOptimizationEnabled}
+          className={classNames(inputClassName, 'min-w-[200px]')}
+        >
+          {MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {contextRetrieval.mode !== 'llm' && (
+        <div className="mt-4 flex flex-col gap-2">
+          <p className="text-xs text-bolt-elements-textSecondary">
+            Optionally re-rank the index results with an embedding model. Leave the model empty to use the index alone
+          </p>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedProvider}
+              onChange={(e) => setProvider(e.target.value)}
+              className={classNames(inputClassName, 'min-w-[160px]')}
+            >
+              {activeProviders.map((x) => (
+                <option key={x.name} value={x.name}>
+                  {x.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              onBlur={saveEmbedding}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  saveEmbedding();
+                }
+              }}
+              placeholder="Embedding model, e.g. text-embedding-3-small"
+              className={classNames(inputClassName, 'flex-1')}
+            />
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
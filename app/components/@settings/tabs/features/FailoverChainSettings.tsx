@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'p-2 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+export default function FailoverChainSettings() {
+  const { activeProviders, failoverChain, setFailoverChain } = useSettings();
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  const selectedProvider = provider || activeProviders[0]?.name || '';
+
+  const addTarget = () => {
+    const trimmedModel = model.trim();
+
+    if (!selectedProvider || !trimmedModel) {
+      return;
+    }
+
+    if (failoverChain.some((target) => target.provider === selectedProvider && target.model === trimmedModel)) {
+      toast.info('This model is already in the failover chain');
+      return;
+    }
+
+    setFailoverChain([...failoverChain, { provider: selectedProvider, model: trimmedModel }]);
+    setModel('');
+    toast.success('Fallback model added');
+  };
+
+  const removeTarget = (index: number) => {
+    setFailoverChain(failoverChain.filter((_, i) => i !== index));
+  };
+
+  const moveTarget = (index: number, direction: -1 | 1) => {
+    const next = [...failoverChain];
+    const [target] = next.splice(index, 1);
+    next.splice(index + direction, 0, target);
+    setFailoverChain(next);
+  };
+
+  return (
+    <motion.div
+      layout
+      className={classNames(
+        'bg-bolt-elements-background-depth-2',
+        'hover:bg-bolt-elements-background-depth-3',
+        'transition-all duration-200',
+        'rounded-lg p-4',
+        'group',
+      )}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+    >
+      <div className="flex items-center gap-4">
+        <div
+          className={classNames(
+            'p-2 rounded-lg text-xl',
+            'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+            'transition-colors duration-200',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:arrows-split" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+            Provider Failover
+          </h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            When the selected model times out, is rate limited or returns a server error, the response continues with
+            the next model in this list
+          </p>
+        </div>
+      </div>
+
+      {failoverChain.length > 0 && (
+        <ol className="mt-4 flex flex-col gap-2">
+          {failoverChain.map((target, index) => (
+            <li
+              key={`${target.provider}-${target.model}`}
+              className="flex items-center gap-2 p-2 rounded-lg bg-bolt-elements-background-depth-3 text-sm"
+            >
+              <span className="w-5 text-bolt-elements-textTertiary">{index + 1}.</span>
+              <span className="text-bolt-elements-textPrimary">{target.model}</span>
+              <span className="text-bolt-elements-textSecondary">({target.provider})</span>
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={() => moveTarget(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                  title="Move up"
+                >
+                  <div className="i-ph:arrow-up" />
+                </button>
+                <button
+                  onClick={() => moveTarget(index, 1)}
+                  disabled={index === failoverChain.length - 1}
+                  className="p-1 rounded text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                  title="Move down"
+                >
+                  <div className="i-ph:arrow-down" />
+                </button>
+                <button
+                  onClick={() => removeTarget(index)}
+                  className="p-1 rounded text-bolt-elements-textSecondary hover:text-red-500"
+                  title="Remove"
+                >
+                  <div className="i-ph:trash" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="mt-4 flex items-center gap-2">
+        <select
+          value={selectedProvider}
+          onChange={(e) => setProvider(e.target.value)}
+          className={classNames(inputClassName, 'min-w-[160px]')}
+        >
+          {activeProviders.map((x) => (
+            <option key={x.name} value={x.name}>
+              {x.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              addTarget();
+            }
+          }}
+          placeholder="Model name, e.g. anthropic/claude-3.5-sonnet"
+          className={classNames(inputClassName, 'flex-1')}
+        />
+        <button
+          onClick={addTarget}
+          disabled={!selectedProvider || !model.trim()}
+          className={classNames(
+            'px-3 py-2 rounded-lg text-sm',
+            'bg-purple-500 text-white hover:bg-purple-600',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+            'transition-colors duration-200',
+          )}
+        >
+          Add
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -6,6 +6,11 @@ import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import FailoverChainSettings from './FailoverChainSettings';
+import ContextRetrievalSettings from './ContextRetrievalSettings';
+import BudgetSettings from './BudgetSettings';
+import SelfHealingSettings from './SelfHealingSettings';
+import CompactionSettings from './CompactionSettings';
 
 interface FeatureToggle {
   id: string;
@@ -117,6 +122,8 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    autoCommit,
+    setAutoCommit,
   } = useSettings();
 
   // Enable features by default on first load
@@ -170,11 +177,17 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'autoCommit': {
+          setAutoCommit(enabled);
+          toast.success(`Auto-commit ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs, setAutoCommit],
   );
 
   const features = {
@@ -212,7 +225,17 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'autoCommit',
+        title: 'Auto-commit Turns',
+        description: 'Commit the project to a local git history after every artifact',
+        icon: 'i-ph:git-commit',
+        enabled: autoCommit,
+        beta: true,
+        tooltip: 'Each commit is linked from its message, so the changes of a turn can be diffed or reverted',
+      },
+    ],
   };
 
   return (
@@ -290,6 +313,16 @@ export default function FeaturesTab() {
           </select>
         </div>
       </motion.div>
+
+      <ContextRetrievalSettings />
+
+      <CompactionSettings />
+
+      <BudgetSettings />
+
+      <SelfHealingSettings />
+
+      <FailoverChainSettings />
     </div>
   );
 }
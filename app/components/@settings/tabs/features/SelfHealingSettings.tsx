@@ -0,0 +1,81 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Switch } from '~/components/ui/Switch';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { classNames } from '~/utils/classNames';
+
+const MAX_ATTEMPTS_LIMIT = 10;
+
+export default function SelfHealingSettings() {
+  const { selfHealing, setSelfHealing } = useSettings();
+
+  const updateMaxAttempts = (value: string) => {
+    const attempts = parseInt(value, 10);
+
+    if (Number.isFinite(attempts)) {
+      setSelfHealing({ ...selfHealing, maxAttempts: Math.min(Math.max(attempts, 1), MAX_ATTEMPTS_LIMIT) });
+    }
+  };
+
+  return (
+    <motion.div
+      layout
+      className={classNames(
+        'bg-bolt-elements-background-depth-2',
+        'hover:bg-bolt-elements-background-depth-3',
+        'transition-all duration-200',
+        'rounded-lg p-4',
+        'group',
+      )}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+    >
+      <div className="flex items-center gap-4">
+        <div
+          className={classNames(
+            'p-2 rounded-lg text-xl',
+            'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+            'transition-colors duration-200',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:first-aid-kit" />
+        </div>
+        <div className="flex-1">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+            Auto-fix Errors
+          </h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Send preview and terminal errors to the model without asking. Stops when the same error comes back or the
+            attempts of a turn run out
+          </p>
+        </div>
+        <Switch
+          checked={selfHealing.enabled}
+          onCheckedChange={(enabled) => setSelfHealing({ ...selfHealing, enabled })}
+        />
+      </div>
+
+      {selfHealing.enabled && (
+        <label className="mt-4 flex items-center gap-3 text-sm text-bolt-elements-textSecondary">
+          Attempts per turn
+          <input
+            type="number"
+            min="1"
+            max={MAX_ATTEMPTS_LIMIT}
+            value={selfHealing.maxAttempts}
+            onChange={(e) => updateMaxAttempts(e.target.value)}
+            className={classNames(
+              'w-20 p-2 rounded-lg text-sm',
+              'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+              'text-bolt-elements-textPrimary',
+              'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+              'transition-all duration-200',
+            )}
+          />
+        </label>
+      )}
+    </motion.div>
+  );
+}
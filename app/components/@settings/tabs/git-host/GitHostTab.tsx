@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { Button } from '~/components/ui/Button';
+import type { GitHostConnectionId, GitHostConnectionStore } from '~/lib/stores/gitHostConnection';
+import { GitHostRepositorySelector } from './components/GitHostRepositorySelector';
+
+interface GitHostForm {
+  // asks for the instance url, for self-hosted hosts
+  selfHosted?: boolean;
+
+  // asks for the account username, which app passwords authenticate with
+  username?: string;
+  tokenLabel: string;
+  tokenUrl(url: string): string;
+  scopes: string;
+}
+
+const FORMS: Record<GitHostConnectionId, GitHostForm> = {
+  bitbucket: {
+    username: 'Username (leave empty for an access token)',
+    tokenLabel: 'App Password or Access Token',
+    tokenUrl: () => 'https://bitbucket.org/account/settings/app-passwords/',
+    scopes: 'Account: Read, Repositories: Admin, Write',
+  },
+  gitea: {
+    selfHosted: true,
+    tokenLabel: 'Access Token',
+    tokenUrl: (url) => `${url}/user/settings/applications`,
+    scopes: 'read:user, write:repository',
+  },
+};
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-1',
+  'border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive',
+  'disabled:opacity-50',
+);
+
+interface GitHostTabProps {
+  store: GitHostConnectionStore;
+}
+
+/**
+ * Settings of a git host integrated through `GitHostProvider`: the token connection and the
+ * repositories of the account.
+ */
+export default function GitHostTab({ store }: GitHostTabProps) {
+  const { id, name, defaultUrl } = store.config;
+  const form = FORMS[id];
+  const connection = useStore(store.connection);
+  const isConnecting = useStore(store.isConnecting);
+  const [url, setUrl] = useState(connection.url || defaultUrl);
+  const [username, setUsername] = useState('');
+  const [token, setToken] = useState('');
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      const user = await store.connect({
+        token: token.trim(),
+        username: username.trim() || undefined,
+        url: form.selfHosted ? url.trim() : undefined,
+      });
+
+      setToken('');
+      toast.success(`Connected to ${name} as ${user.username}`);
+    } catch (error) {
+      toast.error(`Failed to connect to ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDisconnect = () => {
+    store.disconnect();
+    toast.success(`Disconnected from ${name}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <div className="i-ph:git-branch w-5 h-5 text-bolt-elements-textPrimary" />
+        <h2 className="text-lg font-medium text-bolt-elements-textPrimary">{name} Integration</h2>
+      </div>
+      <p className="text-sm text-bolt-elements-textSecondary">
+        Connect your {name} account to import repositories and deploy your projects to them.
+      </p>
+
+      <motion.div
+        className="bg-bolt-elements-background border border-bolt-elements-borderColor rounded-lg p-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        {connection.user ? (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              {connection.user.avatarUrl && (
+                <img
+                  src={connection.user.avatarUrl}
+                  alt={connection.user.username}
+                  className="w-10 h-10 rounded-full"
+                />
+              )}
+              <div>
+                <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                  {connection.user.name || connection.user.username}
+                </p>
+                <p className="text-xs text-bolt-elements-textSecondary flex items-center gap-1">
+                  <span className="i-ph:check-circle w-3.5 h-3.5 text-green-500" />
+                  Connected to {connection.url || defaultUrl} as {connection.user.username}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {connection.user.webUrl && (
+                <Button
+                  variant="outline"
+                  onClick={() => window.open(connection.user!.webUrl, '_blank', 'noopener,noreferrer')}
+                  className="flex items-center gap-2"
+                >
+                  <div className="i-ph:arrow-square-out w-4 h-4" />
+                  Profile
+                </Button>
+              )}
+              <button
+                onClick={handleDisconnect}
+                className="px-4 py-2 rounded-lg text-sm flex items-center gap-2 bg-red-500 text-white hover:bg-red-600"
+              >
+                <div className="i-ph:plug w-4 h-4" />
+                Disconnect
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleConnect} className="space-y-4">
+            {form.selfHosted && (
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">{name} URL</label>
+                <input
+                  type="text"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  disabled={isConnecting}
+                  placeholder={defaultUrl}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            {form.username && (
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">{form.username}</label>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  disabled={isConnecting}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm text-bolt-elements-textSecondary mb-2">{form.tokenLabel}</label>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                disabled={isConnecting}
+                placeholder={`Enter your ${name} token`}
+                className={inputClassName}
+              />
+              <div className="mt-2 text-sm text-bolt-elements-textSecondary">
+                <a
+                  href={form.tokenUrl(url.replace(/\/+$/, ''))}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-bolt-elements-borderColorActive hover:underline inline-flex items-center gap-1"
+                >
+                  Get your token
+                  <div className="i-ph:arrow-square-out w-4 h-4" />
+                </a>
+                <span className="mx-2">•</span>
+                <span>Required permissions: {form.scopes}</span>
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isConnecting || !token.trim() || (form.selfHosted && !url.trim())}
+              className={classNames(
+                'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                'bg-accent-500 text-white hover:bg-accent-600',
+                'disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200',
+              )}
+            >
+              {isConnecting ? (
+                <>
+                  <div className="i-ph:spinner-gap animate-spin" />
+                  Connecting...
+                </>
+              ) : (
+                <>
+                  <div className="i-ph:plug-charging w-4 h-4" />
+                  Connect
+                </>
+              )}
+            </button>
+          </form>
+        )}
+      </motion.div>
+
+      {connection.user && <GitHostRepositorySelector store={store} />}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { Button } from '~/components/ui/Button';
+import { BranchSelector } from '~/components/ui/BranchSelector';
+import { splitFullName, type GitHostRepository } from '~/lib/services/gitHostProvider';
+import type { GitHostConnectionStore } from '~/lib/stores/gitHostConnection';
+import { classNames } from '~/utils/classNames';
+import { Calendar, GitBranch, Lock, RefreshCw, Search } from 'lucide-react';
+
+interface GitHostRepositorySelectorProps {
+  store: GitHostConnectionStore;
+
+  // without it the repositories are only listed
+  onClone?: (repoUrl: string, branch?: string) => void;
+  className?: string;
+}
+
+type SortOption = 'updated' | 'name';
+
+const REPOS_PER_PAGE = 12;
+
+export function GitHostRepositorySelector({ store, onClone, className }: GitHostRepositorySelectorProps) {
+  const connection = useStore(store.connection);
+  const [repositories, setRepositories] = useState<GitHostRepository[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState<SortOption>('updated');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedRepo, setSelectedRepo] = useState<GitHostRepository | null>(null);
+
+  const fetchRepositories = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setRepositories(await store.service().listRepositories());
+    } catch (err) {
+      console.error(`Failed to fetch ${store.config.name} repositories:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch repositories');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (connection.user) {
+      fetchRepositories();
+    }
+  }, [connection.user, connection.token]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchQuery, sortBy]);
+
+  const filteredRepositories = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+
+    return repositories
+      .filter(
+        (repo) =>
+          !query || repo.fullName.toLowerCase().includes(query) || repo.description?.toLowerCase().includes(query),
+      )
+      .sort((a, b) =>
+        sortBy === 'name'
+          ? a.name.localeCompare(b.name)
+          : new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime(),
+      );
+  }, [repositories, searchQuery, sortBy]);
+
+  const totalPages = Math.ceil(filteredRepositories.length / REPOS_PER_PAGE);
+  const currentRepositories = filteredRepositories.slice(
+    (currentPage - 1) * REPOS_PER_PAGE,
+    currentPage * REPOS_PER_PAGE,
+  );
+
+  if (!connection.user) {
+    return (
+      <div className="text-center p-8">
+        <p className="text-bolt-elements-textSecondary">
+          Connect to {store.config.name} in Settings first to browse repositories
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading && !repositories.length) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 space-y-4">
+        <div className="animate-spin w-8 h-8 border-2 border-bolt-elements-borderColorActive border-t-transparent rounded-full" />
+        <p className="text-sm text-bolt-elements-textSecondary">Loading repositories...</p>
+      </div>
+    );
+  }
+
+  if (error && !repositories.length) {
+    return (
+      <div className="text-center p-8">
+        <div className="text-red-500 mb-4">
+          <GitBranch className="w-12 h-12 mx-auto mb-2" />
+          <p className="font-medium">Failed to load repositories</p>
+          <p className="text-sm text-bolt-elements-textSecondary mt-1">{error}</p>
+        </div>
+        <Button variant="outline" onClick={fetchRepositories}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  const { owner, name } = splitFullName(selectedRepo?.fullName ?? '');
+
+  return (
+    <motion.div
+      className={classNames('space-y-6', className)}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-bolt-elements-textPrimary">
+            {onClone ? 'Select Repository to Clone' : 'Repositories'}
+          </h3>
+          <p className="text-sm text-bolt-elements-textSecondary">
+            {filteredRepositories.length} of {repositories.length} repositories
+          </p>
+        </div>
+        <Button
+          onClick={fetchRepositories}
+          disabled={isLoading}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className={classNames('w-4 h-4', { 'animate-spin': isLoading })} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-bolt-elements-textTertiary" />
+          <input
+            type="text"
+            placeholder="Search repositories..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 rounded-lg bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-bolt-elements-textTertiary" />
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as SortOption)}
+            className="px-3 py-2 rounded-lg bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor text-bolt-elements-textPrimary text-sm focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive"
+          >
+            <option value="updated">Recently updated</option>
+            <option value="name">Name (A-Z)</option>
+          </select>
+        </div>
+      </div>
+
+      {currentRepositories.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {currentRepositories.map((repo) => (
+            <a
+              key={repo.fullName}
+              href={repo.webUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="group block p-4 rounded-lg bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor hover:border-bolt-elements-borderColorActive transition-all duration-200"
+            >
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <div className="i-ph:git-repository w-4 h-4 flex-shrink-0 text-bolt-elements-icon-info" />
+                  <h5 className="text-sm font-medium text-bolt-elements-textPrimary truncate group-hover:text-bolt-elements-item-contentAccent transition-colors">
+                    {repo.fullName}
+                  </h5>
+                  {repo.private && <Lock className="w-3.5 h-3.5 flex-shrink-0 text-bolt-elements-textTertiary" />}
+                </div>
+                {repo.description && (
+                  <p className="text-xs text-bolt-elements-textSecondary line-clamp-2">{repo.description}</p>
+                )}
+                <div className="flex items-center gap-3 text-xs text-bolt-elements-textSecondary">
+                  <span className="flex items-center gap-1" title="Default Branch">
+                    <div className="i-ph:git-branch w-3.5 h-3.5" />
+                    {repo.defaultBranch}
+                  </span>
+                  {repo.updatedAt && (
+                    <span className="flex items-center gap-1" title="Last Updated">
+                      <div className="i-ph:clock w-3.5 h-3.5" />
+                      {new Date(repo.updatedAt).toLocaleDateString(undefined, {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                      })}
+                    </span>
+                  )}
+                  {onClone && (
+                    <button
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        setSelectedRepo(repo);
+                      }}
+                      className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-xs bg-bolt-elements-background-depth-2 hover:bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+                      title="Clone repository"
+                    >
+                      <div className="i-ph:git-branch w-3.5 h-3.5" />
+                      Clone
+                    </button>
+                  )}
+                </div>
+              </div>
+            </a>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8">
+          <p className="text-bolt-elements-textSecondary">
+            {repositories.length ? 'No repositories found matching your search.' : 'No repositories found.'}
+          </p>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 pt-4 border-t border-bolt-elements-borderColor">
+          <Button
+            onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+            disabled={currentPage === 1}
+            variant="outline"
+            size="sm"
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-bolt-elements-textSecondary px-3">
+            {currentPage} of {totalPages}
+          </span>
+          <Button
+            onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+            disabled={currentPage === totalPages}
+            variant="outline"
+            size="sm"
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      {selectedRepo && (
+        <BranchSelector
+          provider={store.config.id}
+          repoOwner={owner}
+          repoName={name}
+          token={connection.token}
+          service={store.service()}
+          defaultBranch={selectedRepo.defaultBranch}
+          onBranchSelect={(branch) => onClone?.(selectedRepo.cloneUrl, branch)}
+          onClose={() => setSelectedRepo(null)}
+          isOpen
+        />
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { customProviderConfigSchema } from '~/lib/modules/llm/custom-provider-config';
+import type { CustomProviderAuth, CustomProviderConfig, CustomProviderFormat } from '~/lib/modules/llm/types';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const FORMATS: Array<{ value: CustomProviderFormat; label: string }> = [
+  { value: 'openai', label: 'OpenAI compatible' },
+  { value: 'anthropic', label: 'Anthropic compatible' },
+  { value: 'gemini', label: 'Gemini compatible' },
+];
+
+const AUTH_SCHEMES: Array<{ value: CustomProviderAuth['scheme'] | 'default'; label: string }> = [
+  { value: 'default', label: 'Default for the format' },
+  { value: 'bearer', label: 'Bearer token' },
+  { value: 'header', label: 'Custom header' },
+  { value: 'query', label: 'Query parameter' },
+  { value: 'none', label: 'No auth' },
+];
+
+interface ProviderForm {
+  name: string;
+  baseUrl: string;
+  format: CustomProviderFormat;
+  authScheme: CustomProviderAuth['scheme'] | 'default';
+  authName: string;
+  models: string;
+  modelsPath: string;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  baseUrl: '',
+  format: 'openai',
+  authScheme: 'default',
+  authName: '',
+  models: '',
+  modelsPath: '',
+};
+
+function toForm(config: CustomProviderConfig): ProviderForm {
+  return {
+    name: config.name,
+    baseUrl: config.baseUrl,
+    format: config.format,
+    authScheme: config.auth?.scheme ?? 'default',
+    authName: config.auth?.name ?? '',
+    models: (config.models ?? []).map((model) => model.name).join(', '),
+    modelsPath: config.modelsPath ?? '',
+  };
+}
+
+function toConfig(form: ProviderForm, previous?: CustomProviderConfig): unknown {
+  const modelNames = form.models
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return {
+    name: form.name,
+    baseUrl: form.baseUrl.replace(/\/+$/, ''),
+    format: form.format,
+    auth:
+      form.authScheme === 'default' ? undefined : { scheme: form.authScheme, name: form.authName.trim() || undefined },
+
+    // keep the limits of models that were already defined
+    models: modelNames.length
+      ? modelNames.map((name) => previous?.models?.find((model) => model.name === name) ?? { name })
+      : undefined,
+    modelsPath: form.modelsPath.trim() || undefined,
+  };
+}
+
+const CustomProviders = () => {
+  const { customProviders, setCustomProviders } = useSettings();
+  const [form, setForm] = useState<ProviderForm | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const updateForm = (changes: Partial<ProviderForm>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = () => {
+    if (!form) {
+      return;
+    }
+
+    const previous = customProviders.find((config) => config.name === editing);
+    const result = customProviderConfigSchema.safeParse(toConfig(form, previous));
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      toast.error(`${issue.path.join('.') || 'Provider'}: ${issue.message}`);
+
+      return;
+    }
+
+    const config = result.data;
+
+    if (!config.models?.length && !config.modelsPath) {
+      toast.error('List the models or set the path of the models endpoint');
+      return;
+    }
+
+    if (PROVIDER_LIST.some((provider) => provider.name === config.name)) {
+      toast.error(`${config.name} is the name of a built-in provider`);
+      return;
+    }
+
+    if (config.name !== editing && customProviders.some((x) => x.name === config.name)) {
+      toast.error(`A custom provider called ${config.name} already exists`);
+      return;
+    }
+
+    setCustomProviders([...customProviders.filter((x) => x.name !== editing), config]);
+    toast.success(`${config.name} saved`);
+    setForm(null);
+    setEditing(null);
+  };
+
+  const handleRemove = (name: string) => {
+    setCustomProviders(customProviders.filter((config) => config.name !== name));
+    toast.success(`${name} removed`);
+  };
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center justify-between gap-4 mt-8 mb-4">
+        <div className="flex items-center gap-2">
+          <div
+            className={classNames(
+              'w-8 h-8 flex items-center justify-center rounded-lg',
+              'bg-bolt-elements-background-depth-3',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:plugs-connected w-5 h-5" />
+          </div>
+          <div>
+            <h4 className="text-md font-medium text-bolt-elements-textPrimary">Custom Providers</h4>
+            <p className="text-sm text-bolt-elements-textSecondary">
+              Connect any API that speaks the OpenAI, Anthropic or Gemini format. Set the API key next to the model
+              selector in the chat
+            </p>
+          </div>
+        </div>
+
+        {!form && (
+          <button
+            onClick={() => {
+              setForm(EMPTY_FORM);
+              setEditing(null);
+            }}
+            className={classNames(
+              'px-3 py-1.5 rounded-lg text-sm',
+              'bg-purple-500/10 text-purple-500 hover:bg-purple-500/20',
+              'transition-colors duration-200',
+            )}
+          >
+            Add provider
+          </button>
+        )}
+      </div>
+
+      {customProviders.length > 0 && (
+        <div className="flex flex-col gap-2">
+          {customProviders.map((config) => (
+            <div
+              key={config.name}
+              className="flex items-center gap-3 rounded-lg bg-bolt-elements-background-depth-2 px-4 py-3 text-sm"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-bolt-elements-textPrimary font-medium">{config.name}</div>
+                <div className="text-xs text-bolt-elements-textSecondary truncate">
+                  {FORMATS.find((format) => format.value === config.format)?.label} · {config.baseUrl}
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  setForm(toForm(config));
+                  setEditing(config.name);
+                }}
+                className="text-bolt-elements-textSecondary hover:text-purple-500 transition-colors"
+                title="Edit"
+              >
+                <div className="i-ph:pencil-simple" />
+              </button>
+              <button
+                onClick={() => handleRemove(config.name)}
+                className="text-bolt-elements-textSecondary hover:text-red-500 transition-colors"
+                title="Remove"
+              >
+                <div className="i-ph:trash" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {form && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 rounded-lg bg-bolt-elements-background-depth-2 p-4">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder="Name, e.g. MyGateway"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={form.baseUrl}
+            onChange={(e) => updateForm({ baseUrl: e.target.value })}
+            placeholder="Base URL, e.g. https://gateway.example.com/v1"
+            className={inputClassName}
+          />
+          <select
+            value={form.format}
+            onChange={(e) => updateForm({ format: e.target.value as CustomProviderFormat })}
+            className={inputClassName}
+          >
+            {FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>
+                {format.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <select
+              value={form.authScheme}
+              onChange={(e) => updateForm({ authScheme: e.target.value as ProviderForm['authScheme'] })}
+              className={classNames(inputClassName, 'flex-1')}
+            >
+              {AUTH_SCHEMES.map((scheme) => (
+                <option key={scheme.value} value={scheme.value}>
+                  {scheme.label}
+                </option>
+              ))}
+            </select>
+            {(form.authScheme === 'header' || form.authScheme === 'query') && (
+              <input
+                type="text"
+                value={form.authName}
+                onChange={(e) => updateForm({ authName: e.target.value })}
+                placeholder={form.authScheme === 'header' ? 'Header name' : 'Parameter name'}
+                className={classNames(inputClassName, 'flex-1')}
+              />
+            )}
+          </div>
+          <input
+            type="text"
+            value={form.models}
+            onChange={(e) => updateForm({ models: e.target.value })}
+            placeholder="Models, comma separated"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={form.modelsPath}
+            onChange={(e) => updateForm({ modelsPath: e.target.value })}
+            placeholder="Or models endpoint, e.g. /models"
+            className={inputClassName}
+          />
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setForm(null);
+                setEditing(null);
+              }}
+              className="px-3 py-1.5 rounded-lg text-sm text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default CustomProviders;
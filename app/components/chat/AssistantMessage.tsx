@@ -16,7 +16,9 @@ import type {
   StepStartUIPart,
 } from '@ai-sdk/ui-utils';
 import { ToolInvocations } from './ToolInvocations';
-import type { ToolCallAnnotation } from '~/types/context';
+import { isEditingTool } from '~/lib/common/editing-tools';
+import type { ChatCompaction, ContextBudget, ToolCallAnnotation, UsageAnnotation } from '~/types/context';
+import { conversationSummaryOpen } from './ConversationSummary';
 
 interface AssistantMessageProps {
   content: string;
@@ -24,14 +26,14 @@ interface AssistantMessageProps {
   messageId?: string;
   onRewind?: (messageId: string) => void;
   onFork?: (messageId: string) => void;
+  onRestore?: (messageId: string) => void;
   append?: (message: Message) => void;
   chatMode?: 'discuss' | 'build';
   setChatMode?: (mode: 'discuss' | 'build') => void;
   model?: string;
   provider?: ProviderInfo;
   parts:
-    | (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[]
-    | undefined;
+    (TextUIPart | ReasoningUIPart | ToolInvocationUIPart | SourceUIPart | FileUIPart | StepStartUIPart)[] | undefined;
   addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
 }
 
@@ -66,6 +68,7 @@ export const AssistantMessage = memo(
     messageId,
     onRewind,
     onFork,
+    onRestore,
     append,
     chatMode,
     setChatMode,
@@ -86,18 +89,28 @@ export const AssistantMessage = memo(
     }
 
     let codeContext: string[] | undefined = undefined;
+    let contextBudget: ContextBudget | undefined = undefined;
 
     if (filteredAnnotations.find((annotation) => annotation.type === 'codeContext')) {
       codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
+      contextBudget = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.budget;
     }
 
-    const usage: {
-      completionTokens: number;
-      promptTokens: number;
-      totalTokens: number;
-    } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+    const compaction = filteredAnnotations.find((annotation) => annotation.type === 'compaction')?.compaction as
+      ChatCompaction | undefined;
 
-    const toolInvocations = parts?.filter((part) => part.type === 'tool-invocation');
+    const trimmedFiles = contextBudget?.files.filter((file) => file.status !== 'included') ?? [];
+
+    const usageAnnotation = filteredAnnotations.find((annotation) => annotation.type === 'usage') as
+      UsageAnnotation | undefined;
+    const usage = usageAnnotation?.value;
+    const cost = usageAnnotation?.cost;
+
+    // editing tool calls are shown as an artifact in the message content instead
+    const toolInvocations = parts?.filter(
+      (part): part is ToolInvocationUIPart =>
+        part.type === 'tool-invocation' && !isEditingTool(part.toolInvocation.toolName),
+    );
     const toolCallAnnotations = filteredAnnotations.filter(
       (annotation) => annotation.type === 'toolCall',
     ) as ToolCallAnnotation[];
@@ -106,7 +119,7 @@ export const AssistantMessage = memo(
       <div className="overflow-hidden w-full">
         <>
           <div className=" flex gap-2 items-center text-sm text-bolt-elements-textSecondary mb-2">
-            {(codeContext || chatSummary) && (
+            {(codeContext || chatSummary || contextBudget) && (
               <Popover side="right" align="start" trigger={<div className="i-ph:info" />}>
                 {chatSummary && (
                   <div className="max-w-chat">
@@ -142,16 +155,71 @@ export const AssistantMessage = memo(
                     )}
                   </div>
                 )}
-                <div className="context"></div>
+                {contextBudget && (
+                  <div className="context max-w-chat flex flex-col gap-2 p4 mt-2 border border-bolt-elements-borderColor rounded-md text-xs">
+                    <h2>Context Budget</h2>
+                    <div>
+                      {contextBudget.used.toLocaleString()} of {contextBudget.inputBudget.toLocaleString()} input tokens
+                      used ({contextBudget.model}, {contextBudget.contextWindow.toLocaleString()} token window,{' '}
+                      {contextBudget.completionTokens.toLocaleString()} reserved for the response)
+                    </div>
+                    <ul className="grid grid-cols-2 gap-x-4">
+                      <li>System prompt: {contextBudget.allocation.system.toLocaleString()}</li>
+                      <li>
+                        Summary: {contextBudget.allocation.summary.toLocaleString()}
+                        {contextBudget.summaryTruncated && ' (truncated)'}
+                      </li>
+                      <li>Files: {contextBudget.allocation.files.toLocaleString()}</li>
+                      <li>History: {contextBudget.allocation.history.toLocaleString()}</li>
+                    </ul>
+                    {contextBudget.droppedMessages > 0 && (
+                      <div>{contextBudget.droppedMessages} older message(s) left out to fit the context window</div>
+                    )}
+                    {trimmedFiles.length > 0 && (
+                      <ul className="flex flex-col gap-1">
+                        {trimmedFiles.map((file) => (
+                          <li key={file.path}>
+                            <code>{normalizedFilePath(file.path)}</code>{' '}
+                            {file.status === 'truncated'
+                              ? `truncated to ${file.tokens.toLocaleString()} of ${file.originalTokens?.toLocaleString()} tokens`
+                              : `omitted, needs ${file.originalTokens?.toLocaleString()} tokens`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </Popover>
             )}
+            {compaction && (
+              <button
+                className="flex items-center gap-1 shrink-0 hover:text-bolt-elements-textPrimary"
+                onClick={() => conversationSummaryOpen.set(true)}
+                title="View the conversation summary"
+              >
+                <div className="i-ph:notepad" />
+                {compaction.messageCount} earlier messages summarized
+              </button>
+            )}
             <div className="flex w-full items-center justify-between">
               {usage && (
                 <div>
                   Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
+                  {cost && cost.entries.length > 0 && (
+                    <WithTooltip
+                      tooltip={cost.entries
+                        .map(
+                          (entry) =>
+                            `${entry.stage}: ${entry.model} ${entry.cost === undefined ? 'no pricing' : `$${entry.cost.toFixed(4)}`}`,
+                        )
+                        .join(' · ')}
+                    >
+                      <span className="ml-2">Cost: ${cost.total.toFixed(4)}</span>
+                    </WithTooltip>
+                  )}
                 </div>
               )}
-              {(onRewind || onFork) && messageId && (
+              {(onRewind || onFork || onRestore) && messageId && (
                 <div className="flex gap-2 flex-col lg:flex-row ml-auto">
                   {onRewind && (
                     <WithTooltip tooltip="Revert to this message">
@@ -171,6 +239,15 @@ export const AssistantMessage = memo(
                       />
                     </WithTooltip>
                   )}
+                  {onRestore && (
+                    <WithTooltip tooltip="Restore workspace to this message">
+                      <button
+                        onClick={() => onRestore(messageId)}
+                        key="i-ph:clock-counter-clockwise"
+                        className="i-ph:clock-counter-clockwise text-xl text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+                      />
+                    </WithTooltip>
+                  )}
                 </div>
               )}
             </div>
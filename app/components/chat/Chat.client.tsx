@@ -5,13 +5,16 @@ import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
+import { chatCompaction, chatDesignScheme, description, setChatDesignScheme, useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY } from '~/utils/constants';
+import { LLMManager } from '~/lib/modules/llm/manager';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
+import { getAlertFixMessage } from './ChatAlert';
+import { selfHealingLoop } from '~/lib/runtime/self-healing';
 import Cookies from 'js-cookie';
 import { debounce } from '~/utils/debounce';
 import { useSettings } from '~/lib/hooks/useSettings';
@@ -21,16 +24,35 @@ import { createSampler } from '~/utils/sampler';
 import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTemplate';
 import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
+import { spendingStore } from '~/lib/stores/spending';
+import { customProvidersStore, editingModesStore, getEditingModeKey } from '~/lib/stores/settings';
 import { filesToArtifacts } from '~/utils/fileUtils';
 import { supabaseConnection } from '~/lib/stores/supabase';
-import { defaultDesignScheme, type DesignScheme } from '~/types/design-scheme';
+import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import type { TextUIPart, FileUIPart, Attachment } from '@ai-sdk/ui-utils';
 import { useMCPStore } from '~/lib/stores/mcp';
 import type { LlmErrorAlertType } from '~/types/actions';
+import { createResumableFetch } from '~/lib/api/resumable-fetch';
+import { useChatTabSync } from '~/lib/hooks/useChatTabSync';
+import { remoteSyncStore } from '~/lib/stores/remoteSync';
 
 const logger = createScopedLogger('Chat');
 
+const RECONNECT_TOAST_ID = 'chat-reconnect';
+
+const resumableFetch = createResumableFetch({
+  onReconnecting: (attempt) => {
+    if (attempt === 1) {
+      toast.warning('Connection lost. Reconnecting...', { toastId: RECONNECT_TOAST_ID, autoClose: false });
+    }
+  },
+  onResumed: () => {
+    toast.dismiss(RECONNECT_TOAST_ID);
+    toast.success('Reconnected. Resuming response.');
+  },
+});
+
 export function Chat() {
   renderLogger.trace('Chat');
 
@@ -92,7 +114,8 @@ export const ChatImpl = memo(
     const [searchParams, setSearchParams] = useSearchParams();
     const [fakeLoading, setFakeLoading] = useState(false);
     const files = useStore(workbenchStore.files);
-    const [designScheme, setDesignScheme] = useState<DesignScheme>(defaultDesignScheme);
+    const designScheme = useStore(chatDesignScheme);
+    const compaction = useStore(chatCompaction);
     const actionAlert = useStore(workbenchStore.alert);
     const deployAlert = useStore(workbenchStore.deployAlert);
     const supabaseConn = useStore(supabaseConnection);
@@ -100,7 +123,19 @@ export const ChatImpl = memo(
       (project) => project.id === supabaseConn.selectedProjectId,
     );
     const supabaseAlert = useStore(workbenchStore.supabaseAlert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const {
+      activeProviders,
+      promptId,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      failoverChain,
+      contextRetrieval,
+      budgetCaps,
+      selfHealing,
+      compaction: compactionSettings,
+    } = useSettings();
+    const spending = useStore(spendingStore);
+    const editingModes = useStore(editingModesStore);
     const [llmErrorAlert, setLlmErrorAlert] = useState<LlmErrorAlertType | undefined>(undefined);
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -108,7 +143,11 @@ export const ChatImpl = memo(
     });
     const [provider, setProvider] = useState(() => {
       const savedProvider = Cookies.get('selectedProvider');
-      return (PROVIDER_LIST.find((p) => p.name === savedProvider) || DEFAULT_PROVIDER) as ProviderInfo;
+      const manager = LLMManager.getInstance();
+      const customProviders = manager.getCustomProviders(customProvidersStore.get());
+
+      return ((savedProvider && manager.getProvider(savedProvider, customProviders)) ||
+        DEFAULT_PROVIDER) as ProviderInfo;
     });
     const { showChat } = useStore(chatStore);
     const [animationScope, animate] = useAnimate();
@@ -133,6 +172,7 @@ export const ChatImpl = memo(
       addToolResult,
     } = useChat({
       api: '/api/chat',
+      fetch: resumableFetch,
       body: {
         apiKeys,
         files,
@@ -149,6 +189,12 @@ export const ChatImpl = memo(
           },
         },
         maxLLMSteps: mcpSettings.maxLLMSteps,
+        failoverChain,
+        contextRetrieval,
+        spendingLimits: { caps: budgetCaps, spent: spending },
+        editingMode: editingModes[getEditingModeKey(provider.name, model)] ?? 'artifacts',
+        compaction,
+        compactionSettings,
       },
       sendExtraMessageFields: true,
       onError: (e) => {
@@ -191,6 +237,19 @@ export const ChatImpl = memo(
       }
     }, [model, provider, searchParams]);
 
+    const { mirrorStreaming } = useChatTabSync({ messages, isLoading, setMessages });
+
+    // a sync with the upstream repository reports what it changed in the chat
+    useEffect(
+      () =>
+        remoteSyncStore.summary.listen((message) => {
+          if (message) {
+            setMessages((current) => [...current, message]);
+          }
+        }),
+      [],
+    );
+
     const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
     const { parsedMessages, parseMessages } = useMessageParser();
 
@@ -270,6 +329,9 @@ export const ChatImpl = memo(
         } else if (errorInfo.statusCode === 429 || errorInfo.message.toLowerCase().includes('rate limit')) {
           errorType = 'rate_limit';
           title = 'Rate Limit Exceeded';
+        } else if (errorInfo.statusCode === 402) {
+          errorType = 'quota';
+          title = 'Budget Limit Reached';
         } else if (errorInfo.message.toLowerCase().includes('quota')) {
           errorType = 'quota';
           title = 'Quota Exceeded';
@@ -386,7 +448,7 @@ export const ChatImpl = memo(
       return attachments;
     };
 
-    const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
+    const sendMessage = async (_event?: React.UIEvent, messageInput?: string, automatic = false) => {
       const messageContent = messageInput || input;
 
       if (!messageContent?.trim()) {
@@ -398,6 +460,11 @@ export const ChatImpl = memo(
         return;
       }
 
+      // a message from the user starts a new turn with fresh auto-fix attempts
+      if (!automatic) {
+        selfHealingLoop.reset();
+      }
+
       let finalMessageContent = messageContent;
 
       if (selectedElement) {
@@ -510,6 +577,12 @@ export const ChatImpl = memo(
 
       const modifiedFiles = workbenchStore.getModifiedFiles();
 
+      // rank the project files locally so the server does not have to offer the model every path
+      const contextCandidatesBody =
+        contextOptimizationEnabled && contextRetrieval.mode !== 'llm'
+          ? { contextCandidates: workbenchStore.rankContextFiles(messageContent) }
+          : undefined;
+
       chatStore.setKey('aborted', false);
 
       if (modifiedFiles !== undefined) {
@@ -525,7 +598,7 @@ export const ChatImpl = memo(
             content: messageText,
             parts: createMessageParts(messageText, imageDataList),
           },
-          attachmentOptions,
+          { ...attachmentOptions, body: contextCandidatesBody },
         );
 
         workbenchStore.resetAllFileModifications();
@@ -541,7 +614,7 @@ export const ChatImpl = memo(
             content: messageText,
             parts: createMessageParts(messageText, imageDataList),
           },
-          attachmentOptions,
+          { ...attachmentOptions, body: contextCandidatesBody },
         );
       }
 
@@ -576,6 +649,29 @@ export const ChatImpl = memo(
       [],
     );
 
+    // alerts flagged for auto-send and errors picked up by the auto-fix loop go back to the model once it is idle
+    useEffect(() => {
+      if (!actionAlert || isLoading) {
+        return;
+      }
+
+      if (actionAlert.autoSend) {
+        workbenchStore.clearAlert();
+        sendMessage(undefined, getAlertFixMessage(actionAlert), true);
+
+        return;
+      }
+
+      const decision = selfHealingLoop.next(actionAlert, workbenchStore.files.get(), selfHealing);
+
+      if (decision.type === 'send') {
+        workbenchStore.clearAlert();
+        sendMessage(undefined, decision.message, true);
+      } else if (decision.type === 'stop') {
+        workbenchStore.actionAlert.set(decision.alert);
+      }
+    }, [actionAlert, isLoading]);
+
     useEffect(() => {
       const storedApiKeys = Cookies.get('apiKeys');
 
@@ -601,7 +697,7 @@ export const ChatImpl = memo(
         input={input}
         showChat={showChat}
         chatStarted={chatStarted}
-        isStreaming={isLoading || fakeLoading}
+        isStreaming={isLoading || fakeLoading || mirrorStreaming}
         onStreamingChange={(streaming) => {
           streamingState.set(streaming);
         }}
@@ -660,7 +756,9 @@ export const ChatImpl = memo(
         setChatMode={setChatMode}
         append={append}
         designScheme={designScheme}
-        setDesignScheme={setDesignScheme}
+        setDesignScheme={(scheme: DesignScheme) =>
+          setChatDesignScheme(scheme).catch((error) => toast.error(error.message))
+        }
         selectedElement={selectedElement}
         setSelectedElement={setSelectedElement}
         addToolResult={addToolResult}
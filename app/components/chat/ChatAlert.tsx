@@ -8,14 +8,28 @@ interface Props {
   postMessage: (message: string) => void;
 }
 
+// the message sent to the model when the user, or an auto-sent alert, asks for a fix
+export function getAlertFixMessage({ description, content, source }: ActionAlert) {
+  if (source === 'patch') {
+    return `*Redo this failed edit* (${description}). Read the file again and use lines that exist in it, or rewrite the whole file \n\`\`\`\n${content}\n\`\`\`\n`;
+  }
+
+  const isPreview = source === 'preview';
+
+  return `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`;
+}
+
 export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
-  const { description, content, source } = alert;
+  const { description, source } = alert;
 
   const isPreview = source === 'preview';
-  const title = isPreview ? 'Preview Error' : 'Terminal Error';
-  const message = isPreview
-    ? 'We encountered an error while running the preview. Would you like Bolt to analyze and help resolve this issue?'
-    : 'We encountered an error while running terminal commands. Would you like Bolt to analyze and help resolve this issue?';
+  const isPatch = source === 'patch';
+  const title = isPatch ? 'Patch Failed' : isPreview ? 'Preview Error' : 'Terminal Error';
+  const message = isPatch
+    ? 'An edit could not be applied because the file does not contain the lines it changes. Would you like Bolt to redo the edit?'
+    : isPreview
+      ? 'We encountered an error while running the preview. Would you like Bolt to analyze and help resolve this issue?'
+      : 'We encountered an error while running terminal commands. Would you like Bolt to analyze and help resolve this issue?';
 
   return (
     <AnimatePresence>
@@ -69,11 +83,7 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
             >
               <div className={classNames(' flex gap-2')}>
                 <button
-                  onClick={() =>
-                    postMessage(
-                      `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`,
-                    )
-                  }
+                  onClick={() => postMessage(getAlertFixMessage(alert))}
                   className={classNames(
                     `px-2 py-1.5 rounded-md text-sm font-medium`,
                     'bg-bolt-elements-button-primary-background',
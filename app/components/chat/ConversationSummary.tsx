@@ -0,0 +1,140 @@
+import { useStore } from '@nanostores/react';
+import { atom } from 'nanostores';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { chatCompaction, saveChatCompaction } from '~/lib/persistence';
+import type { ConversationSummary } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+export const conversationSummaryOpen = atom(false);
+
+interface SummaryDraft {
+  decisions: string;
+  files: string;
+  todos: string;
+}
+
+// one entry per line, files as `path: description`
+function toDraft(summary: ConversationSummary): SummaryDraft {
+  return {
+    decisions: summary.decisions.join('\n'),
+    files: summary.files.map((file) => (file.description ? `${file.path}: ${file.description}` : file.path)).join('\n'),
+    todos: summary.todos.join('\n'),
+  };
+}
+
+function fromDraft(draft: SummaryDraft): ConversationSummary {
+  const lines = (text: string) =>
+    text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  return {
+    decisions: lines(draft.decisions),
+    files: lines(draft.files).map((line) => {
+      const separator = line.indexOf(': ');
+
+      return separator === -1
+        ? { path: line, description: '' }
+        : { path: line.slice(0, separator), description: line.slice(separator + 2) };
+    }),
+    todos: lines(draft.todos),
+  };
+}
+
+const FIELDS: { key: keyof SummaryDraft; label: string; placeholder: string }[] = [
+  { key: 'decisions', label: 'Decisions', placeholder: 'One decision per line' },
+  { key: 'files', label: 'Files', placeholder: 'src/App.tsx: what the file holds' },
+  { key: 'todos', label: 'Open TODOs', placeholder: 'One TODO per line' },
+];
+
+/**
+ * Header button showing the summary that replaced the older turns of the chat, where the user can
+ * correct it before it is sent with the next message.
+ */
+export function ConversationSummaryButton() {
+  const compaction = useStore(chatCompaction);
+  const isOpen = useStore(conversationSummaryOpen);
+  const [draft, setDraft] = useState<SummaryDraft>({ decisions: '', files: '', todos: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && compaction) {
+      setDraft(toDraft(compaction.summary));
+    }
+  }, [isOpen]);
+
+  if (!compaction) {
+    return null;
+  }
+
+  const close = () => conversationSummaryOpen.set(false);
+
+  const save = async () => {
+    setIsSaving(true);
+
+    try {
+      await saveChatCompaction(fromDraft(draft));
+      toast.success('Conversation summary saved');
+      close();
+    } catch (error) {
+      toast.error('Failed to save the conversation summary: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => conversationSummaryOpen.set(true)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-md border border-bolt-elements-borderColor text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive"
+        title="Summary of the compacted messages"
+      >
+        <div className="i-ph:notepad" />
+        <span>Summary</span>
+      </button>
+      <DialogRoot open={isOpen} onOpenChange={(open) => !open && close()}>
+        <Dialog onBackdrop={close} onClose={close} className="w-[640px]">
+          <div className="p-6 bg-white dark:bg-gray-950 flex flex-col gap-4">
+            <div>
+              <DialogTitle className="text-gray-900 dark:text-white">Conversation Summary</DialogTitle>
+              <DialogDescription className="mt-2 text-gray-600 dark:text-gray-400">
+                Sent in place of the first {compaction.messageCount} message(s) of this chat. Last updated{' '}
+                {new Date(compaction.updatedAt).toLocaleString()}
+                {compaction.editedAt && ', edited by you'}.
+              </DialogDescription>
+            </div>
+            {FIELDS.map(({ key, label, placeholder }) => (
+              <label key={key} className="flex flex-col gap-1 text-sm text-bolt-elements-textSecondary">
+                {label}
+                <textarea
+                  value={draft[key]}
+                  placeholder={placeholder}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                  rows={5}
+                  className={classNames(
+                    'w-full p-2 rounded-lg text-sm font-mono resize-y',
+                    'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                    'text-bolt-elements-textPrimary',
+                    'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                  )}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3 px-6 py-4 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800">
+            <DialogButton type="secondary" onClick={close}>
+              Cancel
+            </DialogButton>
+            <DialogButton type="primary" onClick={save} disabled={isSaving}>
+              Save
+            </DialogButton>
+          </div>
+        </Dialog>
+      </DialogRoot>
+    </>
+  );
+}
@@ -15,6 +15,8 @@ import { X, Github, GitBranch } from 'lucide-react';
 // Import the new repository selector components
 import { GitHubRepositorySelector } from '~/components/@settings/tabs/github/components/GitHubRepositorySelector';
 import { GitLabRepositorySelector } from '~/components/@settings/tabs/gitlab/components/GitLabRepositorySelector';
+import { GitHostRepositorySelector } from '~/components/@settings/tabs/git-host/components/GitHostRepositorySelector';
+import { gitHostConnectionStores, type GitHostConnectionId } from '~/lib/stores/gitHostConnection';
 
 const IGNORE_PATTERNS = [
   'node_modules/**',
@@ -51,19 +53,24 @@ export default function GitCloneButton({ importChat, className }: GitCloneButton
   const { ready, gitClone } = useGit();
   const [loading, setLoading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [selectedProvider, setSelectedProvider] = useState<'github' | 'gitlab' | null>(null);
+  const [selectedProvider, setSelectedProvider] = useState<'github' | 'gitlab' | GitHostConnectionId | null>(null);
+  const gitHostStore =
+    selectedProvider === 'bitbucket' || selectedProvider === 'gitea' ? gitHostConnectionStores[selectedProvider] : null;
 
-  const handleClone = async (repoUrl: string) => {
+  const handleClone = async (cloneUrl: string, branch?: string) => {
     if (!ready) {
       return;
     }
 
+    // the branch picked in a repository selector, cloned and synced as `url#branch`
+    const repoUrl = branch ? `${cloneUrl}#${branch}` : cloneUrl;
+
     setLoading(true);
     setIsDialogOpen(false);
     setSelectedProvider(null);
 
     try {
-      const { workdir, data } = await gitClone(repoUrl);
+      const { workdir, data, commit } = await gitClone(repoUrl);
 
       if (importChat) {
         const filePaths = Object.keys(data).filter((filePath) => !ig.ignores(filePath));
@@ -150,7 +157,10 @@ ${escapeBoltTags(file.content)}
           messages.push(commandsMessage);
         }
 
-        await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages);
+        await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages, {
+          gitUrl: repoUrl,
+          gitCommit: commit,
+        });
       }
     } catch (error) {
       console.error('Error during import:', error);
@@ -243,7 +253,65 @@ ${escapeBoltTags(file.content)}
                     </div>
                   </div>
                 </button>
+
+                {Object.entries(gitHostConnectionStores).map(([id, store]) => (
+                  <button
+                    key={id}
+                    onClick={() => setSelectedProvider(id as GitHostConnectionId)}
+                    className="w-full p-4 rounded-lg bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-1 hover:bg-bolt-elements-background-depth-2 dark:hover:bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor hover:border-bolt-elements-borderColorActive dark:hover:border-bolt-elements-borderColorActive transition-all duration-200 text-left group"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-green-500/10 dark:bg-green-500/20 flex items-center justify-center group-hover:bg-green-500/20 dark:group-hover:bg-green-500/30 transition-colors">
+                        <GitBranch className="w-6 h-6 text-green-600 dark:text-green-400" />
+                      </div>
+                      <div>
+                        <div className="font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary">
+                          {store.config.name}
+                        </div>
+                        <div className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary">
+                          Clone from {store.config.name} repositories
+                        </div>
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Bitbucket and Gitea Repository Selection */}
+      {isDialogOpen && gitHostStore && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white dark:bg-gray-950 rounded-xl shadow-xl border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor w-full max-w-4xl max-h-[90vh] overflow-hidden">
+            <div className="p-6 border-b border-bolt-elements-borderColor dark:border-bolt-elements-borderColor flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-green-500/10 dark:bg-green-500/20 flex items-center justify-center">
+                  <GitBranch className="w-6 h-6 text-green-600 dark:text-green-400" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary">
+                    Import {gitHostStore.config.name} Repository
+                  </h3>
+                  <p className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary">
+                    Clone a repository from {gitHostStore.config.name} to your workspace
+                  </p>
+                </div>
               </div>
+              <button
+                onClick={() => {
+                  setIsDialogOpen(false);
+                  setSelectedProvider(null);
+                }}
+                className="p-2 rounded-lg bg-transparent hover:bg-bolt-elements-background-depth-1 dark:hover:bg-bolt-elements-background-depth-1 text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary dark:hover:text-bolt-elements-textPrimary transition-all duration-200 hover:scale-105 active:scale-95"
+              >
+                <X className="w-5 h-5 transition-transform duration-200 hover:rotate-90" />
+              </button>
+            </div>
+
+            <div className="p-6 max-h-[calc(90vh-140px)] overflow-y-auto">
+              <GitHostRepositorySelector store={gitHostStore} onClone={handleClone} />
             </div>
           </div>
         </div>
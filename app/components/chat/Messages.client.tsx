@@ -1,11 +1,16 @@
+import { useStore } from '@nanostores/react';
 import type { Message } from 'ai';
-import { Fragment } from 'react';
+import { Fragment, useEffect, useRef } from 'react';
 import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
 import { UserMessage } from './UserMessage';
 import { useLocation } from '@remix-run/react';
-import { db, chatId } from '~/lib/persistence/useChatHistory';
-import { forkChat } from '~/lib/persistence/db';
+import { db, chatId, chatMetadata, restoreWorkspace } from '~/lib/persistence/useChatHistory';
+import { forkChat, getMessageSnapshot, getMessageSnapshotIds } from '~/lib/persistence/db';
+import { findSnapshotMessageId } from '~/lib/persistence/messageSnapshots';
+import { gitStore } from '~/lib/stores/git';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { FileMap } from '~/lib/stores/files';
 import { toast } from 'react-toastify';
 import { forwardRef } from 'react';
 import type { ForwardedRef } from 'react';
@@ -28,6 +33,23 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
   (props: MessagesProps, ref: ForwardedRef<HTMLDivElement> | undefined) => {
     const { id, isStreaming = false, messages = [] } = props;
     const location = useLocation();
+    const targetMessageId = new URLSearchParams(location.search).get('message');
+    const scrolledToTarget = useRef(false);
+    const turnCommits = useStore(chatMetadata)?.turnCommits ?? {};
+
+    // jump to the message a sidebar search result links to
+    useEffect(() => {
+      if (!targetMessageId || scrolledToTarget.current) {
+        return;
+      }
+
+      const element = document.querySelector(`[data-message-id="${CSS.escape(targetMessageId)}"]`);
+
+      if (element) {
+        scrolledToTarget.current = true;
+        element.scrollIntoView({ block: 'center' });
+      }
+    }, [targetMessageId, messages.length]);
 
     const handleRewind = (messageId: string) => {
       const searchParams = new URLSearchParams(location.search);
@@ -49,6 +71,63 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
       }
     };
 
+    const restore = async (files: FileMap) => {
+      const previousFiles = workbenchStore.files.get();
+
+      await restoreWorkspace(files);
+
+      toast.success(
+        ({ closeToast }) => (
+          <div className="flex items-center justify-between gap-4">
+            <span>Workspace restored</span>
+            <button
+              className="font-medium underline"
+              onClick={() => {
+                closeToast?.();
+                restoreWorkspace(previousFiles).catch((error) =>
+                  toast.error('Failed to undo the restore: ' + (error as Error).message),
+                );
+              }}
+            >
+              Undo
+            </button>
+          </div>
+        ),
+        { autoClose: 10000 },
+      );
+    };
+
+    const handleRestore = async (messageId: string) => {
+      try {
+        const id = chatId.get();
+
+        if (!db || !id) {
+          toast.error('Chat persistence is not available');
+          return;
+        }
+
+        const snapshotIds = new Set(await getMessageSnapshotIds(db, id));
+        const snapshotId = findSnapshotMessageId(messages, messageId, snapshotIds);
+        const snapshot = snapshotId && (await getMessageSnapshot(db, id, snapshotId));
+
+        if (!snapshot) {
+          toast.info('No files were recorded up to this message');
+          return;
+        }
+
+        await restore(snapshot.files);
+      } catch (error) {
+        toast.error('Failed to restore the workspace: ' + (error as Error).message);
+      }
+    };
+
+    // shows the changes of an auto-committed turn in the Git panel, where it can be reverted
+    const showCommit = (oid: string) => {
+      gitStore.selectedCommit.set(oid);
+      workbenchStore.currentView.set('git');
+      workbenchStore.showWorkbench.set(true);
+    };
+
     return (
       <div id={id} className={props.className} ref={ref}>
         {messages.length > 0
@@ -65,8 +144,10 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
               return (
                 <div
                   key={index}
+                  data-message-id={messageId}
                   className={classNames('flex gap-4 py-3 w-full rounded-lg', {
                     'mt-4': !isFirst,
+                    'ring-1 ring-bolt-elements-borderColorActive': messageId === targetMessageId,
                   })}
                 >
                   <div className="grid grid-col-1 w-full">
@@ -79,6 +160,7 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                         messageId={messageId}
                         onRewind={handleRewind}
                         onFork={handleFork}
+                        onRestore={isStreaming ? undefined : handleRestore}
                         append={props.append}
                         chatMode={props.chatMode}
                         setChatMode={props.setChatMode}
@@ -88,6 +170,16 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                         addToolResult={props.addToolResult}
                       />
                     )}
+                    {!isUserMessage && turnCommits[messageId] && (
+                      <button
+                        className="flex items-center gap-1 mt-2 w-fit text-xs text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+                        title="Show the changes of this turn"
+                        onClick={() => showCommit(turnCommits[messageId])}
+                      >
+                        <span className="i-ph:git-commit" />
+                        <span className="font-mono">{turnCommits[messageId].slice(0, 7)}</span>
+                      </button>
+                    )}
                   </div>
                 </div>
               );
@@ -3,6 +3,8 @@ import { useEffect, useState, useRef, useMemo, useCallback } from 'react';
 import type { KeyboardEvent } from 'react';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import { classNames } from '~/utils/classNames';
+import { useStore } from '@nanostores/react';
+import { editingModesStore, getEditingModeKey, updateEditingMode } from '~/lib/stores/settings';
 
 // Fuzzy search utilities
 const levenshteinDistance = (str1: string, str2: string): number => {
@@ -129,6 +131,8 @@ export const ModelSelector = ({
   const providerOptionsRef = useRef<(HTMLDivElement | null)[]>([]);
   const providerDropdownRef = useRef<HTMLDivElement>(null);
   const [showFreeModelsOnly, setShowFreeModelsOnly] = useState(false);
+  const editingModes = useStore(editingModesStore);
+  const editingMode = provider && model ? editingModes[getEditingModeKey(provider.name, model)] : undefined;
 
   // Debounce search queries
   useEffect(() => {
@@ -792,6 +796,30 @@ export const ModelSelector = ({
           </div>
         )}
       </div>
+
+      {/* Editing mode toggle */}
+      {provider && model && (
+        <button
+          type="button"
+          onClick={() => updateEditingMode(provider.name, model, editingMode === 'tools' ? 'artifacts' : 'tools')}
+          className={classNames(
+            'flex items-center justify-center gap-1 px-2 rounded-lg border border-bolt-elements-borderColor text-sm',
+            'bg-bolt-elements-prompt-background transition-colors',
+            editingMode === 'tools'
+              ? 'text-purple-500 border-purple-500/50'
+              : 'text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+          )}
+          title={
+            editingMode === 'tools'
+              ? 'This model edits files through tool calls. Click to use the artifact protocol'
+              : 'This model edits files through the artifact protocol. Click to use tool calls'
+          }
+          aria-pressed={editingMode === 'tools'}
+        >
+          <span className="i-ph:wrench" />
+          <span className="whitespace-nowrap">Tools</span>
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,30 @@
+import { useStore } from '@nanostores/react';
+import { chatTabSync } from '~/lib/persistence';
+
+/**
+ * Shown in place of the chat box while another tab owns the chat, this one only mirrors it.
+ */
+export function TabSyncBanner() {
+  const { streaming } = useStore(chatTabSync.mirror);
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 px-4 py-3">
+      <div className="i-ph:browsers text-xl text-purple-500 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium text-bolt-elements-textPrimary">This chat is open in another tab</div>
+        <div className="text-xs text-bolt-elements-textSecondary">
+          {streaming
+            ? 'The other tab is receiving a response, it shows up here as it arrives.'
+            : 'Messages and file changes from that tab show up here. Take over to continue the chat in this tab.'}
+        </div>
+      </div>
+      <button
+        onClick={() => chatTabSync.takeOver()}
+        disabled={streaming}
+        className="px-3 py-1.5 text-sm rounded-md bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Take over
+      </button>
+    </div>
+  );
+}
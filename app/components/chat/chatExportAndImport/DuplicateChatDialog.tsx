@@ -0,0 +1,40 @@
+import { useStore } from '@nanostores/react';
+import { atom } from 'nanostores';
+import { ConfirmationDialog } from '~/components/ui/Dialog';
+import type { BundleChat, DuplicateAction } from '~/lib/persistence/bundle';
+
+interface PendingDuplicate {
+  description: string;
+  resolve: (action: DuplicateAction) => void;
+}
+
+const pendingDuplicate = atom<PendingDuplicate | undefined>(undefined);
+
+/**
+ * Asks whether an imported chat that is already in the history is merged into it or imported as
+ * a copy. Needs a mounted `DuplicateChatDialog`.
+ */
+export function chooseDuplicateAction(chat: BundleChat): Promise<DuplicateAction> {
+  return new Promise((resolve) => pendingDuplicate.set({ description: chat.description || 'Imported Chat', resolve }));
+}
+
+export function DuplicateChatDialog() {
+  const pending = useStore(pendingDuplicate);
+
+  const choose = (action: DuplicateAction) => {
+    pending?.resolve(action);
+    pendingDuplicate.set(undefined);
+  };
+
+  return (
+    <ConfirmationDialog
+      isOpen={!!pending}
+      onClose={() => choose('rename')}
+      onConfirm={() => choose('merge')}
+      title="Chat already imported"
+      description={`"${pending?.description}" is already in your history. Merge the new messages and files into it, or import it as a separate copy?`}
+      confirmLabel="Merge"
+      cancelLabel="Import as copy"
+    />
+  );
+}
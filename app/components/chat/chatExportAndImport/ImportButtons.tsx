@@ -2,61 +2,37 @@ import type { Message } from 'ai';
 import { toast } from 'react-toastify';
 import { ImportFolderButton } from '~/components/chat/ImportFolderButton';
 import { Button } from '~/components/ui/Button';
+import { BUNDLE_EXTENSION } from '~/lib/persistence/bundle';
+import { importBundleFile } from '~/lib/persistence/useChatHistory';
 import { classNames } from '~/utils/classNames';
+import { chooseDuplicateAction, DuplicateChatDialog } from './DuplicateChatDialog';
 
-type ChatData = {
-  messages?: Message[]; // Standard Bolt format
-  description?: string; // Optional description
-};
+interface ImportButtonsProps {
+  // creates a chat from an imported folder, chat files are imported as bundles
+  importChat?: (description: string, messages: Message[]) => Promise<void>;
+}
 
-export function ImportButtons(importChat: ((description: string, messages: Message[]) => Promise<void>) | undefined) {
+export function ImportButtons({ importChat }: ImportButtonsProps) {
   return (
     <div className="flex flex-col items-center justify-center w-auto">
       <input
         type="file"
         id="chat-import"
         className="hidden"
-        accept=".json"
+        accept={`${BUNDLE_EXTENSION},.json`}
         onChange={async (e) => {
           const file = e.target.files?.[0];
+          e.target.value = ''; // Reset file input
 
-          if (file && importChat) {
-            try {
-              const reader = new FileReader();
-
-              reader.onload = async (e) => {
-                try {
-                  const content = e.target?.result as string;
-                  const data = JSON.parse(content) as ChatData;
-
-                  // Standard format
-                  if (Array.isArray(data.messages)) {
-                    await importChat(data.description || 'Imported Chat', data.messages);
-                    toast.success('Chat imported successfully');
-
-                    return;
-                  }
-
-                  toast.error('Invalid chat file format');
-                } catch (error: unknown) {
-                  if (error instanceof Error) {
-                    toast.error('Failed to parse chat file: ' + error.message);
-                  } else {
-                    toast.error('Failed to parse chat file');
-                  }
-                }
-              };
-              reader.onerror = () => toast.error('Failed to read chat file');
-              reader.readAsText(file);
-            } catch (error) {
-              toast.error(error instanceof Error ? error.message : 'Failed to import chat');
-            }
-            e.target.value = ''; // Reset file input
+          if (file) {
+            // older JSON exports are migrated to the bundle format on the way in
+            await importBundleFile(file, chooseDuplicateAction);
           } else {
             toast.error('Something went wrong');
           }
         }}
       />
+      <DuplicateChatDialog />
       <div className="flex flex-col items-center gap-4 max-w-2xl text-center">
         <div className="flex gap-2">
           <Button
@@ -3,9 +3,17 @@ import { useStore } from '@nanostores/react';
 import { netlifyConnection } from '~/lib/stores/netlify';
 import { vercelConnection } from '~/lib/stores/vercel';
 import { isGitLabConnected } from '~/lib/stores/gitlabConnection';
+import {
+  bitbucketConnectionStore,
+  giteaConnectionStore,
+  gitHostConnectionStores,
+  type GitHostConnectionId,
+  type GitHostConnectionStore,
+} from '~/lib/stores/gitHostConnection';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { streamingState } from '~/lib/stores/streaming';
 import { classNames } from '~/utils/classNames';
+import { deployableFiles } from '~/utils/fileUtils';
 import { useState } from 'react';
 import { NetlifyDeploymentLink } from '~/components/chat/NetlifyDeploymentLink.client';
 import { VercelDeploymentLink } from '~/components/chat/VercelDeploymentLink.client';
@@ -15,6 +23,7 @@ import { useGitHubDeploy } from '~/components/deploy/GitHubDeploy.client';
 import { useGitLabDeploy } from '~/components/deploy/GitLabDeploy.client';
 import { GitHubDeploymentDialog } from '~/components/deploy/GitHubDeploymentDialog';
 import { GitLabDeploymentDialog } from '~/components/deploy/GitLabDeploymentDialog';
+import { GitHostDeploymentDialog } from '~/components/deploy/GitHostDeploymentDialog';
 
 interface DeployButtonProps {
   onVercelDeploy?: () => Promise<void>;
@@ -32,6 +41,10 @@ export const DeployButton = ({
   const netlifyConn = useStore(netlifyConnection);
   const vercelConn = useStore(vercelConnection);
   const gitlabIsConnected = useStore(isGitLabConnected);
+  const gitHostsConnected: Record<GitHostConnectionId, boolean> = {
+    bitbucket: useStore(bitbucketConnectionStore.isConnected),
+    gitea: useStore(giteaConnectionStore.isConnected),
+  };
   const [activePreviewIndex] = useState(0);
   const previews = useStore(workbenchStore.previews);
   const activePreview = previews[activePreviewIndex];
@@ -48,6 +61,10 @@ export const DeployButton = ({
   const [gitlabDeploymentFiles, setGitlabDeploymentFiles] = useState<Record<string, string> | null>(null);
   const [githubProjectName, setGithubProjectName] = useState('');
   const [gitlabProjectName, setGitlabProjectName] = useState('');
+  const [gitHostDeployment, setGitHostDeployment] = useState<{
+    store: GitHostConnectionStore;
+    files: Record<string, string>;
+  } | null>(null);
 
   const handleVercelDeployClick = async () => {
     setIsDeploying(true);
@@ -125,6 +142,10 @@ export const DeployButton = ({
     }
   };
 
+  const handleGitHostDeployClick = (store: GitHostConnectionStore) => {
+    setGitHostDeployment({ store, files: deployableFiles(workbenchStore.files.get()) });
+  };
+
   return (
     <>
       <div className="flex border border-bolt-elements-borderColor rounded-md overflow-hidden text-sm">
@@ -235,6 +256,36 @@ export const DeployButton = ({
               <span className="mx-auto">{!gitlabIsConnected ? 'No GitLab Account Connected' : 'Deploy to GitLab'}</span>
             </DropdownMenu.Item>
 
+            {Object.values(gitHostConnectionStores).map((store) => {
+              const isConnected = gitHostsConnected[store.config.id];
+
+              return (
+                <DropdownMenu.Item
+                  key={store.config.id}
+                  className={classNames(
+                    'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                    {
+                      'opacity-60 cursor-not-allowed': isDeploying || !activePreview || !isConnected,
+                    },
+                  )}
+                  disabled={isDeploying || !activePreview || !isConnected}
+                  onClick={() => handleGitHostDeployClick(store)}
+                >
+                  <img
+                    className="w-5 h-5"
+                    height="24"
+                    width="24"
+                    crossOrigin="anonymous"
+                    src={`https://cdn.simpleicons.org/${store.config.id}`}
+                    alt={store.config.id}
+                  />
+                  <span className="mx-auto">
+                    {!isConnected ? `No ${store.config.name} Account Connected` : `Deploy to ${store.config.name}`}
+                  </span>
+                </DropdownMenu.Item>
+              );
+            })}
+
             <DropdownMenu.Item
               disabled
               className="flex items-center w-full rounded-md px-4 py-2 text-sm text-bolt-elements-textTertiary gap-2 opacity-60 cursor-not-allowed"
@@ -272,6 +323,17 @@ export const DeployButton = ({
           files={gitlabDeploymentFiles}
         />
       )}
+
+      {/* Bitbucket and Gitea Deployment Dialog */}
+      {gitHostDeployment && (
+        <GitHostDeploymentDialog
+          store={gitHostDeployment.store}
+          isOpen
+          onClose={() => setGitHostDeployment(null)}
+          projectName={workbenchStore.firstArtifact?.title || 'bolt-project'}
+          files={gitHostDeployment.files}
+        />
+      )}
     </>
   );
 };
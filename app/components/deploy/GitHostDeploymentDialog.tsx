@@ -0,0 +1,172 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { classNames } from '~/utils/classNames';
+import { pushToGitHost, repositoryName, type GitHostRepository } from '~/lib/services/gitHostProvider';
+import type { GitHostConnectionStore } from '~/lib/stores/gitHostConnection';
+import { logStore } from '~/lib/stores/logs';
+
+interface GitHostDeploymentDialogProps {
+  store: GitHostConnectionStore;
+  isOpen: boolean;
+  onClose: () => void;
+  projectName: string;
+  files: Record<string, string>;
+}
+
+/**
+ * Pushes the project to a repository of a git host integrated through `GitHostProvider`, creating
+ * the repository when the account does not have it yet.
+ */
+export function GitHostDeploymentDialog({ store, isOpen, onClose, projectName, files }: GitHostDeploymentDialogProps) {
+  const { name } = store.config;
+  const connection = useStore(store.connection);
+  const [repoName, setRepoName] = useState(() => repositoryName(projectName));
+  const [isPrivate, setIsPrivate] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pushed, setPushed] = useState<{ repository: GitHostRepository; created: boolean } | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const result = await pushToGitHost(store.service(), { name: repoName, isPrivate, files });
+
+      setPushed(result);
+      toast.success(`${result.created ? 'Created' : 'Updated'} ${result.repository.fullName} on ${name}`);
+      logStore.logInfo(`Pushed to ${name}`, {
+        type: 'system',
+        message: `Pushed ${Object.keys(files).length} files to ${result.repository.fullName}`,
+      });
+    } catch (error) {
+      console.error(`Failed to push to ${name}:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to push to ${name}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999]" />
+        <div className="fixed inset-0 flex items-center justify-center z-[9999]">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.2 }}
+            className="w-[90vw] md:w-[500px]"
+          >
+            <Dialog.Content
+              className="bg-white dark:bg-bolt-elements-background-depth-1 rounded-lg p-6 border border-bolt-elements-borderColor shadow-xl"
+              aria-describedby={undefined}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <Dialog.Title className="text-lg font-medium text-bolt-elements-textPrimary">
+                  {pushed ? `Pushed to ${name}` : `Push to ${name}`}
+                </Dialog.Title>
+                <Dialog.Close asChild>
+                  <button
+                    onClick={onClose}
+                    className="p-2 rounded-lg bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-2"
+                  >
+                    <span className="i-ph:x block w-5 h-5" aria-hidden="true" />
+                    <span className="sr-only">Close dialog</span>
+                  </button>
+                </Dialog.Close>
+              </div>
+
+              {pushed ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-bolt-elements-textSecondary">
+                    {Object.keys(files).length} files were pushed to the {pushed.repository.defaultBranch} branch of{' '}
+                    {pushed.created ? 'the new repository' : 'the repository'} {pushed.repository.fullName}.
+                  </p>
+                  <div className="flex justify-end gap-2">
+                    <a
+                      href={pushed.repository.webUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-4 py-2 rounded-lg bg-accent-500 text-white hover:bg-accent-600 text-sm inline-flex items-center gap-2"
+                    >
+                      <div className="i-ph:arrow-square-out w-4 h-4" />
+                      View Repository
+                    </a>
+                    <button
+                      onClick={onClose}
+                      className="px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3 text-sm border border-bolt-elements-borderColor"
+                    >
+                      Close
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <p className="text-sm text-bolt-elements-textSecondary">
+                    The repository is created under {connection.user?.username ?? 'your account'} if it does not exist
+                    yet, otherwise the files are committed to its default branch.
+                  </p>
+                  <div>
+                    <label htmlFor="git-host-repo-name" className="block text-sm text-bolt-elements-textSecondary mb-2">
+                      Repository Name
+                    </label>
+                    <input
+                      id="git-host-repo-name"
+                      type="text"
+                      value={repoName}
+                      onChange={(e) => setRepoName(e.target.value)}
+                      disabled={isLoading}
+                      className={classNames(
+                        'w-full px-3 py-2 rounded-lg text-sm',
+                        'bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor',
+                        'text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive',
+                      )}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+                    <input
+                      type="checkbox"
+                      checked={isPrivate}
+                      onChange={(e) => setIsPrivate(e.target.checked)}
+                      disabled={isLoading}
+                    />
+                    Make a new repository private
+                  </label>
+                  <div className="flex justify-end gap-2 pt-2">
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3 text-sm border border-bolt-elements-borderColor"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isLoading || !repoName.trim()}
+                      className="px-4 py-2 rounded-lg bg-accent-500 text-white hover:bg-accent-600 text-sm inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isLoading ? (
+                        <>
+                          <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
+                          Pushing...
+                        </>
+                      ) : (
+                        <>
+                          <div className="i-ph:git-branch w-4 h-4" />
+                          Push {Object.keys(files).length} files
+                        </>
+                      )}
+                    </button>
+                  </div>
+                </form>
+              )}
+            </Dialog.Content>
+          </motion.div>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -7,7 +7,9 @@ import { classNames } from '~/utils/classNames';
 import { getLocalStorage } from '~/lib/persistence/localStorage';
 import type { GitHubUserResponse, GitHubRepoInfo } from '~/types/GitHub';
 import { logStore } from '~/lib/stores/logs';
-import { chatId } from '~/lib/persistence/useChatHistory';
+import { chatId, chatMetadata, description, saveChatPullRequest } from '~/lib/persistence/useChatHistory';
+import { describePullRequest, getProjectPaths, openGitHubPullRequest } from '~/lib/services/pullRequestService';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { useStore } from '@nanostores/react';
 import { GitHubAuthDialog } from '~/components/@settings/tabs/github/components/GitHubAuthDialog';
 import { SearchInput, EmptyState, StatusIndicator, Badge } from '~/components/ui';
@@ -33,6 +35,16 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
   const [pushedFiles, setPushedFiles] = useState<{ path: string; size: number }[]>([]);
   const [showAuthDialog, setShowAuthDialog] = useState(false);
   const currentChatId = useStore(chatId);
+  const metadata = useStore(chatMetadata);
+  const [asPullRequest, setAsPullRequest] = useState(false);
+  const [openedPullRequest, setOpenedPullRequest] = useState(false);
+
+  // a chat that already has a pull request keeps pushing to it
+  useEffect(() => {
+    if (isOpen) {
+      setAsPullRequest(metadata?.pullRequest?.provider === 'github');
+    }
+  }, [isOpen]);
 
   /*
    * Load GitHub connection on mount
@@ -226,6 +238,41 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
       const octokit = new Octokit({ auth: connection.token });
       let repoExists = false;
 
+      if (asPullRequest) {
+        const { data: existingRepo } = await octokit.repos
+          .get({ owner: connection.user.login, repo: sanitizedName })
+          .catch((error) => {
+            throw error.status === 404 ? new Error('A pull request needs an existing repository') : error;
+          });
+
+        const pullRequest = await openGitHubPullRequest({
+          token: connection.token,
+          tokenType: connection.tokenType,
+          owner: connection.user.login,
+          repo: sanitizedName,
+          baseBranch: existingRepo.default_branch || 'main',
+          files,
+          projectPaths: getProjectPaths(workbenchStore.files.get()),
+          text: describePullRequest({
+            chatTitle: description.get(),
+            changes: Object.values(workbenchStore.artifacts.get()).map((artifact) => artifact.title),
+            files: Object.keys(files),
+          }),
+          existing: metadata?.pullRequest,
+        });
+
+        await saveChatPullRequest(pullRequest);
+
+        setPushedFiles(
+          Object.entries(files).map(([path, content]) => ({ path, size: new TextEncoder().encode(content).length })),
+        );
+        setCreatedRepoUrl(pullRequest.url);
+        setOpenedPullRequest(true);
+        setShowSuccessDialog(true);
+
+        return;
+      }
+
       try {
         // Check if the repository already exists - ensure repo name is properly sanitized
         const sanitizedRepoName = sanitizeRepoName(repoName);
@@ -538,6 +585,7 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
     setIsPrivate(false);
     setShowSuccessDialog(false);
     setCreatedRepoUrl('');
+    setOpenedPullRequest(false);
     onClose();
   };
 
@@ -580,13 +628,15 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                       </div>
                       <div>
                         <h3 className="text-lg font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
-                          Successfully pushed to GitHub
+                          {openedPullRequest ? 'Pull request ready' : 'Successfully pushed to GitHub'}
                         </h3>
                         <p
                           id="success-dialog-description"
                           className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark"
                         >
-                          Your code is now available on GitHub
+                          {openedPullRequest
+                            ? 'Your changes are ready for review on GitHub'
+                            : 'Your code is now available on GitHub'}
                         </p>
                       </div>
                     </div>
@@ -604,7 +654,7 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                   <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-4 text-left border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
                     <p className="text-sm font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark mb-2 flex items-center gap-2">
                       <span className="i-ph:github-logo w-4 h-4 text-purple-500" />
-                      Repository URL
+                      {openedPullRequest ? 'Pull Request URL' : 'Repository URL'}
                     </p>
                     <div className="flex items-center gap-2">
                       <code className="flex-1 text-sm bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-4 px-3 py-2 rounded border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark font-mono">
@@ -659,7 +709,7 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                       whileTap={{ scale: 0.98 }}
                     >
                       <div className="i-ph:github-logo w-4 h-4" />
-                      View Repository
+                      {openedPullRequest ? 'View Pull Request' : 'View Repository'}
                     </motion.a>
                     <motion.button
                       onClick={() => {
@@ -994,6 +1044,42 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                     </p>
                   </div>
 
+                  <div className="p-3 bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="pull-request"
+                        checked={asPullRequest}
+                        onChange={(e) => setAsPullRequest(e.target.checked)}
+                        className="rounded border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-purple-500 focus:ring-purple-500 dark:bg-bolt-elements-background-depth-3"
+                      />
+                      <label
+                        htmlFor="pull-request"
+                        className="text-sm text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark"
+                      >
+                        Open a pull request
+                      </label>
+                    </div>
+                    <p className="text-xs text-bolt-elements-textTertiary dark:text-bolt-elements-textTertiary-dark mt-2 ml-6">
+                      {metadata?.pullRequest?.provider === 'github' ? (
+                        <>
+                          Pushes to{' '}
+                          <a
+                            href={metadata.pullRequest.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-purple-500 hover:underline"
+                          >
+                            #{metadata.pullRequest.number}
+                          </a>{' '}
+                          while it is open, a new pull request is opened otherwise
+                        </>
+                      ) : (
+                        'Pushes to a new branch of the existing repository instead of its default branch'
+                      )}
+                    </p>
+                  </div>
+
                   <div className="pt-4 flex gap-2">
                     <motion.button
                       type="button"
@@ -1017,12 +1103,12 @@ export function GitHubDeploymentDialog({ isOpen, onClose, projectName, files }:
                       {isLoading ? (
                         <>
                           <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
-                          Deploying...
+                          {asPullRequest ? 'Pushing...' : 'Deploying...'}
                         </>
                       ) : (
                         <>
                           <div className="i-ph:github-logo w-4 h-4" />
-                          Deploy to GitHub
+                          {asPullRequest ? 'Push to Pull Request' : 'Deploy to GitHub'}
                         </>
                       )}
                     </motion.button>
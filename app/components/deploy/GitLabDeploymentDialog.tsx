@@ -6,9 +6,11 @@ import { classNames } from '~/utils/classNames';
 import { getLocalStorage } from '~/lib/persistence/localStorage';
 import type { GitLabUserResponse, GitLabProjectInfo } from '~/types/GitLab';
 import { logStore } from '~/lib/stores/logs';
-import { chatId } from '~/lib/persistence/useChatHistory';
+import { chatId, chatMetadata, description, saveChatPullRequest } from '~/lib/persistence/useChatHistory';
 import { useStore } from '@nanostores/react';
 import { GitLabApiService } from '~/lib/services/gitlabApiService';
+import { describePullRequest, getProjectPaths, openGitLabMergeRequest } from '~/lib/services/pullRequestService';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { SearchInput, EmptyState, StatusIndicator, Badge } from '~/components/ui';
 import { formatSize } from '~/utils/formatSize';
 import { GitLabAuthDialog } from '~/components/@settings/tabs/gitlab/components/GitLabAuthDialog';
@@ -34,6 +36,16 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
   const [pushedFiles, setPushedFiles] = useState<{ path: string; size: number }[]>([]);
   const [showAuthDialog, setShowAuthDialog] = useState(false);
   const currentChatId = useStore(chatId);
+  const metadata = useStore(chatMetadata);
+  const [asMergeRequest, setAsMergeRequest] = useState(false);
+  const [openedMergeRequest, setOpenedMergeRequest] = useState(false);
+
+  // a chat that already has a merge request keeps pushing to it
+  useEffect(() => {
+    if (isOpen) {
+      setAsMergeRequest(metadata?.pullRequest?.provider === 'gitlab');
+    }
+  }, [isOpen]);
 
   // Load GitLab connection on mount
   useEffect(() => {
@@ -137,6 +149,36 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
       const existingProject = await apiService.getProjectByPath(projectPath);
       const projectExists = existingProject !== null;
 
+      if (asMergeRequest) {
+        if (!existingProject) {
+          throw new Error('A merge request needs an existing repository');
+        }
+
+        const mergeRequest = await openGitLabMergeRequest({
+          service: apiService,
+          project: existingProject,
+          files,
+          projectPaths: getProjectPaths(workbenchStore.files.get()),
+          text: describePullRequest({
+            chatTitle: description.get(),
+            changes: Object.values(workbenchStore.artifacts.get()).map((artifact) => artifact.title),
+            files: Object.keys(files),
+          }),
+          existing: metadata?.pullRequest,
+        });
+
+        await saveChatPullRequest(mergeRequest);
+
+        setPushedFiles(
+          Object.entries(files).map(([path, content]) => ({ path, size: new TextEncoder().encode(content).length })),
+        );
+        setCreatedRepoUrl(mergeRequest.url);
+        setOpenedMergeRequest(true);
+        setShowSuccessDialog(true);
+
+        return;
+      }
+
       if (projectExists && existingProject) {
         // Confirm overwrite
         const visibilityChange =
@@ -245,6 +287,7 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
     setIsPrivate(false);
     setShowSuccessDialog(false);
     setCreatedRepoUrl('');
+    setOpenedMergeRequest(false);
     onClose();
   };
 
@@ -287,13 +330,15 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                       </div>
                       <div>
                         <h3 className="text-lg font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
-                          Successfully pushed to GitLab
+                          {openedMergeRequest ? 'Merge request ready' : 'Successfully pushed to GitLab'}
                         </h3>
                         <p
                           id="success-dialog-description"
                           className="text-sm text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark"
                         >
-                          Your code is now available on GitLab
+                          {openedMergeRequest
+                            ? 'Your changes are ready for review on GitLab'
+                            : 'Your code is now available on GitLab'}
                         </p>
                       </div>
                     </div>
@@ -311,7 +356,7 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                   <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-4 text-left border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
                     <p className="text-sm font-medium text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark mb-2 flex items-center gap-2">
                       <span className="i-ph:gitlab-logo w-4 h-4 text-orange-500" />
-                      Repository URL
+                      {openedMergeRequest ? 'Merge Request URL' : 'Repository URL'}
                     </p>
                     <div className="flex items-center gap-2">
                       <code className="flex-1 text-sm bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-4 px-3 py-2 rounded border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark font-mono">
@@ -366,7 +411,7 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                       whileTap={{ scale: 0.98 }}
                     >
                       <div className="i-ph:gitlab-logo w-4 h-4" />
-                      View Repository
+                      {openedMergeRequest ? 'View Merge Request' : 'View Repository'}
                     </motion.a>
                     <motion.button
                       onClick={() => {
@@ -717,6 +762,42 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                     </p>
                   </div>
 
+                  <div className="p-3 bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg border border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="merge-request"
+                        checked={asMergeRequest}
+                        onChange={(e) => setAsMergeRequest(e.target.checked)}
+                        className="rounded border-bolt-elements-borderColor dark:border-bolt-elements-borderColor-dark text-orange-500 focus:ring-orange-500 dark:bg-bolt-elements-background-depth-3"
+                      />
+                      <label
+                        htmlFor="merge-request"
+                        className="text-sm text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark"
+                      >
+                        Open a merge request
+                      </label>
+                    </div>
+                    <p className="text-xs text-bolt-elements-textTertiary dark:text-bolt-elements-textTertiary-dark mt-2 ml-6">
+                      {metadata?.pullRequest?.provider === 'gitlab' ? (
+                        <>
+                          Pushes to{' '}
+                          <a
+                            href={metadata.pullRequest.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-orange-500 hover:underline"
+                          >
+                            !{metadata.pullRequest.number}
+                          </a>{' '}
+                          while it is open, a new merge request is opened otherwise
+                        </>
+                      ) : (
+                        'Pushes to a new branch of the existing repository instead of its default branch'
+                      )}
+                    </p>
+                  </div>
+
                   <div className="pt-4 flex gap-2">
                     <motion.button
                       type="button"
@@ -740,12 +821,12 @@ export function GitLabDeploymentDialog({ isOpen, onClose, projectName, files }:
                       {isLoading ? (
                         <>
                           <div className="i-ph:spinner-gap animate-spin w-4 h-4" />
-                          Deploying...
+                          {asMergeRequest ? 'Pushing...' : 'Deploying...'}
                         </>
                       ) : (
                         <>
                           <div className="i-ph:gitlab-logo w-4 h-4" />
-                          Deploy to GitLab
+                          {asMergeRequest ? 'Push to Merge Request' : 'Deploy to GitLab'}
                         </>
                       )}
                     </motion.button>
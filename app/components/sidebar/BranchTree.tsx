@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { DialogButton, DialogDescription, DialogTitle } from '~/components/ui/Dialog';
+import { Checkbox } from '~/components/ui/Checkbox';
+import {
+  buildBranchTree,
+  chatId,
+  compareSnapshotFiles,
+  db,
+  getAllChatBranches,
+  getSnapshot,
+  mergeBranchFiles,
+  type BranchNode,
+  type ChatBranch,
+  type ChatHistoryItem,
+  type SnapshotFileChange,
+} from '~/lib/persistence';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+
+interface BranchTreeProps {
+  item: ChatHistoryItem;
+  chats: ChatHistoryItem[];
+  onClose: () => void;
+}
+
+type Comparison =
+  | { status: 'loading' }
+  | { status: 'missing'; chat: ChatHistoryItem }
+  | { status: 'ready'; changes: SnapshotFileChange[] };
+
+function getForkLabel(node: BranchNode, chats: ChatHistoryItem[]) {
+  if (!node.branch) {
+    return 'Original';
+  }
+
+  if (!node.branch.forkMessageId) {
+    return 'Copy';
+  }
+
+  const parent = chats.find((chat) => chat.id === node.branch!.parentId);
+  const index = parent?.messages.findIndex((message) => message.id === node.branch!.forkMessageId) ?? -1;
+
+  return index >= 0 ? `Forked at message ${index + 1}` : 'Forked';
+}
+
+function BranchTreeNode({
+  node,
+  depth,
+  chats,
+  selected,
+  onToggle,
+}: {
+  node: BranchNode;
+  depth: number;
+  chats: ChatHistoryItem[];
+  selected: string[];
+  onToggle: (id: string) => void;
+}) {
+  return (
+    <>
+      <div
+        className="flex items-center gap-2 py-1.5 pr-2 rounded-md hover:bg-gray-50 dark:hover:bg-gray-900"
+        style={{ paddingLeft: `${depth * 20 + 8}px` }}
+      >
+        <Checkbox
+          checked={selected.includes(node.chat.id)}
+          onCheckedChange={() => onToggle(node.chat.id)}
+          aria-label={`Select ${node.chat.description}`}
+        />
+        <span
+          className={classNames('h-4 w-4 shrink-0 text-gray-400', depth > 0 ? 'i-ph:git-branch' : 'i-ph:git-commit')}
+        />
+        <a
+          href={`/chat/${node.chat.urlId}`}
+          className={classNames('truncate text-gray-900 dark:text-white hover:text-purple-500', {
+            'font-medium': chatId.get() === node.chat.id,
+          })}
+        >
+          {node.chat.description}
+        </a>
+        <span className="ml-auto shrink-0 text-xs text-gray-500 dark:text-gray-400">{getForkLabel(node, chats)}</span>
+      </div>
+      {node.children.map((child) => (
+        <BranchTreeNode
+          key={child.chat.id}
+          node={child}
+          depth={depth + 1}
+          chats={chats}
+          selected={selected}
+          onToggle={onToggle}
+        />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Shows the branches of the project a chat belongs to. Two branches can be compared and the
+ * files of one merged into the other.
+ */
+export function BranchTree({ item, chats, onClose }: BranchTreeProps) {
+  const [branches, setBranches] = useState<ChatBranch[]>();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison>();
+  const [mergePaths, setMergePaths] = useState<string[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    if (!db) {
+      return;
+    }
+
+    getAllChatBranches(db)
+      .then(setBranches)
+      .catch((error) => toast.error('Failed to load branches: ' + error.message));
+  }, []);
+
+  const tree = useMemo(() => branches && buildBranchTree(chats, branches, item.id), [chats, branches, item.id]);
+
+  // the first selected branch is the merge target, the second one is compared against it
+  const [target, source] = selected.map((id) => chats.find((chat) => chat.id === id)!);
+
+  useEffect(() => {
+    if (!db || !target || !source) {
+      setComparison(undefined);
+      return undefined;
+    }
+
+    let cancelled = false;
+    setComparison({ status: 'loading' });
+
+    Promise.all([getSnapshot(db, target.id), getSnapshot(db, source.id)])
+      .then(([targetSnapshot, sourceSnapshot]) => {
+        if (cancelled) {
+          return;
+        }
+
+        if (!targetSnapshot || !sourceSnapshot) {
+          setComparison({ status: 'missing', chat: targetSnapshot ? source : target });
+          return;
+        }
+
+        const changes = compareSnapshotFiles(targetSnapshot.files, sourceSnapshot.files);
+        setComparison({ status: 'ready', changes });
+        setMergePaths(changes.map((change) => change.path));
+      })
+      .catch((error) => toast.error('Failed to compare branches: ' + error.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [target?.id, source?.id]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id].slice(-2),
+    );
+  };
+
+  const toggleMergePath = (path: string) => {
+    setMergePaths((prev) => (prev.includes(path) ? prev.filter((mergePath) => mergePath !== path) : [...prev, path]));
+  };
+
+  const merge = async () => {
+    if (!db || !target || !source) {
+      return;
+    }
+
+    setIsMerging(true);
+
+    try {
+      await mergeBranchFiles(db, source.id, target.id, mergePaths);
+      toast.success(`Merged ${mergePaths.length} file${mergePaths.length === 1 ? '' : 's'} into ${target.description}`);
+      onClose();
+
+      // the open chat would overwrite the merged snapshot with its current files, restore it instead
+      if (chatId.get() === target.id) {
+        window.location.reload();
+      }
+    } catch (error) {
+      toast.error('Failed to merge branches: ' + (error as Error).message);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="p-6 bg-white dark:bg-gray-950">
+        <DialogTitle className="text-gray-900 dark:text-white">Branches</DialogTitle>
+        <DialogDescription className="mt-2 text-gray-600 dark:text-gray-400">
+          Select two branches to compare their files. The files of the second one can be merged into the first.
+        </DialogDescription>
+        <div className="mt-4 max-h-60 overflow-auto border border-gray-100 dark:border-gray-800 rounded-md p-1">
+          {!tree ? (
+            <div className="p-2 text-sm text-gray-500">Loading branches...</div>
+          ) : (
+            <BranchTreeNode node={tree} depth={0} chats={chats} selected={selected} onToggle={toggleSelected} />
+          )}
+        </div>
+        {target && source && (
+          <div className="mt-4">
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              Changes in <span className="font-medium text-gray-900 dark:text-white">{source.description}</span>{' '}
+              compared to <span className="font-medium text-gray-900 dark:text-white">{target.description}</span>
+            </div>
+            <div className="mt-2 max-h-48 overflow-auto border border-gray-100 dark:border-gray-800 rounded-md p-2 text-sm">
+              {comparison?.status === 'loading' && <div className="text-gray-500">Comparing...</div>}
+              {comparison?.status === 'missing' && (
+                <div className="text-gray-500">
+                  {comparison.chat.description} has no saved files yet, open it once to take a snapshot.
+                </div>
+              )}
+              {comparison?.status === 'ready' && comparison.changes.length === 0 && (
+                <div className="text-gray-500">Both branches have the same files.</div>
+              )}
+              {comparison?.status === 'ready' &&
+                comparison.changes.map((change) => (
+                  <label key={change.path} className="flex items-center gap-2 py-0.5">
+                    <Checkbox
+                      checked={mergePaths.includes(change.path)}
+                      onCheckedChange={() => toggleMergePath(change.path)}
+                    />
+                    <span className="truncate text-gray-900 dark:text-white">{extractRelativePath(change.path)}</span>
+                    <span className="ml-auto shrink-0 text-xs">
+                      {change.status === 'modified' ? (
+                        <>
+                          <span className="text-green-500">+{change.additions}</span>{' '}
+                          <span className="text-red-500">-{change.deletions}</span>
+                        </>
+                      ) : (
+                        <span className={change.status === 'added' ? 'text-green-500' : 'text-red-500'}>
+                          {change.status}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                ))}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-3 px-6 py-4 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800">
+        <DialogButton type="secondary" onClick={onClose}>
+          Close
+        </DialogButton>
+        {target && source && (
+          <DialogButton
+            type="primary"
+            onClick={merge}
+            disabled={isMerging || comparison?.status !== 'ready' || mergePaths.length === 0}
+          >
+            Merge {mergePaths.length} file{mergePaths.length === 1 ? '' : 's'}
+          </DialogButton>
+        )}
+      </div>
+    </>
+  );
+}
@@ -10,6 +10,7 @@ interface HistoryItemProps {
   item: ChatHistoryItem;
   onDelete?: (event: React.UIEvent) => void;
   onDuplicate?: (id: string) => void;
+  onShowBranches?: (id: string) => void;
   exportChat: (id?: string) => void;
   selectionMode?: boolean;
   isSelected?: boolean;
@@ -20,6 +21,7 @@ export function HistoryItem({
   item,
   onDelete,
   onDuplicate,
+  onShowBranches,
   exportChat,
   selectionMode = false,
   isSelected = false,
@@ -109,7 +111,7 @@ export function HistoryItem({
           onClick={selectionMode ? handleItemClick : undefined}
         >
           <WithTooltip tooltip={currentDescription}>
-            <span className="truncate pr-24">{currentDescription}</span>
+            <span className="truncate pr-28">{currentDescription}</span>
           </WithTooltip>
           <div
             className={classNames(
@@ -135,6 +137,16 @@ export function HistoryItem({
                   }}
                 />
               )}
+              {onShowBranches && (
+                <ChatActionButton
+                  toolTipContent="Branches"
+                  icon="i-ph:git-branch h-4 w-4"
+                  onClick={(event) => {
+                    event.preventDefault();
+                    onShowBranches(item.id);
+                  }}
+                />
+              )}
               <ChatActionButton
                 toolTipContent="Rename"
                 icon="i-ph:pencil-fill h-4 w-4"
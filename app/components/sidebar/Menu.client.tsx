@@ -1,19 +1,36 @@
 import { motion, type Variants } from 'framer-motion';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
 import { ThemeSwitch } from '~/components/ui/ThemeSwitch';
 import { ControlPanel } from '~/components/@settings/core/ControlPanel';
 import { SettingsButton, HelpButton } from '~/components/ui/SettingsButton';
 import { Button } from '~/components/ui/Button';
-import { db, deleteById, getAll, chatId, type ChatHistoryItem, useChatHistory } from '~/lib/persistence';
+import {
+  applyRetentionPolicies,
+  db,
+  deleteById,
+  getAll,
+  chatId,
+  retentionSettings,
+  searchChats,
+  type ChatHistoryItem,
+  type SearchResult,
+  useChatHistory,
+} from '~/lib/persistence';
 import { cubicEasingFn } from '~/utils/easings';
 import { HistoryItem } from './HistoryItem';
+import { SearchResults } from './SearchResults';
+import { BranchTree } from './BranchTree';
+import { TrashList, type ChatListView } from './TrashList';
 import { binDates } from './date-binning';
 import { useSearchFilter } from '~/lib/hooks/useSearchFilter';
 import { classNames } from '~/utils/classNames';
 import { useStore } from '@nanostores/react';
 import { profileStore } from '~/lib/stores/profile';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Menu');
 
 const menuVariants = {
   closed: {
@@ -36,9 +53,19 @@ const menuVariants = {
   },
 } satisfies Variants;
 
+const VIEWS: { view: ChatListView; label: string }[] = [
+  { view: 'chats', label: 'Your Chats' },
+  { view: 'archive', label: 'Archive' },
+  { view: 'trash', label: 'Trash' },
+];
+
+// the retention rules run once per page load, when the sidebar is first opened
+let retentionApplied = false;
+
 type DialogContent =
   | { type: 'delete'; item: ChatHistoryItem }
   | { type: 'bulkDelete'; items: ChatHistoryItem[] }
+  | { type: 'branches'; item: ChatHistoryItem }
   | null;
 
 function CurrentDateTime() {
@@ -73,19 +100,65 @@ export const Menu = () => {
   const profile = useStore(profileStore);
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [view, setView] = useState<ChatListView>('chats');
+
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
 
-  const { filteredItems: filteredList, handleSearchChange } = useSearchFilter({
+  const {
+    filteredItems: descriptionMatches,
+    searchQuery,
+    handleSearchChange,
+  } = useSearchFilter({
     items: list,
     searchFields: ['description'],
   });
 
-  const loadEntries = useCallback(() => {
-    if (db) {
-      getAll(db)
-        .then((list) => list.filter((item) => item.urlId && item.description))
-        .then(setList)
-        .catch((error) => toast.error(error.message));
+  useEffect(() => {
+    if (!db || !searchQuery.trim()) {
+      setSearchResults([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    searchChats(db, searchQuery)
+      .then((results) => !cancelled && setSearchResults(results))
+      .catch((error) => console.error('Failed to search chats:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery]);
+
+  // chats matching by description or by the content of their messages and files
+  const filteredList = useMemo(() => {
+    const matchingChats = new Set(searchResults.map((result) => result.chatId));
+    return list.filter((item) => descriptionMatches.includes(item) || matchingChats.has(item.id));
+  }, [list, descriptionMatches, searchResults]);
+
+  const loadEntries = useCallback(async () => {
+    if (!db) {
+      return;
+    }
+
+    if (!retentionApplied) {
+      retentionApplied = true;
+
+      try {
+        const { purged, archived } = await applyRetentionPolicies(db, retentionSettings.get(), chatId.get());
+
+        if (purged || archived) {
+          logger.info(`Retention purged ${purged} chat(s) from the trash and archived ${archived} chat(s)`);
+        }
+      } catch (error) {
+        logger.error('Failed to apply the retention rules', error);
+      }
     }
+
+    await getAll(db)
+      .then((list) => list.filter((item) => item.urlId && item.description))
+      .then(setList)
+      .catch((error) => toast.error(error.message));
   }, []);
 
   const deleteChat = useCallback(
@@ -120,7 +193,7 @@ export const Menu = () => {
 
       deleteChat(item.id)
         .then(() => {
-          toast.success('Chat deleted successfully', {
+          toast.success('Chat moved to the trash', {
             position: 'bottom-right',
             autoClose: 3000,
           });
@@ -179,7 +252,7 @@ export const Menu = () => {
 
       // Show appropriate toast message
       if (errors.length === 0) {
-        toast.success(`${deletedCount} chat${deletedCount === 1 ? '' : 's'} deleted successfully`);
+        toast.success(`${deletedCount} chat${deletedCount === 1 ? '' : 's'} moved to the trash`);
       } else {
         toast.warning(`Deleted ${deletedCount} of ${itemsToDeleteIds.length} chats. ${errors.length} failed.`, {
           autoClose: 5000,
@@ -397,8 +470,23 @@ export const Menu = () => {
             </div>
           </div>
           <div className="flex items-center justify-between text-sm px-4 py-2">
-            <div className="font-medium text-gray-600 dark:text-gray-400">Your Chats</div>
-            {selectionMode && (
+            <div className="flex items-center gap-1">
+              {VIEWS.map((option) => (
+                <button
+                  key={option.view}
+                  onClick={() => setView(option.view)}
+                  className={classNames(
+                    'rounded-md px-2 py-1 font-medium transition-colors',
+                    view === option.view
+                      ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white'
+                      : 'text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white',
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {selectionMode && view === 'chats' && (
               <div className="flex items-center gap-2">
                 <Button variant="ghost" size="sm" onClick={selectAll}>
                   {selectedItems.length === filteredList.length ? 'Deselect all' : 'Select all'}
@@ -414,7 +502,13 @@ export const Menu = () => {
               </div>
             )}
           </div>
-          <div className="flex-1 overflow-auto px-3 pb-3">
+          {view !== 'chats' && (
+            <div className="flex-1 overflow-auto px-3 pb-3">
+              <TrashList view={view} onRestored={loadEntries} />
+            </div>
+          )}
+          <div className={classNames('flex-1 overflow-auto px-3 pb-3', { hidden: view !== 'chats' })}>
+            <SearchResults query={searchQuery} results={searchResults} chats={list} />
             {filteredList.length === 0 && (
               <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">
                 {list.length === 0 ? 'No previous conversations' : 'No matches found'}
@@ -439,6 +533,7 @@ export const Menu = () => {
                           setDialogContentWithLogging({ type: 'delete', item });
                         }}
                         onDuplicate={() => handleDuplicate(item.id)}
+                        onShowBranches={() => setDialogContentWithLogging({ type: 'branches', item })}
                         selectionMode={selectionMode}
                         isSelected={selectedItems.includes(item.id)}
                         onToggleSelection={toggleItemSelection}
@@ -447,7 +542,14 @@ export const Menu = () => {
                   </div>
                 </div>
               ))}
-              <Dialog onBackdrop={closeDialog} onClose={closeDialog}>
+              <Dialog
+                onBackdrop={closeDialog}
+                onClose={closeDialog}
+                className={dialogContent?.type === 'branches' ? 'w-[640px]' : undefined}
+              >
+                {dialogContent?.type === 'branches' && (
+                  <BranchTree item={dialogContent.item} chats={list} onClose={closeDialog} />
+                )}
                 {dialogContent?.type === 'delete' && (
                   <>
                     <div className="p-6 bg-white dark:bg-gray-950">
@@ -459,7 +561,7 @@ export const Menu = () => {
                             {dialogContent.item.description}
                           </span>
                         </p>
-                        <p className="mt-2">Are you sure you want to delete this chat?</p>
+                        <p className="mt-2">The chat is moved to the trash, where it can be restored from.</p>
                       </DialogDescription>
                     </div>
                     <div className="flex justify-end gap-3 px-6 py-4 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800">
@@ -497,7 +599,7 @@ export const Menu = () => {
                             ))}
                           </ul>
                         </div>
-                        <p className="mt-3">Are you sure you want to delete these chats?</p>
+                        <p className="mt-3">The chats are moved to the trash, where they can be restored from.</p>
                       </DialogDescription>
                     </div>
                     <div className="flex justify-end gap-3 px-6 py-4 bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-800">
@@ -0,0 +1,79 @@
+import { type ChatHistoryItem, type SearchResult, tokenize } from '~/lib/persistence';
+import { extractRelativePath } from '~/utils/diff';
+
+const MAX_VISIBLE_RESULTS = 20;
+const SNIPPET_RADIUS = 40;
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  chats: ChatHistoryItem[];
+}
+
+function getSnippet(content: string, query: string) {
+  const [term] = tokenize(query);
+  const index = term ? content.toLowerCase().indexOf(term) : -1;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const snippet = content
+    .slice(start, Math.max(index, 0) + SNIPPET_RADIUS * 2)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return start > 0 ? `…${snippet}` : snippet;
+}
+
+function getSearchResultUrl(chat: ChatHistoryItem, result: SearchResult) {
+  const searchParams = new URLSearchParams();
+
+  if (result.kind === 'message') {
+    searchParams.set('message', result.ref);
+  } else {
+    searchParams.set('file', result.ref);
+    searchParams.set('line', String(result.line ?? 1));
+  }
+
+  return `/chat/${chat.urlId}?${searchParams.toString()}`;
+}
+
+export function SearchResults({ query, results, chats }: SearchResultsProps) {
+  const chatsById = new Map(chats.map((chat) => [chat.id, chat]));
+  const visibleResults = results.filter((result) => chatsById.has(result.chatId)).slice(0, MAX_VISIBLE_RESULTS);
+
+  if (visibleResults.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3 space-y-0.5">
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 px-4 py-1">In messages and files</div>
+      {visibleResults.map((result) => {
+        const chat = chatsById.get(result.chatId)!;
+        const message = result.kind === 'message' ? chat.messages.find(({ id }) => id === result.ref) : undefined;
+
+        return (
+          <a
+            key={`${result.chatId}:${result.kind}:${result.ref}`}
+            href={getSearchResultUrl(chat, result)}
+            className="flex items-start gap-2 rounded-lg px-3 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50/80 dark:hover:bg-gray-800/30 transition-colors"
+          >
+            <span
+              className={
+                result.kind === 'message'
+                  ? 'i-ph:chat-text h-4 w-4 mt-0.5 shrink-0'
+                  : 'i-ph:file-code h-4 w-4 mt-0.5 shrink-0'
+              }
+            />
+            <div className="min-w-0">
+              <div className="truncate">{chat.description}</div>
+              <div className="truncate text-xs text-gray-500 dark:text-gray-400">
+                {result.kind === 'message'
+                  ? getSnippet(message?.content ?? '', query)
+                  : `${extractRelativePath(result.ref)}${result.line ? `:${result.line}` : ''}`}
+              </div>
+            </div>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import WithTooltip from '~/components/ui/Tooltip';
+import {
+  db,
+  emptyTrash,
+  getArchivedChats,
+  getTrashedChats,
+  purgeChat,
+  restoreChat,
+  retentionSettings,
+  unarchiveChat,
+} from '~/lib/persistence';
+
+export type ChatListView = 'chats' | 'archive' | 'trash';
+
+interface RemovedChat {
+  id: string;
+  description?: string;
+  removedAt: string;
+}
+
+interface TrashListProps {
+  view: Exclude<ChatListView, 'chats'>;
+
+  // called once a chat is back in the active list
+  onRestored: () => void;
+}
+
+async function loadRemovedChats(view: TrashListProps['view']): Promise<RemovedChat[]> {
+  if (!db) {
+    return [];
+  }
+
+  if (view === 'trash') {
+    return (await getTrashedChats(db)).map(({ id, chat, deletedAt }) => ({
+      id,
+      description: chat.description,
+      removedAt: deletedAt,
+    }));
+  }
+
+  return (await getArchivedChats(db)).map(({ id, chat, archivedAt }) => ({
+    id,
+    description: chat.description,
+    removedAt: archivedAt,
+  }));
+}
+
+/**
+ * The chats in the trash or the archive, which can be restored to the active list or deleted for good.
+ */
+export function TrashList({ view, onRestored }: TrashListProps) {
+  const [chats, setChats] = useState<RemovedChat[]>([]);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const load = useCallback(() => {
+    loadRemovedChats(view)
+      .then(setChats)
+      .catch((error) => toast.error(error.message));
+  }, [view]);
+
+  useEffect(() => {
+    setConfirmEmpty(false);
+    load();
+  }, [load]);
+
+  const restore = async (id: string) => {
+    if (!db) {
+      return;
+    }
+
+    try {
+      await (view === 'trash' ? restoreChat(db, id) : unarchiveChat(db, id));
+      toast.success('Chat restored');
+      onRestored();
+    } catch (error) {
+      toast.error('Failed to restore the chat: ' + (error as Error).message);
+    } finally {
+      load();
+    }
+  };
+
+  const purge = async (id: string) => {
+    if (!db) {
+      return;
+    }
+
+    try {
+      await purgeChat(db, id);
+      toast.success('Chat deleted permanently');
+    } catch (error) {
+      toast.error('Failed to delete the chat: ' + (error as Error).message);
+    } finally {
+      load();
+    }
+  };
+
+  const empty = async () => {
+    if (!db) {
+      return;
+    }
+
+    try {
+      const count = await emptyTrash(db);
+      toast.success(`${count} ${count === 1 ? 'chat' : 'chats'} deleted permanently`);
+    } catch (error) {
+      toast.error('Failed to empty the trash: ' + (error as Error).message);
+    } finally {
+      setConfirmEmpty(false);
+      load();
+    }
+  };
+
+  const { trashDays } = retentionSettings.get();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 px-4 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {view === 'trash'
+            ? trashDays > 0
+              ? `Deleted chats are kept for ${trashDays} days`
+              : 'Deleted chats are kept until the trash is emptied'
+            : 'Archived chats are kept compressed'}
+        </span>
+        {view === 'trash' &&
+          chats.length > 0 &&
+          (confirmEmpty ? (
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => setConfirmEmpty(false)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" size="sm" onClick={empty}>
+                Delete all
+              </Button>
+            </div>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={() => setConfirmEmpty(true)}>
+              Empty trash
+            </Button>
+          ))}
+      </div>
+      {chats.length === 0 && (
+        <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">
+          {view === 'trash' ? 'The trash is empty' : 'No archived chats'}
+        </div>
+      )}
+      <div className="space-y-0.5 pr-1">
+        {chats.map((chat) => (
+          <div
+            key={chat.id}
+            className="group flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50/80 dark:hover:bg-gray-800/30"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="truncate">{chat.description || 'Untitled chat'}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {view === 'trash' ? 'Deleted' : 'Archived'} {new Date(chat.removedAt).toLocaleDateString()}
+              </div>
+            </div>
+            <WithTooltip tooltip="Restore chat">
+              <button
+                type="button"
+                className="i-ph:arrow-counter-clockwise h-4 w-4 text-gray-400 hover:text-purple-500 transition-colors"
+                onClick={() => restore(chat.id)}
+                aria-label="Restore chat"
+              />
+            </WithTooltip>
+            <WithTooltip tooltip="Delete forever">
+              <button
+                type="button"
+                className="i-ph:trash h-4 w-4 text-gray-400 hover:text-red-500 transition-colors"
+                onClick={() => purge(chat.id)}
+                aria-label="Delete forever"
+              />
+            </WithTooltip>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from './Button';
 import { classNames } from '~/utils/classNames';
 import { GitBranch, Check, Shield, Star, RefreshCw, X } from 'lucide-react';
+import type { GitHostId, GitHostProvider } from '~/lib/services/gitHostProvider';
 
 interface BranchInfo {
   name: string;
@@ -13,12 +14,15 @@ interface BranchInfo {
 }
 
 interface BranchSelectorProps {
-  provider: 'github' | 'gitlab';
+  provider: GitHostId;
   repoOwner: string;
   repoName: string;
   projectId?: string | number; // GitLab specific
   token: string;
   gitlabUrl?: string;
+
+  // lists the branches through the git host API instead of the server routes
+  service?: GitHostProvider;
   defaultBranch?: string;
   onBranchSelect: (branch: string) => void;
   onClose: () => void;
@@ -33,6 +37,7 @@ export function BranchSelector({
   projectId,
   token,
   gitlabUrl,
+  service,
   defaultBranch,
   onBranchSelect,
   onClose,
@@ -52,6 +57,15 @@ export function BranchSelector({
     setError(null);
 
     try {
+      if (service) {
+        const result = await service.listBranches(`${repoOwner}/${repoName}`);
+
+        setBranches(result);
+        setSelectedBranch(result.find((branch) => branch.isDefault)?.name || defaultBranch || 'main');
+
+        return;
+      }
+
       let response: Response;
 
       if (provider === 'github') {
@@ -0,0 +1,72 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState, type FormEvent, type ReactNode } from 'react';
+import { Button } from '~/components/ui/Button';
+import { Input } from '~/components/ui/Input';
+import { lockVault, startAutoLock, unlockVault, vaultStatus } from '~/lib/persistence/vault';
+
+/**
+ * Shows the lock screen in place of the app while the vault is locked, the app is mounted again
+ * once it is unlocked so everything is read with the key.
+ */
+export function VaultGate({ children }: { children: ReactNode }) {
+  const status = useStore(vaultStatus);
+
+  useEffect(() => {
+    // the API keys cookie may have outlived the session that unlocked the vault
+    if (vaultStatus.get() === 'locked') {
+      lockVault();
+    }
+  }, []);
+
+  useEffect(() => (status === 'unlocked' ? startAutoLock() : undefined), [status]);
+
+  return status === 'locked' ? <LockScreen /> : <>{children}</>;
+}
+
+function LockScreen() {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string>();
+  const [unlocking, setUnlocking] = useState(false);
+
+  const unlock = async (event: FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(undefined);
+
+    try {
+      await unlockVault(passphrase);
+    } catch (error) {
+      setError((error as Error).message);
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen w-full items-center justify-center bg-bolt-elements-background-depth-1">
+      <form
+        onSubmit={unlock}
+        className="flex w-full max-w-sm flex-col gap-4 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-6"
+      >
+        <div className="flex items-center gap-2 text-bolt-elements-textPrimary">
+          <div className="i-ph:lock-key-duotone text-2xl" />
+          <h1 className="text-lg font-semibold">Bolt is locked</h1>
+        </div>
+        <p className="text-sm text-bolt-elements-textSecondary">
+          Your chats and API keys are encrypted. Enter your passphrase to unlock them.
+        </p>
+        <Input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+        />
+        {error && <p className="text-sm text-bolt-elements-icon-error">{error}</p>}
+        <Button type="submit" disabled={!passphrase || unlocking}>
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </Button>
+      </form>
+    </div>
+  );
+}
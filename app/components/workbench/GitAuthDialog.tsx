@@ -0,0 +1,75 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { gitStore } from '~/lib/stores/git';
+import { classNames } from '~/utils/classNames';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive',
+);
+
+/**
+ * Asks for the credentials of a remote when a fetch, pull or push of the git store needs them.
+ */
+export function GitAuthDialog() {
+  const request = useStore(gitStore.authRequest);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    setUsername('');
+    setPassword('');
+  }, [request]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    request?.resolve({ username: username.trim(), password });
+  };
+
+  return (
+    <DialogRoot open={!!request} onOpenChange={(open) => !open && request?.resolve(undefined)}>
+      {request && (
+        <Dialog onClose={() => request.resolve(undefined)}>
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div>
+              <DialogTitle>Sign in to {request.host}</DialogTitle>
+              <DialogDescription>The credentials are saved for the next requests to this host.</DialogDescription>
+            </div>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoFocus
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password or personal access token"
+              className={inputClassName}
+            />
+            <div className="flex justify-end gap-2">
+              <DialogButton
+                type="secondary"
+                onClick={(event) => {
+                  event.preventDefault();
+                  request.resolve(undefined);
+                }}
+              >
+                Cancel
+              </DialogButton>
+              <DialogButton type="primary" disabled={!username.trim()}>
+                Sign in
+              </DialogButton>
+            </div>
+          </form>
+        </Dialog>
+      )}
+    </DialogRoot>
+  );
+}
@@ -0,0 +1,394 @@
+import { useStore } from '@nanostores/react';
+import { diffLines } from 'diff';
+import { memo, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import {
+  gitStore,
+  type BlameLine,
+  type CommitFileChange,
+  type GitChange,
+  type GitCommitInfo,
+  type GitFileStatus,
+} from '~/lib/stores/git';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { debounce } from '~/utils/debounce';
+import { extractRelativePath } from '~/utils/diff';
+
+interface GitPanelProps {
+  active: boolean;
+}
+
+const CHANGE_LABELS: Record<GitChange, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-500' },
+  modified: { letter: 'M', className: 'text-yellow-500' },
+  deleted: { letter: 'D', className: 'text-red-500' },
+};
+
+const buttonClassName =
+  'px-2 py-1 text-xs rounded-md border border-bolt-elements-borderColor text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive disabled:opacity-50 disabled:cursor-not-allowed';
+
+const inputClassName =
+  'px-2 py-1 text-xs rounded-md bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-purple-500/50';
+
+function run(operation: () => Promise<unknown>, success?: string) {
+  operation()
+    .then(() => success && toast.success(success))
+    .catch((error) => toast.error((error as Error).message));
+}
+
+function shortOid(oid: string) {
+  return oid.slice(0, 7);
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp * 1000).toLocaleString();
+}
+
+interface ChangeListProps {
+  title: string;
+  files: GitFileStatus[];
+  change: 'staged' | 'unstaged';
+  actionLabel: string;
+  onAction: (paths: string[]) => void;
+}
+
+function ChangeList({ title, files, change, actionLabel, onAction }: ChangeListProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-xs font-medium uppercase text-bolt-elements-textSecondary">
+          {title} ({files.length})
+        </div>
+        {files.length > 0 && (
+          <button className={buttonClassName} onClick={() => onAction(files.map((file) => file.path))}>
+            {actionLabel} all
+          </button>
+        )}
+      </div>
+      {files.map((file) => {
+        const label = CHANGE_LABELS[file[change]!];
+
+        return (
+          <div
+            key={file.path}
+            className="group flex items-center gap-2 px-2 py-0.5 rounded text-sm hover:bg-bolt-elements-item-backgroundActive"
+          >
+            <span className={classNames('font-mono text-xs w-3', label.className)}>{label.letter}</span>
+            <span className="flex-1 truncate text-bolt-elements-textPrimary">{file.path}</span>
+            <button
+              className="opacity-0 group-hover:opacity-100 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+              onClick={() => onAction([file.path])}
+            >
+              {actionLabel}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function BlameView({ path, lines, onClose }: { path: string; lines: BlameLine[]; onClose: () => void }) {
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-bolt-elements-borderColor">
+        <span className="text-sm font-medium text-bolt-elements-textPrimary truncate">Blame: {path}</span>
+        <button
+          className="i-ph:x text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+          onClick={onClose}
+        />
+      </div>
+      <div className="flex-1 overflow-auto font-mono text-xs">
+        {lines.length === 0 && <div className="p-3 text-bolt-elements-textSecondary">The file has no commits yet</div>}
+        {lines.map((line, index) => (
+          <div key={index} className="flex hover:bg-bolt-elements-item-backgroundActive">
+            <span
+              className="w-48 shrink-0 px-2 truncate text-bolt-elements-textTertiary border-r border-bolt-elements-borderColor"
+              title={`${line.commit.message}\n${line.commit.author}, ${formatTime(line.commit.timestamp)}`}
+            >
+              {shortOid(line.commit.oid)} {line.commit.author}
+            </span>
+            <span className="w-10 shrink-0 px-2 text-right text-bolt-elements-textTertiary">{index + 1}</span>
+            <span className="px-2 whitespace-pre text-bolt-elements-textPrimary">{line.content}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function FileDiff({ change }: { change: CommitFileChange }) {
+  const kind: GitChange = change.before === undefined ? 'added' : change.after === undefined ? 'deleted' : 'modified';
+  const label = CHANGE_LABELS[kind];
+
+  return (
+    <div className="border border-bolt-elements-borderColor rounded-md overflow-hidden">
+      <div className="flex items-center gap-2 px-2 py-1 text-sm bg-bolt-elements-background-depth-1">
+        <span className={classNames('font-mono text-xs w-3', label.className)}>{label.letter}</span>
+        <span className="truncate text-bolt-elements-textPrimary">{change.path}</span>
+      </div>
+      <div className="overflow-auto font-mono text-xs">
+        {diffLines(change.before ?? '', change.after ?? '').flatMap((part, partIndex) =>
+          part.value
+            .replace(/\n$/, '')
+            .split('\n')
+            .map((line, index) => (
+              <div
+                key={`${partIndex}-${index}`}
+                className={classNames('px-2 whitespace-pre', {
+                  'bg-green-500/10 text-green-500': !!part.added,
+                  'bg-red-500/10 text-red-500': !!part.removed,
+                  'text-bolt-elements-textSecondary': !part.added && !part.removed,
+                })}
+              >
+                {part.added ? '+' : part.removed ? '-' : ' '} {line}
+              </div>
+            )),
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommitView({ oid, commits, onClose }: { oid: string; commits: GitCommitInfo[]; onClose: () => void }) {
+  const busy = useStore(gitStore.busy);
+  const [changes, setChanges] = useState<CommitFileChange[]>();
+  const info = commits.find((entry) => entry.oid === oid);
+
+  useEffect(() => {
+    setChanges(undefined);
+    gitStore
+      .commitChanges(oid)
+      .then(setChanges)
+      .catch((error) => toast.error(`Failed to read commit ${shortOid(oid)}: ${error.message}`));
+  }, [oid]);
+
+  const revert = () =>
+    run(async () => {
+      const revertOid = await gitStore.revert(oid);
+      toast.success(`Reverted ${shortOid(oid)} in ${shortOid(revertOid)}`);
+      onClose();
+    });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-bolt-elements-borderColor">
+        <span className="font-mono text-xs text-purple-500">{shortOid(oid)}</span>
+        <span className="flex-1 text-sm font-medium text-bolt-elements-textPrimary truncate">
+          {info?.message.split('\n')[0]}
+        </span>
+        <button className={buttonClassName} disabled={!changes?.length || !!busy} onClick={revert}>
+          Revert
+        </button>
+        <button
+          className="i-ph:x text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+          onClick={onClose}
+        />
+      </div>
+      <div className="flex-1 overflow-auto p-3 flex flex-col gap-3">
+        {changes?.length === 0 && <div className="text-sm text-bolt-elements-textSecondary">No files changed</div>}
+        {changes?.map((change) => (
+          <FileDiff key={change.path} change={change} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Status, staging, commits, branches, history and blame of the repository in the WebContainer.
+ */
+export const GitPanel = memo(({ active }: GitPanelProps) => {
+  const isRepo = useStore(gitStore.isRepo);
+  const status = useStore(gitStore.status);
+  const branches = useStore(gitStore.branches);
+  const currentBranch = useStore(gitStore.currentBranch);
+  const commits = useStore(gitStore.commits);
+  const remoteUrl = useStore(gitStore.remoteUrl);
+  const busy = useStore(gitStore.busy);
+  const selectedCommit = useStore(gitStore.selectedCommit);
+  const files = useStore(workbenchStore.files);
+  const [message, setMessage] = useState('');
+  const [newBranch, setNewBranch] = useState('');
+  const [blame, setBlame] = useState<{ path: string; lines: BlameLine[] }>();
+
+  // keep the status current while the panel is shown
+  useEffect(() => {
+    if (!active) {
+      return undefined;
+    }
+
+    const refresh = debounce(() => {
+      gitStore.refresh().catch((error) => console.error('Failed to read the repository status:', error));
+    }, 500);
+
+    refresh();
+
+    return workbenchStore.files.listen(refresh);
+  }, [active]);
+
+  const staged = status.filter((file) => file.staged);
+  const unstaged = status.filter((file) => file.unstaged);
+  const filePaths = useMemo(
+    () =>
+      Object.entries(files)
+        .filter(([, dirent]) => dirent?.type === 'file')
+        .map(([path]) => extractRelativePath(path))
+        .sort(),
+    [files],
+  );
+
+  const commit = () =>
+    run(async () => {
+      const oid = await gitStore.commit(message.trim());
+      setMessage('');
+      toast.success(`Committed ${shortOid(oid)}`);
+    });
+
+  const createBranch = () =>
+    run(async () => {
+      await gitStore.createBranch(newBranch.trim());
+      setNewBranch('');
+    }, `Switched to a new branch ${newBranch.trim()}`);
+
+  const showBlame = (path: string) => run(async () => setBlame({ path, lines: await gitStore.blame(path) }));
+
+  if (isRepo === false) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-sm text-bolt-elements-textSecondary">
+        <div className="i-ph:git-branch text-3xl" />
+        <p>This project is not under version control.</p>
+        <button className={buttonClassName} disabled={!!busy} onClick={() => run(() => gitStore.init())}>
+          Initialize repository
+        </button>
+      </div>
+    );
+  }
+
+  if (selectedCommit) {
+    return <CommitView oid={selectedCommit} commits={commits} onClose={() => gitStore.selectedCommit.set(undefined)} />;
+  }
+
+  if (blame) {
+    return <BlameView path={blame.path} lines={blame.lines} onClose={() => setBlame(undefined)} />;
+  }
+
+  return (
+    <div className="flex flex-col h-full overflow-auto p-3 gap-4 bg-bolt-elements-background-depth-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="i-ph:git-branch text-bolt-elements-textSecondary" />
+        <select
+          value={currentBranch ?? ''}
+          disabled={!!busy}
+          onChange={(event) => run(() => gitStore.checkout(event.target.value), `Switched to ${event.target.value}`)}
+          className={inputClassName}
+        >
+          {!currentBranch && <option value="">detached HEAD</option>}
+          {branches.map((branch) => (
+            <option key={branch} value={branch}>
+              {branch}
+            </option>
+          ))}
+        </select>
+        <input
+          value={newBranch}
+          onChange={(event) => setNewBranch(event.target.value)}
+          placeholder="New branch"
+          className={classNames(inputClassName, 'w-32')}
+        />
+        <button className={buttonClassName} disabled={!newBranch.trim() || !!busy} onClick={createBranch}>
+          Create
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          {busy && <span className="text-xs text-bolt-elements-textSecondary">{busy}...</span>}
+          <button
+            className={buttonClassName}
+            disabled={!remoteUrl || !!busy}
+            title={remoteUrl}
+            onClick={() => run(() => gitStore.pull(), 'Pulled from the remote')}
+          >
+            Pull
+          </button>
+          <button
+            className={buttonClassName}
+            disabled={!remoteUrl || !!busy}
+            title={remoteUrl}
+            onClick={() => run(() => gitStore.push(), 'Pushed to the remote')}
+          >
+            Push
+          </button>
+          <button
+            className={classNames(buttonClassName, 'i-ph:arrows-clockwise')}
+            title="Refresh"
+            onClick={() => run(() => gitStore.refresh())}
+          />
+        </div>
+      </div>
+
+      <ChangeList
+        title="Staged changes"
+        files={staged}
+        change="staged"
+        actionLabel="Unstage"
+        onAction={(paths) => run(() => gitStore.unstage(paths))}
+      />
+      <ChangeList
+        title="Changes"
+        files={unstaged}
+        change="unstaged"
+        actionLabel="Stage"
+        onAction={(paths) => run(() => gitStore.stage(paths))}
+      />
+
+      <div className="flex flex-col gap-2">
+        <textarea
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          placeholder="Commit message"
+          rows={3}
+          className={classNames(inputClassName, 'resize-y text-sm')}
+        />
+        <button
+          className={classNames(buttonClassName, 'self-end')}
+          disabled={staged.length === 0 || !message.trim() || !!busy}
+          onClick={commit}
+        >
+          Commit {staged.length} {staged.length === 1 ? 'file' : 'files'}
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <div className="text-xs font-medium uppercase text-bolt-elements-textSecondary">History</div>
+          <select
+            value=""
+            onChange={(event) => event.target.value && showBlame(event.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Blame a file...</option>
+            {filePaths.map((path) => (
+              <option key={path} value={path}>
+                {path}
+              </option>
+            ))}
+          </select>
+        </div>
+        {commits.length === 0 && <div className="text-sm text-bolt-elements-textSecondary">No commits yet</div>}
+        {commits.map((entry) => (
+          <div
+            key={entry.oid}
+            className="flex items-baseline gap-2 px-2 py-1 text-sm rounded cursor-pointer hover:bg-bolt-elements-item-backgroundActive"
+            onClick={() => gitStore.selectedCommit.set(entry.oid)}
+          >
+            <span className="font-mono text-xs text-purple-500">{shortOid(entry.oid)}</span>
+            <span className="flex-1 truncate text-bolt-elements-textPrimary">{entry.message.split('\n')[0]}</span>
+            <span className="text-xs text-bolt-elements-textTertiary whitespace-nowrap" title={entry.email}>
+              {entry.author}, {formatTime(entry.timestamp)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
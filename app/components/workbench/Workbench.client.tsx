@@ -1,13 +1,16 @@
 import { useStore } from '@nanostores/react';
 import { motion, type HTMLMotionProps, type Variants } from 'framer-motion';
 import { computed } from 'nanostores';
-import { memo, useCallback, useEffect, useState, useMemo } from 'react';
+import { memo, useCallback, useEffect, useRef, useState, useMemo } from 'react';
+import { useSearchParams } from '@remix-run/react';
 import { toast } from 'react-toastify';
 import { Popover, Transition } from '@headlessui/react';
 import { diffLines, type Change } from 'diff';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import type { FileHistory } from '~/types/actions';
 import { DiffView } from './DiffView';
+import { GitAuthDialog } from './GitAuthDialog';
+import { GitPanel } from './GitPanel';
 import {
   type OnChangeCallback as OnEditorChange,
   type OnScrollCallback as OnEditorScroll,
@@ -26,7 +29,8 @@ import { usePreviewStore } from '~/lib/stores/previews';
 import { chatStore } from '~/lib/stores/chat';
 import type { ElementInfo } from './Inspector';
 import { ExportChatButton } from '~/components/chat/chatExportAndImport/ExportChatButton';
-import { useChatHistory } from '~/lib/persistence';
+import { chatMetadata, useChatHistory } from '~/lib/persistence';
+import { remoteSyncStore } from '~/lib/stores/remoteSync';
 import { streamingState } from '~/lib/stores/streaming';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 
@@ -51,12 +55,22 @@ const sliderOptions: SliderOptions<WorkbenchViewType> = {
     value: 'diff',
     text: 'Diff',
   },
+  more: [{ value: 'git', text: 'Git' }],
   right: {
     value: 'preview',
     text: 'Preview',
   },
 };
 
+// the views side by side in the order of the slider, the selected one slides in from its side
+const VIEW_ORDER: WorkbenchViewType[] = ['code', 'diff', 'git', 'preview'];
+
+function viewOffset(view: WorkbenchViewType, selectedView: WorkbenchViewType) {
+  const offset = VIEW_ORDER.indexOf(view) - VIEW_ORDER.indexOf(selectedView);
+
+  return offset === 0 ? '0%' : offset < 0 ? '-100%' : '100%';
+}
+
 const workbenchVariants = {
   closed: {
     width: 0,
@@ -308,6 +322,8 @@ export const Workbench = memo(
     const streaming = useStore(streamingState);
     const { exportChat } = useChatHistory();
     const [isSyncing, setIsSyncing] = useState(false);
+    const gitUrl = useStore(chatMetadata)?.gitUrl;
+    const syncingRemote = useStore(remoteSyncStore.busy);
 
     const setSelectedView = (view: WorkbenchViewType) => {
       workbenchStore.currentView.set(view);
@@ -323,6 +339,31 @@ export const Workbench = memo(
       workbenchStore.setDocuments(files);
     }, [files]);
 
+    // open the file a sidebar search result links to once the restored project contains it
+    const [searchParams] = useSearchParams();
+    const targetFile = searchParams.get('file');
+    const openedTargetFile = useRef(false);
+
+    useEffect(() => {
+      if (!targetFile || openedTargetFile.current || files[targetFile]?.type !== 'file') {
+        return;
+      }
+
+      openedTargetFile.current = true;
+
+      const line = parseInt(searchParams.get('line') ?? '', 10);
+
+      workbenchStore.setShowWorkbench(true);
+      workbenchStore.currentView.set('code');
+      workbenchStore.setSelectedFile(targetFile);
+
+      // search results use 1-based lines, the editor expects 0-based ones
+      workbenchStore.setCurrentDocumentScrollPosition({
+        line: Number.isFinite(line) ? Math.max(0, line - 1) : 0,
+        column: 0,
+      });
+    }, [targetFile, files]);
+
     const onEditorChange = useCallback<OnEditorChange>((update) => {
       workbenchStore.setCurrentDocumentContent(update.content);
     }, []);
@@ -357,6 +398,61 @@ export const Workbench = memo(
       workbenchStore.currentView.set('diff');
     }, []);
 
+    // the files a sync with the upstream repository left with conflicts are compared to their local version
+    useEffect(
+      () =>
+        remoteSyncStore.conflicts.listen((conflicts) => {
+          const paths = Object.keys(conflicts);
+
+          if (paths.length === 0) {
+            return;
+          }
+
+          const files = workbenchStore.files.get();
+
+          setFileHistory((prev) => {
+            const next = { ...prev };
+
+            for (const [filePath, originalContent] of Object.entries(conflicts)) {
+              const file = files[filePath];
+              const content = file?.type === 'file' ? file.content : '';
+
+              next[filePath] = {
+                originalContent,
+                lastModified: Date.now(),
+                changes: diffLines(originalContent, content),
+                versions: [{ timestamp: Date.now(), content }],
+                changeSource: 'external',
+              };
+            }
+
+            return next;
+          });
+
+          workbenchStore.setSelectedFile(paths[0]);
+          workbenchStore.currentView.set('diff');
+        }),
+      [],
+    );
+
+    const handleSyncRemote = useCallback(async () => {
+      try {
+        const { commits, files } = await remoteSyncStore.sync();
+        const conflicts = files.filter((file) => file.status === 'conflict').length;
+
+        if (commits.length === 0 && files.length === 0) {
+          toast.info('Already up to date with the remote');
+        } else if (conflicts > 0) {
+          toast.warning(`Synced with conflicts in ${conflicts} ${conflicts === 1 ? 'file' : 'files'}`);
+        } else {
+          toast.success(`Synced ${files.length} ${files.length === 1 ? 'file' : 'files'} from the remote`);
+        }
+      } catch (error) {
+        console.error('Error syncing with the remote:', error);
+        toast.error('Failed to sync with the remote: ' + (error as Error).message);
+      }
+    }, []);
+
     const handleSyncFiles = useCallback(async () => {
       setIsSyncing(true);
 
@@ -414,10 +510,10 @@ export const Workbench = memo(
                       <div className="flex border border-bolt-elements-borderColor rounded-md overflow-hidden ml-1">
                         <DropdownMenu.Root>
                           <DropdownMenu.Trigger
-                            disabled={isSyncing || streaming}
+                            disabled={isSyncing || syncingRemote || streaming}
                             className="rounded-md items-center justify-center [&:is(:disabled,.disabled)]:cursor-not-allowed [&:is(:disabled,.disabled)]:opacity-60 px-3 py-1.5 text-xs bg-accent-500 text-white hover:text-bolt-elements-item-contentAccent [&:not(:disabled,.disabled)]:hover:bg-bolt-elements-button-primary-backgroundHover outline-accent-500 flex gap-1.7"
                           >
-                            {isSyncing ? 'Syncing...' : 'Sync'}
+                            {isSyncing || syncingRemote ? 'Syncing...' : 'Sync'}
                             <span className={classNames('i-ph:caret-down transition-transform')} />
                           </DropdownMenu.Trigger>
                           <DropdownMenu.Content
@@ -448,6 +544,20 @@ export const Workbench = memo(
                                 <span>{isSyncing ? 'Syncing...' : 'Sync Files'}</span>
                               </div>
                             </DropdownMenu.Item>
+                            {gitUrl && (
+                              <DropdownMenu.Item
+                                className={classNames(
+                                  'cursor-pointer flex items-center w-full px-4 py-2 text-sm text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive gap-2 rounded-md group relative',
+                                )}
+                                onClick={handleSyncRemote}
+                                disabled={syncingRemote}
+                              >
+                                <div className="flex items-center gap-2" title={gitUrl}>
+                                  <div className={syncingRemote ? 'i-ph:spinner' : 'i-ph:git-pull-request'} />
+                                  <span>{syncingRemote ? 'Syncing...' : 'Sync with Remote'}</span>
+                                </div>
+                              </DropdownMenu.Item>
+                            )}
                           </DropdownMenu.Content>
                         </DropdownMenu.Root>
                       </div>
@@ -480,7 +590,7 @@ export const Workbench = memo(
                   />
                 </div>
                 <div className="relative flex-1 overflow-hidden">
-                  <View initial={{ x: '0%' }} animate={{ x: selectedView === 'code' ? '0%' : '-100%' }}>
+                  <View initial={{ x: '0%' }} animate={{ x: viewOffset('code', selectedView) }}>
                     <EditorPanel
                       editorDocument={currentDocument}
                       isStreaming={isStreaming}
@@ -495,15 +605,16 @@ export const Workbench = memo(
                       onFileReset={onFileReset}
                     />
                   </View>
-                  <View
-                    initial={{ x: '100%' }}
-                    animate={{ x: selectedView === 'diff' ? '0%' : selectedView === 'code' ? '100%' : '-100%' }}
-                  >
+                  <View initial={{ x: '100%' }} animate={{ x: viewOffset('diff', selectedView) }}>
                     <DiffView fileHistory={fileHistory} setFileHistory={setFileHistory} />
                   </View>
-                  <View initial={{ x: '100%' }} animate={{ x: selectedView === 'preview' ? '0%' : '100%' }}>
+                  <View initial={{ x: '100%' }} animate={{ x: viewOffset('git', selectedView) }}>
+                    <GitPanel active={selectedView === 'git'} />
+                  </View>
+                  <View initial={{ x: '100%' }} animate={{ x: viewOffset('preview', selectedView) }}>
                     <Preview setSelectedElement={setSelectedElement} />
                   </View>
+                  <GitAuthDialog />
                 </div>
               </div>
             </div>
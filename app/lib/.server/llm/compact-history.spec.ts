@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatCompaction } from '~/types/context';
+import {
+  applyCompaction,
+  chunkTurns,
+  parseConversationSummary,
+  renderConversationSummary,
+  shouldCompact,
+} from './compact-history';
+import { estimateMessageTokens } from './context-planner';
+
+const messages = ['m1', 'm2', 'm3', 'm4', 'm5', 'm6'].map((id, i) => ({
+  id,
+  role: i % 2 ? ('assistant' as const) : ('user' as const),
+  content: Array.from({ length: 100 }, (_, word) => `word${word}`).join(' '),
+}));
+
+const compaction: ChatCompaction = {
+  summary: { decisions: ['Use Vite'], files: [{ path: 'src/App.tsx', description: 'todo list' }], todos: [] },
+  lastMessageId: 'm2',
+  messageCount: 2,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('compactHistory', () => {
+  it('should read the summary out of a fenced answer', () => {
+    const summary = parseConversationSummary('```json\n{ "decisions": ["Use Vite"], "todos": ["Add tests"] }\n```');
+
+    expect(summary).toEqual({ decisions: ['Use Vite'], files: [], todos: ['Add tests'] });
+    expect(() => parseConversationSummary('no summary')).toThrow('valid conversation summary');
+  });
+
+  it('should only send the messages after the compacted ones', () => {
+    expect(applyCompaction(messages, compaction).messages.map((message) => message.id)).toEqual([
+      'm3',
+      'm4',
+      'm5',
+      'm6',
+    ]);
+
+    // after a rewind past the summary it no longer applies
+    const rewound = applyCompaction(messages.slice(0, 1), compaction);
+
+    expect(rewound.messages).toHaveLength(1);
+    expect(rewound.compaction).toBeUndefined();
+  });
+
+  it('should compact once the history exceeds the threshold', () => {
+    expect(shouldCompact(messages, 100_000, 0.6)).toBe(false);
+    expect(shouldCompact(messages, 1_000, 0.6)).toBe(true);
+    expect(shouldCompact(messages.slice(0, 4), 1_000, 0.6)).toBe(false);
+    expect(renderConversationSummary(compaction.summary)).toContain('- src/App.tsx: todo list');
+  });
+
+  it('should fold long histories in chunks that fit the model', () => {
+    const turnTokens = estimateMessageTokens(messages[0]);
+
+    expect(chunkTurns(messages, turnTokens * 2).map((chunk) => chunk.length)).toEqual([2, 2, 2]);
+    expect(chunkTurns(messages, turnTokens * 6)).toHaveLength(1);
+
+    // a turn larger than a whole chunk is cut down to fit it
+    const [[long]] = chunkTurns([{ role: 'user', content: messages[0].content.repeat(10) }], turnTokens);
+
+    expect(long.content.length).toBeLessThan(messages[0].content.length * 2);
+    expect(long.content).toContain('[truncated]');
+  });
+});
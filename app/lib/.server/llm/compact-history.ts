@@ -0,0 +1,241 @@
+import { generateText, type CoreTool, type GenerateTextResult, type Message } from 'ai';
+import { z } from 'zod';
+import type { IProviderSetting } from '~/types/model';
+import type { ChatCompaction, ConversationSummary } from '~/types/context';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { resolveModel } from './resolve-model';
+import { estimateMessageTokens, estimateTokens } from './context-planner';
+import { extractPropertiesFromMessage, simplifyBoltActions } from './utils';
+
+const logger = createScopedLogger('compact-history');
+
+// the latest turns are always sent as they are, so the model sees the current exchange verbatim
+const RECENT_MESSAGES = 4;
+
+// the share of the context window the turns of one summarization request may take
+const CHUNK_SHARE = 0.5;
+
+const SUMMARY_PROMPT = `
+You are a software engineer keeping the memory of a long coding conversation. Older turns are
+about to be dropped, you write the summary that replaces them.
+
+Answer with a single JSON object and nothing else, in this shape:
+{
+  "decisions": ["decision the user and the assistant settled on, with the reason if given"],
+  "files": [{ "path": "path/of/a/file", "description": "what the file holds and its current state" }],
+  "todos": ["work that was asked for or promised and is not done yet"]
+}
+
+RULES:
+* Keep everything from the previous summary that is still true, it may have been edited by the user.
+* Drop decisions that were reversed and TODOs that were completed.
+* List every file that was created or changed, one entry per path.
+* Keep entries short and concrete.
+`;
+
+const conversationSummarySchema = z.object({
+  decisions: z.array(z.string()).default([]),
+  files: z.array(z.object({ path: z.string(), description: z.string().default('') })).default([]),
+  todos: z.array(z.string()).default([]),
+});
+
+/**
+ * Reads the summary out of the model's answer, which may wrap the JSON in a code fence or text.
+ */
+export function parseConversationSummary(text: string): ConversationSummary {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  try {
+    return conversationSummarySchema.parse(JSON.parse(text.slice(start, end + 1)));
+  } catch {
+    throw new Error('The model did not return a valid conversation summary');
+  }
+}
+
+export function renderConversationSummary(summary: ConversationSummary): string {
+  const list = (items: string[]) => (items.length ? items.map((item) => `- ${item}`).join('\n') : '- none');
+  const files = summary.files.map((file) => (file.description ? `${file.path}: ${file.description}` : file.path));
+
+  return `## Decisions
+${list(summary.decisions)}
+
+## Files
+${list(files)}
+
+## Open TODOs
+${list(summary.todos)}`;
+}
+
+/**
+ * Leaves out the messages covered by the summary. A compaction whose last message is not part of
+ * the chat, e.g. after rewinding past it, no longer applies.
+ */
+export function applyCompaction<T extends Pick<Message, 'id'>>(
+  messages: T[],
+  compaction?: ChatCompaction,
+): { messages: T[]; compaction?: ChatCompaction } {
+  const index = compaction ? messages.findIndex((message) => message.id === compaction.lastMessageId) : -1;
+
+  if (!compaction || index === -1) {
+    return { messages };
+  }
+
+  return { messages: messages.slice(index + 1), compaction };
+}
+
+// cuts `content` down to about `maxTokens`, for a single turn larger than a whole chunk
+function truncateContent(content: string, maxTokens: number) {
+  const tokens = estimateTokens(content);
+
+  return tokens <= maxTokens
+    ? content
+    : `${content.slice(0, Math.floor((content.length * maxTokens) / tokens))}\n[truncated]`;
+}
+
+/**
+ * Splits the turns to fold into chunks of at most `maxTokens`, each summarized on top of the
+ * summary of the chunks before it.
+ */
+export function chunkTurns<T extends Omit<Message, 'id'>>(messages: T[], maxTokens: number): T[][] {
+  const chunks: T[][] = [];
+  let chunk: T[] = [];
+  let tokens = 0;
+
+  for (const message of messages) {
+    const capped = { ...message, content: truncateContent(message.content, maxTokens) };
+    const messageTokens = estimateMessageTokens(capped);
+
+    if (chunk.length && tokens + messageTokens > maxTokens) {
+      chunks.push(chunk);
+      chunk = [];
+      tokens = 0;
+    }
+
+    chunk.push(capped);
+    tokens += messageTokens;
+  }
+
+  return chunk.length ? [...chunks, chunk] : chunks;
+}
+
+export function shouldCompact(
+  messages: Omit<Message, 'id'>[],
+  contextWindow: number,
+  threshold: number,
+  summary?: string,
+): boolean {
+  if (messages.length <= RECENT_MESSAGES) {
+    return false;
+  }
+
+  const tokens = messages.reduce((sum, message) => sum + estimateMessageTokens(message), estimateTokens(summary ?? ''));
+
+  return tokens > contextWindow * threshold;
+}
+
+/**
+ * Folds the older of `messages` into the summary once they take more than `threshold` of the
+ * model's context window. Returns nothing while the history still fits.
+ */
+export async function compactHistory(props: {
+  messages: Message[];
+  previous?: ChatCompaction;
+  threshold: number;
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: BaseProvider[];
+  onStart?: () => void;
+  onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+}): Promise<ChatCompaction | undefined> {
+  const {
+    messages,
+    previous,
+    threshold,
+    env: serverEnv,
+    apiKeys,
+    providerSettings,
+    customProviders,
+    onStart,
+    onFinish,
+  } = props;
+  let currentModel = DEFAULT_MODEL;
+  let currentProvider = DEFAULT_PROVIDER.name;
+  const processedMessages = messages.map((message) => {
+    if (message.role === 'user') {
+      const { model, provider, content } = extractPropertiesFromMessage(message);
+      currentModel = model;
+      currentProvider = provider;
+
+      return { ...message, content };
+    } else if (message.role == 'assistant') {
+      let content = message.content;
+
+      content = simplifyBoltActions(content);
+      content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
+      content = content.replace(/<think>.*?<\/think>/s, '');
+
+      return { ...message, content };
+    }
+
+    return message;
+  });
+
+  const { provider, modelDetails } = await resolveModel({
+    model: currentModel,
+    provider: currentProvider,
+    env: serverEnv,
+    apiKeys,
+    providerSettings,
+    customProviders,
+  });
+
+  const contextWindow = modelDetails.maxTokenAllowed || 8000;
+  const previousSummary = previous ? renderConversationSummary(previous.summary) : undefined;
+
+  if (!shouldCompact(messages, contextWindow, threshold, previousSummary)) {
+    return undefined;
+  }
+
+  const compacted = processedMessages.slice(0, -RECENT_MESSAGES);
+  let summary = previous?.summary;
+
+  logger.debug(`Compacting ${compacted.length} message(s)`);
+  onStart?.();
+
+  for (const chunk of chunkTurns(compacted, Math.floor(contextWindow * CHUNK_SHARE))) {
+    const resp = await generateText({
+      system: SUMMARY_PROMPT,
+      prompt: `
+Here is the previous summary of the chat:
+<old_summary>
+${summary ? JSON.stringify(summary, null, 2) : 'none'}
+</old_summary>
+
+Below are the turns to fold into it:
+<turns>
+${chunk.map((message) => `---\n[${message.role}] ${message.content}\n---`).join('\n')}
+</turns>
+`,
+      model: provider.getModelInstance({
+        model: modelDetails.name,
+        serverEnv,
+        apiKeys,
+        providerSettings,
+      }),
+    });
+
+    onFinish?.(resp);
+    summary = parseConversationSummary(resp.text);
+  }
+
+  return {
+    summary: summary!,
+    lastMessageId: compacted[compacted.length - 1].id,
+    messageCount: (previous?.messageCount ?? 0) + compacted.length,
+    updatedAt: new Date().toISOString(),
+  };
+}
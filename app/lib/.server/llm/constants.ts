@@ -46,6 +46,9 @@ export function isReasoningModel(modelName: string): boolean {
 // limits the number of model responses that can be returned in a single request
 export const MAX_RESPONSE_SEGMENTS = 2;
 
+// limits the model steps of a response in the `tools` editing mode, every step can hold several tool calls
+export const MAX_EDITING_TOOL_STEPS = 30;
+
 export interface File {
   type: 'file';
   content: string;
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { estimateTokens, planContext } from './context-planner';
+
+const model: ModelInfo = { name: 'test-model', label: 'Test', provider: 'Test', maxTokenAllowed: 2000 };
+
+function message(role: 'user' | 'assistant', words: number) {
+  return { role, content: Array.from({ length: words }, (_, i) => `word${i}`).join(' ') };
+}
+
+describe('planContext', () => {
+  it('should keep every message when the history fits', () => {
+    const messages = [message('user', 10), message('assistant', 10), message('user', 10)];
+    const plan = planContext({ model, completionTokens: 500, systemPrompt: 'system', messages });
+
+    expect(plan.messages).toEqual(messages);
+    expect(plan.budget.droppedMessages).toBe(0);
+    expect(plan.budget.used).toBeLessThanOrEqual(plan.budget.inputBudget);
+  });
+
+  it('should drop the oldest messages first and always keep the latest one', () => {
+    const messages = Array.from({ length: 20 }, (_, i) => message(i % 2 ? 'assistant' : 'user', 100));
+    const plan = planContext({ model, completionTokens: 500, systemPrompt: 'system', messages });
+
+    expect(plan.messages.at(-1)).toBe(messages.at(-1));
+    expect(plan.messages[0]).not.toBe(messages[0]);
+    expect(plan.budget.droppedMessages).toBeGreaterThan(0);
+    expect(plan.budget.used).toBeLessThanOrEqual(plan.budget.inputBudget);
+  });
+
+  it('should truncate or omit context files that do not fit', () => {
+    const big = Array.from({ length: 2000 }, (_, i) => `const value${i} = ${i};`).join('\n');
+    const plan = planContext({
+      model,
+      completionTokens: 500,
+      systemPrompt: 'system',
+      messages: [message('user', 10)],
+      contextFiles: {
+        '/home/project/a.ts': { type: 'file', content: big, isBinary: false },
+        '/home/project/b.ts': { type: 'file', content: big, isBinary: false },
+      },
+    });
+
+    expect(plan.budget.files.map((file) => file.status)).toEqual(['truncated', 'omitted']);
+    expect(plan.contextFiles['/home/project/b.ts']).toBeUndefined();
+    expect(plan.contextFiles['/home/project/a.ts']).toMatchObject({ content: expect.stringContaining('truncated') });
+    expect(plan.budget.allocation.files).toBeLessThan(estimateTokens(big));
+  });
+});
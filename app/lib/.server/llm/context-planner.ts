@@ -0,0 +1,223 @@
+import type { Message } from 'ai';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { ContextBudget, ContextBudgetFile } from '~/types/context';
+import type { FileMap } from './constants';
+
+/*
+ * Approximates the pre-tokenisation step of BPE tokenizers (cl100k/o200k style): contractions,
+ * letter runs, up to three digits, punctuation runs and whitespace each form a piece, and long
+ * pieces are split further at roughly four characters per token.
+ */
+const PRE_TOKENIZE_REGEX =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+// tokens every chat message costs on top of its content (role, separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// tokens the `<boltAction>` wrapper adds around each file in the context buffer
+const FILE_OVERHEAD_TOKENS = 12;
+
+// headroom for provider-side prompt formatting we cannot see
+const SAFETY_MARGIN_RATIO = 0.05;
+
+// files that would be cut below this many tokens are left out instead of truncated
+const MIN_TRUNCATED_FILE_TOKENS = 256;
+
+const TRUNCATION_MARKER = '\n... [truncated to fit the context window] ...\n';
+
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+
+  for (const piece of text.match(PRE_TOKENIZE_REGEX) ?? []) {
+    tokens += piece.length <= 4 ? 1 : Math.ceil(piece.length / 4);
+  }
+
+  return tokens;
+}
+
+export function estimateMessageTokens(message: Omit<Message, 'id'>) {
+  const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+
+  return estimateTokens(content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Keeps whole lines from the start of `content` until `maxTokens` is reached.
+ */
+function truncateToTokens(content: string, maxTokens: number) {
+  const budget = maxTokens - estimateTokens(TRUNCATION_MARKER);
+  const lines = content.split('\n');
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const line of lines) {
+    const lineTokens = estimateTokens(line) + 1;
+
+    if (used + lineTokens > budget) {
+      break;
+    }
+
+    kept.push(line);
+    used += lineTokens;
+  }
+
+  return `${kept.join('\n')}${TRUNCATION_MARKER}`;
+}
+
+export interface ContextPlanOptions<T extends Omit<Message, 'id'>> {
+  model: ModelInfo;
+
+  // tokens reserved for the response
+  completionTokens: number;
+  systemPrompt: string;
+  summary?: string;
+
+  // in order of relevance, most relevant first
+  contextFiles?: FileMap;
+  messages: T[];
+
+  // upper bound on history messages, e.g. when older turns are already covered by the summary
+  maxHistoryMessages?: number;
+}
+
+export interface ContextPlan<T> {
+  messages: T[];
+  summary?: string;
+  contextFiles: FileMap;
+  budget: ContextBudget;
+}
+
+/**
+ * Decides what fits into the model's context window. Items are admitted in priority order and
+ * whatever no longer fits is truncated or dropped:
+ *
+ * 1. system prompt and the latest message (always sent)
+ * 2. chat summary
+ * 3. recent history, newest first
+ * 4. context files
+ * 5. older history, newest first
+ */
+export function planContext<T extends Omit<Message, 'id'>>(options: ContextPlanOptions<T>): ContextPlan<T> {
+  const { model, completionTokens, systemPrompt, summary, contextFiles = {}, messages, maxHistoryMessages } = options;
+
+  const contextWindow = model.maxTokenAllowed || 8000;
+  const reserved = Math.min(completionTokens, Math.floor(contextWindow / 2));
+  const inputBudget = Math.floor((contextWindow - reserved) * (1 - SAFETY_MARGIN_RATIO));
+
+  const allocation = { system: 0, summary: 0, files: 0, history: 0 };
+  let remaining = inputBudget;
+
+  const spend = (key: keyof typeof allocation, tokens: number) => {
+    allocation[key] += tokens;
+    remaining -= tokens;
+  };
+
+  // 1. mandatory items
+  spend('system', estimateTokens(systemPrompt));
+
+  const lastIndex = messages.length - 1;
+  const keep = new Set<number>();
+
+  if (lastIndex >= 0) {
+    keep.add(lastIndex);
+    spend('history', estimateMessageTokens(messages[lastIndex]));
+  }
+
+  // 2. summary
+  let plannedSummary: string | undefined;
+  let summaryTruncated = false;
+
+  if (summary) {
+    const summaryTokens = estimateTokens(summary);
+
+    if (summaryTokens <= remaining) {
+      plannedSummary = summary;
+      spend('summary', summaryTokens);
+    } else if (remaining >= MIN_TRUNCATED_FILE_TOKENS) {
+      plannedSummary = truncateToTokens(summary, remaining);
+      summaryTruncated = true;
+      spend('summary', estimateTokens(plannedSummary));
+    }
+  }
+
+  // 3. recent history and 5. older history share one walk from the newest message backwards
+  const historyLimit = maxHistoryMessages ?? messages.length;
+  const recentCount = Math.min(historyLimit, 3);
+  const olderCandidates: number[] = [];
+
+  for (let i = lastIndex - 1, taken = 1; i >= 0 && taken < historyLimit; i--, taken++) {
+    if (taken < recentCount) {
+      const tokens = estimateMessageTokens(messages[i]);
+
+      if (tokens > remaining) {
+        break;
+      }
+
+      keep.add(i);
+      spend('history', tokens);
+    } else {
+      olderCandidates.push(i);
+    }
+  }
+
+  // 4. context files
+  const plannedFiles: FileMap = {};
+  const fileReport: ContextBudgetFile[] = [];
+
+  for (const [path, dirent] of Object.entries(contextFiles)) {
+    if (!dirent || dirent.type !== 'file') {
+      continue;
+    }
+
+    const tokens = estimateTokens(dirent.content) + estimateTokens(path) + FILE_OVERHEAD_TOKENS;
+
+    if (tokens <= remaining) {
+      plannedFiles[path] = dirent;
+      fileReport.push({ path, tokens, status: 'included' });
+      spend('files', tokens);
+    } else if (remaining >= MIN_TRUNCATED_FILE_TOKENS) {
+      const content = truncateToTokens(dirent.content, remaining - estimateTokens(path) - FILE_OVERHEAD_TOKENS);
+      const truncatedTokens = estimateTokens(content) + estimateTokens(path) + FILE_OVERHEAD_TOKENS;
+
+      plannedFiles[path] = { ...dirent, content };
+      fileReport.push({ path, tokens: truncatedTokens, originalTokens: tokens, status: 'truncated' });
+      spend('files', truncatedTokens);
+    } else {
+      fileReport.push({ path, tokens: 0, originalTokens: tokens, status: 'omitted' });
+    }
+  }
+
+  for (const i of olderCandidates) {
+    const tokens = estimateMessageTokens(messages[i]);
+
+    if (tokens > remaining) {
+      break;
+    }
+
+    keep.add(i);
+    spend('history', tokens);
+  }
+
+  const plannedMessages = messages.filter((_, i) => keep.has(i));
+
+  return {
+    messages: plannedMessages,
+    summary: plannedSummary,
+    contextFiles: plannedFiles,
+    budget: {
+      model: model.name,
+      contextWindow,
+      completionTokens: reserved,
+      inputBudget,
+      used: inputBudget - remaining,
+      allocation,
+      files: fileReport,
+      droppedMessages: messages.length - plannedMessages.length,
+      summaryTruncated: summaryTruncated || undefined,
+    },
+  };
+}
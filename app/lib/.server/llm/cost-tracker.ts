@@ -0,0 +1,113 @@
+import type { LanguageModelUsage, ProviderMetadata } from 'ai';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { calculateCost, getModelPricing } from '~/lib/modules/llm/pricing';
+import type { BudgetCap, CostStage, SpendingLimits, TurnCost, UsageCostEntry } from '~/types/cost';
+import type { FailoverTarget, IProviderSetting } from '~/types/model';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('cost-tracker');
+
+// OpenAI counts cached tokens in the prompt tokens, Anthropic reports cache reads next to them
+function getCachedPromptTokens(providerMetadata?: ProviderMetadata) {
+  const anthropicCached = providerMetadata?.anthropic?.cacheReadInputTokens;
+
+  if (typeof anthropicCached === 'number') {
+    return { cachedPromptTokens: anthropicCached, cachedIncluded: false };
+  }
+
+  const openaiCached = providerMetadata?.openai?.cachedPromptTokens;
+
+  return { cachedPromptTokens: typeof openaiCached === 'number' ? openaiCached : undefined, cachedIncluded: true };
+}
+
+const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * Collects the usage of every model call made for one chat turn (summary, context selection and
+ * the response itself) and prices it with the pricing of the model that served the call.
+ */
+export class TurnCostTracker {
+  private _entries: UsageCostEntry[] = [];
+
+  constructor(
+    private _options: {
+      apiKeys?: Record<string, string>;
+      providerSettings?: Record<string, IProviderSetting>;
+      serverEnv?: Record<string, string>;
+      customProviders?: BaseProvider[];
+    } = {},
+  ) {}
+
+  get total() {
+    return this._entries.reduce((sum, entry) => sum + (entry.cost ?? 0), 0);
+  }
+
+  record(stage: CostStage, target: FailoverTarget, usage: LanguageModelUsage, providerMetadata?: ProviderMetadata) {
+    const { cachedPromptTokens, cachedIncluded } = getCachedPromptTokens(providerMetadata);
+    const entry: UsageCostEntry = {
+      stage,
+      provider: target.provider,
+      model: target.model,
+      promptTokens: usage.promptTokens || 0,
+      completionTokens: usage.completionTokens || 0,
+      cachedPromptTokens,
+    };
+
+    const pricing = getModelPricing(this._resolveModel(target));
+
+    if (pricing) {
+      entry.cost = calculateCost(pricing, { ...entry, cachedIncluded });
+    } else {
+      logger.debug(`No pricing for ${target.model} (${target.provider}), usage recorded without cost`);
+    }
+
+    this._entries.push(entry);
+  }
+
+  toTurnCost(): TurnCost {
+    return { total: this.total, entries: [...this._entries] };
+  }
+
+  private _resolveModel(target: FailoverTarget) {
+    const provider = LLMManager.getInstance().getProvider(target.provider, this._options.customProviders);
+    const models = [...(provider?.staticModels ?? []), ...(provider?.getModelsFromCache(this._options) ?? [])];
+
+    return models.find((model) => model.name === target.model) ?? { name: target.model };
+  }
+}
+
+/**
+ * Checks the spending reported by the client against the configured caps. Returns the reason
+ * when a hard cap is reached and a warning for every soft cap that is reached.
+ *
+ * The server keeps no spending of its own, so the caps are advisory: they stop a browser from
+ * overspending by accident, not a client that sends lower totals.
+ */
+export function checkSpendingLimits(limits?: SpendingLimits): { blocked?: string; warnings: string[] } {
+  const warnings: string[] = [];
+
+  if (!limits) {
+    return { warnings };
+  }
+
+  const scopes: Array<[string, BudgetCap | undefined, number]> = [
+    ['this chat', limits.caps?.perChat, limits.spent?.chat ?? 0],
+    ['today', limits.caps?.perDay, limits.spent?.day ?? 0],
+  ];
+
+  for (const [scope, cap, spent] of scopes) {
+    if (cap?.hard && spent >= cap.hard) {
+      return {
+        blocked: `Budget limit reached: ${formatUsd(spent)} spent ${scope}, the hard limit is ${formatUsd(cap.hard)}. Raise the limit in Settings to continue.`,
+        warnings,
+      };
+    }
+
+    if (cap?.soft && spent >= cap.soft) {
+      warnings.push(`${formatUsd(spent)} spent ${scope}, above the soft limit of ${formatUsd(cap.soft)}`);
+    }
+  }
+
+  return { warnings };
+}
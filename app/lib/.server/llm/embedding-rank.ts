@@ -0,0 +1,106 @@
+import { cosineSimilarity, embed, embedMany } from 'ai';
+import { chunkFile, hashContent } from '~/lib/common/file-index';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import type { IProviderSetting } from '~/types/model';
+import { createScopedLogger } from '~/utils/logger';
+import type { FileMap } from './constants';
+
+const logger = createScopedLogger('embedding-rank');
+
+// upper bound on chunks embedded per request, the candidates are already ranked so the tail matters least
+const MAX_EMBEDDED_CHUNKS = 120;
+
+// chunk embeddings are cached by content so unchanged code is only embedded once
+const MAX_CACHED_EMBEDDINGS = 5000;
+
+// constant of reciprocal rank fusion, dampens the influence of the top few ranks
+const RRF_K = 60;
+
+const embeddingCache = new Map<string, number[]>();
+
+function cacheEmbedding(key: string, embedding: number[]) {
+  if (embeddingCache.size >= MAX_CACHED_EMBEDDINGS) {
+    // maps iterate in insertion order, so this drops the oldest entry
+    embeddingCache.delete(embeddingCache.keys().next().value!);
+  }
+
+  embeddingCache.set(key, embedding);
+}
+
+/**
+ * Re-ranks the files returned by the lexical index by how close their chunks are to the query
+ * in embedding space. Both rankings are merged with reciprocal rank fusion, so a file that the
+ * embedding model misses still keeps its lexical rank. Falls back to the input order when the
+ * provider has no embedding support or the request fails.
+ */
+export async function rankByEmbeddings(props: {
+  query: string;
+  candidates: string[];
+  files: FileMap;
+  embedding: { provider: string; model: string };
+  serverEnv?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: BaseProvider[];
+}): Promise<string[]> {
+  const { query, candidates, files, embedding, serverEnv, apiKeys, providerSettings, customProviders } = props;
+  const provider = LLMManager.getInstance().getProvider(embedding.provider, customProviders);
+
+  if (!provider?.getEmbeddingModelInstance) {
+    logger.warn(`Provider ${embedding.provider} does not support embeddings, keeping the lexical ranking`);
+    return candidates;
+  }
+
+  try {
+    const model = provider.getEmbeddingModelInstance({
+      model: embedding.model,
+      serverEnv,
+      apiKeys,
+      providerSettings,
+    });
+
+    const chunks = candidates
+      .flatMap((path) => {
+        const dirent = files[path];
+        return dirent?.type === 'file' && !dirent.isBinary ? chunkFile(path, dirent.content) : [];
+      })
+      .slice(0, MAX_EMBEDDED_CHUNKS)
+      .map((chunk) => ({ ...chunk, key: `${embedding.provider}:${embedding.model}:${hashContent(chunk.text)}` }));
+
+    const missing = chunks.filter((chunk) => !embeddingCache.has(chunk.key));
+
+    if (missing.length > 0) {
+      const { embeddings } = await embedMany({ model, values: missing.map((chunk) => chunk.text) });
+      missing.forEach((chunk, i) => cacheEmbedding(chunk.key, embeddings[i]));
+    }
+
+    const { embedding: queryEmbedding } = await embed({ model, value: query });
+    const similarity = new Map<string, number>();
+
+    for (const chunk of chunks) {
+      const chunkEmbedding = embeddingCache.get(chunk.key);
+
+      if (!chunkEmbedding) {
+        continue;
+      }
+
+      const score = cosineSimilarity(queryEmbedding, chunkEmbedding);
+      similarity.set(chunk.path, Math.max(similarity.get(chunk.path) ?? -1, score));
+    }
+
+    const semanticRank = [...similarity.entries()].sort((a, b) => b[1] - a[1]).map(([path]) => path);
+
+    const fused = candidates.map((path, lexicalRank) => {
+      const rank = semanticRank.indexOf(path);
+      const semanticScore = rank === -1 ? 0 : 1 / (RRF_K + rank);
+
+      return { path, score: 1 / (RRF_K + lexicalRank) + semanticScore };
+    });
+
+    return fused.sort((a, b) => b.score - a.score).map(({ path }) => path);
+  } catch (error) {
+    logger.error('Embedding ranking failed, keeping the lexical ranking', error);
+    return candidates;
+  }
+}
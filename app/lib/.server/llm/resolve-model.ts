@@ -0,0 +1,55 @@
+import type { IProviderSetting } from '~/types/model';
+import { DEFAULT_PROVIDER } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+
+const logger = createScopedLogger('resolve-model');
+
+/**
+ * Finds the provider and the details of the model a message was sent to. Models that are not
+ * listed statically are looked up on the provider, falling back to its first model.
+ */
+export async function resolveModel(options: {
+  model: string;
+  provider: string;
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: BaseProvider[];
+}) {
+  const { model, env: serverEnv, apiKeys, providerSettings, customProviders } = options;
+  const llmManager = LLMManager.getInstance();
+  const provider = llmManager.getProvider(options.provider, customProviders) || DEFAULT_PROVIDER;
+  const staticModels = llmManager.getStaticModelListFromProvider(provider, customProviders);
+  let modelDetails = staticModels.find((m) => m.name === model);
+
+  if (!modelDetails) {
+    const modelsList = [
+      ...(provider.staticModels || []),
+      ...(await llmManager.getModelListFromProvider(provider, {
+        apiKeys,
+        providerSettings,
+
+        // the providers look up their variables by name
+        serverEnv: serverEnv as unknown as Record<string, string> | undefined,
+        customProviders,
+      })),
+    ];
+
+    if (!modelsList.length) {
+      throw new Error(`No models found for provider ${provider.name}`);
+    }
+
+    modelDetails = modelsList.find((m) => m.name === model);
+
+    if (!modelDetails) {
+      logger.warn(
+        `MODEL [${model}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
+      );
+      modelDetails = modelsList[0];
+    }
+  }
+
+  return { provider, modelDetails };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ResumableStreamManager } from './resumable-stream';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function sourceFrom(parts: string[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  let text = '';
+
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    text += decoder.decode(chunk);
+  }
+
+  return text;
+}
+
+describe('ResumableStreamManager', () => {
+  it('should replay the whole stream from offset 0', async () => {
+    const manager = new ResumableStreamManager();
+    const { id, done } = manager.create(sourceFrom(['0:"Hello"\n', '0:" world"\n']));
+    await done;
+
+    expect(await readAll(manager.read(id)!)).toBe('0:"Hello"\n0:" world"\n');
+  });
+
+  it('should resume from a byte offset in the middle of a chunk', async () => {
+    const manager = new ResumableStreamManager();
+    const { id, done } = manager.create(sourceFrom(['0:"Hello"\n', '0:" world"\n']));
+    await done;
+
+    expect(await readAll(manager.read(id, 4)!)).toBe('ello"\n0:" world"\n');
+  });
+
+  it('should keep buffering after the last reader detaches', async () => {
+    const manager = new ResumableStreamManager();
+    const onDetach = vi.fn();
+    let push!: (text: string | null) => void;
+
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        push = (text) => (text === null ? controller.close() : controller.enqueue(encoder.encode(text)));
+      },
+    });
+
+    const { id, done } = manager.create(source, { onDetach });
+    const reader = manager.read(id)!.getReader();
+
+    push('first\n');
+    expect(decoder.decode((await reader.read()).value)).toBe('first\n');
+
+    await reader.cancel();
+    expect(onDetach).toHaveBeenCalledOnce();
+
+    push('second\n');
+    push(null);
+    await done;
+
+    expect(await readAll(manager.read(id, 6)!)).toBe('second\n');
+  });
+
+  it('should cancel the source when the client aborts', async () => {
+    const manager = new ResumableStreamManager();
+    const onAbort = vi.fn();
+    const cancel = vi.fn();
+    const source = new ReadableStream<Uint8Array>({ cancel });
+
+    const { id, done } = manager.create(source, { onAbort });
+
+    expect(manager.abort(id)).toBe(true);
+    await done;
+
+    expect(onAbort).toHaveBeenCalledOnce();
+    expect(cancel).toHaveBeenCalledOnce();
+    expect(manager.abort('missing')).toBe(false);
+  });
+
+  it('should return undefined for unknown streams', () => {
+    expect(new ResumableStreamManager().read('missing')).toBeUndefined();
+  });
+});
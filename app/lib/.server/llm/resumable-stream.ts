@@ -0,0 +1,215 @@
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('resumable-stream');
+
+// how long a finished stream can still be replayed by a reconnecting client
+const RETENTION_MS = 5 * 60 * 1000;
+
+export interface ResumableStreamOptions {
+  // called when the last connected reader goes away while the source is still producing
+  onDetach?: () => void;
+
+  // called when a reader connects to a stream that has no other readers
+  onAttach?: () => void;
+
+  // called when the client stopped the generation on purpose
+  onAbort?: () => void;
+}
+
+interface BufferedStream {
+  id: string;
+  chunks: Uint8Array[];
+  byteLength: number;
+  done: boolean;
+  error?: unknown;
+  readers: number;
+  waiters: Set<() => void>;
+  expiresAt?: number;
+  options: ResumableStreamOptions;
+  cancelSource?: () => void;
+}
+
+/**
+ * Buffers every byte a generation emits so that a client whose connection dropped can
+ * re-attach and replay the response from the last byte offset it received.
+ *
+ * The source is pumped independently of any reader, so the generation keeps running
+ * while no client is connected.
+ */
+export class ResumableStreamManager {
+  private static _instance: ResumableStreamManager;
+  private _streams = new Map<string, BufferedStream>();
+
+  static getInstance(): ResumableStreamManager {
+    if (!ResumableStreamManager._instance) {
+      ResumableStreamManager._instance = new ResumableStreamManager();
+    }
+
+    return ResumableStreamManager._instance;
+  }
+
+  /**
+   * Starts buffering `source` under a new stream id. The returned promise settles once the
+   * source has been fully consumed, so callers can hand it to `waitUntil` where available.
+   */
+  create(source: ReadableStream<Uint8Array>, options: ResumableStreamOptions = {}) {
+    this._evictExpired();
+
+    const stream: BufferedStream = {
+      id: crypto.randomUUID(),
+      chunks: [],
+      byteLength: 0,
+      done: false,
+      readers: 0,
+      waiters: new Set(),
+      options,
+    };
+
+    this._streams.set(stream.id, stream);
+
+    return { id: stream.id, done: this._pump(stream, source) };
+  }
+
+  has(id: string) {
+    this._evictExpired();
+
+    return this._streams.has(id);
+  }
+
+  /**
+   * Stops a stream the client does not want anymore: the source is cancelled right away instead
+   * of waiting for a reconnect. Returns `false` if the id is unknown or expired.
+   */
+  abort(id: string) {
+    const stream = this._streams.get(id);
+
+    if (!stream) {
+      return false;
+    }
+
+    if (!stream.done) {
+      logger.debug(`Stream ${id} aborted by the client`);
+      stream.options.onAbort?.();
+      stream.cancelSource?.();
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns a stream replaying the buffered bytes from `offset` onwards, followed by live
+   * output until the source finishes. Returns `undefined` if the id is unknown or expired.
+   */
+  read(id: string, offset = 0): ReadableStream<Uint8Array> | undefined {
+    this._evictExpired();
+
+    const stream = this._streams.get(id);
+
+    if (!stream) {
+      return undefined;
+    }
+
+    let position = Math.max(0, offset);
+    let chunkIndex = 0;
+    let chunkStart = 0;
+    let attached = false;
+
+    const detach = () => {
+      if (!attached) {
+        return;
+      }
+
+      attached = false;
+      stream.readers--;
+
+      if (stream.readers === 0 && !stream.done) {
+        logger.debug(`All readers detached from stream ${id} at offset ${position}`);
+        stream.options.onDetach?.();
+      }
+    };
+
+    return new ReadableStream<Uint8Array>({
+      start() {
+        attached = true;
+        stream.readers++;
+
+        if (stream.readers === 1 && !stream.done) {
+          stream.options.onAttach?.();
+        }
+      },
+      async pull(controller) {
+        while (position >= stream.byteLength && !stream.done) {
+          await new Promise<void>((resolve) => stream.waiters.add(resolve));
+        }
+
+        // advance to the chunk that contains `position`
+        while (chunkIndex < stream.chunks.length && chunkStart + stream.chunks[chunkIndex].byteLength <= position) {
+          chunkStart += stream.chunks[chunkIndex].byteLength;
+          chunkIndex++;
+        }
+
+        if (chunkIndex < stream.chunks.length) {
+          const chunk = stream.chunks[chunkIndex];
+          controller.enqueue(position > chunkStart ? chunk.subarray(position - chunkStart) : chunk);
+          position = chunkStart + chunk.byteLength;
+
+          return;
+        }
+
+        detach();
+
+        if (stream.error !== undefined) {
+          controller.error(stream.error);
+        } else {
+          controller.close();
+        }
+      },
+      cancel() {
+        detach();
+      },
+    });
+  }
+
+  private async _pump(stream: BufferedStream, source: ReadableStream<Uint8Array>) {
+    const reader = source.getReader();
+
+    stream.cancelSource = () => reader.cancel().catch(() => undefined);
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        stream.chunks.push(value);
+        stream.byteLength += value.byteLength;
+        this._notify(stream);
+      }
+    } catch (error) {
+      logger.error(`Source of stream ${stream.id} failed`, error);
+      stream.error = error ?? new Error('Stream failed');
+    } finally {
+      stream.done = true;
+      stream.expiresAt = Date.now() + RETENTION_MS;
+      this._notify(stream);
+    }
+  }
+
+  private _notify(stream: BufferedStream) {
+    const waiters = [...stream.waiters];
+    stream.waiters.clear();
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private _evictExpired() {
+    const now = Date.now();
+
+    for (const [id, stream] of this._streams) {
+      if (stream.expiresAt !== undefined && stream.expiresAt < now && stream.readers === 0) {
+        this._streams.delete(id);
+      }
+    }
+  }
+}
@@ -2,28 +2,50 @@ import { generateText, type CoreTool, type GenerateTextResult, type Message } fr
 import ignore from 'ignore';
 import type { IProviderSetting } from '~/types/model';
 import { IGNORE_PATTERNS, type FileMap } from './constants';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
 import { createFilesContext, extractCurrentContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
 import { createScopedLogger } from '~/utils/logger';
-import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { resolveModel } from './resolve-model';
+import type { ContextRetrievalSettings } from '~/types/context';
+import { rankByEmbeddings } from './embedding-rank';
 
 // Common patterns to ignore, similar to .gitignore
 
 const ig = ignore().add(IGNORE_PATTERNS);
 const logger = createScopedLogger('select-context');
 
+// the context buffer holds at most this many files, see the prompt below
+const MAX_CONTEXT_FILES = 5;
+
 export async function selectContext(props: {
   messages: Message[];
   env?: Env;
   apiKeys?: Record<string, string>;
   files: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
+  customProviders?: BaseProvider[];
   promptId?: string;
   contextOptimization?: boolean;
   summary: string;
+
+  // paths ranked by the client's file index for the latest user message, most relevant first
+  candidates?: string[];
+  retrieval?: ContextRetrievalSettings;
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
 }) {
-  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
+  const {
+    messages,
+    env: serverEnv,
+    apiKeys,
+    files,
+    providerSettings,
+    customProviders,
+    summary,
+    candidates,
+    retrieval,
+    onFinish,
+  } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
@@ -47,34 +69,14 @@ export async function selectContext(props: {
     return message;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
-  let modelDetails = staticModels.find((m) => m.name === currentModel);
-
-  if (!modelDetails) {
-    const modelsList = [
-      ...(provider.staticModels || []),
-      ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
-        apiKeys,
-        providerSettings,
-        serverEnv: serverEnv as any,
-      })),
-    ];
-
-    if (!modelsList.length) {
-      throw new Error(`No models found for provider ${provider.name}`);
-    }
-
-    modelDetails = modelsList.find((m) => m.name === currentModel);
-
-    if (!modelDetails) {
-      // Fallback to first model
-      logger.warn(
-        `MODEL [${currentModel}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
-      );
-      modelDetails = modelsList[0];
-    }
-  }
+  const { provider, modelDetails } = await resolveModel({
+    model: currentModel,
+    provider: currentProvider,
+    env: serverEnv,
+    apiKeys,
+    providerSettings,
+    customProviders,
+  });
 
   const { codeContext } = extractCurrentContext(processedMessages);
 
@@ -118,6 +120,41 @@ export async function selectContext(props: {
     throw new Error('No user message found');
   }
 
+  const retrievalMode = retrieval?.mode ?? 'llm';
+  let rankedPaths = retrievalMode === 'llm' ? [] : (candidates ?? []).filter((path) => filePaths.includes(path));
+
+  if (rankedPaths.length > 0 && retrieval?.embedding) {
+    rankedPaths = await rankByEmbeddings({
+      query: extractTextContent(lastUserMessage),
+      candidates: rankedPaths,
+      files,
+      embedding: retrieval.embedding,
+      serverEnv,
+      apiKeys,
+      providerSettings,
+      customProviders,
+    });
+  }
+
+  if (retrievalMode === 'index' && rankedPaths.length > 0) {
+    // the ranking replaces the model call entirely
+    const rankedFiles: FileMap = {};
+
+    rankedPaths.slice(0, MAX_CONTEXT_FILES).forEach((path) => {
+      rankedFiles[path] = files[path];
+    });
+
+    logger.info(`Selected ${Object.keys(rankedFiles).length} files from the index`);
+
+    return rankedFiles;
+  }
+
+  if (rankedPaths.length > 0) {
+    // only offer the best ranked files, plus what is already in the buffer so it can be excluded
+    const bufferPaths = currrentFiles.map((path) => `/home/project/${path}`);
+    filePaths = [...new Set([...rankedPaths, ...bufferPaths.filter((path) => filePaths.includes(path))])];
+  }
+
   // select files from the list of code file from the project that might be useful for the current request from the user
   const resp = await generateText({
     system: `
@@ -164,12 +201,12 @@ export async function selectContext(props: {
         * context buffer should not include any file that is not in the list of files above.
         * context buffer is extremlly expensive, so only include files that are absolutely necessary.
         * If no changes are needed, you can leave the response empty updateContextBuffer tag.
-        * Only 5 files can be placed in the context buffer at a time.
+        * Only ${MAX_CONTEXT_FILES} files can be placed in the context buffer at a time.
         * if the buffer is full, you need to exclude files that is not needed and include files that is relevent.
 
         `,
     model: provider.getModelInstance({
-      model: currentModel,
+      model: modelDetails.name,
       serverEnv,
       apiKeys,
       providerSettings,
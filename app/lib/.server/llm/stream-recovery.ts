@@ -1,12 +1,68 @@
+import { formatDataStreamPart, type DataStreamWriter, type StreamTextResult } from 'ai';
+import type { DataStreamString } from '@ai-sdk/ui-utils';
+import type { FailoverTarget } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('stream-recovery');
 
+// stands in for the error message of an attempt that is retried, so it never reaches the client
+const SUPPRESSED_ERROR = '__bolt_failover__';
+const SUPPRESSED_ERROR_PART = formatDataStreamPart('error', SUPPRESSED_ERROR);
+
+export interface FailoverAttemptContext {
+  abortSignal: AbortSignal;
+
+  // text already streamed to the client by previous attempts of this turn
+  partialText: string;
+  attempt: number;
+}
+
+export interface FailoverOptions {
+  // the first target is the model the user selected, the rest are fallbacks in order
+  targets: FailoverTarget[];
+  dataStream: DataStreamWriter;
+  abortSignal?: AbortSignal;
+  attempt: (target: FailoverTarget, context: FailoverAttemptContext) => Promise<StreamTextResult<any, any>>;
+  onFailover?: (failed: FailoverTarget, next: FailoverTarget, error: unknown) => void;
+}
+
+function decodeParts() {
+  const decoder = new TextDecoder();
+
+  return new TransformStream<Uint8Array, string>({
+    transform(chunk, controller) {
+      controller.enqueue(decoder.decode(chunk, { stream: true }));
+    },
+  });
+}
+
+/**
+ * Whether an error from `streamText` is worth re-issuing to another provider: timeouts,
+ * rate limits, server errors and dropped connections.
+ */
+export function isRecoverableStreamError(error: any): boolean {
+  const cause = error?.lastError ?? error;
+  const status = cause?.statusCode ?? cause?.status;
+
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = String(cause?.message || '').toLowerCase();
+
+  return /timeout|timed out|rate limit|overloaded|econnreset|socket hang up|network|fetch failed/.test(message);
+}
+
 export interface StreamRecoveryOptions {
   maxRetries?: number;
   timeout?: number;
   onTimeout?: () => void;
+
+  // called when activity resumes after one or more timeouts
   onRecovery?: () => void;
+
+  // called once the retry budget is exhausted, after monitoring has stopped
+  onGiveUp?: () => void;
 }
 
 export class StreamRecoveryManager {
@@ -14,6 +70,8 @@ export class StreamRecoveryManager {
   private _timeoutHandle: NodeJS.Timeout | null = null;
   private _lastActivity: number = Date.now();
   private _isActive = true;
+  private _failovers = 0;
+  private _abortAttempt: (() => void) | null = null;
 
   constructor(private _options: StreamRecoveryOptions = {}) {
     this._options = {
@@ -24,11 +82,19 @@ export class StreamRecoveryManager {
   }
 
   startMonitoring() {
+    this._isActive = true;
     this._resetTimeout();
   }
 
   updateActivity() {
     this._lastActivity = Date.now();
+
+    if (this._retryCount > 0 && this._isActive) {
+      logger.info(`Stream recovered after ${this._retryCount} timeout(s)`);
+      this._retryCount = 0;
+      this._options.onRecovery?.();
+    }
+
     this._resetTimeout();
   }
 
@@ -50,9 +116,18 @@ export class StreamRecoveryManager {
   }
 
   private _handleTimeout() {
-    if (this._retryCount >= (this._options.maxRetries || 3)) {
+    // while a failover run is in progress a stall ends the attempt and the next target takes over
+    if (this._abortAttempt) {
+      this._options.onTimeout?.();
+      this._abortAttempt();
+
+      return;
+    }
+
+    if (this._retryCount >= (this._options.maxRetries ?? 3)) {
       logger.error('Max retries reached for stream recovery');
       this.stop();
+      this._options.onGiveUp?.();
 
       return;
     }
@@ -66,9 +141,112 @@ export class StreamRecoveryManager {
 
     // Reset monitoring after recovery attempt
     this._resetTimeout();
+  }
+
+  /**
+   * Streams a turn through `targets`, moving on to the next provider/model whenever the current
+   * one stalls, is rate limited or fails with a server error. Every target gets one attempt,
+   * `maxRetries` does not apply. Output of every attempt is stitched into `dataStream`; later
+   * attempts receive the text produced so far so they can continue it.
+   *
+   * Returns the target that finished the turn, or `undefined` if every attempt failed.
+   */
+  async runWithFailover(options: FailoverOptions): Promise<FailoverTarget | undefined> {
+    const { targets, dataStream, abortSignal, attempt, onFailover } = options;
+    const maxAttempts = targets.length;
+    const output = new TransformStream<DataStreamString, DataStreamString>();
+    const writer = output.writable.getWriter();
+    let partialText = '';
+
+    dataStream.merge(output.readable);
+
+    try {
+      for (let i = 0; i < maxAttempts; i++) {
+        const target = targets[i];
+        const canFailover = () => i + 1 < maxAttempts && !abortSignal?.aborted;
+        const attemptAbort = new AbortController();
+        const abort = () => attemptAbort.abort();
+        let timedOut = false;
+        let failure: unknown;
+        let suppressed = false;
+
+        abortSignal?.addEventListener('abort', abort);
+
+        this._abortAttempt = () => {
+          timedOut = true;
+          attemptAbort.abort();
+        };
+
+        try {
+          const result = await attempt(target, { abortSignal: attemptAbort.signal, partialText, attempt: i });
+
+          this.startMonitoring();
+
+          const reader = result
+            .toDataStream({
+              getErrorMessage: (error) => {
+                failure = timedOut ? new Error(`Stream timed out after ${this._options.timeout}ms`) : error;
+
+                if (canFailover() && (timedOut || isRecoverableStreamError(error))) {
+                  suppressed = true;
+                  return SUPPRESSED_ERROR;
+                }
+
+                return dataStream.onError?.(failure) ?? 'An error occurred.';
+              },
+            })
+            .pipeThrough(decodeParts())
+            .getReader();
+
+          while (true) {
+            const { done, value } = await reader.read();
+
+            if (done) {
+              break;
+            }
+
+            this.updateActivity();
+
+            if (value === SUPPRESSED_ERROR_PART) {
+              continue;
+            }
+
+            if (value.startsWith('0:')) {
+              partialText += JSON.parse(value.slice(2));
+            }
+
+            await writer.write(value as DataStreamString);
+          }
+        } catch (error) {
+          // the attempt could not even be started, e.g. the provider has no models configured
+          if (!canFailover()) {
+            throw error;
+          }
+
+          failure = error;
+          suppressed = true;
+        } finally {
+          this._abortAttempt = null;
+          this.stop();
+          abortSignal?.removeEventListener('abort', abort);
+        }
+
+        if (!suppressed) {
+          return failure === undefined ? target : undefined;
+        }
+
+        const next = targets[i + 1];
+        this._failovers++;
+        logger.warn(
+          `${target.provider}/${target.model} failed, failing over to ${next.provider}/${next.model}`,
+          failure instanceof Error ? failure.message : failure,
+        );
+        onFailover?.(target, next, failure);
+      }
 
-    if (this._options.onRecovery) {
-      this._options.onRecovery();
+      return undefined;
+    } finally {
+      await writer.close();
     }
   }
 
@@ -85,6 +263,7 @@ export class StreamRecoveryManager {
     return {
       isActive: this._isActive,
       retryCount: this._retryCount,
+      failovers: this._failovers,
       lastActivity: this._lastActivity,
       timeSinceLastActivity: Date.now() - this._lastActivity,
     };
@@ -1,15 +1,19 @@
 import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
 import { MAX_TOKENS, PROVIDER_COMPLETION_LIMITS, isReasoningModel, type FileMap } from './constants';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
-import type { IProviderSetting } from '~/types/model';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, WORK_DIR } from '~/utils/constants';
+import type { EditingMode, IProviderSetting } from '~/types/model';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
 import { discussPrompt } from '~/lib/common/prompts/discuss-prompt';
+import { toolEditingPrompt } from '~/lib/common/prompts/tool-editing-prompt';
 import type { DesignScheme } from '~/types/design-scheme';
+import type { ContextBudget } from '~/types/context';
+import { planContext } from './context-planner';
 
 export type Messages = Message[];
 
@@ -26,6 +30,9 @@ export interface StreamingOptions extends Omit<Parameters<typeof _streamText>[0]
 
 const logger = createScopedLogger('stream-text');
 
+// history messages sent verbatim when a chat summary stands in for the rest of the conversation
+const RECENT_MESSAGES_WITH_SUMMARY = 3;
+
 function getCompletionTokenLimit(modelDetails: any): number {
   // 1. If model specifies completion tokens, use that
   if (modelDetails.maxCompletionTokens && modelDetails.maxCompletionTokens > 0) {
@@ -58,13 +65,20 @@ export async function streamText(props: {
   apiKeys?: Record<string, string>;
   files?: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
+
+  // the custom providers of the request, see `LLMManager.getCustomProviders`
+  customProviders?: BaseProvider[];
   promptId?: string;
   contextOptimization?: boolean;
   contextFiles?: FileMap;
   summary?: string;
-  messageSliceId?: number;
+
+  // the compacted summary of the turns that are no longer part of `messages`
+  conversationSummary?: string;
   chatMode?: 'discuss' | 'build';
   designScheme?: DesignScheme;
+  editingMode?: EditingMode;
+  onContextPlanned?: (budget: ContextBudget) => void;
 }) {
   const {
     messages,
@@ -73,12 +87,15 @@ export async function streamText(props: {
     apiKeys,
     files,
     providerSettings,
+    customProviders,
     promptId,
     contextOptimization,
     contextFiles,
     summary,
+    conversationSummary,
     chatMode,
     designScheme,
+    editingMode,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -104,8 +121,8 @@ export async function streamText(props: {
     return newMessage;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
+  const provider = LLMManager.getInstance().getProvider(currentProvider, customProviders) || DEFAULT_PROVIDER;
+  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider, customProviders);
   let modelDetails = staticModels.find((m) => m.name === currentModel);
 
   if (!modelDetails) {
@@ -115,6 +132,7 @@ export async function streamText(props: {
         apiKeys,
         providerSettings,
         serverEnv: serverEnv as any,
+        customProviders,
       })),
     ];
 
@@ -162,37 +180,10 @@ export async function streamText(props: {
       },
     }) ?? getSystemPrompt();
 
-  if (chatMode === 'build' && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
-
+  if (editingMode === 'tools') {
     systemPrompt = `${systemPrompt}
 
-    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
-    CONTEXT BUFFER:
-    ---
-    ${codeContext}
-    ---
-    `;
-
-    if (summary) {
-      systemPrompt = `${systemPrompt}
-      below is the chat history till now
-      CHAT SUMMARY:
-      ---
-      ${props.summary}
-      ---
-      `;
-
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
-
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
-      }
-    }
+${toolEditingPrompt()}`;
   }
 
   const effectiveLockedFilePaths = new Set<string>();
@@ -205,11 +196,13 @@ export async function streamText(props: {
     }
   }
 
+  let lockedFilesPrompt = '';
+
   if (effectiveLockedFilePaths.size > 0) {
     const lockedFilesListString = Array.from(effectiveLockedFilePaths)
       .map((filePath) => `- ${filePath}`)
       .join('\n');
-    systemPrompt = `${systemPrompt}
+    lockedFilesPrompt = `
 
     IMPORTANT: The following files are locked and MUST NOT be modified in any way. Do not suggest or make any changes to these files. You can proceed with the request but DO NOT make any changes to these files specifically:
     ${lockedFilesListString}
@@ -219,6 +212,65 @@ export async function streamText(props: {
     console.log('No locked files found from any source for prompt.');
   }
 
+  const conversationPrompt = conversationSummary
+    ? `
+
+    The earlier part of this conversation was compacted, below is its summary
+    EARLIER CONVERSATION:
+    ---
+    ${conversationSummary}
+    ---
+    `
+    : '';
+
+  const useContextBuffer = chatMode === 'build' && !!contextFiles && !!contextOptimization;
+  const contextPlan = planContext({
+    model: modelDetails,
+    completionTokens: safeMaxTokens,
+    systemPrompt:
+      chatMode === 'build'
+        ? `${systemPrompt}${lockedFilesPrompt}${conversationPrompt}`
+        : `${discussPrompt()}${conversationPrompt}`,
+    summary: useContextBuffer ? summary : undefined,
+    contextFiles: useContextBuffer ? contextFiles : undefined,
+    messages: processedMessages,
+
+    // older turns are covered by the summary, so only the most recent ones are sent verbatim
+    maxHistoryMessages: useContextBuffer && summary ? RECENT_MESSAGES_WITH_SUMMARY : undefined,
+  });
+
+  logger.info(
+    `Context plan for ${modelDetails.name}: ${contextPlan.budget.used}/${contextPlan.budget.inputBudget} tokens, ${contextPlan.budget.droppedMessages} message(s) dropped`,
+  );
+  props.onContextPlanned?.(contextPlan.budget);
+
+  processedMessages = contextPlan.messages;
+
+  if (useContextBuffer) {
+    const codeContext = createFilesContext(contextPlan.contextFiles, true);
+
+    systemPrompt = `${systemPrompt}
+
+    Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
+    CONTEXT BUFFER:
+    ---
+    ${codeContext}
+    ---
+    `;
+
+    if (contextPlan.summary) {
+      systemPrompt = `${systemPrompt}
+      below is the chat history till now
+      CHAT SUMMARY:
+      ---
+      ${contextPlan.summary}
+      ---
+      `;
+    }
+  }
+
+  systemPrompt = `${systemPrompt}${lockedFilesPrompt}${conversationPrompt}`;
+
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
 
   // Log reasoning model detection and token parameters
@@ -280,7 +332,7 @@ export async function streamText(props: {
       apiKeys,
       providerSettings,
     }),
-    system: chatMode === 'build' ? systemPrompt : discussPrompt(),
+    system: chatMode === 'build' ? systemPrompt : `${discussPrompt()}${conversationPrompt}`,
     ...tokenParams,
     messages: convertToCoreMessages(processedMessages as any),
     ...filteredOptions,
@@ -0,0 +1,220 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Buffer } from 'node:buffer';
+import { timingSafeEqual } from 'node:crypto';
+import { parseCookies } from '~/lib/api/cookies';
+import {
+  isNewer,
+  resolveConflict,
+  STORAGE_TOKEN_COOKIE,
+  type ChatDeletion,
+  type StorageListing,
+  type TimestampedSnapshot,
+} from '~/lib/persistence/storage';
+import type { ChatHistoryItem } from '~/lib/persistence/useChatHistory';
+
+type Collection = 'chats' | 'snapshots' | 'deletions';
+
+/**
+ * Keeps chats, snapshots and deletion records as JSON files in a directory, one file per record.
+ * Writes go through a temporary file so a crash never leaves half a record behind.
+ */
+export class FileStorage {
+  private static _instances = new Map<string, FileStorage>();
+
+  static getInstance(dir: string): FileStorage {
+    let instance = FileStorage._instances.get(dir);
+
+    if (!instance) {
+      instance = new FileStorage(dir);
+      FileStorage._instances.set(dir, instance);
+    }
+
+    return instance;
+  }
+
+  // writes to the same record run one after the other, so conflict checks see the latest version
+  private _queues = new Map<string, Promise<unknown>>();
+
+  private constructor(private _dir: string) {}
+
+  private _path(collection: Collection, id: string) {
+    return join(this._dir, collection, `${encodeURIComponent(id)}.json`);
+  }
+
+  private async _read<T>(collection: Collection, id: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await readFile(this._path(collection, id), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  private async _readAll<T>(collection: Collection): Promise<T[]> {
+    let names: string[];
+
+    try {
+      names = await readdir(join(this._dir, collection));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+
+      throw error;
+    }
+
+    const records = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => this._read<T>(collection, decodeURIComponent(name.slice(0, -'.json'.length)))),
+    );
+
+    return records.filter((record) => record !== undefined) as T[];
+  }
+
+  private async _write(collection: Collection, id: string, value: unknown) {
+    const path = this._path(collection, id);
+    const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+
+    await mkdir(join(this._dir, collection), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(value));
+    await rename(tempPath, path);
+  }
+
+  private async _remove(collection: Collection, id: string) {
+    await rm(this._path(collection, id), { force: true });
+  }
+
+  private _serialize<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this._queues.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+
+    this._queues.set(id, next);
+    next.finally(() => this._queues.get(id) === next && this._queues.delete(id)).catch(() => undefined);
+
+    return next;
+  }
+
+  async list(): Promise<StorageListing> {
+    const [chats, deletions] = await Promise.all([
+      this._readAll<ChatHistoryItem>('chats'),
+      this._readAll<ChatDeletion>('deletions'),
+    ]);
+
+    return { chats, deletions };
+  }
+
+  getChat(id: string) {
+    return this._read<ChatHistoryItem>('chats', id);
+  }
+
+  /**
+   * Stores `chat` unless the stored version, or its deletion, is newer. Resolves with the record
+   * that was kept.
+   */
+  putChat(chat: ChatHistoryItem): Promise<ChatHistoryItem | ChatDeletion> {
+    return this._serialize(chat.id, async () => {
+      const deletion = await this._read<ChatDeletion>('deletions', chat.id);
+
+      if (deletion && !isNewer(chat, deletion)) {
+        return deletion;
+      }
+
+      const kept = resolveConflict(chat, await this.getChat(chat.id));
+
+      if (kept === chat) {
+        await this._write('chats', chat.id, chat);
+        await this._remove('deletions', chat.id);
+      }
+
+      return kept;
+    });
+  }
+
+  deleteChat(deletion: ChatDeletion): Promise<void> {
+    return this._serialize(deletion.id, async () => {
+      const chat = await this.getChat(deletion.id);
+
+      // the chat was changed on another device after this one deleted it
+      if (isNewer(chat, deletion)) {
+        return;
+      }
+
+      await this._write('deletions', deletion.id, deletion);
+      await this._remove('chats', deletion.id);
+      await this._remove('snapshots', deletion.id);
+    });
+  }
+
+  getSnapshot(chatId: string) {
+    return this._read<TimestampedSnapshot>('snapshots', chatId);
+  }
+
+  putSnapshot(chatId: string, record: TimestampedSnapshot): Promise<TimestampedSnapshot> {
+    return this._serialize(`snapshot:${chatId}`, async () => {
+      const kept = resolveConflict(record, await this.getSnapshot(chatId));
+
+      if (kept === record) {
+        await this._write('snapshots', chatId, record);
+      }
+
+      return kept;
+    });
+  }
+}
+
+// server storage is only enabled when BOLT_STORAGE_DIR points to a writable directory and BOLT_STORAGE_TOKEN is set
+export function getFileStorage(env?: Record<string, any>) {
+  const dir = env?.BOLT_STORAGE_DIR || process.env.BOLT_STORAGE_DIR;
+
+  return dir && getStorageToken(env) ? FileStorage.getInstance(dir) : undefined;
+}
+
+function getStorageToken(env?: Record<string, any>): string | undefined {
+  return env?.BOLT_STORAGE_TOKEN || process.env.BOLT_STORAGE_TOKEN;
+}
+
+/**
+ * Whether the request carries the BOLT_STORAGE_TOKEN of the server in its storage token cookie.
+ */
+export function isStorageAuthorized(request: Request, env?: Record<string, any>) {
+  const expected = getStorageToken(env);
+  const token = parseCookies(request.headers.get('Cookie'))[STORAGE_TOKEN_COOKIE];
+
+  if (!expected || !token) {
+    return false;
+  }
+
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * The storage of an authorized request, or the error response to answer it with.
+ */
+export function openFileStorage(request: Request, env?: Record<string, any>): FileStorage | Response {
+  const storage = getFileStorage(env);
+
+  if (!storage) {
+    return storageNotConfigured();
+  }
+
+  if (!isStorageAuthorized(request, env)) {
+    return Response.json({ error: 'Invalid or missing storage token' }, { status: 401 });
+  }
+
+  return storage;
+}
+
+export function storageNotConfigured() {
+  return Response.json(
+    { error: 'Server storage is not configured, set BOLT_STORAGE_DIR and BOLT_STORAGE_TOKEN to enable it' },
+    { status: 501 },
+  );
+}
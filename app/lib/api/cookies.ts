@@ -1,3 +1,6 @@
+import { parseCustomProviderConfigs } from '~/lib/modules/llm/custom-provider-config';
+import type { CustomProviderConfig } from '~/lib/modules/llm/types';
+
 export function parseCookies(cookieHeader: string | null) {
   const cookies: Record<string, string> = {};
 
@@ -31,3 +34,8 @@ export function getProviderSettingsFromCookie(cookieHeader: string | null): Reco
   const cookies = parseCookies(cookieHeader);
   return cookies.providers ? JSON.parse(cookies.providers) : {};
 }
+
+export function getCustomProvidersFromCookie(cookieHeader: string | null): CustomProviderConfig[] {
+  const cookies = parseCookies(cookieHeader);
+  return parseCustomProviderConfigs(cookies.customProviders);
+}
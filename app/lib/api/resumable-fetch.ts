@@ -0,0 +1,173 @@
+import { RESUMABLE_STREAM_ID_HEADER } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ResumableFetch');
+
+export interface ResumableFetchOptions {
+  maxAttempts?: number;
+  retryDelay?: number;
+  onReconnecting?: (attempt: number) => void;
+  onResumed?: (offset: number) => void;
+}
+
+class StreamExpiredError extends Error {
+  constructor() {
+    super('Connection lost and the response could not be resumed. Please try again.');
+    this.name = 'StreamExpiredError';
+  }
+}
+
+/**
+ * Wraps `fetch` so that a streamed chat response survives network drops. When reading the
+ * body fails, the stream is re-attached through `GET <url>?streamId=&offset=` and continues
+ * from the last byte received, so the consumer never sees the interruption. Aborting the
+ * request or cancelling the body stops the generation through `DELETE <url>?streamId=`.
+ */
+export function createResumableFetch(options: ResumableFetchOptions = {}): typeof fetch {
+  const { maxAttempts = 5, retryDelay = 1000, onReconnecting, onResumed } = options;
+
+  return async (input, init) => {
+    const response = await fetch(input, init);
+    const streamId = response.headers.get(RESUMABLE_STREAM_ID_HEADER);
+
+    if (!response.ok || !response.body || !streamId) {
+      return response;
+    }
+
+    const signal = init?.signal ?? undefined;
+    const requestUrl = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    let reader = response.body.getReader();
+    let offset = 0;
+    let finished = false;
+
+    const streamUrl = () => {
+      const url = new URL(requestUrl, window.location.href);
+      url.searchParams.set('streamId', streamId);
+
+      return url;
+    };
+
+    // a stop is not a dropped connection, the server should not keep generating for a reconnect
+    const abort = () => {
+      if (finished) {
+        return;
+      }
+
+      finished = true;
+      signal?.removeEventListener('abort', abort);
+      fetch(streamUrl(), { method: 'DELETE', credentials: init?.credentials }).catch((error) =>
+        logger.debug(`Failed to abort stream ${streamId}`, error),
+      );
+    };
+
+    const finish = () => {
+      finished = true;
+      signal?.removeEventListener('abort', abort);
+    };
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort);
+    }
+
+    const resume = async (cause: unknown) => {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (signal?.aborted) {
+          throw cause;
+        }
+
+        logger.warn(`Stream ${streamId} interrupted at offset ${offset}, reconnecting (attempt ${attempt})`);
+        onReconnecting?.(attempt);
+
+        await waitForReconnect(retryDelay * attempt, signal);
+
+        const url = streamUrl();
+        url.searchParams.set('offset', String(offset));
+
+        try {
+          const resumed = await fetch(url, { signal, credentials: init?.credentials });
+
+          if (resumed.status === 404) {
+            throw new StreamExpiredError();
+          }
+
+          if (resumed.ok && resumed.body) {
+            onResumed?.(offset);
+            return resumed.body.getReader();
+          }
+        } catch (error) {
+          if (error instanceof StreamExpiredError) {
+            throw error;
+          }
+
+          logger.debug('Reconnect attempt failed', error);
+        }
+      }
+
+      throw cause;
+    };
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (true) {
+          try {
+            const { done, value } = await reader.read();
+
+            if (done) {
+              finish();
+              controller.close();
+
+              return;
+            }
+
+            offset += value.byteLength;
+            controller.enqueue(value);
+
+            return;
+          } catch (error) {
+            if (signal?.aborted) {
+              throw error;
+            }
+
+            reader = await resume(error).catch((cause) => {
+              finish();
+              throw cause;
+            });
+          }
+        }
+      },
+      cancel(reason) {
+        abort();
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+function waitForReconnect(delay: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+
+    // retry as soon as the browser reports it is back online, or after the backoff delay
+    const timer = setTimeout(() => {
+      if (navigator.onLine) {
+        done();
+      }
+    }, delay);
+
+    window.addEventListener('online', done);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,103 @@
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type { BoltAction } from '~/types/actions';
+
+/*
+ * Tools offered in the `tools` editing mode. They mirror the `<boltAction>` types, the server only
+ * acknowledges the call and the client turns each call into an action for the ActionRunner.
+ */
+
+export const writeFileSchema = z.object({
+  filePath: z.string().min(1).describe('Path of the file relative to the project root, e.g. src/App.tsx'),
+  content: z.string().describe('The complete new content of the file, never truncated or abbreviated'),
+});
+
+export const patchFileSchema = z.object({
+  filePath: z.string().min(1).describe('Path of an existing file relative to the project root'),
+  patch: z
+    .string()
+    .min(1)
+    .describe('SEARCH/REPLACE blocks in file order, or a unified diff, with the exact lines currently in the file'),
+});
+
+export const runShellSchema = z.object({
+  command: z.string().min(1).describe('Shell command to run in the project root, e.g. npm install zod'),
+});
+
+export const startAppSchema = z.object({
+  command: z.string().min(1).describe('Command that starts the dev server, e.g. npm run dev'),
+});
+
+interface EditingTool {
+  description: string;
+  parameters: z.ZodTypeAny;
+
+  // the action of a call, undefined when the arguments do not match `parameters`
+  toAction(args: unknown): BoltAction | undefined;
+}
+
+function editingTool<T extends z.ZodTypeAny>(
+  description: string,
+  parameters: T,
+  toAction: (args: z.infer<T>) => BoltAction,
+): EditingTool {
+  return {
+    description,
+    parameters,
+    toAction: (args) => {
+      const result = parameters.safeParse(args);
+
+      return result.success ? toAction(result.data) : undefined;
+    },
+  };
+}
+
+export const EDITING_TOOLS = {
+  write_file: editingTool(
+    'Create a file or replace the whole content of an existing file',
+    writeFileSchema,
+    (args) => ({ type: 'file', filePath: args.filePath, content: args.content }),
+  ),
+  patch_file: editingTool('Change parts of a large existing file without rewriting it', patchFileSchema, (args) => ({
+    type: 'patch',
+    filePath: args.filePath,
+    content: args.patch,
+  })),
+  run_shell: editingTool(
+    'Run a shell command, e.g. to install dependencies. Do not use it to start the dev server',
+    runShellSchema,
+    (args) => ({ type: 'shell', content: args.command }),
+  ),
+  start_app: editingTool(
+    'Start the dev server. Call it once, after all files are written and dependencies installed',
+    startAppSchema,
+    (args) => ({ type: 'start', content: args.command }),
+  ),
+};
+
+export type EditingToolName = keyof typeof EDITING_TOOLS;
+
+export function isEditingTool(toolName: string): toolName is EditingToolName {
+  return Object.hasOwn(EDITING_TOOLS, toolName);
+}
+
+/**
+ * Returns the action a tool call stands for, or undefined when the arguments do not match the
+ * tool's schema.
+ */
+export function toolCallToAction(toolName: EditingToolName, args: unknown): BoltAction | undefined {
+  return EDITING_TOOLS[toolName].toAction(args);
+}
+
+export function createEditingTools(): ToolSet {
+  return Object.fromEntries(
+    Object.entries(EDITING_TOOLS).map(([name, definition]) => [
+      name,
+      tool({
+        description: definition.description,
+        parameters: definition.parameters,
+        execute: async () => 'Accepted. The workbench applies the actions in the order they were called.',
+      }),
+    ]),
+  );
+}
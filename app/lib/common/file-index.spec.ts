@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { chunkFile, FileIndex, tokenize } from './file-index';
+
+const header = `import { useStore } from '@nanostores/react';
+
+export function Header() {
+  return <header className="flex">Logo</header>;
+}
+`;
+
+const loginForm = `import { useState } from 'react';
+
+export function LoginForm() {
+  const [password, setPassword] = useState('');
+  return <form onSubmit={submitLogin}>{password}</form>;
+}
+
+function submitLogin() {
+  return fetch('/api/login', { method: 'POST' });
+}
+`;
+
+describe('tokenize', () => {
+  it('should split identifiers at camelCase and snake_case boundaries', () => {
+    expect(tokenize('useChatHistory MAX_RETRIES')).toEqual([
+      'usechathistory',
+      'use',
+      'chat',
+      'history',
+      'max_retries',
+      'max',
+      'retries',
+    ]);
+  });
+});
+
+describe('chunkFile', () => {
+  it('should start a chunk at every top-level declaration', () => {
+    const chunks = chunkFile('/home/project/src/LoginForm.tsx', loginForm);
+
+    expect(chunks.map((chunk) => [chunk.symbol, chunk.startLine])).toEqual([
+      [undefined, 1],
+      ['LoginForm', 3],
+      ['submitLogin', 8],
+    ]);
+  });
+});
+
+describe('FileIndex', () => {
+  it('should rank the file that matches the query first', () => {
+    const index = new FileIndex();
+    index.upsert('/home/project/src/Header.tsx', header);
+    index.upsert('/home/project/src/LoginForm.tsx', loginForm);
+
+    const [best] = index.search('fix the login password form');
+
+    expect(best.path).toBe('/home/project/src/LoginForm.tsx');
+    expect(best.chunks[0].symbol).toBe('LoginForm');
+  });
+
+  it('should follow updates and removals', () => {
+    const index = new FileIndex();
+    index.upsert('/home/project/src/Header.tsx', header);
+    index.upsert('/home/project/src/LoginForm.tsx', loginForm);
+
+    index.upsert('/home/project/src/Header.tsx', header.replace('Logo', 'login'));
+    index.remove('/home/project/src/LoginForm.tsx');
+
+    expect(index.size).toBe(1);
+    expect(index.search('login').map((result) => result.path)).toEqual(['/home/project/src/Header.tsx']);
+
+    index.removeFolder('/home/project/src');
+    expect(index.search('login')).toEqual([]);
+  });
+});
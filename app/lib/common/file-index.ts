@@ -0,0 +1,364 @@
+// files larger than this are generated or vendored more often than not and are skipped
+export const MAX_INDEXED_FILE_SIZE = 256 * 1024;
+
+// long declarations are split so a single match does not pull in hundreds of lines
+const MAX_CHUNK_LINES = 80;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// how many of the best matching chunks are reported per file
+const CHUNKS_PER_RESULT = 3;
+
+// top-level declarations that start a new chunk, covering JS/TS and the usual backend languages
+const SYMBOL_REGEX =
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|def|fn|func|struct|impl|trait|module)\s+([A-Za-z_$][\w$]*)/;
+
+const WORD_REGEX = /[A-Za-z_$][A-Za-z0-9_$]*|\d+/g;
+
+const CAMEL_CASE_SPLIT_REGEX = /[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'async',
+  'at',
+  'await',
+  'be',
+  'by',
+  'can',
+  'const',
+  'default',
+  'do',
+  'else',
+  'export',
+  'false',
+  'for',
+  'from',
+  'function',
+  'if',
+  'import',
+  'in',
+  'is',
+  'it',
+  'let',
+  'me',
+  'new',
+  'null',
+  'of',
+  'on',
+  'or',
+  'please',
+  'return',
+  'should',
+  'so',
+  'that',
+  'the',
+  'this',
+  'to',
+  'true',
+  'undefined',
+  'var',
+  'we',
+  'with',
+  'you',
+]);
+
+export interface FileChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  text: string;
+}
+
+export interface FileSearchResult {
+  path: string;
+  score: number;
+  chunks: Array<Omit<FileChunk, 'text'> & { score: number }>;
+}
+
+interface IndexedChunk extends Omit<FileChunk, 'text'> {
+  length: number;
+  terms: Map<string, number>;
+}
+
+/**
+ * Splits source code into search terms. Identifiers are kept whole and also broken up at
+ * camelCase and snake_case boundaries, so `useChatHistory` matches a query for "chat history".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(WORD_REGEX) ?? []) {
+    const lower = word.toLowerCase();
+
+    if (lower.length > 1 && !STOP_WORDS.has(lower)) {
+      terms.push(lower);
+    }
+
+    const parts = word.split(CAMEL_CASE_SPLIT_REGEX);
+
+    if (parts.length < 2) {
+      continue;
+    }
+
+    for (const part of parts) {
+      const lowerPart = part.toLowerCase();
+
+      if (lowerPart.length > 1 && lowerPart !== lower && !STOP_WORDS.has(lowerPart)) {
+        terms.push(lowerPart);
+      }
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Splits a file at its top-level declarations. Everything before the first declaration (usually
+ * the imports) forms its own chunk, and chunks longer than `MAX_CHUNK_LINES` are split further.
+ */
+export function chunkFile(path: string, content: string): FileChunk[] {
+  const lines = content.split('\n');
+  const chunks: FileChunk[] = [];
+
+  let startLine = 0;
+  let symbol: string | undefined;
+
+  const flush = (endLine: number) => {
+    const text = lines.slice(startLine, endLine).join('\n');
+
+    if (text.trim()) {
+      chunks.push({ path, startLine: startLine + 1, endLine, symbol, text });
+    }
+
+    startLine = endLine;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = SYMBOL_REGEX.exec(lines[i]);
+
+    if (match && i > startLine) {
+      flush(i);
+      symbol = match[1];
+    } else if (match) {
+      symbol = match[1];
+    } else if (i - startLine >= MAX_CHUNK_LINES) {
+      flush(i);
+    }
+  }
+
+  flush(lines.length);
+
+  return chunks;
+}
+
+export function hashContent(content: string) {
+  // 32-bit FNV-1a, good enough to detect changed content
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16);
+}
+
+export function isIndexableFile(path: string, content: string) {
+  return content.length <= MAX_INDEXED_FILE_SIZE && !/\.min\.(js|css)$/.test(path) && !/\.(map|lock)$/.test(path);
+}
+
+/**
+ * Incremental BM25 index over the chunks of a project's files. Files are added, replaced and
+ * removed one at a time so the index can follow file system events without being rebuilt.
+ */
+export class FileIndex {
+  private _chunks = new Map<number, IndexedChunk>();
+  private _chunksByPath = new Map<string, number[]>();
+  private _hashes = new Map<string, string>();
+  private _pathTerms = new Map<string, Set<string>>();
+  private _postings = new Map<string, Set<number>>();
+  private _totalLength = 0;
+  private _nextChunkId = 0;
+
+  get size() {
+    return this._chunksByPath.size;
+  }
+
+  has(path: string) {
+    return this._chunksByPath.has(path);
+  }
+
+  upsert(path: string, content: string) {
+    if (!isIndexableFile(path, content)) {
+      this.remove(path);
+      return;
+    }
+
+    const hash = hashContent(content);
+
+    if (this._hashes.get(path) === hash) {
+      return;
+    }
+
+    this.remove(path);
+
+    const ids: number[] = [];
+
+    for (const chunk of chunkFile(path, content)) {
+      const terms = new Map<string, number>();
+      const tokens = tokenize(chunk.text);
+
+      for (const term of tokens) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+      }
+
+      const id = this._nextChunkId++;
+
+      this._chunks.set(id, {
+        path,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        symbol: chunk.symbol,
+        length: tokens.length,
+        terms,
+      });
+
+      for (const term of terms.keys()) {
+        let posting = this._postings.get(term);
+
+        if (!posting) {
+          posting = new Set();
+          this._postings.set(term, posting);
+        }
+
+        posting.add(id);
+      }
+
+      this._totalLength += tokens.length;
+      ids.push(id);
+    }
+
+    this._chunksByPath.set(path, ids);
+    this._hashes.set(path, hash);
+    this._pathTerms.set(path, new Set(tokenize(path)));
+  }
+
+  remove(path: string) {
+    const ids = this._chunksByPath.get(path);
+
+    if (!ids) {
+      return;
+    }
+
+    for (const id of ids) {
+      const chunk = this._chunks.get(id)!;
+
+      for (const term of chunk.terms.keys()) {
+        const posting = this._postings.get(term);
+        posting?.delete(id);
+
+        if (posting?.size === 0) {
+          this._postings.delete(term);
+        }
+      }
+
+      this._totalLength -= chunk.length;
+      this._chunks.delete(id);
+    }
+
+    this._chunksByPath.delete(path);
+    this._hashes.delete(path);
+    this._pathTerms.delete(path);
+  }
+
+  removeFolder(folderPath: string) {
+    const prefix = folderPath.endsWith('/') ? folderPath : `${folderPath}/`;
+
+    for (const path of [...this._chunksByPath.keys()]) {
+      if (path.startsWith(prefix)) {
+        this.remove(path);
+      }
+    }
+  }
+
+  clear() {
+    this._chunks.clear();
+    this._chunksByPath.clear();
+    this._hashes.clear();
+    this._pathTerms.clear();
+    this._postings.clear();
+    this._totalLength = 0;
+  }
+
+  /**
+   * Ranks files by the BM25 score of their best matching chunk, plus a bonus for query terms
+   * that appear in the file path.
+   */
+  search(query: string, options: { limit?: number } = {}): FileSearchResult[] {
+    const { limit = 20 } = options;
+    const queryTerms = [...new Set(tokenize(query))];
+
+    if (queryTerms.length === 0 || this._chunks.size === 0) {
+      return [];
+    }
+
+    const chunkCount = this._chunks.size;
+    const averageLength = this._totalLength / chunkCount || 1;
+    const chunkScores = new Map<number, number>();
+    const idfs = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this._postings.get(term);
+      const df = posting?.size ?? 0;
+      const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+      idfs.set(term, idf);
+
+      for (const id of posting ?? []) {
+        const chunk = this._chunks.get(id)!;
+        const tf = chunk.terms.get(term)!;
+        const score = (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * chunk.length) / averageLength));
+
+        chunkScores.set(id, (chunkScores.get(id) ?? 0) + score);
+      }
+    }
+
+    const results = new Map<string, FileSearchResult>();
+
+    for (const [id, score] of chunkScores) {
+      const { path, startLine, endLine, symbol } = this._chunks.get(id)!;
+      let result = results.get(path);
+
+      if (!result) {
+        result = { path, score: 0, chunks: [] };
+        results.set(path, result);
+      }
+
+      result.chunks.push({ path, startLine, endLine, symbol, score });
+    }
+
+    for (const [path, pathTerms] of this._pathTerms) {
+      const pathScore = queryTerms.reduce((sum, term) => sum + (pathTerms.has(term) ? idfs.get(term)! : 0), 0);
+
+      if (pathScore > 0 && !results.has(path)) {
+        results.set(path, { path, score: 0, chunks: [] });
+      }
+
+      const result = results.get(path);
+
+      if (result) {
+        result.chunks.sort((a, b) => b.score - a.score);
+        result.chunks = result.chunks.slice(0, CHUNKS_PER_RESULT);
+        result.score = (result.chunks[0]?.score ?? 0) + pathScore;
+      }
+    }
+
+    return [...results.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
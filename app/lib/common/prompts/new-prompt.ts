@@ -285,6 +285,7 @@ The year is 2025.
     - shell: Running commands (use --yes for npx/npm create, && for sequences, NEVER re-run dev servers)
     - start: Starting project (use ONLY for project startup, LAST action)
     - file: Creating/updating files (add filePath and contentType attributes)
+    - patch: Changing parts of a large existing file (add filePath attribute)
 
   CRITICAL - PROJECT STARTUP RULE:
     ⚠️ ABSOLUTELY MANDATORY FOR WEB PROJECTS:
@@ -305,6 +306,17 @@ The year is 2025.
     - NEVER use diffs for new files or SQL migrations
     - FORBIDDEN: Binary files, base64 assets
 
+  Patch Action Rules:
+    - Content is one or more SEARCH/REPLACE blocks, listed in file order:
+      <<<<<<< SEARCH
+      exact current lines, including indentation
+      =======
+      new lines
+      >>>>>>> REPLACE
+    - Each SEARCH section needs enough unchanged lines to be unique in the file
+    - Use file actions for new files, small files, or when most of the file changes
+    - If a patch failed, rewrite the whole file with a file action
+
   Action Order:
     - Create files BEFORE shell commands that depend on them
     - Update package.json FIRST, then install dependencies
@@ -0,0 +1,15 @@
+import { stripIndents } from '~/utils/stripIndent';
+
+export const toolEditingPrompt = () => stripIndents`
+  <tool_editing_mode>
+    IMPORTANT: This session uses tool calls instead of artifacts. The instructions below override every instruction about \`<boltArtifact>\` and \`<boltAction>\` above.
+
+    - NEVER write \`<boltArtifact>\` or \`<boltAction>\` tags and NEVER put file contents in code blocks in your reply.
+    - Create or replace a file by calling \`write_file\` with the path relative to the project root and the COMPLETE file content.
+    - Change a few parts of a large existing file with \`patch_file\`, passing SEARCH/REPLACE blocks (\`<<<<<<< SEARCH\`, the exact current lines, \`=======\`, the new lines, \`>>>>>>> REPLACE\`) in file order. If a patch fails, rewrite the file with \`write_file\`.
+    - Run commands such as dependency installs with \`run_shell\`.
+    - Start the dev server with \`start_app\`, once, after all files are written.
+    - Tool calls are applied in the order you make them, so write \`package.json\` before installing and install before starting.
+    - Keep the text of your reply short: explain what you are about to change, make the calls, then summarize.
+  </tool_editing_mode>
+`;
@@ -0,0 +1,75 @@
+import { useStore } from '@nanostores/react';
+import type { Message } from 'ai';
+import { useEffect } from 'react';
+import { chatId, chatTabSync } from '~/lib/persistence';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { createSampler } from '~/utils/sampler';
+import { debounce } from '~/utils/debounce';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('useChatTabSync');
+
+const publishMessages = createSampler(
+  (messages: Message[], streaming: boolean) => chatTabSync.publishMessages(messages, streaming),
+  100,
+);
+
+const publishFiles = debounce(() => chatTabSync.publishFiles(workbenchStore.files.get()), 500);
+
+/**
+ * Joins the leader election of the open chat. The leader sends its messages and files to the other
+ * tabs on the chat, a follower replaces its own with the ones received. A follower does not run the
+ * actions of mirrored messages, the files they wrote arrive with the files of the leader.
+ */
+export function useChatTabSync(options: {
+  messages: Message[];
+  isLoading: boolean;
+  setMessages: (messages: Message[]) => void;
+}) {
+  const { messages, isLoading, setMessages } = options;
+  const currentChatId = useStore(chatId);
+  const { role } = useStore(chatTabSync.state);
+  const mirror = useStore(chatTabSync.mirror);
+
+  useEffect(() => {
+    chatTabSync.join(currentChatId);
+  }, [currentChatId]);
+
+  useEffect(() => {
+    const unsubscribe = workbenchStore.files.listen(publishFiles);
+
+    return () => {
+      unsubscribe();
+      chatTabSync.leave();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (role === 'leader') {
+      publishMessages(messages, isLoading);
+    }
+  }, [messages, isLoading, role]);
+
+  // a new leader sends its files right away, the followers may have changed theirs meanwhile
+  useEffect(() => {
+    if (role === 'leader') {
+      publishFiles();
+    }
+  }, [role]);
+
+  useEffect(() => {
+    if (role === 'follower' && mirror.messages) {
+      workbenchStore.setMirroredMessages(mirror.messages.map((message) => message.id));
+      setMessages(mirror.messages);
+    }
+  }, [mirror.messages]);
+
+  useEffect(() => {
+    if (role === 'follower' && mirror.files) {
+      workbenchStore.restoreFiles(mirror.files).catch((error) => logger.error('Failed to mirror the files', error));
+    }
+  }, [mirror.files]);
+
+  // whether the leader is streaming a response into the mirrored messages
+  return { mirrorStreaming: role === 'follower' && mirror.streaming };
+}
@@ -2,7 +2,23 @@ import { useState, useCallback } from 'react';
 import { toast } from 'react-toastify';
 import { ImportExportService } from '~/lib/services/importExportService';
 import { useIndexedDB } from '~/lib/hooks/useIndexedDB';
-import { generateId } from 'ai';
+import { BUNDLE_EXTENSION, importBundle, readBundle } from '~/lib/persistence/bundle';
+import { getAllStoredChats } from '~/lib/persistence/chats';
+import { purgeChat, restoreChat } from '~/lib/persistence/db';
+import { saveApiKeys } from '~/lib/persistence/vault';
+
+// downloads a zipped bundle under `fileName`
+function downloadBundle(data: Uint8Array, fileName: string) {
+  const blob = new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
 interface UseDataOperationsProps {
   /**
@@ -242,132 +258,86 @@ export function useDataOperations({
   );
 
   /**
-   * Export all chats to a JSON file
+   * Export all chats to a `.bolt` bundle
+   * @param decrypt Decrypt the chats sealed by the vault, they are exported encrypted otherwise
    */
-  const handleExportAllChats = useCallback(async () => {
-    if (!db) {
-      toast.error('Database not available', {
-        position: 'bottom-right',
-        autoClose: 3000,
-      });
-      return;
-    }
-
-    console.log('Export: Using database', {
-      name: db.name,
-      version: db.version,
-      objectStoreNames: Array.from(db.objectStoreNames),
-    });
-
-    setIsExporting(true);
-    setProgressPercent(0);
-
-    // Dismiss any existing toast first
-    toast.dismiss('progress-toast');
-
-    toast.loading('Preparing chats export...', {
-      position: 'bottom-right',
-      autoClose: 3000,
-      toastId: 'progress-toast',
-    });
-
-    try {
-      // Step 1: Export chats
-      showProgress('Retrieving chats from database', 25);
+  const handleExportAllChats = useCallback(
+    async (decrypt = false) => {
+      if (!db) {
+        toast.error('Database not available', {
+          position: 'bottom-right',
+          autoClose: 3000,
+        });
+        return;
+      }
 
-      console.log('Database details:', {
+      console.log('Export: Using database', {
         name: db.name,
         version: db.version,
         objectStoreNames: Array.from(db.objectStoreNames),
       });
 
-      // Direct database query approach for more reliable access
-      const directChats = await new Promise<any[]>((resolve, reject) => {
-        try {
-          console.log(`Creating transaction on '${db.name}' database, objectStore 'chats'`);
-
-          const transaction = db.transaction(['chats'], 'readonly');
-          const store = transaction.objectStore('chats');
-          const request = store.getAll();
-
-          request.onsuccess = () => {
-            console.log(`Found ${request.result ? request.result.length : 0} chats directly from database`);
-            resolve(request.result || []);
-          };
-
-          request.onerror = () => {
-            console.error('Error querying chats store:', request.error);
-            reject(request.error);
-          };
-        } catch (err) {
-          console.error('Error creating transaction:', err);
-          reject(err);
-        }
-      });
-
-      // Export data with direct chats
-      const exportData = {
-        chats: directChats,
-        exportDate: new Date().toISOString(),
-      };
-
-      console.log(`Preparing to export ${exportData.chats.length} chats`);
+      setIsExporting(true);
+      setProgressPercent(0);
 
-      // Step 2: Create blob
-      showProgress('Creating file', 50);
+      // Dismiss any existing toast first
+      toast.dismiss('progress-toast');
 
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-        type: 'application/json',
+      toast.loading('Preparing chats export...', {
+        position: 'bottom-right',
+        autoClose: 3000,
+        toastId: 'progress-toast',
       });
 
-      // Step 3: Download file
-      showProgress('Downloading file', 75);
+      try {
+        // Step 1: Export chats
+        showProgress('Retrieving chats from database', 25);
 
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'bolt-chats.json';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+        const data = await ImportExportService.exportAllChats(db, { decrypt });
 
-      // Step 4: Complete
-      showProgress('Completing export', 100);
+        // Step 2: Download file
+        showProgress('Downloading file', 75);
+        downloadBundle(data, `bolt-chats${BUNDLE_EXTENSION}`);
 
-      // Dismiss progress toast before showing success toast
-      toast.dismiss('progress-toast');
+        // Step 3: Complete
+        showProgress('Completing export', 100);
 
-      toast.success(`${exportData.chats.length} chats exported successfully`, {
-        position: 'bottom-right',
-        autoClose: 3000,
-      });
+        // Dismiss progress toast before showing success toast
+        toast.dismiss('progress-toast');
 
-      // Save operation for potential undo
-      setLastOperation({ type: 'export-chats', data: exportData });
-    } catch (error) {
-      console.error('Error exporting chats:', error);
+        toast.success('All chats exported successfully', {
+          position: 'bottom-right',
+          autoClose: 3000,
+        });
 
-      // Dismiss progress toast before showing error toast
-      toast.dismiss('progress-toast');
+        // Save operation for potential undo
+        setLastOperation({ type: 'export-chats', data: null });
+      } catch (error) {
+        console.error('Error exporting chats:', error);
 
-      toast.error(`Failed to export chats: ${error instanceof Error ? error.message : 'Unknown error'}`, {
-        position: 'bottom-right',
-        autoClose: 3000,
-      });
-    } finally {
-      setIsExporting(false);
-      setProgressPercent(0);
-      setProgressMessage('');
-    }
-  }, [db, showProgress]);
+        // Dismiss progress toast before showing error toast
+        toast.dismiss('progress-toast');
+
+        toast.error(`Failed to export chats: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+          position: 'bottom-right',
+          autoClose: 3000,
+        });
+      } finally {
+        setIsExporting(false);
+        setProgressPercent(0);
+        setProgressMessage('');
+      }
+    },
+    [db, showProgress],
+  );
 
   /**
-   * Export selected chats to a JSON file
+   * Export selected chats to a `.bolt` bundle
    * @param chatIds Array of chat IDs to export
+   * @param decrypt Decrypt the chats sealed by the vault, they are exported encrypted otherwise
    */
   const handleExportSelectedChats = useCallback(
-    async (chatIds: string[]) => {
+    async (chatIds: string[], decrypt = false) => {
       if (!db) {
         toast.error('Database not available', {
           position: 'bottom-right',
@@ -400,62 +370,25 @@ export function useDataOperations({
         // Step 1: Get chats from database
         showProgress('Retrieving chats from database', 25);
 
-        const transaction = db.transaction(['chats'], 'readonly');
-        const store = transaction.objectStore('chats');
-
-        // Create an array to store the promises for getting each chat
-        const chatPromises = chatIds.map((chatId) => {
-          return new Promise<any>((resolve, reject) => {
-            const request = store.get(chatId);
-            request.onsuccess = () => resolve(request.result);
-            request.onerror = () => reject(request.error);
-          });
-        });
-
-        // Wait for all promises to resolve
-        const chats = await Promise.all(chatPromises);
-        const filteredChats = chats.filter(Boolean); // Remove any null/undefined results
-
-        console.log(`Retrieved ${filteredChats.length} chats for export`);
-
-        // Create export data
-        const exportData = {
-          chats: filteredChats,
-          exportDate: new Date().toISOString(),
-        };
-
-        // Step 2: Create blob
-        showProgress('Creating file', 50);
-
-        const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-          type: 'application/json',
-        });
+        const data = await ImportExportService.exportChats(db, chatIds, { decrypt });
 
-        // Step 3: Download file
+        // Step 2: Download file
         showProgress('Downloading file', 75);
+        downloadBundle(data, `bolt-selected-chats${BUNDLE_EXTENSION}`);
 
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'bolt-selected-chats.json';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
-        // Step 4: Complete
+        // Step 3: Complete
         showProgress('Completing export', 100);
 
         // Dismiss progress toast before showing success toast
         toast.dismiss('progress-toast');
 
-        toast.success(`${filteredChats.length} chats exported successfully`, {
+        toast.success(`${chatIds.length} chats exported successfully`, {
           position: 'bottom-right',
           autoClose: 3000,
         });
 
         // Save operation for potential undo
-        setLastOperation({ type: 'export-selected-chats', data: { chatIds, chats: filteredChats } });
+        setLastOperation({ type: 'export-selected-chats', data: { chatIds } });
       } catch (error) {
         console.error('Error exporting selected chats:', error);
 
@@ -549,7 +482,7 @@ export function useDataOperations({
   );
 
   /**
-   * Import chats from a JSON file
+   * Import chats from a `.bolt` bundle or the JSON of an older export
    * @param file The file to import
    */
   const handleImportChats = useCallback(
@@ -578,81 +511,23 @@ export function useDataOperations({
         // Step 1: Read file
         showProgress('Reading file', 20);
 
-        const fileContent = await file.text();
-
-        // Step 2: Parse JSON and validate structure
-        showProgress('Parsing chat data', 40);
-
-        const importedData = JSON.parse(fileContent);
-
-        if (!importedData.chats || !Array.isArray(importedData.chats)) {
-          throw new Error('Invalid chat data format: missing or invalid chats array');
-        }
-
-        // Step 3: Validate each chat object
-        showProgress('Validating chat data', 60);
-
-        const validatedChats = importedData.chats.map((chat: any) => {
-          if (!chat.id || !Array.isArray(chat.messages)) {
-            throw new Error('Invalid chat format: missing required fields');
-          }
-
-          // Ensure each message has required fields
-          const validatedMessages = chat.messages.map((msg: any) => {
-            if (!msg.role || !msg.content) {
-              throw new Error('Invalid message format: missing required fields');
-            }
+        const data = new Uint8Array(await file.arrayBuffer());
 
-            return {
-              id: msg.id || generateId(),
-              role: msg.role,
-              content: msg.content,
-              name: msg.name,
-              function_call: msg.function_call,
-              timestamp: msg.timestamp || Date.now(),
-            };
-          });
-
-          return {
-            id: chat.id,
-            description: chat.description || '',
-            messages: validatedMessages,
-            timestamp: chat.timestamp || new Date().toISOString(),
-            urlId: chat.urlId || null,
-            metadata: chat.metadata || null,
-          };
-        });
+        // Step 2: Parse and validate the bundle, older JSON exports are migrated on the way in
+        showProgress('Validating chat data', 40);
 
-        // Step 4: Save current chats for potential undo
-        showProgress('Preparing database transaction', 70);
+        const bundle = await readBundle(data);
 
-        const currentChats = await ImportExportService.exportAllChats(db);
-        setLastOperation({ type: 'import-chats', data: { previous: currentChats } });
+        // Step 3: Save current chats for potential undo
+        showProgress('Preparing database transaction', 60);
 
-        // Step 5: Import chats
-        showProgress(`Importing ${validatedChats.length} chats`, 80);
+        const previous = await getAllStoredChats(db);
+        setLastOperation({ type: 'import-chats', data: { previous: { chats: previous } } });
 
-        const transaction = db.transaction(['chats'], 'readwrite');
-        const store = transaction.objectStore('chats');
-
-        let processed = 0;
-
-        for (const chat of validatedChats) {
-          store.put(chat);
-          processed++;
-
-          if (processed % 5 === 0 || processed === validatedChats.length) {
-            showProgress(
-              `Imported ${processed} of ${validatedChats.length} chats`,
-              80 + (processed / validatedChats.length) * 20,
-            );
-          }
-        }
+        // Step 4: Import chats, the ones already in the history get the new messages
+        showProgress(`Importing ${bundle.chats.length} chats`, 80);
 
-        await new Promise((resolve, reject) => {
-          transaction.oncomplete = resolve;
-          transaction.onerror = reject;
-        });
+        const { created, merged } = await importBundle(db, bundle, async () => 'merge');
 
         // Step 6: Complete
         showProgress('Completing import', 100);
@@ -660,7 +535,7 @@ export function useDataOperations({
         // Dismiss progress toast before showing success toast
         toast.dismiss('progress-toast');
 
-        toast.success(`${validatedChats.length} chats imported successfully`, {
+        toast.success(`${created + merged} chats imported successfully`, {
           position: 'bottom-right',
           autoClose: 3000,
         });
@@ -728,8 +603,7 @@ export function useDataOperations({
         showProgress('Applying API keys', 80);
 
         const newKeys = ImportExportService.importAPIKeys(importedData);
-        const apiKeysJson = JSON.stringify(newKeys);
-        document.cookie = `apiKeys=${apiKeysJson}; path=/; max-age=31536000`;
+        await saveApiKeys(newKeys);
 
         // Step 5: Complete
         showProgress('Completing import', 100);
@@ -867,8 +741,8 @@ export function useDataOperations({
       // Step 1: Save current chats for potential undo
       showProgress('Backing up current chats', 25);
 
-      const currentChats = await ImportExportService.exportAllChats(db);
-      setLastOperation({ type: 'reset-chats', data: { previous: currentChats } });
+      const previous = await getAllStoredChats(db);
+      setLastOperation({ type: 'reset-chats', data: { previous: { chats: previous } } });
 
       // Step 2: Delete chats
       showProgress('Deleting chats from database', 50);
@@ -880,7 +754,7 @@ export function useDataOperations({
       // Dismiss progress toast before showing success toast
       toast.dismiss('progress-toast');
 
-      toast.success('All chats deleted successfully', {
+      toast.success('All chats moved to the trash', {
         position: 'bottom-right',
         autoClose: 3000,
       });
@@ -1091,7 +965,13 @@ export function useDataOperations({
 
         case 'import-chats': {
           // Delete imported chats and restore previous state
-          await ImportExportService.deleteAllChats(db);
+          const previousIds = new Set(lastOperation.data.previous.chats.map((chat: { id: string }) => chat.id));
+
+          for (const chat of await getAllStoredChats(db)) {
+            if (!previousIds.has(chat.id)) {
+              await purgeChat(db, chat.id);
+            }
+          }
 
           // Reimport previous chats
           const transaction = db.transaction(['chats'], 'readwrite');
@@ -1141,19 +1021,11 @@ export function useDataOperations({
         }
 
         case 'reset-chats': {
-          // Restore previous chats
-          const chatTransaction = db.transaction(['chats'], 'readwrite');
-          const chatStore = chatTransaction.objectStore('chats');
-
+          // Restore previous chats from the trash, together with their snapshots
           for (const chat of lastOperation.data.previous.chats) {
-            chatStore.put(chat);
+            await restoreChat(db, chat.id);
           }
 
-          await new Promise((resolve, reject) => {
-            chatTransaction.oncomplete = resolve;
-            chatTransaction.onerror = reject;
-          });
-
           // Dismiss progress toast before showing success toast
           toast.dismiss('progress-toast');
 
@@ -1171,10 +1043,7 @@ export function useDataOperations({
 
         case 'import-api-keys': {
           // Restore previous API keys
-          const previousAPIKeys = lastOperation.data.previous;
-          const newKeys = ImportExportService.importAPIKeys(previousAPIKeys);
-          const apiKeysJson = JSON.stringify(newKeys);
-          document.cookie = `apiKeys=${apiKeysJson}; path=/; max-age=31536000`;
+          await saveApiKeys(lastOperation.data.previous);
 
           // Dismiss progress toast before showing success toast
           toast.dismiss('progress-toast');
@@ -1,54 +1,84 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
 import { EnhancedStreamingMessageParser } from '~/lib/runtime/enhanced-message-parser';
+import type { ArtifactCallbackData, ParserCallbacks } from '~/lib/runtime/message-parser';
+import { chatTabSync } from '~/lib/persistence/tabSync';
+import { recordMessageSnapshot, saveTurnCommit } from '~/lib/persistence/useChatHistory';
+import { ToolActionParser } from '~/lib/runtime/tool-action-parser';
+import { gitStore } from '~/lib/stores/git';
+import { autoCommitStore } from '~/lib/stores/settings';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('useMessageParser');
 
-const messageParser = new EnhancedStreamingMessageParser({
-  callbacks: {
-    onArtifactOpen: (data) => {
-      logger.trace('onArtifactOpen', data);
-
-      workbenchStore.showWorkbench.set(true);
-      workbenchStore.addArtifact(data);
-    },
-    onArtifactClose: (data) => {
-      logger.trace('onArtifactClose');
-
-      workbenchStore.updateArtifact(data, { closed: true });
-    },
-    onActionOpen: (data) => {
-      logger.trace('onActionOpen', data.action);
-
-      /*
-       * File actions are streamed, so we add them immediately to show progress
-       * Shell actions are complete when created by enhanced parser, so we wait for close
-       */
-      if (data.action.type === 'file') {
-        workbenchStore.addAction(data);
-      }
-    },
-    onActionClose: (data) => {
-      logger.trace('onActionClose', data.action);
-
-      /*
-       * Add non-file actions (shell, build, start, etc.) when they close
-       * Enhanced parser creates complete shell actions, so they're ready to execute
-       */
-      if (data.action.type !== 'file') {
-        workbenchStore.addAction(data);
-      }
+// commits the files an artifact changed, with the artifact title as the message, in the tab leading the chat
+async function commitArtifact(data: ArtifactCallbackData) {
+  if (!autoCommitStore.get() || !chatTabSync.canWrite() || !(await workbenchStore.getFilesAfterArtifact(data))) {
+    return;
+  }
+
+  try {
+    const oid = await gitStore.commitAll(data.title || 'Update project');
+
+    if (oid) {
+      await saveTurnCommit(data.messageId, oid);
+    }
+  } catch (error) {
+    logger.error('Failed to commit the artifact', error);
+  }
+}
+
+const callbacks: ParserCallbacks = {
+  onArtifactOpen: (data) => {
+    logger.trace('onArtifactOpen', data);
+
+    workbenchStore.showWorkbench.set(true);
+    workbenchStore.addArtifact(data);
+  },
+  onArtifactClose: (data) => {
+    logger.trace('onArtifactClose');
+
+    workbenchStore.updateArtifact(data, { closed: true });
+    workbenchStore.runPostWriteHooks(data);
+    recordMessageSnapshot(data);
+    commitArtifact(data);
+  },
+  onActionOpen: (data) => {
+    logger.trace('onActionOpen', data.action);
 
-      workbenchStore.runAction(data);
-    },
-    onActionStream: (data) => {
-      logger.trace('onActionStream', data.action);
-      workbenchStore.runAction(data, true);
-    },
+    /*
+     * File actions are streamed, so we add them immediately to show progress
+     * Shell actions are complete when created by enhanced parser, so we wait for close
+     */
+    if (data.action.type === 'file') {
+      workbenchStore.addAction(data);
+    }
+  },
+  onActionClose: (data) => {
+    logger.trace('onActionClose', data.action);
+
+    /*
+     * Add non-file actions (shell, build, start, etc.) when they close
+     * Enhanced parser creates complete shell actions, so they're ready to execute
+     */
+    if (data.action.type !== 'file') {
+      workbenchStore.addAction(data);
+    }
+
+    workbenchStore.runAction(data);
+  },
+  onActionStream: (data) => {
+    logger.trace('onActionStream', data.action);
+    workbenchStore.runAction(data, true);
   },
-});
+};
+
+const messageParser = new EnhancedStreamingMessageParser({ callbacks });
+
+// edits made through tool calls in the `tools` editing mode
+const toolActionParser = new ToolActionParser({ callbacks });
+
 const extractTextContent = (message: Message) =>
   Array.isArray(message.content)
     ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
@@ -63,11 +93,18 @@ export function useMessageParser() {
     if (import.meta.env.DEV && !isLoading) {
       reset = true;
       messageParser.reset();
+      toolActionParser.reset();
     }
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant' || message.role === 'user') {
-        const newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+        let newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+
+        if (message.role === 'assistant') {
+          const done = !isLoading || index < messages.length - 1;
+          newParsedContent += toolActionParser.parse(message.id, message.parts, done);
+        }
+
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
           [index]: !reset ? (prevParsed[index] || '') + newParsedContent : newParsedContent,
@@ -7,6 +7,13 @@ import {
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  failoverChainStore,
+  contextRetrievalStore,
+  budgetCapsStore,
+  selfHealingStore,
+  compactionStore,
+  autoCommitStore,
+  customProvidersStore,
   tabConfigurationStore,
   resetTabConfiguration as resetTabConfig,
   updateProviderSettings as updateProviderSettingsStore,
@@ -15,11 +22,22 @@ import {
   updateContextOptimization,
   updateEventLogs,
   updatePromptId,
+  updateFailoverChain,
+  updateContextRetrieval,
+  updateBudgetCaps,
+  updateSelfHealing,
+  updateCompaction,
+  updateAutoCommit,
+  updateCustomProviders,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
-import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
+import type { IProviderSetting, ProviderInfo, IProviderConfig, FailoverTarget } from '~/types/model';
 import type { TabWindowConfig } from '~/components/@settings/core/types';
+import type { CompactionSettings, ContextRetrievalSettings } from '~/types/context';
+import type { BudgetCaps } from '~/types/cost';
+import type { SelfHealingSettings } from '~/types/actions';
+import type { CustomProviderConfig } from '~/lib/modules/llm/types';
 import { logStore } from '~/lib/stores/logs';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
 
@@ -58,6 +76,20 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  failoverChain: FailoverTarget[];
+  setFailoverChain: (chain: FailoverTarget[]) => void;
+  contextRetrieval: ContextRetrievalSettings;
+  setContextRetrieval: (settings: ContextRetrievalSettings) => void;
+  budgetCaps: BudgetCaps;
+  setBudgetCaps: (caps: BudgetCaps) => void;
+  selfHealing: SelfHealingSettings;
+  setSelfHealing: (settings: SelfHealingSettings) => void;
+  compaction: CompactionSettings;
+  setCompaction: (settings: CompactionSettings) => void;
+  autoCommit: boolean;
+  setAutoCommit: (enabled: boolean) => void;
+  customProviders: CustomProviderConfig[];
+  setCustomProviders: (configs: CustomProviderConfig[]) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -78,6 +110,13 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const failoverChain = useStore(failoverChainStore);
+  const contextRetrieval = useStore(contextRetrievalStore);
+  const budgetCaps = useStore(budgetCapsStore);
+  const selfHealing = useStore(selfHealingStore);
+  const compaction = useStore(compactionStore);
+  const autoCommit = useStore(autoCommitStore);
+  const customProviders = useStore(customProvidersStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -143,6 +182,45 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const setFailoverChain = useCallback((chain: FailoverTarget[]) => {
+    updateFailoverChain(chain);
+    logStore.logSystem(`Failover chain updated (${chain.length} fallback model${chain.length === 1 ? '' : 's'})`);
+  }, []);
+
+  const setContextRetrieval = useCallback((settings: ContextRetrievalSettings) => {
+    updateContextRetrieval(settings);
+    logStore.logSystem(`Context retrieval set to ${settings.mode}${settings.embedding ? ' with embeddings' : ''}`);
+  }, []);
+
+  const setBudgetCaps = useCallback((caps: BudgetCaps) => {
+    updateBudgetCaps(caps);
+    logStore.logSystem('Budget limits updated');
+  }, []);
+
+  const setSelfHealing = useCallback((settings: SelfHealingSettings) => {
+    updateSelfHealing(settings);
+    logStore.logSystem(
+      `Auto-fix ${settings.enabled ? `enabled (up to ${settings.maxAttempts} attempts per turn)` : 'disabled'}`,
+    );
+  }, []);
+
+  const setCompaction = useCallback((settings: CompactionSettings) => {
+    updateCompaction(settings);
+    logStore.logSystem(
+      `Conversation compaction ${settings.enabled ? `enabled at ${Math.round(settings.threshold * 100)}% of the context window` : 'disabled'}`,
+    );
+  }, []);
+
+  const setAutoCommit = useCallback((enabled: boolean) => {
+    updateAutoCommit(enabled);
+    logStore.logSystem(`Auto-commit of assistant turns ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setCustomProviders = useCallback((configs: CustomProviderConfig[]) => {
+    updateCustomProviders(configs);
+    logStore.logSystem(`Custom providers updated: ${configs.map((config) => config.name).join(', ') || 'none'}`);
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -180,6 +258,10 @@ export function useSettings(): UseSettingsReturn {
     Cookies.set('providers', JSON.stringify(providerSetting));
   }, [providers]);
 
+  useEffect(() => {
+    Cookies.set('customProviders', JSON.stringify(customProviders));
+  }, [customProviders]);
+
   return {
     ...settings,
     providers,
@@ -197,6 +279,20 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    failoverChain,
+    setFailoverChain,
+    contextRetrieval,
+    setContextRetrieval,
+    budgetCaps,
+    setBudgetCaps,
+    selfHealing,
+    setSelfHealing,
+    compaction,
+    setCompaction,
+    autoCommit,
+    setAutoCommit,
+    customProviders,
+    setCustomProviders,
     setTheme,
     setLanguage,
     setNotifications,
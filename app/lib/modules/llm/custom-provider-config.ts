@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import type { CustomProviderConfig } from './types';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('CustomProvider');
+
+export const customProviderConfigSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .regex(/^[\w .-]+$/, 'Provider names may only contain letters, digits, spaces, dots, dashes and underscores'),
+  baseUrl: z.string().trim().url(),
+  format: z.enum(['openai', 'anthropic', 'gemini']),
+  auth: z
+    .object({
+      scheme: z.enum(['bearer', 'header', 'query', 'none']),
+      name: z.string().trim().min(1).optional(),
+    })
+    .refine((auth) => auth.scheme === 'bearer' || auth.scheme === 'none' || !!auth.name, {
+      message: 'Header and query auth need a name',
+    })
+    .optional(),
+  apiKeyEnv: z.string().trim().min(1).optional(),
+  models: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        label: z.string().optional(),
+        maxTokenAllowed: z.number().positive().optional(),
+        maxCompletionTokens: z.number().positive().optional(),
+      }),
+    )
+    .optional(),
+  modelsPath: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Parses a list of provider definitions, e.g. from the `CUSTOM_PROVIDERS` environment variable.
+ * Accepts a JSON string or an already parsed value; invalid entries are logged and dropped.
+ */
+export function parseCustomProviderConfigs(value: unknown): CustomProviderConfig[] {
+  let parsed = value;
+
+  if (typeof value === 'string') {
+    if (!value.trim()) {
+      return [];
+    }
+
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      logger.error('Custom providers are not valid JSON', error);
+      return [];
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return parsed.flatMap((entry) => {
+    const result = customProviderConfigSchema.safeParse(entry);
+
+    if (!result.success) {
+      logger.warn('Skipping invalid custom provider:', result.error.issues.map((issue) => issue.message).join(', '));
+      return [];
+    }
+
+    return [result.data];
+  });
+}
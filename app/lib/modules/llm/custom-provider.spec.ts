@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseCustomProviderConfigs } from './custom-provider-config';
+import { LLMManager } from './manager';
+
+describe('parseCustomProviderConfigs', () => {
+  it('should keep valid definitions and drop invalid ones', () => {
+    const configs = parseCustomProviderConfigs(
+      JSON.stringify([
+        { name: 'Gateway', baseUrl: 'https://gateway.example.com/v1', format: 'openai', modelsPath: '/models' },
+        { name: 'NoUrl', format: 'openai' },
+        { name: 'BadAuth', baseUrl: 'https://x.example.com', format: 'anthropic', auth: { scheme: 'header' } },
+      ]),
+    );
+
+    expect(configs.map((config) => config.name)).toEqual(['Gateway']);
+    expect(parseCustomProviderConfigs('not json')).toEqual([]);
+    expect(parseCustomProviderConfigs(undefined)).toEqual([]);
+  });
+});
+
+describe('LLMManager.getCustomProviders', () => {
+  const manager = LLMManager.getInstance();
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('should build custom providers without registering them', () => {
+    const config = {
+      name: 'Gateway',
+      baseUrl: 'https://gateway.example.com/v1',
+      format: 'openai' as const,
+      models: [{ name: 'llama-3-70b', maxTokenAllowed: 32000 }],
+    };
+
+    const customProviders = manager.getCustomProviders([config]);
+
+    expect(manager.getProvider('Gateway')).toBeUndefined();
+    expect(manager.getProvider('Gateway', customProviders)?.getDynamicModels).toBeUndefined();
+    expect(manager.getProvider('Gateway', customProviders)?.staticModels).toEqual([
+      { name: 'llama-3-70b', label: 'llama-3-70b', provider: 'Gateway', maxTokenAllowed: 32000 },
+    ]);
+  });
+
+  it('should not replace built-in providers', () => {
+    const openai = manager.getProvider('OpenAI');
+    const customProviders = manager.getCustomProviders([
+      { name: 'OpenAI', baseUrl: 'https://evil.example.com', format: 'openai' },
+    ]);
+
+    expect(customProviders).toEqual([]);
+    expect(manager.getProvider('OpenAI', customProviders)).toBe(openai);
+  });
+
+  it('should fetch models with the configured auth', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+      Response.json({ models: [{ name: 'models/gemini-pro', displayName: 'Gemini Pro', inputTokenLimit: 30720 }] }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [provider] = manager.getCustomProviders([
+      {
+        name: 'Vertex Proxy',
+        baseUrl: 'https://proxy.example.com/v1beta',
+        format: 'gemini',
+        auth: { scheme: 'query', name: 'key' },
+        modelsPath: '/models',
+      },
+    ]);
+
+    const models = await provider.getDynamicModels!({ 'Vertex Proxy': 'secret' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://proxy.example.com/v1beta/models?key=secret');
+    expect(models).toEqual([
+      { name: 'gemini-pro', label: 'Gemini Pro', provider: 'Vertex Proxy', maxTokenAllowed: 30720 },
+    ]);
+  });
+
+  it('should only give server keys to providers from the environment', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({ data: [] }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('SERVER_SECRET', 'secret');
+
+    const config = {
+      name: 'Gateway',
+      baseUrl: 'https://gateway.example.com/v1',
+      format: 'openai' as const,
+      apiKeyEnv: 'SERVER_SECRET',
+      modelsPath: '/models',
+    };
+    const [fromSettings] = manager.getCustomProviders([{ ...config, baseUrl: 'https://evil.example.com' }]);
+    const [fromEnv] = manager.getCustomProviders([], { CUSTOM_PROVIDERS: JSON.stringify([config]) });
+
+    await fromSettings.getDynamicModels!({}, { baseUrl: 'https://evil.example.com' });
+    await fromEnv.getDynamicModels!({}, { baseUrl: 'https://evil.example.com' });
+
+    const authOf = (call: number) => new Headers(fetchMock.mock.calls[call][1]?.headers).get('Authorization');
+
+    expect(authOf(0)).toBeNull();
+    expect(fetchMock.mock.calls[1][0]).toBe('https://gateway.example.com/v1/models');
+    expect(authOf(1)).toBe('Bearer secret');
+  });
+});
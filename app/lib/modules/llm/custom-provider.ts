@@ -0,0 +1,224 @@
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { BaseProvider } from './base-provider';
+import type {
+  CustomProviderAuth,
+  CustomProviderConfig,
+  CustomProviderFormat,
+  ModelInfo,
+  ProviderConfig,
+} from './types';
+import type { IProviderSetting } from '~/types/model';
+
+const DEFAULT_MAX_TOKENS = 8000;
+
+/** Where a definition comes from: the server's `CUSTOM_PROVIDERS` or the settings of a user */
+export type CustomProviderSource = 'env' | 'settings';
+
+// the shape of a model in the lists of OpenAI (`id`), Anthropic (`id`, `display_name`) and Gemini (`name`, `displayName`)
+interface ListedModel {
+  id?: string;
+  name?: string;
+  display_name?: string;
+  displayName?: string;
+  context_length?: number;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+}
+
+type ModelListResponse = ListedModel[] | { data?: ListedModel[]; models?: ListedModel[] };
+
+// the auth each wire format uses out of the box
+const DEFAULT_AUTH: Record<CustomProviderFormat, CustomProviderAuth> = {
+  openai: { scheme: 'bearer' },
+  anthropic: { scheme: 'header', name: 'x-api-key' },
+  gemini: { scheme: 'header', name: 'x-goog-api-key' },
+};
+
+// headers the AI SDK clients put the key in, replaced by the configured auth
+const SDK_AUTH_HEADERS = ['authorization', 'x-api-key', 'x-goog-api-key'];
+
+/**
+ * Provider built from a `CustomProviderConfig`. Requests go through the AI SDK client of the
+ * configured wire format, with the base URL and auth replaced by the configured ones.
+ * Definitions from user settings are untrusted: they never get a key from the server environment,
+ * which they could otherwise send to a host of their choosing.
+ */
+export class CustomProvider extends BaseProvider {
+  name: string;
+  staticModels: ModelInfo[];
+  config: ProviderConfig;
+  labelForGetApiKey = 'API Key';
+
+  constructor(
+    readonly definition: CustomProviderConfig,
+    readonly source: CustomProviderSource = 'settings',
+  ) {
+    super();
+
+    this.name = definition.name;
+    this.config = { baseUrl: definition.baseUrl, apiTokenKey: source === 'env' ? definition.apiKeyEnv : undefined };
+    this.staticModels = (definition.models ?? []).map((model) => ({
+      name: model.name,
+      label: model.label || model.name,
+      provider: definition.name,
+      maxTokenAllowed: model.maxTokenAllowed ?? DEFAULT_MAX_TOKENS,
+      maxCompletionTokens: model.maxCompletionTokens,
+    }));
+
+    if (definition.modelsPath) {
+      this.getDynamicModels = (apiKeys, settings, serverEnv) => this._fetchModels(apiKeys, settings, serverEnv);
+    }
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { baseUrl, fetch } = this._getClientOptions(options);
+
+    switch (this.definition.format) {
+      case 'anthropic':
+        return createAnthropic({ baseURL: baseUrl, apiKey: '', fetch })(options.model);
+      case 'gemini':
+        return createGoogleGenerativeAI({ baseURL: baseUrl, apiKey: '', fetch })(options.model);
+      default:
+        return createOpenAI({ baseURL: baseUrl, apiKey: '', fetch })(options.model);
+    }
+  }
+
+  getEmbeddingModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    const { baseUrl, fetch } = this._getClientOptions(options);
+
+    switch (this.definition.format) {
+      case 'gemini':
+        return createGoogleGenerativeAI({ baseURL: baseUrl, apiKey: '', fetch }).textEmbeddingModel(options.model);
+      case 'anthropic':
+        throw new Error(`${this.name} uses the Anthropic format, which has no embedding models`);
+      default:
+        return createOpenAI({ baseURL: baseUrl, apiKey: '', fetch }).embedding(options.model);
+    }
+  }
+
+  private _getClientOptions(options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) {
+    const { baseUrl, apiKey } = this._getBaseUrlAndKey(
+      options.apiKeys,
+      options.providerSettings?.[this.name],
+      options.serverEnv as unknown as Record<string, string>,
+    );
+
+    if (!baseUrl) {
+      throw new Error(`Missing base URL for ${this.name} provider`);
+    }
+
+    if (!apiKey && this._auth.scheme !== 'none') {
+      throw new Error(`Missing API key for ${this.name} provider`);
+    }
+
+    return { baseUrl, fetch: this._createFetch(apiKey) };
+  }
+
+  private _getBaseUrlAndKey(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv?: Record<string, string>,
+  ): { baseUrl?: string; apiKey?: string } {
+    const userKey = apiKeys?.[this.name];
+
+    if (this.source === 'settings' || userKey) {
+      return { baseUrl: (settings?.baseUrl || this.definition.baseUrl).replace(/\/+$/, ''), apiKey: userKey };
+    }
+
+    // the server's key only goes to the base URL the server configured
+    return this.getProviderBaseUrlAndKey({ serverEnv, defaultBaseUrlKey: '', defaultApiTokenKey: '' });
+  }
+
+  private get _auth(): CustomProviderAuth {
+    return this.definition.auth ?? DEFAULT_AUTH[this.definition.format];
+  }
+
+  // swaps the auth the SDK client adds for the configured one
+  private _createFetch(apiKey?: string): typeof fetch {
+    return (input, init) => {
+      const headers = new Headers(init?.headers);
+      SDK_AUTH_HEADERS.forEach((header) => headers.delete(header));
+
+      const { url } = this._applyAuth(input instanceof Request ? input.url : input.toString(), headers, apiKey);
+
+      return fetch(url, { ...init, headers });
+    };
+  }
+
+  private _applyAuth(url: string, headers: Headers, apiKey?: string) {
+    const auth = this._auth;
+
+    if (!apiKey || auth.scheme === 'none') {
+      return { url, headers };
+    }
+
+    if (auth.scheme === 'bearer') {
+      headers.set('Authorization', `Bearer ${apiKey}`);
+    } else if (auth.scheme === 'header') {
+      headers.set(auth.name!, apiKey);
+    } else {
+      const parsed = new URL(url);
+      parsed.searchParams.set(auth.name!, apiKey);
+      url = parsed.toString();
+    }
+
+    return { url, headers };
+  }
+
+  private async _fetchModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv?: Record<string, string>,
+  ): Promise<ModelInfo[]> {
+    const { baseUrl, apiKey } = this._getBaseUrlAndKey(apiKeys, settings, serverEnv);
+
+    const headers = new Headers();
+
+    if (this.definition.format === 'anthropic') {
+      headers.set('anthropic-version', '2023-06-01');
+    }
+
+    const { url } = this._applyAuth(`${baseUrl}${this.definition.modelsPath}`, headers, apiKey);
+    const response = await fetch(url, { headers });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const res = (await response.json()) as ModelListResponse;
+
+    // OpenAI and Anthropic list models under `data`, Gemini under `models`, some servers return a bare array
+    const entries = Array.isArray(res) ? res : res.data || res.models || [];
+
+    return entries
+      .map((model) => {
+        const name = String(model.id ?? model.name ?? '').replace(/^models\//, '');
+
+        return {
+          name,
+          label: model.display_name || model.displayName || name,
+          provider: this.name,
+          maxTokenAllowed: model.context_length || model.inputTokenLimit || DEFAULT_MAX_TOKENS,
+          maxCompletionTokens: model.outputTokenLimit,
+        };
+      })
+      .filter((model) => model.name);
+  }
+}
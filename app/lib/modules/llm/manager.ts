@@ -1,7 +1,9 @@
 import type { IProviderSetting } from '~/types/model';
 import { BaseProvider } from './base-provider';
-import type { ModelInfo, ProviderInfo } from './types';
+import type { CustomProviderConfig, ModelInfo, ProviderInfo } from './types';
 import * as providers from './registry';
+import { CustomProvider } from './custom-provider';
+import { parseCustomProviderConfigs } from './custom-provider-config';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('LLMManager');
@@ -62,8 +64,34 @@ export class LLMManager {
     this._modelList = [...this._modelList, ...provider.staticModels];
   }
 
-  getProvider(name: string): BaseProvider | undefined {
-    return this._providers.get(name);
+  /**
+   * Builds the custom providers of one request: the ones defined in the `CUSTOM_PROVIDERS` environment
+   * variable and the given definitions from the user's settings, which win over environment ones with
+   * the same name. They are never registered, so they stay private to the request that passes them on.
+   */
+  getCustomProviders(configs: CustomProviderConfig[] = [], serverEnv?: Record<string, string>): CustomProvider[] {
+    const envConfigs = parseCustomProviderConfigs(
+      serverEnv?.CUSTOM_PROVIDERS ||
+        (typeof process !== 'undefined' ? process.env?.CUSTOM_PROVIDERS : undefined) ||
+        this._env?.CUSTOM_PROVIDERS,
+    );
+    const byName = new Map<string, CustomProvider>();
+
+    envConfigs.forEach((config) => byName.set(config.name, new CustomProvider(config, 'env')));
+    configs.forEach((config) => byName.set(config.name, new CustomProvider(config, 'settings')));
+
+    return [...byName.values()].filter((provider) => {
+      if (this._providers.has(provider.name)) {
+        logger.warn(`Custom provider ${provider.name} has the name of a built-in provider. Skipping.`);
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  getProvider(name: string, customProviders: BaseProvider[] = []): BaseProvider | undefined {
+    return this._providers.get(name) ?? customProviders.find((provider) => provider.name === name);
   }
 
   getAllProviders(): BaseProvider[] {
@@ -78,18 +106,20 @@ export class LLMManager {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
     serverEnv?: Record<string, string>;
+    customProviders?: BaseProvider[];
   }): Promise<ModelInfo[]> {
-    const { apiKeys, providerSettings, serverEnv } = options;
+    const { apiKeys, providerSettings, serverEnv, customProviders = [] } = options;
+    const allProviders = [...this._providers.values(), ...customProviders];
 
-    let enabledProviders = Array.from(this._providers.values()).map((p) => p.name);
+    let enabledProviders = allProviders.map((p) => p.name);
 
     if (providerSettings && Object.keys(providerSettings).length > 0) {
-      enabledProviders = enabledProviders.filter((p) => providerSettings[p].enabled);
+      enabledProviders = enabledProviders.filter((p) => providerSettings[p]?.enabled);
     }
 
     // Get dynamic models from all providers that support them
     const dynamicModels = await Promise.all(
-      Array.from(this._providers.values())
+      allProviders
         .filter((provider) => enabledProviders.includes(provider.name))
         .filter(
           (provider): provider is BaseProvider & Required<Pick<ProviderInfo, 'getDynamicModels'>> =>
@@ -118,7 +148,7 @@ export class LLMManager {
           return dynamicModels;
         }),
     );
-    const staticModels = Array.from(this._providers.values()).flatMap((p) => p.staticModels || []);
+    const staticModels = allProviders.flatMap((p) => p.staticModels || []);
     const dynamicModelsFlat = dynamicModels.flat();
     const dynamicModelKeys = dynamicModelsFlat.map((d) => `${d.name}-${d.provider}`);
     const filteredStaticModesl = staticModels.filter((m) => !dynamicModelKeys.includes(`${m.name}-${m.provider}`));
@@ -126,7 +156,7 @@ export class LLMManager {
     // Combine static and dynamic models
     const modelList = [...dynamicModelsFlat, ...filteredStaticModesl];
     modelList.sort((a, b) => a.name.localeCompare(b.name));
-    this._modelList = modelList;
+    this._modelList = modelList.filter((model) => this._providers.has(model.provider));
 
     return modelList;
   }
@@ -139,9 +169,10 @@ export class LLMManager {
       apiKeys?: Record<string, string>;
       providerSettings?: Record<string, IProviderSetting>;
       serverEnv?: Record<string, string>;
+      customProviders?: BaseProvider[];
     },
   ): Promise<ModelInfo[]> {
-    const provider = this._providers.get(providerArg.name);
+    const provider = this.getProvider(providerArg.name, options.customProviders);
 
     if (!provider) {
       throw new Error(`Provider ${providerArg.name} not found`);
@@ -187,8 +218,8 @@ export class LLMManager {
 
     return modelList;
   }
-  getStaticModelListFromProvider(providerArg: BaseProvider) {
-    const provider = this._providers.get(providerArg.name);
+  getStaticModelListFromProvider(providerArg: BaseProvider, customProviders?: BaseProvider[]) {
+    const provider = this.getProvider(providerArg.name, customProviders);
 
     if (!provider) {
       throw new Error(`Provider ${providerArg.name} not found`);
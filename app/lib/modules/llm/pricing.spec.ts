@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost, getModelPricing } from './pricing';
+
+describe('getModelPricing', () => {
+  it('should prefer the pricing reported for the model', () => {
+    const pricing = { input: 1, output: 2 };
+    expect(getModelPricing({ name: 'gpt-4o', pricing })).toBe(pricing);
+  });
+
+  it('should match known models by name, ignoring the vendor prefix', () => {
+    expect(getModelPricing({ name: 'openai/gpt-4o-mini' })).toMatchObject({ input: 0.15, output: 0.6 });
+    expect(getModelPricing({ name: 'claude-3-5-sonnet-20241022' })).toMatchObject({ input: 3, output: 15 });
+    expect(getModelPricing({ name: 'llama3:8b' })).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  it('should bill cached prompt tokens counted in the prompt tokens at the cached rate', () => {
+    const cost = calculateCost(
+      { input: 3, output: 15, cachedInput: 0.3 },
+      { promptTokens: 1_000_000, completionTokens: 100_000, cachedPromptTokens: 500_000, cachedIncluded: true },
+    );
+
+    expect(cost).toBeCloseTo(1.5 + 0.15 + 1.5);
+  });
+
+  it('should bill cache reads reported next to the prompt tokens on top of them', () => {
+    // Anthropic usage, the prompt tokens leave out the 500k tokens read from the cache
+    const cost = calculateCost(
+      { input: 3, output: 15, cachedInput: 0.3 },
+      { promptTokens: 500_000, completionTokens: 100_000, cachedPromptTokens: 500_000 },
+    );
+
+    expect(cost).toBeCloseTo(1.5 + 0.15 + 1.5);
+  });
+});
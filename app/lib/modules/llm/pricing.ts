@@ -0,0 +1,70 @@
+import type { ModelInfo, ModelPricing } from './types';
+
+/*
+ * List prices for models whose provider does not report pricing, matched against the model name
+ * with any `vendor/` prefix removed. More specific patterns have to come first.
+ */
+const KNOWN_MODEL_PRICING: Array<[RegExp, ModelPricing]> = [
+  // OpenAI
+  [/^gpt-4o-mini/, { input: 0.15, output: 0.6, cachedInput: 0.075 }],
+  [/^(gpt-4o|chatgpt-4o)/, { input: 2.5, output: 10, cachedInput: 1.25 }],
+  [/^gpt-4\.1-nano/, { input: 0.1, output: 0.4, cachedInput: 0.025 }],
+  [/^gpt-4\.1-mini/, { input: 0.4, output: 1.6, cachedInput: 0.1 }],
+  [/^gpt-4\.1/, { input: 2, output: 8, cachedInput: 0.5 }],
+  [/^gpt-4-turbo/, { input: 10, output: 30 }],
+  [/^gpt-4/, { input: 30, output: 60 }],
+  [/^gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+  [/^o1-mini/, { input: 1.1, output: 4.4, cachedInput: 0.55 }],
+  [/^o1/, { input: 15, output: 60, cachedInput: 7.5 }],
+  [/^o3-mini/, { input: 1.1, output: 4.4, cachedInput: 0.55 }],
+  [/^o3/, { input: 2, output: 8, cachedInput: 0.5 }],
+  [/^o4-mini/, { input: 1.1, output: 4.4, cachedInput: 0.275 }],
+
+  // Anthropic
+  [/^claude-3-haiku/, { input: 0.25, output: 1.25, cachedInput: 0.03 }],
+  [/^claude-3[-.]5-haiku/, { input: 0.8, output: 4, cachedInput: 0.08 }],
+  [/^claude-(3[-.]5-sonnet|3[-.]7-sonnet|sonnet-4)/, { input: 3, output: 15, cachedInput: 0.3 }],
+  [/^claude-(3-opus|opus-4)/, { input: 15, output: 75, cachedInput: 1.5 }],
+
+  // Google
+  [/^gemini-1\.5-flash/, { input: 0.075, output: 0.3 }],
+  [/^gemini-1\.5-pro/, { input: 1.25, output: 5 }],
+  [/^gemini-2\.0-flash/, { input: 0.1, output: 0.4 }],
+  [/^gemini-2\.5-flash/, { input: 0.3, output: 2.5 }],
+  [/^gemini-2\.5-pro/, { input: 1.25, output: 10 }],
+
+  // DeepSeek
+  [/^deepseek-chat/, { input: 0.27, output: 1.1, cachedInput: 0.07 }],
+  [/^deepseek-reasoner/, { input: 0.55, output: 2.19, cachedInput: 0.14 }],
+];
+
+export function getModelPricing(model: Pick<ModelInfo, 'name' | 'pricing'>): ModelPricing | undefined {
+  if (model.pricing) {
+    return model.pricing;
+  }
+
+  const name = model.name.toLowerCase().split('/').pop() ?? '';
+
+  return KNOWN_MODEL_PRICING.find(([pattern]) => pattern.test(name))?.[1];
+}
+
+/**
+ * Returns the cost of a call in USD. Cached prompt tokens are billed at the cached rate, on top of
+ * `promptTokens` unless `cachedIncluded` says they are counted in it, as OpenAI does.
+ */
+export function calculateCost(
+  pricing: ModelPricing,
+  usage: { promptTokens: number; completionTokens: number; cachedPromptTokens?: number; cachedIncluded?: boolean },
+) {
+  const cachedTokens = usage.cachedIncluded
+    ? Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens)
+    : (usage.cachedPromptTokens ?? 0);
+  const uncachedTokens = usage.cachedIncluded ? usage.promptTokens - cachedTokens : usage.promptTokens;
+
+  return (
+    (uncachedTokens * pricing.input +
+      cachedTokens * (pricing.cachedInput ?? pricing.input) +
+      usage.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
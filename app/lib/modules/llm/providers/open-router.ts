@@ -76,6 +76,10 @@ export default class OpenRouterProvider extends BaseProvider {
             label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${finalContext >= 1000000 ? Math.floor(finalContext / 1000000) + 'M' : Math.floor(finalContext / 1000) + 'k'}`,
             provider: this.name,
             maxTokenAllowed: finalContext,
+            pricing: {
+              input: Number(m.pricing.prompt) * 1_000_000,
+              output: Number(m.pricing.completion) * 1_000_000,
+            },
           };
         });
     } catch (error) {
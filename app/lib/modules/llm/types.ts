@@ -1,6 +1,15 @@
 import type { LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 
+/** Prices in USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+
+  /** Price of prompt tokens served from the provider's prompt cache, defaults to `input` */
+  cachedInput?: number;
+}
+
 export interface ModelInfo {
   name: string;
   label: string;
@@ -11,6 +20,9 @@ export interface ModelInfo {
 
   /** Maximum completion/output tokens - how many tokens the model can generate. If not specified, falls back to provider defaults */
   maxCompletionTokens?: number;
+
+  /** Token prices used for cost accounting. If not specified, falls back to the table in `pricing.ts` */
+  pricing?: ModelPricing;
 }
 
 export interface ProviderInfo {
@@ -36,3 +48,33 @@ export interface ProviderConfig {
   baseUrl?: string;
   apiTokenKey?: string;
 }
+
+export type CustomProviderFormat = 'openai' | 'anthropic' | 'gemini';
+
+/**
+ * How the API key is sent: `bearer` as `Authorization: Bearer <key>`, `header` as the raw key in
+ * the header called `name`, `query` as the query parameter called `name`, `none` not at all.
+ */
+export interface CustomProviderAuth {
+  scheme: 'bearer' | 'header' | 'query' | 'none';
+  name?: string;
+}
+
+/** A provider defined by configuration instead of a `BaseProvider` subclass */
+export interface CustomProviderConfig {
+  name: string;
+  baseUrl: string;
+
+  /** Wire format of the API, decides which AI SDK client talks to it */
+  format: CustomProviderFormat;
+
+  /** Defaults to the scheme of the wire format */
+  auth?: CustomProviderAuth;
+
+  /** Environment variable holding the API key when none is set in the UI, only read for `CUSTOM_PROVIDERS` */
+  apiKeyEnv?: string;
+  models?: Array<{ name: string; label?: string; maxTokenAllowed?: number; maxCompletionTokens?: number }>;
+
+  /** Path below `baseUrl` that lists the available models, e.g. `/models` */
+  modelsPath?: string;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { buildBranchTree, compareSnapshotFiles, mergeSnapshotFiles, type ChatBranch } from './branches';
+import type { ChatHistoryItem } from './useChatHistory';
+
+const chat = (id: string): ChatHistoryItem => ({
+  id,
+  urlId: id,
+  description: `chat ${id}`,
+  messages: [],
+  timestamp: id,
+});
+
+const branch = (chatId: string, parentId: string, timestamp = chatId): ChatBranch => ({ chatId, parentId, timestamp });
+
+describe('branches', () => {
+  it('should build the tree of a project from any of its chats', () => {
+    const chats = ['1', '2', '3', '4', '5'].map(chat);
+    const branches = [branch('3', '1', 'b'), branch('2', '1', 'a'), branch('4', '2'), branch('6', '5')];
+
+    const tree = buildBranchTree(chats, branches, '4');
+
+    expect(tree?.chat.id).toBe('1');
+    expect(tree?.children.map((child) => child.chat.id)).toEqual(['2', '3']);
+    expect(tree?.children[0].children.map((child) => child.chat.id)).toEqual(['4']);
+
+    // 6 was deleted, so 5 has no branches left
+    expect(buildBranchTree(chats, branches, '5')?.children).toEqual([]);
+  });
+
+  it('should compare and merge snapshot files', () => {
+    const base: FileMap = {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/a.ts': { type: 'file', content: 'a\n', isBinary: false },
+      '/home/project/src/b.ts': { type: 'file', content: 'b\n', isBinary: false },
+    };
+    const other: FileMap = {
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/a.ts': { type: 'file', content: 'a\nb\n', isBinary: false },
+      '/home/project/lib': { type: 'folder' },
+      '/home/project/lib/c.ts': { type: 'file', content: 'c\n', isBinary: false },
+    };
+
+    const changes = compareSnapshotFiles(base, other);
+
+    expect(changes).toEqual([
+      { path: '/home/project/lib/c.ts', status: 'added', additions: 1, deletions: 0 },
+      { path: '/home/project/src/a.ts', status: 'modified', additions: 1, deletions: 0 },
+      { path: '/home/project/src/b.ts', status: 'removed', additions: 0, deletions: 1 },
+    ]);
+
+    const merged = mergeSnapshotFiles(base, other, ['/home/project/lib/c.ts', '/home/project/src/b.ts']);
+
+    expect(Object.keys(merged).sort()).toEqual([
+      '/home/project/lib',
+      '/home/project/lib/c.ts',
+      '/home/project/src',
+      '/home/project/src/a.ts',
+    ]);
+    expect(merged['/home/project/src/a.ts']).toBe(base['/home/project/src/a.ts']);
+  });
+});
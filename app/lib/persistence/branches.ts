@@ -0,0 +1,186 @@
+import { diffLines } from 'diff';
+import type { FileMap } from '~/lib/stores/files';
+import type { ChatHistoryItem } from './useChatHistory';
+
+export const BRANCHES_STORE = 'branches';
+
+/**
+ * Records that a chat was forked or duplicated from another one. Duplicates have no fork point,
+ * they start from the full history of their parent.
+ */
+export interface ChatBranch {
+  chatId: string;
+  parentId: string;
+  forkMessageId?: string;
+  timestamp: string;
+}
+
+export interface BranchNode {
+  chat: ChatHistoryItem;
+  branch?: ChatBranch;
+  children: BranchNode[];
+}
+
+export interface SnapshotFileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  additions: number;
+  deletions: number;
+}
+
+export function createBranchesStore(db: IDBDatabase) {
+  const store = db.createObjectStore(BRANCHES_STORE, { keyPath: 'chatId' });
+  store.createIndex('parentId', 'parentId', { unique: false });
+
+  return store;
+}
+
+export async function setChatBranch(db: IDBDatabase, branch: ChatBranch): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BRANCHES_STORE, 'readwrite');
+    const request = transaction.objectStore(BRANCHES_STORE).put(branch);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getAllChatBranches(db: IDBDatabase): Promise<ChatBranch[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BRANCHES_STORE, 'readonly');
+    const request = transaction.objectStore(BRANCHES_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result as ChatBranch[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Removes the branch record of a deleted chat. Its children are attached to its own parent, or
+ * become roots, so the rest of the tree stays connected.
+ */
+export async function deleteChatBranch(db: IDBDatabase, chatId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BRANCHES_STORE, 'readwrite');
+    const store = transaction.objectStore(BRANCHES_STORE);
+    const request = store.get(chatId);
+
+    request.onsuccess = () => {
+      const branch = request.result as ChatBranch | undefined;
+      const childrenRequest = store.index('parentId').getAll(chatId);
+
+      childrenRequest.onsuccess = () => {
+        for (const child of childrenRequest.result as ChatBranch[]) {
+          if (branch) {
+            store.put({ ...child, parentId: branch.parentId });
+          } else {
+            store.delete(child.chatId);
+          }
+        }
+
+        store.delete(chatId);
+      };
+    };
+
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Builds the tree of the project `chatId` belongs to, starting from the chat all its branches
+ * were forked from.
+ */
+export function buildBranchTree(chats: ChatHistoryItem[], branches: ChatBranch[], chatId: string) {
+  const chatsById = new Map(chats.map((chat) => [chat.id, chat]));
+  const branchesById = new Map(
+    branches
+      .filter((branch) => chatsById.has(branch.chatId) && chatsById.has(branch.parentId))
+      .map((branch) => [branch.chatId, branch]),
+  );
+
+  let rootId = chatId;
+  const visited = new Set<string>();
+
+  while (branchesById.has(rootId) && !visited.has(rootId)) {
+    visited.add(rootId);
+    rootId = branchesById.get(rootId)!.parentId;
+  }
+
+  const buildNode = (chat: ChatHistoryItem, ancestors: Set<string>): BranchNode => ({
+    chat,
+    branch: branchesById.get(chat.id),
+    children: [...branchesById.values()]
+      .filter((branch) => branch.parentId === chat.id && !ancestors.has(branch.chatId))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((branch) => buildNode(chatsById.get(branch.chatId)!, new Set([...ancestors, branch.chatId]))),
+  });
+
+  const root = chatsById.get(rootId);
+
+  return root ? buildNode(root, new Set([rootId])) : undefined;
+}
+
+/**
+ * Lists the files of `target` that differ from `base`, with the number of added and removed
+ * lines. Binary files are compared as a whole.
+ */
+export function compareSnapshotFiles(base: FileMap, target: FileMap): SnapshotFileChange[] {
+  const paths = new Set([...Object.keys(base), ...Object.keys(target)]);
+  const changes: SnapshotFileChange[] = [];
+
+  for (const path of [...paths].sort()) {
+    const baseFile = base[path]?.type === 'file' ? base[path] : undefined;
+    const targetFile = target[path]?.type === 'file' ? target[path] : undefined;
+
+    if ((!baseFile && !targetFile) || baseFile?.content === targetFile?.content) {
+      continue;
+    }
+
+    let additions = 0;
+    let deletions = 0;
+
+    if (!baseFile?.isBinary && !targetFile?.isBinary) {
+      for (const change of diffLines(baseFile?.content ?? '', targetFile?.content ?? '')) {
+        if (change.added) {
+          additions += change.count ?? 0;
+        } else if (change.removed) {
+          deletions += change.count ?? 0;
+        }
+      }
+    }
+
+    const status = !baseFile ? 'added' : !targetFile ? 'removed' : 'modified';
+    changes.push({ path, status, additions, deletions });
+  }
+
+  return changes;
+}
+
+/**
+ * Takes the state of `paths` from `source` into `target`: changed and added files are copied
+ * with their folders, files missing from `source` are removed.
+ */
+export function mergeSnapshotFiles(target: FileMap, source: FileMap, paths: string[]): FileMap {
+  const merged: FileMap = { ...target };
+
+  for (const path of paths) {
+    const dirent = source[path];
+
+    if (!dirent) {
+      delete merged[path];
+      continue;
+    }
+
+    merged[path] = dirent;
+
+    for (let folder = path.slice(0, path.lastIndexOf('/')); folder; folder = folder.slice(0, folder.lastIndexOf('/'))) {
+      if (source[folder]?.type === 'folder') {
+        merged[folder] ??= source[folder];
+      }
+    }
+  }
+
+  return merged;
+}
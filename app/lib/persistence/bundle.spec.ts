@@ -0,0 +1,53 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { BUNDLE_VERSION, mergeMessages, migrateBundle, readBundle, writeBundle, type ProjectBundle } from './bundle';
+
+const messages: Message[] = [
+  { id: 'm1', role: 'user', content: 'Build a todo app' },
+  { id: 'm2', role: 'assistant', content: 'Done' },
+];
+
+describe('project bundles', () => {
+  it('migrates the JSON of older exports', () => {
+    const single = migrateBundle({ messages, description: 'Todo', exportDate: '2025-01-01T00:00:00.000Z' });
+    const all = migrateBundle({ chats: [{ id: '4', messages, timestamp: '2025-01-02T00:00:00.000Z' }] });
+
+    expect(single.version).toBe(BUNDLE_VERSION);
+    expect(single.chats[0]).toMatchObject({ description: 'Todo', timestamp: '2025-01-01T00:00:00.000Z', messages });
+    expect(all.chats[0]).toMatchObject({ id: '4', messageSnapshots: {}, lockedFiles: [] });
+
+    expect(() => migrateBundle({ messages: 'nope' })).toThrow('Invalid bundle: chats.0.messages');
+    expect(() => migrateBundle({ format: 'bolt-bundle', version: BUNDLE_VERSION + 1 })).toThrow('newer version');
+  });
+
+  it('reads back what it writes', async () => {
+    const bundle: ProjectBundle = {
+      format: 'bolt-bundle',
+      version: BUNDLE_VERSION,
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      chats: [
+        {
+          id: '1',
+          description: 'Todo',
+          timestamp: '2025-01-01T00:00:00.000Z',
+          messages,
+          snapshot: {
+            chatIndex: 'm2',
+            files: { '/home/project/a.ts': { type: 'file', content: 'a', isBinary: false } },
+          },
+          messageSnapshots: { m2: { chatIndex: 'm2', files: {} } },
+          lockedFiles: [{ path: '/home/project/a.ts', isFolder: false }],
+          model: { name: 'model', provider: 'provider' },
+        },
+      ],
+    };
+
+    expect(await readBundle(await writeBundle(bundle))).toEqual(bundle);
+  });
+
+  it('merges the messages a chat does not have yet', () => {
+    const incoming: Message[] = [...messages, { id: 'm3', role: 'user', content: 'Add dark mode' }];
+
+    expect(mergeMessages(messages.slice(0, 1), incoming).map((message) => message.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+});
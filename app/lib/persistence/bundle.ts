@@ -0,0 +1,487 @@
+import type { Message } from 'ai';
+import JSZip from 'jszip';
+import { z } from 'zod';
+import type { DesignScheme } from '~/types/design-scheme';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import {
+  createChatFromMessages,
+  getAll,
+  getMessages,
+  getMessageSnapshot,
+  getMessageSnapshotIds,
+  getMessagesByUrlId,
+  getSnapshot,
+  setMessages,
+  setMessageSnapshot,
+  setSnapshot,
+  type IChatMetadata,
+} from './db';
+import { openStoredChat, type StoredChat } from './chats';
+import { batchLockItems, getLockedItemsForChat } from './lockedFiles';
+import { isNewer } from './storage';
+import type { Snapshot } from './types';
+import type { ChatHistoryItem } from './useChatHistory';
+import { openText, sealText } from './vault';
+
+export const BUNDLE_FORMAT = 'bolt-bundle';
+export const BUNDLE_VERSION = 2;
+export const BUNDLE_EXTENSION = '.bolt';
+export const BUNDLE_SCHEMA_URL = '/schemas/bolt-bundle.schema.json';
+
+const MANIFEST_FILE = 'manifest.json';
+
+const direntSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('file'),
+    content: z.string(),
+    isBinary: z.boolean(),
+    isLocked: z.boolean().optional(),
+    lockedByFolder: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('folder'),
+    isLocked: z.boolean().optional(),
+    lockedByFolder: z.string().optional(),
+  }),
+]);
+
+const compactionSchema = z.object({
+  summary: z.object({
+    decisions: z.array(z.string()),
+    files: z.array(z.object({ path: z.string(), description: z.string() })),
+    todos: z.array(z.string()),
+  }),
+  lastMessageId: z.string(),
+  messageCount: z.number(),
+  updatedAt: z.string(),
+  editedAt: z.string().optional(),
+});
+
+const snapshotSchema = z.object({
+  chatIndex: z.string(),
+  files: z.record(direntSchema.optional()),
+  summary: z.string().optional(),
+  compaction: compactionSchema.optional(),
+});
+
+const messageSchema = z
+  .object({
+    id: z.string(),
+    role: z.enum(['system', 'user', 'assistant', 'data']),
+    content: z.string(),
+  })
+  .passthrough();
+
+const bundleChatSchema = z.object({
+  id: z.string(),
+  urlId: z.string().optional(),
+  description: z.string().optional(),
+  timestamp: z.string(),
+  updatedAt: z.string().optional(),
+  metadata: z.object({ gitUrl: z.string().optional(), gitBranch: z.string().optional() }).passthrough().optional(),
+  messages: z.array(messageSchema),
+  snapshot: snapshotSchema.optional(),
+  messageSnapshots: z.record(snapshotSchema),
+  lockedFiles: z.array(z.object({ path: z.string(), isFolder: z.boolean() })),
+  promptId: z.string().optional(),
+  model: z.object({ name: z.string(), provider: z.string() }).optional(),
+  designScheme: z
+    .object({ palette: z.record(z.string()), features: z.array(z.string()), font: z.array(z.string()) })
+    .optional(),
+});
+
+const bundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  chats: z.array(bundleChatSchema).min(1),
+});
+
+/**
+ * A chat with everything needed to continue it elsewhere: its files at the latest and at every
+ * message that wrote them, which of them are locked, and how it was being generated.
+ */
+export interface BundleChat {
+  id: string;
+  urlId?: string;
+  description?: string;
+  timestamp: string;
+  updatedAt?: string;
+  metadata?: IChatMetadata;
+  messages: Message[];
+  snapshot?: Snapshot;
+
+  // keyed by the id of the message the files were recorded after
+  messageSnapshots: Record<string, Snapshot>;
+  lockedFiles: { path: string; isFolder: boolean }[];
+  promptId?: string;
+  model?: { name: string; provider: string };
+  designScheme?: DesignScheme;
+}
+
+export interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  chats: BundleChat[];
+}
+
+// a chat of version 1, exported before bundles existed
+interface LegacyChat {
+  id?: string;
+  urlId?: string | null;
+  description?: string;
+  timestamp?: string;
+  metadata?: IChatMetadata | null;
+  messages: Message[];
+}
+
+// version 1: a single chat from the chat export, or `{ chats }` from the data settings
+type LegacyBundle = (LegacyChat & { exportDate?: string }) | { chats: LegacyChat[]; exportDate?: string };
+
+// manifest.json, each chat names the directory holding its messages and snapshots
+interface BundleManifest {
+  $schema?: string;
+  chats?: (Omit<BundleChat, 'messages' | 'snapshot' | 'messageSnapshots'> & { directory: string })[];
+}
+
+export type DuplicateAction = 'merge' | 'rename';
+
+export interface BundleImportResult {
+  // url ids of the chats that were created or merged into
+  urlIds: string[];
+  created: number;
+  merged: number;
+}
+
+/**
+ * Upgrades a bundle one version at a time, `migrations[n]` turning version n into n + 1.
+ * Version 1 is the plain JSON written before bundles existed, by the chat export (one chat) and
+ * by the data settings (`{ chats: [...] }`).
+ */
+const migrations: Record<number, (bundle: LegacyBundle) => ProjectBundle> = {
+  1: (legacy) => {
+    const exportedAt = legacy.exportDate ?? new Date().toISOString();
+    const chats = 'chats' in legacy ? legacy.chats : [legacy];
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: 2,
+      exportedAt,
+      chats: chats.map((chat, index) => ({
+        id: chat.id ?? String(index + 1),
+        urlId: chat.urlId ?? undefined,
+        description: chat.description || undefined,
+        timestamp: chat.timestamp ?? exportedAt,
+        metadata: chat.metadata ?? undefined,
+        messages: chat.messages,
+        messageSnapshots: {},
+        lockedFiles: [],
+      })),
+    };
+  },
+};
+
+// the version of a parsed bundle, anything without the format marker is the plain JSON of version 1
+function getBundleVersion(data: unknown) {
+  const { format, version } = (data ?? {}) as { format?: unknown; version?: unknown };
+
+  return format === BUNDLE_FORMAT ? Number(version) : 1;
+}
+
+// the data settings exported chats as they were stored, sealed while the vault was enabled
+async function openLegacyChats(data: unknown) {
+  const legacy = data as { chats?: StoredChat[] };
+
+  if (getBundleVersion(data) !== 1 || !Array.isArray(legacy.chats)) {
+    return data;
+  }
+
+  const chats = await Promise.all(
+    legacy.chats.map(async (chat) => {
+      try {
+        return await openStoredChat(chat);
+      } catch {
+        throw new Error(`Chat ${chat.id} is encrypted, unlock the vault that exported it to import it`);
+      }
+    }),
+  );
+
+  return { ...legacy, chats };
+}
+
+/**
+ * Brings a parsed bundle of any known version to the current one and checks it against the
+ * schema. Throws naming the first invalid field.
+ */
+export function migrateBundle(data: unknown): ProjectBundle {
+  let bundle = data;
+  let version = getBundleVersion(bundle);
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Unknown bundle version');
+  }
+
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`The bundle was created by a newer version of Bolt (format version ${version})`);
+  }
+
+  while (version < BUNDLE_VERSION) {
+    bundle = migrations[version](bundle as LegacyBundle);
+    version++;
+  }
+
+  const result = bundleSchema.safeParse(bundle);
+
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new Error(`Invalid bundle: ${issue.path.join('.') || 'root'} ${issue.message.toLowerCase()}`);
+  }
+
+  return result.data as ProjectBundle;
+}
+
+function chatDirectory(index: number) {
+  return `chats/${index + 1}`;
+}
+
+/**
+ * Writes a bundle as a zip: `manifest.json` describes the chats, each chat directory holds its
+ * messages and snapshots as separate files so large projects stay readable. With `seal` those
+ * files are encrypted while the vault is enabled, only the vault can import them then.
+ */
+export async function writeBundle(bundle: ProjectBundle, { seal = false }: { seal?: boolean } = {}) {
+  const zip = new JSZip();
+  const writeJson = async (path: string, value: unknown) => {
+    const text = JSON.stringify(value);
+    zip.file(path, seal ? await sealText(text) : text);
+  };
+
+  const chats = await Promise.all(
+    bundle.chats.map(async ({ messages, snapshot, messageSnapshots, ...chat }, index) => {
+      const directory = chatDirectory(index);
+
+      await writeJson(`${directory}/messages.json`, messages);
+      await writeJson(`${directory}/message-snapshots.json`, messageSnapshots);
+
+      if (snapshot) {
+        await writeJson(`${directory}/snapshot.json`, snapshot);
+      }
+
+      return { ...chat, directory };
+    }),
+  );
+
+  zip.file(
+    MANIFEST_FILE,
+    JSON.stringify(
+      {
+        $schema: BUNDLE_SCHEMA_URL,
+        format: bundle.format,
+        version: bundle.version,
+        exportedAt: bundle.exportedAt,
+        chats,
+      },
+      null,
+      2,
+    ),
+  );
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+async function readJsonEntry(zip: JSZip, path: string): Promise<unknown> {
+  const entry = zip.file(path);
+
+  return entry ? JSON.parse(await openText(await entry.async('string'))) : undefined;
+}
+
+/**
+ * Reads a `.bolt` zip, or the plain JSON of older exports, into a bundle of the current version.
+ */
+export async function readBundle(data: Uint8Array): Promise<ProjectBundle> {
+  // zip files start with "PK"
+  if (data[0] !== 0x50 || data[1] !== 0x4b) {
+    return migrateBundle(await openLegacyChats(JSON.parse(new TextDecoder().decode(data))));
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const manifest = (await readJsonEntry(zip, MANIFEST_FILE)) as BundleManifest | undefined;
+
+  if (!manifest) {
+    throw new Error(`Invalid bundle: ${MANIFEST_FILE} is missing`);
+  }
+
+  const { $schema: _schema, chats, ...bundle } = manifest;
+
+  return migrateBundle({
+    ...bundle,
+    chats: Array.isArray(chats)
+      ? await Promise.all(
+          chats.map(async ({ directory, ...chat }) => ({
+            ...chat,
+            messages: await readJsonEntry(zip, `${directory}/messages.json`),
+            snapshot: await readJsonEntry(zip, `${directory}/snapshot.json`),
+            messageSnapshots: (await readJsonEntry(zip, `${directory}/message-snapshots.json`)) ?? {},
+          })),
+        )
+      : chats,
+  });
+}
+
+// the model and provider the last user message was sent to
+function getChatModel(messages: Message[]) {
+  const content = messages.findLast((message) => message.role === 'user')?.content;
+  const name = typeof content === 'string' ? content.match(MODEL_REGEX)?.[1] : undefined;
+  const provider = typeof content === 'string' ? content.match(PROVIDER_REGEX)?.[1] : undefined;
+
+  return name && provider ? { name, provider } : undefined;
+}
+
+/**
+ * Collects the chats with the given ids or url ids into a bundle. `designScheme` and `promptId`
+ * describe the current session and are stored with the chats that do not have their own.
+ */
+export async function createBundle(
+  db: IDBDatabase,
+  ids: string[],
+  options: { designScheme?: DesignScheme; promptId?: string } = {},
+): Promise<ProjectBundle> {
+  const chats: BundleChat[] = [];
+
+  for (const id of ids) {
+    const chat = await getMessages(db, id);
+
+    if (!chat) {
+      throw new Error(`Chat ${id} not found`);
+    }
+
+    const messageSnapshots: BundleChat['messageSnapshots'] = {};
+
+    for (const messageId of await getMessageSnapshotIds(db, chat.id)) {
+      const snapshot = await getMessageSnapshot(db, chat.id, messageId);
+
+      if (snapshot) {
+        messageSnapshots[messageId] = snapshot;
+      }
+    }
+
+    // locks are kept under the id in the url, which may be either
+    const lockedFiles = [chat.id, chat.urlId]
+      .filter((key): key is string => !!key)
+      .flatMap((key) => getLockedItemsForChat(key))
+      .map(({ path, isFolder }) => ({ path, isFolder }));
+
+    const { designScheme, promptId, model, ...metadata } = chat.metadata ?? {};
+
+    chats.push({
+      id: chat.id,
+      urlId: chat.urlId,
+      description: chat.description,
+      timestamp: chat.timestamp,
+      updatedAt: chat.updatedAt,
+      metadata: chat.metadata && metadata,
+      messages: chat.messages,
+      snapshot: await getSnapshot(db, chat.id),
+      messageSnapshots,
+      lockedFiles: [...new Map(lockedFiles.map((item) => [item.path, item])).values()],
+      promptId: promptId ?? options.promptId,
+      model: getChatModel(chat.messages) ?? model,
+      designScheme: designScheme ?? options.designScheme,
+    });
+  }
+
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), chats };
+}
+
+// an existing chat is the same one when it starts with the same message, message ids are random
+function findDuplicate(chats: ChatHistoryItem[], chat: BundleChat) {
+  const firstId = chat.messages[0]?.id;
+
+  return firstId ? chats.find((existing) => existing.messages[0]?.id === firstId) : undefined;
+}
+
+/**
+ * Adds the messages the existing chat does not have yet, after its own ones.
+ */
+export function mergeMessages(existing: Message[], incoming: Message[]) {
+  const ids = new Set(existing.map((message) => message.id));
+
+  return [...existing, ...incoming.filter((message) => !ids.has(message.id))];
+}
+
+// the metadata a chat is stored with, which also keeps how it was being generated
+function getChatMetadata({ metadata, designScheme, promptId, model }: BundleChat): IChatMetadata | undefined {
+  if (!metadata && !designScheme && !promptId && !model) {
+    return undefined;
+  }
+
+  return { ...metadata, designScheme, promptId, model };
+}
+
+async function importSnapshots(db: IDBDatabase, chatId: string, chat: BundleChat, replaceSnapshot: boolean) {
+  if (chat.snapshot && replaceSnapshot) {
+    await setSnapshot(db, chatId, chat.snapshot);
+  }
+
+  const existing = new Set(await getMessageSnapshotIds(db, chatId));
+
+  for (const [messageId, snapshot] of Object.entries(chat.messageSnapshots)) {
+    if (!existing.has(messageId)) {
+      await setMessageSnapshot(db, chatId, messageId, snapshot.files);
+    }
+  }
+}
+
+/**
+ * Stores the chats of a bundle. A chat that already exists is merged into it or imported as a
+ * renamed copy, as `resolveDuplicate` decides.
+ */
+export async function importBundle(
+  db: IDBDatabase,
+  bundle: ProjectBundle,
+  resolveDuplicate: (chat: BundleChat, existing: ChatHistoryItem) => Promise<DuplicateAction>,
+): Promise<BundleImportResult> {
+  const result: BundleImportResult = { urlIds: [], created: 0, merged: 0 };
+  const chats = await getAll(db);
+
+  for (const chat of bundle.chats) {
+    const existing = findDuplicate(chats, chat);
+    const action = existing ? await resolveDuplicate(chat, existing) : undefined;
+
+    if (existing && action === 'merge') {
+      await setMessages(
+        db,
+        existing.id,
+        mergeMessages(existing.messages, chat.messages),
+        existing.urlId,
+        existing.description,
+        existing.timestamp,
+        { ...getChatMetadata(chat), ...existing.metadata },
+      );
+
+      // the files of whichever side was changed last
+      await importSnapshots(db, existing.id, chat, isNewer(chat, existing) || !(await getSnapshot(db, existing.id)));
+      batchLockItems(existing.urlId ?? existing.id, chat.lockedFiles);
+      result.urlIds.push(existing.urlId ?? existing.id);
+      result.merged++;
+      continue;
+    }
+
+    const description = chat.description || 'Imported Chat';
+    const urlId = await createChatFromMessages(
+      db,
+      existing ? `${description} (imported)` : description,
+      chat.messages,
+      getChatMetadata(chat),
+    );
+    const created = await getMessagesByUrlId(db, urlId);
+
+    await importSnapshots(db, created.id, chat, true);
+    batchLockItems(urlId, chat.lockedFiles);
+    result.urlIds.push(urlId);
+    result.created++;
+  }
+
+  return result;
+}
@@ -3,7 +3,8 @@
  */
 
 import type { Message } from 'ai';
-import type { IChatMetadata } from './db'; // Import IChatMetadata
+import { deleteById, type IChatMetadata } from './db'; // Import IChatMetadata
+import { openJson, sealJson } from './vault';
 
 export interface ChatMessage {
   id: string;
@@ -21,12 +22,32 @@ export interface Chat {
   metadata?: IChatMetadata;
 }
 
+// a chat as kept in the database, its messages are sealed while the vault is enabled
+export type StoredChat = Omit<Chat, 'messages'> & { messages: Message[] | string };
+
+export async function openStoredChat(chat: StoredChat): Promise<Chat> {
+  return { ...chat, messages: await openJson(chat.messages) };
+}
+
+export async function sealChat(chat: Chat): Promise<StoredChat> {
+  return { ...chat, messages: await sealJson(chat.messages) };
+}
+
 /**
- * Get all chats from the database
+ * Get all chats from the database, decrypting their messages
  * @param db The IndexedDB database instance
  * @returns A promise that resolves to an array of chats
  */
 export async function getAllChats(db: IDBDatabase): Promise<Chat[]> {
+  return Promise.all((await getAllStoredChats(db)).map(openStoredChat));
+}
+
+/**
+ * Get all chats as they are stored, with the messages still sealed while the vault is enabled
+ * @param db The IndexedDB database instance
+ * @returns A promise that resolves to an array of stored chats
+ */
+export async function getAllStoredChats(db: IDBDatabase): Promise<StoredChat[]> {
   console.log(`getAllChats: Using database '${db.name}', version ${db.version}`);
 
   return new Promise((resolve, reject) => {
@@ -65,7 +86,7 @@ export async function getChatById(db: IDBDatabase, id: string): Promise<Chat | n
     const request = store.get(id);
 
     request.onsuccess = () => {
-      resolve(request.result || null);
+      resolve(request.result ? openStoredChat(request.result) : null);
     };
 
     request.onerror = () => {
@@ -81,32 +102,12 @@ export async function getChatById(db: IDBDatabase, id: string): Promise<Chat | n
  * @returns A promise that resolves when the chat is saved
  */
 export async function saveChat(db: IDBDatabase, chat: Chat): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats'], 'readwrite');
-    const store = transaction.objectStore('chats');
-    const request = store.put(chat);
-
-    request.onsuccess = () => {
-      resolve();
-    };
-
-    request.onerror = () => {
-      reject(request.error);
-    };
-  });
-}
+  const record = await sealChat(chat);
 
-/**
- * Delete a chat by ID
- * @param db The IndexedDB database instance
- * @param id The ID of the chat to delete
- * @returns A promise that resolves when the chat is deleted
- */
-export async function deleteChat(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(['chats'], 'readwrite');
     const store = transaction.objectStore('chats');
-    const request = store.delete(id);
+    const request = store.put(record);
 
     request.onsuccess = () => {
       resolve();
@@ -119,22 +120,12 @@ export async function deleteChat(db: IDBDatabase, id: string): Promise<void> {
 }
 
 /**
- * Delete all chats
+ * Move all chats to the trash
  * @param db The IndexedDB database instance
- * @returns A promise that resolves when all chats are deleted
+ * @returns A promise that resolves when all chats are in the trash
  */
 export async function deleteAllChats(db: IDBDatabase): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats'], 'readwrite');
-    const store = transaction.objectStore('chats');
-    const request = store.clear();
-
-    request.onsuccess = () => {
-      resolve();
-    };
-
-    request.onerror = () => {
-      reject(request.error);
-    };
-  });
+  for (const chat of await getAllStoredChats(db)) {
+    await deleteById(db, chat.id);
+  }
 }
@@ -1,16 +1,95 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
-import type { Snapshot } from './types'; // Import Snapshot type
+import type { Snapshot, TurnCostRecord } from './types'; // Import Snapshot type
+import type { SpendingTotals } from '~/types/cost';
+import type { DesignScheme } from '~/types/design-scheme';
+import type { FileMap } from '~/lib/stores/files';
+import { createBranchesStore, deleteChatBranch, mergeSnapshotFiles, setChatBranch } from './branches';
+import { createMessageSnapshotsStore, MESSAGE_SNAPSHOTS_STORE, type MessageSnapshotRecord } from './messageSnapshots';
+import {
+  BLOBS_STORE,
+  createBlobsStore,
+  getLegacySnapshotSize,
+  getRecordHashes,
+  isStoredSnapshot,
+  prepareSnapshot,
+  resolveSnapshot,
+  updateBlobReferences,
+  type SnapshotBlob,
+  type SnapshotRecord,
+  type SnapshotStorageReport,
+} from './snapshotBlobs';
+import {
+  isChatDeletion,
+  isNewer,
+  resolveConflict,
+  ServerStorage,
+  storageBackend,
+  type StorageAdapter,
+  type TimestampedSnapshot,
+} from './storage';
+import {
+  clearSearchIndex,
+  createFileDocuments,
+  createMessageDocuments,
+  createSearchIndexStore,
+  deleteSearchDocuments,
+  updateSearchDocuments,
+} from './searchIndex';
+import { isSealed, isVaultSealing, openJson, openText, sealJson, sealText, vaultDigest, vaultStatus } from './vault';
+import {
+  ARCHIVE_STORE,
+  compressMessages,
+  createArchiveStore,
+  createTrashStore,
+  decompressMessages,
+  isOlderThan,
+  TRASH_STORE,
+  type ArchivedChat,
+  type RetentionSettings,
+  type TrashedChat,
+} from './trash';
+
+// a GitHub pull request or GitLab merge request opened from the chat, later deploys push to it
+export interface ChatPullRequest {
+  provider: 'github' | 'gitlab';
+
+  // `owner/name`, or the project path on GitLab
+  repo: string;
+  number: number;
+  url: string;
+  branch: string;
+  baseBranch: string;
+}
 
 export interface IChatMetadata {
-  gitUrl: string;
+  // the repository the chat was imported from
+  gitUrl?: string;
   gitBranch?: string;
+
+  // the upstream commit the files of an imported repository were last synced with
+  gitCommit?: string;
   netlifySiteId?: string;
+  pullRequest?: ChatPullRequest;
+  designScheme?: DesignScheme;
+
+  // how a chat imported from a bundle was being generated, kept for its next export
+  promptId?: string;
+  model?: { name: string; provider: string };
+
+  // the commit each assistant message was auto-committed as, by message id
+  turnCommits?: Record<string, string>;
 }
 
 const logger = createScopedLogger('ChatHistory');
 
+// trashed and archived chats keep their ids and snapshots, they can still be restored
+const CHAT_STORES = ['chats', TRASH_STORE, ARCHIVE_STORE];
+
+// a chat as stored, its messages are sealed while the vault is enabled
+type StoredChat = Omit<ChatHistoryItem, 'messages'> & { messages: Message[] | string };
+
 // this is used at the top level and never rejects
 export async function openDatabase(): Promise<IDBDatabase | undefined> {
   if (typeof indexedDB === 'undefined') {
@@ -19,7 +98,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 2);
+    const request = indexedDB.open('boltHistory', 8);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -38,6 +117,71 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
           db.createObjectStore('snapshots', { keyPath: 'chatId' });
         }
       }
+
+      if (oldVersion < 3) {
+        if (!db.objectStoreNames.contains('costs')) {
+          const store = db.createObjectStore('costs', { keyPath: 'messageId' });
+          store.createIndex('chatId', 'chatId', { unique: false });
+          store.createIndex('day', 'day', { unique: false });
+        }
+      }
+
+      if (oldVersion < 4) {
+        if (!db.objectStoreNames.contains('searchIndex')) {
+          const searchStore = createSearchIndexStore(db);
+          const transaction = (event.target as IDBOpenDBRequest).transaction!;
+
+          // index the chats saved before the search index existed
+          transaction.objectStore('chats').openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue>).result;
+
+            if (cursor) {
+              const chat = cursor.value as ChatHistoryItem;
+              createMessageDocuments(chat.id, chat.messages ?? []).forEach((document) => searchStore.put(document));
+              cursor.continue();
+            }
+          };
+
+          transaction.objectStore('snapshots').openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue>).result;
+
+            if (cursor) {
+              const { chatId, snapshot } = cursor.value as { chatId: string; snapshot: Snapshot };
+              createFileDocuments(chatId, snapshot?.files ?? {}).forEach((document) => searchStore.put(document));
+              cursor.continue();
+            }
+          };
+        }
+      }
+
+      if (oldVersion < 5) {
+        if (!db.objectStoreNames.contains('branches')) {
+          createBranchesStore(db);
+        }
+      }
+
+      // existing snapshots keep their files until they are saved again
+      if (oldVersion < 6) {
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          createBlobsStore(db);
+        }
+      }
+
+      if (oldVersion < 7) {
+        if (!db.objectStoreNames.contains(MESSAGE_SNAPSHOTS_STORE)) {
+          createMessageSnapshotsStore(db);
+        }
+      }
+
+      if (oldVersion < 8) {
+        if (!db.objectStoreNames.contains(TRASH_STORE)) {
+          createTrashStore(db);
+        }
+
+        if (!db.objectStoreNames.contains(ARCHIVE_STORE)) {
+          createArchiveStore(db);
+        }
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -51,17 +195,126 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   });
 }
 
+/**
+ * The backend chats are synced with besides IndexedDB, undefined while they only live in this
+ * browser. The server would receive them in the clear, so it is not used while the vault is enabled.
+ */
+function getRemoteStorage(): StorageAdapter | undefined {
+  return storageBackend.get() === 'server' && vaultStatus.get() === 'disabled'
+    ? ServerStorage.getInstance()
+    : undefined;
+}
+
+/**
+ * The chats and snapshots kept in this browser. It is always used, the remote backend keeps a
+ * copy that is synced with it by timestamp.
+ */
+export function createIndexedDBStorage(db: IDBDatabase): StorageAdapter {
+  return {
+    backend: 'indexeddb',
+    list: async () => ({ chats: await getLocalChats(db), deletions: [] }),
+    getChat: (id) => getMessagesById(db, id),
+    putChat: async (chat) => {
+      const kept = resolveConflict(chat, await getMessagesById(db, chat.id));
+
+      if (kept === chat) {
+        await saveLocalChat(db, chat);
+      }
+
+      return kept;
+    },
+    deleteChat: ({ id }) => deleteLocalChat(db, id),
+    getSnapshot: (chatId) => readSnapshot(db, 'snapshots', chatId),
+    putSnapshot: async (chatId, record) => {
+      const kept = resolveConflict(record, await readSnapshot(db, 'snapshots', chatId));
+
+      if (kept === record) {
+        await saveLocalSnapshot(db, chatId, record);
+      }
+
+      return kept;
+    },
+  };
+}
+
+/**
+ * Brings this browser and the remote backend in line, the newer version of each chat wins.
+ * Chats only one side has are copied to the other, unless the remote deleted them later.
+ */
+async function syncChats(db: IDBDatabase, remote: StorageAdapter) {
+  const local = createIndexedDBStorage(db);
+  const [remoteListing, localChats] = await Promise.all([remote.list(), getLocalChats(db)]);
+  const localById = new Map(localChats.map((chat) => [chat.id, chat]));
+  const deletions = new Map(remoteListing.deletions.map((deletion) => [deletion.id, deletion]));
+
+  for (const chat of remoteListing.chats) {
+    const localChat = localById.get(chat.id);
+    localById.delete(chat.id);
+
+    if (!localChat || isNewer(chat, localChat)) {
+      await local.putChat(chat);
+    } else if (isNewer(localChat, chat)) {
+      await remote.putChat(localChat);
+    }
+  }
+
+  for (const chat of localById.values()) {
+    const deletion = deletions.get(chat.id);
+
+    if (deletion && !isNewer(chat, deletion)) {
+      await deleteLocalChat(db, chat.id);
+    } else {
+      await remote.putChat(chat);
+    }
+  }
+}
+
+// copies the newer of the local and remote snapshot of a chat to the other side
+async function syncSnapshot(db: IDBDatabase, remote: StorageAdapter, chatId: string) {
+  const [localRecord, remoteRecord] = await Promise.all([
+    readSnapshot(db, 'snapshots', chatId),
+    remote.getSnapshot(chatId),
+  ]);
+
+  if (remoteRecord && isNewer(remoteRecord, localRecord)) {
+    await saveLocalSnapshot(db, chatId, remoteRecord);
+  } else if (localRecord && (!remoteRecord || isNewer(localRecord, remoteRecord))) {
+    await remote.putSnapshot(chatId, localRecord);
+  }
+}
+
 export async function getAll(db: IDBDatabase): Promise<ChatHistoryItem[]> {
+  const remote = getRemoteStorage();
+
+  if (remote) {
+    try {
+      await syncChats(db, remote);
+    } catch (error) {
+      logger.error('Failed to sync chats with the server', error);
+    }
+  }
+
+  return getLocalChats(db);
+}
+
+async function getLocalChats(db: IDBDatabase): Promise<ChatHistoryItem[]> {
+  return Promise.all((await getAllRecords<StoredChat>(db, 'chats')).map(openChat));
+}
+
+async function getAllRecords<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readonly');
-    const store = transaction.objectStore('chats');
-    const request = store.getAll();
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).getAll();
 
-    request.onsuccess = () => resolve(request.result as ChatHistoryItem[]);
+    request.onsuccess = () => resolve(request.result as T[]);
     request.onerror = () => reject(request.error);
   });
 }
 
+async function openChat(record: StoredChat): Promise<ChatHistoryItem> {
+  return { ...record, messages: await openJson(record.messages) };
+}
+
 export async function setMessages(
   db: IDBDatabase,
   id: string,
@@ -71,23 +324,60 @@ export async function setMessages(
   timestamp?: string,
   metadata?: IChatMetadata,
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
-    const store = transaction.objectStore('chats');
+  if (timestamp && isNaN(Date.parse(timestamp))) {
+    throw new Error('Invalid timestamp');
+  }
+
+  const updatedAt = new Date().toISOString();
+  const chat: ChatHistoryItem = {
+    id,
+    messages,
+    urlId,
+    description,
+    timestamp: timestamp ?? updatedAt,
+    updatedAt,
+    metadata,
+  };
+
+  await saveLocalChat(db, chat);
 
-    if (timestamp && isNaN(Date.parse(timestamp))) {
-      reject(new Error('Invalid timestamp'));
-      return;
+  const remote = getRemoteStorage();
+
+  if (remote) {
+    try {
+      const kept = await remote.putChat(chat);
+
+      // another device saved the chat later, keep its version
+      if (!isChatDeletion(kept) && isNewer(kept, chat)) {
+        await saveLocalChat(db, kept);
+      }
+    } catch (error) {
+      logger.error('Failed to save the chat to the server', error);
     }
+  }
+}
 
-    const request = store.put({
-      id,
-      messages,
-      urlId,
-      description,
-      timestamp: timestamp ?? new Date().toISOString(),
-      metadata,
-    });
+async function saveLocalChat(db: IDBDatabase, chat: ChatHistoryItem): Promise<void> {
+  await putChatRecord(db, chat);
+
+  // the index would keep the words of encrypted messages in the clear
+  if (isVaultSealing()) {
+    return;
+  }
+
+  try {
+    await updateSearchDocuments(db, chat.id, 'message', createMessageDocuments(chat.id, chat.messages));
+  } catch (error) {
+    logger.error('Failed to update the search index', error);
+  }
+}
+
+async function putChatRecord(db: IDBDatabase, chat: ChatHistoryItem): Promise<void> {
+  const record: StoredChat = { ...chat, messages: await sealJson(chat.messages) };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('chats', 'readwrite');
+    const request = transaction.objectStore('chats').put(record);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
@@ -95,7 +385,15 @@ export async function setMessages(
 }
 
 export async function getMessages(db: IDBDatabase, id: string): Promise<ChatHistoryItem> {
-  return (await getMessagesById(db, id)) || (await getMessagesByUrlId(db, id));
+  const chat = (await getMessagesById(db, id)) || (await getMessagesByUrlId(db, id));
+
+  // the chat may have been created on another device
+  if (!chat && getRemoteStorage()) {
+    await getAll(db);
+    return (await getMessagesById(db, id)) || (await getMessagesByUrlId(db, id));
+  }
+
+  return chat;
 }
 
 export async function getMessagesByUrlId(db: IDBDatabase, id: string): Promise<ChatHistoryItem> {
@@ -105,7 +403,7 @@ export async function getMessagesByUrlId(db: IDBDatabase, id: string): Promise<C
     const index = store.index('urlId');
     const request = index.get(id);
 
-    request.onsuccess = () => resolve(request.result as ChatHistoryItem);
+    request.onsuccess = () => resolve(request.result && openChat(request.result as StoredChat));
     request.onerror = () => reject(request.error);
   });
 }
@@ -116,69 +414,272 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
     const store = transaction.objectStore('chats');
     const request = store.get(id);
 
-    request.onsuccess = () => resolve(request.result as ChatHistoryItem);
+    request.onsuccess = () => resolve(request.result && openChat(request.result as StoredChat));
     request.onerror = () => reject(request.error);
   });
 }
 
+/**
+ * Moves a chat to the trash, where it stays until it is restored or purged.
+ */
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
+  await moveChatOut(db, id, TRASH_STORE, async (chat) => ({ id, deletedAt: new Date().toISOString(), chat }));
+}
+
+/**
+ * Takes a chat out of the active list into the trash or the archive. The server forgets it like a
+ * deleted chat and gets it back once it is restored.
+ */
+async function moveChatOut(
+  db: IDBDatabase,
+  id: string,
+  storeName: string,
+  createRecord: (chat: StoredChat) => Promise<TrashedChat | ArchivedChat>,
+): Promise<void> {
+  const chat = await getRecord<StoredChat>(db, 'chats', id);
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  const record = await createRecord(chat);
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['chats', storeName], 'readwrite');
+
+    transaction.objectStore(storeName).put(record);
+    transaction.objectStore('chats').delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  try {
+    await deleteSearchDocuments(db, id);
+  } catch (error) {
+    logger.error('Failed to update the search index', error);
+  }
+
+  const remote = getRemoteStorage();
+
+  if (remote) {
+    try {
+      await remote.deleteChat({ id, timestamp: new Date().toISOString() });
+    } catch (error) {
+      logger.error('Failed to delete the chat from the server', error);
+    }
+  }
+}
+
+// puts a chat from the trash or the archive back into the active list, returns its url id
+async function moveChatBack(db: IDBDatabase, storeName: string, chat: ChatHistoryItem): Promise<string> {
+  const urlIds = await getUrlIds(db);
+
+  // another chat may have taken the url id in the meantime
+  const urlId = chat.urlId && urlIds.includes(chat.urlId) ? await getUrlId(db, chat.urlId) : chat.urlId;
+  const restored: ChatHistoryItem = { ...chat, urlId, updatedAt: new Date().toISOString() };
+
+  await saveLocalChat(db, restored);
+  await deleteRecord(db, storeName, chat.id);
+
+  const remote = getRemoteStorage();
+
+  if (remote) {
+    try {
+      await remote.putChat(restored);
+    } catch (error) {
+      logger.error('Failed to save the chat to the server', error);
+    }
+  }
+
+  return urlId ?? restored.id;
+}
+
+async function getRecord<T>(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<T | undefined> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats', 'snapshots'], 'readwrite'); // Add snapshots store to transaction
-    const chatStore = transaction.objectStore('chats');
-    const snapshotStore = transaction.objectStore('snapshots');
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).get(key);
 
-    const deleteChatRequest = chatStore.delete(id);
-    const deleteSnapshotRequest = snapshotStore.delete(id); // Also delete snapshot
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
 
-    let chatDeleted = false;
-    let snapshotDeleted = false;
+async function putRecord(db: IDBDatabase, storeName: string, record: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).put(record);
 
-    const checkCompletion = () => {
-      if (chatDeleted && snapshotDeleted) {
-        resolve(undefined);
-      }
-    };
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
 
-    deleteChatRequest.onsuccess = () => {
-      chatDeleted = true;
-      checkCompletion();
-    };
-    deleteChatRequest.onerror = () => reject(deleteChatRequest.error);
+async function deleteRecord(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).delete(key);
 
-    deleteSnapshotRequest.onsuccess = () => {
-      snapshotDeleted = true;
-      checkCompletion();
-    };
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
 
-    deleteSnapshotRequest.onerror = (event) => {
-      if ((event.target as IDBRequest).error?.name === 'NotFoundError') {
-        snapshotDeleted = true;
-        checkCompletion();
-      } else {
-        reject(deleteSnapshotRequest.error);
-      }
-    };
+// the most recently deleted first
+export async function getTrashedChats(db: IDBDatabase): Promise<TrashedChat[]> {
+  const trashed = await getAllRecords<TrashedChat>(db, TRASH_STORE);
 
-    transaction.oncomplete = () => {
-      // This might resolve before checkCompletion if one operation finishes much faster
+  return trashed.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+export async function restoreChat(db: IDBDatabase, id: string): Promise<string> {
+  const record = await getRecord<TrashedChat>(db, TRASH_STORE, id);
+
+  if (!record) {
+    throw new Error('Chat not found in the trash');
+  }
+
+  return moveChatBack(db, TRASH_STORE, await openChat(record.chat));
+}
+
+/**
+ * Deletes a chat for good, wherever it is, together with its snapshots.
+ */
+export async function purgeChat(db: IDBDatabase, id: string): Promise<void> {
+  await deleteLocalChat(db, id);
+  await deleteRecord(db, TRASH_STORE, id);
+  await deleteRecord(db, ARCHIVE_STORE, id);
+}
+
+// purges the given chats of the trash, or all of them, and returns how many were purged
+export async function emptyTrash(db: IDBDatabase, ids?: string[]): Promise<number> {
+  const purged = ids ?? (await getAllKeys(db, TRASH_STORE)).map(String);
+
+  for (const id of purged) {
+    await purgeChat(db, id);
+  }
+
+  return purged.length;
+}
+
+export async function archiveChat(db: IDBDatabase, id: string): Promise<void> {
+  await moveChatOut(db, id, ARCHIVE_STORE, async ({ messages, ...chat }) => ({
+    id,
+    archivedAt: new Date().toISOString(),
+    chat,
+    messages: await compressMessages(messages),
+  }));
+}
+
+// the most recently archived first
+export async function getArchivedChats(db: IDBDatabase): Promise<ArchivedChat[]> {
+  const archived = await getAllRecords<ArchivedChat>(db, ARCHIVE_STORE);
+
+  return archived.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+export async function unarchiveChat(db: IDBDatabase, id: string): Promise<string> {
+  const record = await getRecord<ArchivedChat>(db, ARCHIVE_STORE, id);
+
+  if (!record) {
+    throw new Error('Chat not found in the archive');
+  }
+
+  const chat = await openChat({ ...record.chat, messages: await decompressMessages(record.messages) });
+
+  return moveChatBack(db, ARCHIVE_STORE, chat);
+}
+
+/**
+ * Purges the chats that stayed in the trash longer than the retention period and archives the
+ * ones not updated for the configured time. `keepId` is never archived, it is the open chat.
+ */
+export async function applyRetentionPolicies(db: IDBDatabase, settings: RetentionSettings, keepId?: string) {
+  const now = Date.now();
+  const expired = (await getAllRecords<TrashedChat>(db, TRASH_STORE))
+    .filter((record) => isOlderThan(record.deletedAt, settings.trashDays, now))
+    .map((record) => record.id);
+  const inactive = (await getAllRecords<StoredChat>(db, 'chats'))
+    .filter(
+      (chat) => chat.id !== keepId && isOlderThan(chat.updatedAt ?? chat.timestamp, settings.archiveAfterDays, now),
+    )
+    .map((chat) => chat.id);
+
+  await emptyTrash(db, expired);
+
+  for (const id of inactive) {
+    await archiveChat(db, id);
+  }
+
+  return { purged: expired.length, archived: inactive.length };
+}
+
+async function deleteLocalChat(db: IDBDatabase, id: string): Promise<void> {
+  await deleteChatAndSnapshot(db, id);
+
+  try {
+    await deleteSearchDocuments(db, id);
+  } catch (error) {
+    logger.error('Failed to update the search index', error);
+  }
+
+  try {
+    await deleteChatBranch(db, id);
+  } catch (error) {
+    logger.error('Failed to update the branches of the chat', error);
+  }
+}
+
+async function deleteChatAndSnapshot(db: IDBDatabase, id: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['chats', 'snapshots', MESSAGE_SNAPSHOTS_STORE, BLOBS_STORE], 'readwrite');
+    const messageSnapshotsRequest = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).index('chatId').getAllKeys(id);
+
+    transaction.objectStore('chats').delete(id);
+
+    messageSnapshotsRequest.onsuccess = () => {
+      releaseSnapshots(transaction, [
+        ['snapshots', id],
+        ...messageSnapshotsRequest.result.map((key): SnapshotKey => [MESSAGE_SNAPSHOTS_STORE, key]),
+      ]);
     };
+
+    transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 }
 
-export async function getNextId(db: IDBDatabase): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readonly');
-    const store = transaction.objectStore('chats');
-    const request = store.getAllKeys();
+type SnapshotKey = [storeName: string, key: IDBValidKey];
+
+// deletes chat and message snapshots and drops their references to the blobs
+function releaseSnapshots(transaction: IDBTransaction, keys: SnapshotKey[]) {
+  const removed: string[] = [];
+  let pending = keys.length;
+
+  for (const [storeName, key] of keys) {
+    const snapshotStore = transaction.objectStore(storeName);
+    const request = snapshotStore.get(key);
 
     request.onsuccess = () => {
-      const highestId = request.result.reduce((cur, acc) => Math.max(+cur, +acc), 0);
-      resolve(String(+highestId + 1));
+      const record = request.result as SnapshotRecord | MessageSnapshotRecord | undefined;
+
+      if (record) {
+        removed.push(...getRecordHashes(record));
+        snapshotStore.delete(key);
+      }
+
+      if (--pending === 0) {
+        updateBlobReferences(transaction.objectStore(BLOBS_STORE), [], removed);
+      }
     };
+  }
+}
 
-    request.onerror = () => reject(request.error);
-  });
+export async function getNextId(db: IDBDatabase): Promise<string> {
+  const keys = (await Promise.all(CHAT_STORES.map((storeName) => getAllKeys(db, storeName)))).flat();
+  const highestId = keys.reduce<number>((cur, acc) => Math.max(+cur, +acc), 0);
+
+  return String(+highestId + 1);
 }
 
 export async function getUrlId(db: IDBDatabase, id: string): Promise<string> {
@@ -239,7 +740,7 @@ export async function forkChat(db: IDBDatabase, chatId: string, messageId: strin
   // Get messages up to and including the selected message
   const messages = chat.messages.slice(0, messageIndex + 1);
 
-  return createChatFromMessages(db, chat.description ? `${chat.description} (fork)` : 'Forked chat', messages);
+  return createBranch(db, chat, chat.description ? `${chat.description} (fork)` : 'Forked chat', messages, messageId);
 }
 
 export async function duplicateChat(db: IDBDatabase, id: string): Promise<string> {
@@ -249,7 +750,48 @@ export async function duplicateChat(db: IDBDatabase, id: string): Promise<string
     throw new Error('Chat not found');
   }
 
-  return createChatFromMessages(db, `${chat.description || 'Chat'} (copy)`, chat.messages);
+  const urlId = await createBranch(db, chat, `${chat.description || 'Chat'} (copy)`, chat.messages);
+
+  // a copy has the same history, so it starts from the same files
+  const snapshot = await getSnapshot(db, chat.id);
+  const copy = await getMessagesByUrlId(db, urlId);
+
+  if (snapshot && copy) {
+    await setSnapshot(db, copy.id, snapshot);
+  }
+
+  return urlId;
+}
+
+async function createBranch(
+  db: IDBDatabase,
+  parent: ChatHistoryItem,
+  description: string,
+  messages: Message[],
+  forkMessageId?: string,
+): Promise<string> {
+  const urlId = await createChatFromMessages(db, description, messages);
+  const chat = await getMessagesByUrlId(db, urlId);
+
+  await setChatBranch(db, {
+    chatId: chat.id,
+    parentId: parent.id,
+    forkMessageId,
+    timestamp: chat.timestamp,
+  });
+
+  try {
+    await copyMessageSnapshots(
+      db,
+      parent.id,
+      chat.id,
+      messages.map((message) => message.id),
+    );
+  } catch (error) {
+    logger.error('Failed to copy the message snapshots', error);
+  }
+
+  return urlId;
 }
 
 export async function createChatFromMessages(
@@ -303,41 +845,516 @@ export async function updateChatMetadata(
 }
 
 export async function getSnapshot(db: IDBDatabase, chatId: string): Promise<Snapshot | undefined> {
+  const remote = getRemoteStorage();
+
+  if (remote) {
+    try {
+      await syncSnapshot(db, remote, chatId);
+    } catch (error) {
+      logger.error('Failed to sync the snapshot with the server', error);
+    }
+  }
+
+  return (await readSnapshot(db, 'snapshots', chatId))?.snapshot;
+}
+
+async function readSnapshot(
+  db: IDBDatabase,
+  storeName: string,
+  key: IDBValidKey,
+): Promise<TimestampedSnapshot | undefined> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('snapshots', 'readonly');
-    const store = transaction.objectStore('snapshots');
-    const request = store.get(chatId);
+    const transaction = db.transaction([storeName, BLOBS_STORE], 'readonly');
+    const request = transaction.objectStore(storeName).get(key);
+    let result: TimestampedSnapshot | undefined;
+    let sealed: SnapshotRecord | MessageSnapshotRecord | undefined;
+
+    request.onsuccess = () => {
+      const record = request.result as SnapshotRecord | MessageSnapshotRecord | undefined;
+
+      if (isSealed(record?.snapshot)) {
+        sealed = record;
+      } else if (record) {
+        resolveSnapshot(
+          transaction.objectStore(BLOBS_STORE),
+          record.snapshot,
+          (snapshot) => (result = { timestamp: record.timestamp ?? '', snapshot }),
+        );
+      }
+    };
 
-    request.onsuccess = () => resolve(request.result?.snapshot as Snapshot | undefined);
     request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve(sealed ? readSealedSnapshot(db, sealed) : result);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
+// the manifest has to be decrypted before its blobs can be looked up, so this takes a second transaction
+async function readSealedSnapshot(
+  db: IDBDatabase,
+  record: SnapshotRecord | MessageSnapshotRecord,
+): Promise<TimestampedSnapshot> {
+  const stored = await openJson(record.snapshot);
+  const { files, ...snapshot } = await new Promise<Snapshot>((resolve, reject) => {
+    const transaction = db.transaction(BLOBS_STORE, 'readonly');
+
+    resolveSnapshot(transaction.objectStore(BLOBS_STORE), stored, resolve);
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file') {
+      files[path] = { ...dirent, content: await openText(dirent.content) };
+    }
+  }
+
+  return { timestamp: record.timestamp ?? '', snapshot: { ...snapshot, files } };
+}
+
+/**
+ * Splits a snapshot into the fields of its record and the blobs it refers to. While the vault is
+ * enabled the manifest and the blob contents are sealed, and the blobs are addressed by a keyed
+ * hash that does not reveal their content.
+ */
+async function prepareSnapshotRecord(snapshot: Snapshot) {
+  if (!isVaultSealing()) {
+    const { snapshot: stored, blobs } = await prepareSnapshot(snapshot);
+    return { fields: { snapshot: stored }, blobs };
+  }
+
+  const { snapshot: stored, blobs } = await prepareSnapshot(snapshot, vaultDigest);
+
+  for (const [hash, blob] of blobs) {
+    blobs.set(hash, { ...blob, content: await sealText(blob.content) });
+  }
+
+  return { fields: { snapshot: await sealJson(stored), hashes: [...blobs.keys()] }, blobs };
+}
+
 export async function setSnapshot(db: IDBDatabase, chatId: string, snapshot: Snapshot): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction('snapshots', 'readwrite');
-    const store = transaction.objectStore('snapshots');
-    const request = store.put({ chatId, snapshot });
+  const record: TimestampedSnapshot = { timestamp: new Date().toISOString(), snapshot };
+
+  await saveLocalSnapshot(db, chatId, record);
+
+  const remote = getRemoteStorage();
+
+  if (remote) {
+    try {
+      await remote.putSnapshot(chatId, record);
+    } catch (error) {
+      logger.error('Failed to save the snapshot to the server', error);
+    }
+  }
+}
+
+/**
+ * Stores the files of a snapshot as blobs addressed by the hash of their content, so chats
+ * sharing files, like forks and copies, only keep one copy of them.
+ */
+async function saveLocalSnapshot(db: IDBDatabase, chatId: string, { timestamp, snapshot }: TimestampedSnapshot) {
+  const { fields, blobs } = await prepareSnapshotRecord(snapshot);
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['snapshots', BLOBS_STORE], 'readwrite');
+    const snapshotStore = transaction.objectStore('snapshots');
+    const request = snapshotStore.get(chatId);
+
+    request.onsuccess = () => {
+      const previous = request.result as SnapshotRecord | undefined;
+
+      updateBlobReferences(
+        transaction.objectStore(BLOBS_STORE),
+        new Set(blobs.keys()),
+        getRecordHashes(previous),
+        blobs,
+      );
+      snapshotStore.put({ chatId, timestamp, ...fields } satisfies SnapshotRecord);
+    };
 
-    request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  if (isVaultSealing()) {
+    return;
+  }
+
+  try {
+    await updateSearchDocuments(db, chatId, 'file', createFileDocuments(chatId, snapshot.files));
+  } catch (error) {
+    logger.error('Failed to update the search index', error);
+  }
+}
+
+/**
+ * Takes the files at `paths` from the latest snapshot of `sourceId` into the one of `targetId`.
+ * The target restores them the next time it is opened.
+ */
+export async function mergeBranchFiles(
+  db: IDBDatabase,
+  sourceId: string,
+  targetId: string,
+  paths: string[],
+): Promise<void> {
+  const [source, target, targetChat] = await Promise.all([
+    getSnapshot(db, sourceId),
+    getSnapshot(db, targetId),
+    getMessagesById(db, targetId),
+  ]);
+
+  if (!source || !targetChat) {
+    throw new Error('Branch not found');
+  }
+
+  await setSnapshot(db, targetId, {
+    chatIndex: target?.chatIndex || targetChat.messages.at(-1)?.id || '',
+    summary: target?.summary,
+    compaction: target?.compaction,
+    files: mergeSnapshotFiles(target?.files ?? {}, source.files, paths),
   });
 }
 
 export async function deleteSnapshot(db: IDBDatabase, chatId: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['snapshots', BLOBS_STORE], 'readwrite');
+
+    releaseSnapshots(transaction, [['snapshots', chatId]]);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  try {
+    await updateSearchDocuments(db, chatId, 'file', []);
+  } catch (error) {
+    logger.error('Failed to update the search index', error);
+  }
+}
+
+/**
+ * Records the files right after an assistant message wrote them. A message with several artifacts
+ * keeps the files after its last one.
+ */
+export async function setMessageSnapshot(
+  db: IDBDatabase,
+  chatId: string,
+  messageId: string,
+  files: FileMap,
+): Promise<void> {
+  await saveMessageSnapshot(db, chatId, messageId, {
+    timestamp: new Date().toISOString(),
+    snapshot: { chatIndex: messageId, files },
+  });
+}
+
+async function saveMessageSnapshot(
+  db: IDBDatabase,
+  chatId: string,
+  messageId: string,
+  { timestamp, snapshot }: TimestampedSnapshot,
+): Promise<void> {
+  const { fields, blobs } = await prepareSnapshotRecord(snapshot);
+
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('snapshots', 'readwrite');
-    const store = transaction.objectStore('snapshots');
-    const request = store.delete(chatId);
+    const transaction = db.transaction([MESSAGE_SNAPSHOTS_STORE, BLOBS_STORE], 'readwrite');
+    const store = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE);
+    const request = store.get([chatId, messageId]);
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => {
+      const previous = request.result as MessageSnapshotRecord | undefined;
+
+      updateBlobReferences(transaction.objectStore(BLOBS_STORE), blobs.keys(), getRecordHashes(previous), blobs);
+      store.put({ chatId, messageId, timestamp, ...fields } satisfies MessageSnapshotRecord);
+    };
+
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getMessageSnapshot(
+  db: IDBDatabase,
+  chatId: string,
+  messageId: string,
+): Promise<Snapshot | undefined> {
+  return (await readSnapshot(db, MESSAGE_SNAPSHOTS_STORE, [chatId, messageId]))?.snapshot;
+}
+
+// ids of the messages of a chat that have a snapshot
+export async function getMessageSnapshotIds(db: IDBDatabase, chatId: string): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(MESSAGE_SNAPSHOTS_STORE, 'readonly');
+    const request = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).index('chatId').getAllKeys(chatId);
+
+    request.onsuccess = () => resolve(request.result.map((key) => (key as [string, string])[1]));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// gives a branch the message snapshots of the history it shares with its parent
+async function copyMessageSnapshots(
+  db: IDBDatabase,
+  sourceId: string,
+  targetId: string,
+  messageIds: string[],
+): Promise<void> {
+  const ids = new Set(messageIds);
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([MESSAGE_SNAPSHOTS_STORE, BLOBS_STORE], 'readwrite');
+    const store = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE);
+    const request = store.index('chatId').getAll(sourceId);
+
+    request.onsuccess = () => {
+      const added: string[] = [];
+
+      for (const record of request.result as MessageSnapshotRecord[]) {
+        if (ids.has(record.messageId)) {
+          store.put({ ...record, chatId: targetId } satisfies MessageSnapshotRecord);
+          added.push(...getRecordHashes(record));
+        }
+      }
+
+      updateBlobReferences(transaction.objectStore(BLOBS_STORE), added, []);
+    };
+
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// the ids of all chats, read once the requests made in `transaction` succeeded
+function requestChatIds(transaction: IDBTransaction): () => Set<IDBValidKey> {
+  const requests = CHAT_STORES.map((storeName) => transaction.objectStore(storeName).getAllKeys());
+
+  return () => new Set(requests.flatMap((request) => request.result));
+}
+
+export async function getSnapshotStorageReport(db: IDBDatabase): Promise<SnapshotStorageReport> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([...CHAT_STORES, 'snapshots', MESSAGE_SNAPSHOTS_STORE, BLOBS_STORE], 'readonly');
+    const getChatIds = requestChatIds(transaction);
+    const snapshotsRequest = transaction.objectStore('snapshots').getAll();
+    const messageSnapshotsRequest = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).getAll();
+    const blobsRequest = transaction.objectStore(BLOBS_STORE).getAll();
+
+    transaction.oncomplete = () => {
+      const chatIds = getChatIds();
+      const blobSizes = new Map((blobsRequest.result as SnapshotBlob[]).map((blob) => [blob.hash, blob.size]));
+      const report: SnapshotStorageReport = {
+        snapshots: 0,
+        legacySnapshots: 0,
+        orphanedSnapshots: 0,
+        files: 0,
+        blobs: blobSizes.size,
+        logicalSize: 0,
+        storedSize: [...blobSizes.values()].reduce((total, size) => total + size, 0),
+      };
+
+      const records = [
+        ...(snapshotsRequest.result as SnapshotRecord[]),
+        ...(messageSnapshotsRequest.result as MessageSnapshotRecord[]),
+      ];
+
+      for (const { chatId, snapshot, hashes } of records) {
+        report.snapshots++;
+
+        if (!chatIds.has(chatId)) {
+          report.orphanedSnapshots++;
+        }
+
+        if (isSealed(snapshot)) {
+          report.files += hashes?.length ?? 0;
+          report.logicalSize += (hashes ?? []).reduce((total, hash) => total + (blobSizes.get(hash) ?? 0), 0);
+          continue;
+        }
+
+        if (!isStoredSnapshot(snapshot)) {
+          const { files, size } = getLegacySnapshotSize(snapshot);
+          report.legacySnapshots++;
+          report.files += files;
+          report.logicalSize += size;
+          report.storedSize += size;
+          continue;
+        }
+
+        for (const entry of Object.values(snapshot.manifest)) {
+          if (entry?.type === 'file') {
+            report.files++;
+            report.logicalSize += blobSizes.get(entry.hash) ?? 0;
+          }
+        }
+      }
+
+      resolve(report);
+    };
+
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Deletes the snapshots of chats that no longer exist, e.g. removed by an older version, along
+ * with the blobs only they referred to. Trashed and archived chats keep theirs.
+ */
+export async function collectSnapshotGarbage(db: IDBDatabase): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [...CHAT_STORES, 'snapshots', MESSAGE_SNAPSHOTS_STORE, BLOBS_STORE],
+      'readwrite',
+    );
+    const getChatIds = requestChatIds(transaction);
+    const snapshotsRequest = transaction.objectStore('snapshots').getAllKeys();
+    const messageSnapshotsRequest = transaction.objectStore(MESSAGE_SNAPSHOTS_STORE).getAllKeys();
+    let removed = 0;
+
+    messageSnapshotsRequest.onsuccess = () => {
+      const chatIds = getChatIds();
+      const orphaned: SnapshotKey[] = [
+        ...snapshotsRequest.result
+          .filter((chatId) => !chatIds.has(chatId))
+          .map((key): SnapshotKey => ['snapshots', key]),
+        ...messageSnapshotsRequest.result
+          .filter((key) => !chatIds.has((key as [string, string])[0]))
+          .map((key): SnapshotKey => [MESSAGE_SNAPSHOTS_STORE, key]),
+      ];
+
+      if (orphaned.length > 0) {
+        releaseSnapshots(transaction, orphaned);
+      }
+
+      removed = orphaned.length;
+    };
+
+    transaction.oncomplete = () => resolve(removed);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function getAllKeys(db: IDBDatabase, storeName: string): Promise<IDBValidKey[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Writes every chat and snapshot again, sealed while the vault is enabled and in the clear once it
+ * is being removed. Records already in the wanted form are simply rewritten.
+ */
+export async function resealStoredData(db: IDBDatabase, onProgress?: (done: number, total: number) => void) {
+  const chats = await getLocalChats(db);
+  const snapshotKeys = await getAllKeys(db, 'snapshots');
+  const messageSnapshotKeys = (await getAllKeys(db, MESSAGE_SNAPSHOTS_STORE)) as [string, string][];
+  const trashed = await getAllRecords<TrashedChat>(db, TRASH_STORE);
+  const archived = await getAllRecords<ArchivedChat>(db, ARCHIVE_STORE);
+  const total = chats.length + snapshotKeys.length + messageSnapshotKeys.length + trashed.length + archived.length;
+  let done = 0;
+
+  for (const chat of chats) {
+    await saveLocalChat(db, chat);
+    onProgress?.(++done, total);
+  }
+
+  for (const record of trashed) {
+    const messages = await sealJson(await openJson(record.chat.messages));
+
+    await putRecord(db, TRASH_STORE, { ...record, chat: { ...record.chat, messages } } satisfies TrashedChat);
+    onProgress?.(++done, total);
+  }
+
+  for (const record of archived) {
+    const messages = await sealJson(await openJson(await decompressMessages(record.messages)));
+
+    await putRecord(db, ARCHIVE_STORE, {
+      ...record,
+      messages: await compressMessages(messages),
+    } satisfies ArchivedChat);
+    onProgress?.(++done, total);
+  }
+
+  for (const chatId of snapshotKeys) {
+    const record = await readSnapshot(db, 'snapshots', chatId);
+
+    if (record) {
+      await saveLocalSnapshot(db, chatId as string, record);
+    }
+
+    onProgress?.(++done, total);
+  }
+
+  for (const [chatId, messageId] of messageSnapshotKeys) {
+    const record = await readSnapshot(db, MESSAGE_SNAPSHOTS_STORE, [chatId, messageId]);
+
+    if (record) {
+      await saveMessageSnapshot(db, chatId, messageId, record);
+    }
+
+    onProgress?.(++done, total);
+  }
+
+  if (isVaultSealing()) {
+    await clearSearchIndex(db);
+  }
+}
+
+// records the cost of a turn once, later calls for the same message are ignored
+export async function addTurnCost(db: IDBDatabase, record: TurnCostRecord): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('costs', 'readwrite');
+    const store = transaction.objectStore('costs');
+    const request = store.add(record);
+
+    request.onsuccess = () => resolve(true);
 
     request.onerror = (event) => {
-      if ((event.target as IDBRequest).error?.name === 'NotFoundError') {
-        resolve();
+      if (request.error?.name === 'ConstraintError') {
+        event.preventDefault();
+        resolve(false);
       } else {
         reject(request.error);
       }
     };
   });
 }
+
+export async function getAllTurnCosts(db: IDBDatabase): Promise<TurnCostRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('costs', 'readonly');
+    const store = transaction.objectStore('costs');
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as TurnCostRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getTurnCostsBy(db: IDBDatabase, index: 'chatId' | 'day', key: string): Promise<TurnCostRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('costs', 'readonly');
+    const store = transaction.objectStore('costs');
+    const request = store.index(index).getAll(key);
+
+    request.onsuccess = () => resolve(request.result as TurnCostRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getSpendingTotals(
+  db: IDBDatabase,
+  chatId: string | undefined,
+  day: string,
+): Promise<SpendingTotals> {
+  const sum = (records: TurnCostRecord[]) => records.reduce((total, record) => total + record.cost.total, 0);
+  const [chatRecords, dayRecords] = await Promise.all([
+    chatId ? getTurnCostsBy(db, 'chatId', chatId) : Promise.resolve([]),
+    getTurnCostsBy(db, 'day', day),
+  ]);
+
+  return { chat: sum(chatRecords), day: sum(dayRecords) };
+}
@@ -1,3 +1,12 @@
 export * from './localStorage';
 export * from './db';
 export * from './useChatHistory';
+export * from './searchIndex';
+export * from './branches';
+export * from './snapshotBlobs';
+export * from './messageSnapshots';
+export * from './storage';
+export * from './vault';
+export * from './bundle';
+export * from './trash';
+export * from './tabSync';
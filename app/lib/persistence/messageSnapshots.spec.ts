@@ -0,0 +1,21 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { findSnapshotMessageId } from './messageSnapshots';
+
+const messages = ['u1', 'a1', 'u2', 'a2', 'u3', 'a3'].map((id): Message => ({
+  id,
+  role: id.startsWith('u') ? 'user' : 'assistant',
+  content: id,
+}));
+
+describe('message snapshots', () => {
+  it('should find the closest snapshot at or before a message', () => {
+    const snapshotIds = new Set(['a1', 'a3']);
+
+    expect(findSnapshotMessageId(messages, 'a1', snapshotIds)).toBe('a1');
+    expect(findSnapshotMessageId(messages, 'a2', snapshotIds)).toBe('a1');
+    expect(findSnapshotMessageId(messages, 'a3', snapshotIds)).toBe('a3');
+    expect(findSnapshotMessageId(messages, 'u1', snapshotIds)).toBeUndefined();
+    expect(findSnapshotMessageId(messages, 'missing', snapshotIds)).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import type { Message } from 'ai';
+import type { StoredSnapshot } from './snapshotBlobs';
+
+export const MESSAGE_SNAPSHOTS_STORE = 'messageSnapshots';
+
+/**
+ * The files right after an assistant message wrote them. Records share their file contents
+ * through the blobs store, so each one only adds the files that changed since the previous one.
+ */
+export interface MessageSnapshotRecord {
+  chatId: string;
+  messageId: string;
+  timestamp: string;
+
+  // sealed by the vault when it is enabled, like chat snapshots
+  snapshot: StoredSnapshot | string;
+  hashes?: string[];
+}
+
+export function createMessageSnapshotsStore(db: IDBDatabase) {
+  const store = db.createObjectStore(MESSAGE_SNAPSHOTS_STORE, { keyPath: ['chatId', 'messageId'] });
+  store.createIndex('chatId', 'chatId', { unique: false });
+
+  return store;
+}
+
+/**
+ * Finds the snapshot describing the workspace at `messageId`: its own one, or the one of the
+ * closest earlier message that wrote files.
+ */
+export function findSnapshotMessageId(messages: Message[], messageId: string, snapshotIds: Set<string>) {
+  const index = messages.findIndex((message) => message.id === messageId);
+
+  for (let i = index; i >= 0; i--) {
+    if (snapshotIds.has(messages[i].id)) {
+      return messages[i].id;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createFileDocuments, createMessageDocuments, getMatchLine, rankDocumentIds, tokenize } from './searchIndex';
+
+describe('search index', () => {
+  it('should split text into unique lowercase terms like the project file index', () => {
+    expect(tokenize('Add a useState hook, then useState again! x')).toEqual([
+      'add',
+      'usestate',
+      'use',
+      'state',
+      'hook',
+      'then',
+      'again',
+    ]);
+  });
+
+  it('should index messages and record the first line of every term in files', () => {
+    const [message] = createMessageDocuments('1', [{ id: 'm1', role: 'user', content: 'Fix the login form' }]);
+
+    expect(message).toMatchObject({ id: '1\u0000message\u0000m1', chatId: '1', kind: 'message', ref: 'm1' });
+    expect(message.terms).toEqual(['fix', 'login', 'form']);
+
+    const [file] = createFileDocuments('1', {
+      '/home/project/src/Login.tsx': {
+        type: 'file',
+        content: 'import React from "react";\n\nexport function LoginForm() {\n  return <form />;\n}\n',
+        isBinary: false,
+      },
+      '/home/project/logo.png': { type: 'file', content: '', isBinary: true },
+      '/home/project/src': { type: 'folder' },
+    });
+
+    expect(file.ref).toBe('/home/project/src/Login.tsx');
+    expect(file.lines).toMatchObject({ react: 1, loginform: 3, form: 3, login: 3, tsx: 1 });
+    expect(getMatchLine(file, 'loginf')).toBe(3);
+    expect(getMatchLine(file, 'missing')).toBeUndefined();
+  });
+
+  it('should rank whole word matches first and messages before files', () => {
+    const scores = new Map([
+      ['1\u0000file\u0000/a.ts', 1],
+      ['1\u0000message\u0000m1', 0],
+      ['1\u0000message\u0000m2', 1],
+    ]);
+
+    expect(rankDocumentIds(scores)).toEqual([
+      '1\u0000message\u0000m2',
+      '1\u0000file\u0000/a.ts',
+      '1\u0000message\u0000m1',
+    ]);
+  });
+
+  it('should keep the hash of unchanged documents stable', () => {
+    const files = { '/home/project/a.ts': { type: 'file' as const, content: 'const a = 1;', isBinary: false } };
+
+    expect(createFileDocuments('1', files)[0].hash).toBe(createFileDocuments('1', files)[0].hash);
+    expect(createFileDocuments('1', files)[0].hash).not.toBe(
+      createFileDocuments('1', { '/home/project/a.ts': { ...files['/home/project/a.ts'], content: 'const a = 2;' } })[0]
+        .hash,
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import type { Message } from 'ai';
+import { hashContent, MAX_INDEXED_FILE_SIZE, tokenize as tokenizeCode } from '~/lib/common/file-index';
+import type { FileMap } from '~/lib/stores/files';
+
+export const SEARCH_INDEX_STORE = 'searchIndex';
+
+const MAX_TERM_LENGTH = 64;
+
+// part of every hash, bumped when the terms of a document change so older documents are indexed again
+const INDEX_VERSION = 2;
+const MAX_RESULTS = 50;
+
+export type SearchDocumentKind = 'message' | 'file';
+
+/**
+ * One entry of the index, a message or a snapshot file. The `terms` multi-entry index of the
+ * store maps every term to the documents containing it.
+ */
+export interface SearchDocument {
+  id: string;
+  chatId: string;
+  kind: SearchDocumentKind;
+
+  // message id or file path
+  ref: string;
+  hash: string;
+  terms: string[];
+
+  // first line of every term, files only
+  lines?: Record<string, number>;
+}
+
+export interface SearchResult {
+  chatId: string;
+  kind: SearchDocumentKind;
+  ref: string;
+
+  // 1-based line of the first match, files only
+  line?: number;
+}
+
+// the terms of the project file index, each once, so both searches split words the same way
+export function tokenize(text: string): string[] {
+  return [...new Set(tokenizeCode(text))].filter((term) => term.length <= MAX_TERM_LENGTH);
+}
+
+// only used to skip documents that did not change since they were indexed
+function hashText(text: string) {
+  return `${INDEX_VERSION}:${text.length}:${hashContent(text)}`;
+}
+
+const getDocumentId = (chatId: string, kind: SearchDocumentKind, ref: string) => `${chatId}\u0000${kind}\u0000${ref}`;
+
+export function createMessageDocuments(chatId: string, messages: Message[]): SearchDocument[] {
+  return messages
+    .filter((message) => !message.annotations?.includes('hidden'))
+    .map((message) => ({
+      id: getDocumentId(chatId, 'message', message.id),
+      chatId,
+      kind: 'message',
+      ref: message.id,
+      hash: hashText(message.content),
+      terms: tokenize(message.content),
+    }));
+}
+
+export function createFileDocuments(chatId: string, files: FileMap): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type !== 'file' || dirent.isBinary || dirent.content.length > MAX_INDEXED_FILE_SIZE) {
+      continue;
+    }
+
+    const lines: Record<string, number> = {};
+
+    dirent.content.split('\n').forEach((text, index) => {
+      for (const term of tokenize(text)) {
+        lines[term] ??= index + 1;
+      }
+    });
+
+    for (const term of tokenize(filePath)) {
+      lines[term] ??= 1;
+    }
+
+    documents.push({
+      id: getDocumentId(chatId, 'file', filePath),
+      chatId,
+      kind: 'file',
+      ref: filePath,
+      hash: hashText(`${filePath}\n${dirent.content}`),
+      terms: Object.keys(lines),
+      lines,
+    });
+  }
+
+  return documents;
+}
+
+export function createSearchIndexStore(db: IDBDatabase) {
+  const store = db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: 'id' });
+  store.createIndex('chatId', 'chatId', { unique: false });
+  store.createIndex('terms', 'terms', { unique: false, multiEntry: true });
+
+  return store;
+}
+
+/**
+ * Replaces the documents of one kind for a chat, only writing the ones whose content changed so
+ * saving a chat after every turn stays cheap.
+ */
+export async function updateSearchDocuments(
+  db: IDBDatabase,
+  chatId: string,
+  kind: SearchDocumentKind,
+  documents: SearchDocument[],
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_INDEX_STORE, 'readwrite');
+    const store = transaction.objectStore(SEARCH_INDEX_STORE);
+    const request = store.index('chatId').openCursor(IDBKeyRange.only(chatId));
+    const pending = new Map(documents.map((document) => [document.id, document]));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+
+      if (!cursor) {
+        pending.forEach((document) => store.put(document));
+        return;
+      }
+
+      const existing = cursor.value as SearchDocument;
+
+      if (existing.kind === kind) {
+        if (!pending.has(existing.id)) {
+          cursor.delete();
+        } else if (pending.get(existing.id)?.hash === existing.hash) {
+          pending.delete(existing.id);
+        }
+      }
+
+      cursor.continue();
+    };
+
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function deleteSearchDocuments(db: IDBDatabase, chatId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_INDEX_STORE, 'readwrite');
+    const request = transaction.objectStore(SEARCH_INDEX_STORE).index('chatId').openKeyCursor(chatId);
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+
+      if (cursor) {
+        transaction.objectStore(SEARCH_INDEX_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// drops every document, e.g. once the vault encrypts what they were built from
+export async function clearSearchIndex(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_INDEX_STORE, 'readwrite');
+
+    transaction.objectStore(SEARCH_INDEX_STORE).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// the documents containing a term starting with `term`, and whether one of them is `term` itself
+async function getMatchingIds(db: IDBDatabase, term: string): Promise<Map<string, boolean>> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_INDEX_STORE, 'readonly');
+    const index = transaction.objectStore(SEARCH_INDEX_STORE).index('terms');
+    const matches = new Map<string, boolean>();
+
+    // prefix match, so results show up while the last word is still being typed
+    const request = index.openKeyCursor(IDBKeyRange.bound(term, `${term}\uffff`));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+
+      if (!cursor) {
+        resolve(matches);
+        return;
+      }
+
+      const id = cursor.primaryKey as string;
+      matches.set(id, matches.get(id) || cursor.key === term);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getDocuments(db: IDBDatabase, ids: string[]): Promise<SearchDocument[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_INDEX_STORE, 'readonly');
+    const store = transaction.objectStore(SEARCH_INDEX_STORE);
+    const documents: SearchDocument[] = [];
+
+    for (const id of ids) {
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        if (request.result) {
+          documents.push(request.result as SearchDocument);
+        }
+      };
+    }
+
+    transaction.oncomplete = () => resolve(documents);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// line of the earliest term starting with `prefix`
+export function getMatchLine(document: SearchDocument, prefix: string) {
+  let line: number | undefined;
+
+  for (const [term, termLine] of Object.entries(document.lines ?? {})) {
+    if (term.startsWith(prefix) && (line === undefined || termLine < line)) {
+      line = termLine;
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Ranks the documents by the number of query words they contain as whole words rather than only
+ * as a prefix, messages before files on a tie.
+ */
+export function rankDocumentIds(scores: Map<string, number>): string[] {
+  const isMessage = (id: string) => id.split('\u0000')[1] === 'message';
+
+  return [...scores.keys()].sort(
+    (a, b) => scores.get(b)! - scores.get(a)! || Number(isMessage(b)) - Number(isMessage(a)),
+  );
+}
+
+/**
+ * Returns the best matching messages and files containing every word of `query`.
+ */
+export async function searchChats(db: IDBDatabase, query: string): Promise<SearchResult[]> {
+  const terms = tokenize(query);
+
+  if (terms.length === 0) {
+    return [];
+  }
+
+  let scores: Map<string, number> | undefined;
+
+  for (const term of terms) {
+    const matching = await getMatchingIds(db, term);
+    const previous: Map<string, number> = scores ?? new Map([...matching.keys()].map((id) => [id, 0]));
+
+    scores = new Map(
+      [...previous].filter(([id]) => matching.has(id)).map(([id, score]) => [id, score + (matching.get(id) ? 1 : 0)]),
+    );
+
+    if (scores.size === 0) {
+      return [];
+    }
+  }
+
+  const ids = rankDocumentIds(scores ?? new Map()).slice(0, MAX_RESULTS);
+  const documents = new Map((await getDocuments(db, ids)).map((document) => [document.id, document]));
+
+  return ids
+    .map((id) => documents.get(id))
+    .filter((document): document is SearchDocument => !!document)
+    .map((document) => ({
+      chatId: document.chatId,
+      kind: document.kind,
+      ref: document.ref,
+      line: document.kind === 'file' ? getMatchLine(document, terms[0]) : undefined,
+    }));
+}
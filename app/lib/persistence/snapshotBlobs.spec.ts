@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { getReferencedHashes, prepareSnapshot, resolveSnapshot, updateBlobReferences } from './snapshotBlobs';
+
+// the part of IDBObjectStore the blob helpers use, requests complete on the next tick
+function createStore(values: Record<string, any> = {}) {
+  const store = {
+    values,
+    get(key: string) {
+      const request: { result?: unknown; onsuccess?: () => void } = {};
+
+      queueMicrotask(() => {
+        request.result = values[key];
+        request.onsuccess?.();
+      });
+
+      return request;
+    },
+    put(value: { hash: string }) {
+      values[value.hash] = value;
+    },
+    delete(key: string) {
+      delete values[key];
+    },
+  };
+
+  return store as unknown as IDBObjectStore & { values: Record<string, any> };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/a.ts': { type: 'file', content: 'export const a = 1;\n', isBinary: false },
+  '/home/project/src/copy.ts': { type: 'file', content: 'export const a = 1;\n', isBinary: false, isLocked: true },
+};
+
+describe('snapshot blobs', () => {
+  it('should store identical contents once and resolve them back', async () => {
+    const prepared = await prepareSnapshot({ chatIndex: 'm1', files });
+    const hashes = getReferencedHashes(prepared.snapshot);
+
+    expect(prepared.blobs.size).toBe(1);
+    expect(hashes.size).toBe(1);
+    expect(prepared.snapshot.manifest['/home/project/src/copy.ts']).toMatchObject({ type: 'file', isLocked: true });
+
+    const store = createStore();
+    updateBlobReferences(store, hashes, new Set(), prepared.blobs);
+    await flush();
+
+    let resolved: unknown;
+    resolveSnapshot(store, prepared.snapshot, (snapshot) => (resolved = snapshot));
+    await flush();
+
+    expect(resolved).toEqual({ chatIndex: 'm1', files });
+  });
+
+  it('should count references and delete unreferenced blobs', async () => {
+    const first = await prepareSnapshot({ chatIndex: 'm1', files });
+    const second = await prepareSnapshot({
+      chatIndex: 'm2',
+      files: { '/home/project/b.ts': { type: 'file', content: 'b', isBinary: false } },
+    });
+    const [hash] = getReferencedHashes(first.snapshot);
+    const store = createStore();
+
+    // two chats share the first snapshot
+    updateBlobReferences(store, getReferencedHashes(first.snapshot), new Set(), first.blobs);
+    await flush();
+    updateBlobReferences(store, getReferencedHashes(first.snapshot), new Set(), first.blobs);
+    await flush();
+    expect(store.values[hash].refCount).toBe(2);
+
+    // one of them moves on to the second snapshot
+    updateBlobReferences(
+      store,
+      getReferencedHashes(second.snapshot),
+      getReferencedHashes(first.snapshot),
+      second.blobs,
+    );
+    await flush();
+    expect(store.values[hash].refCount).toBe(1);
+
+    // the other one is deleted
+    updateBlobReferences(store, new Set(), getReferencedHashes(first.snapshot));
+    await flush();
+    expect(Object.keys(store.values)).toEqual([...getReferencedHashes(second.snapshot)]);
+  });
+
+  it('should combine the references of several snapshots in one update', async () => {
+    const prepared = await prepareSnapshot({ chatIndex: 'm1', files });
+    const hashes = [...getReferencedHashes(prepared.snapshot)];
+    const store = createStore();
+
+    updateBlobReferences(store, [...hashes, ...hashes], [], prepared.blobs);
+    await flush();
+    expect(store.values[hashes[0]].refCount).toBe(2);
+
+    updateBlobReferences(store, [], [...hashes, ...hashes]);
+    await flush();
+    expect(store.values).toEqual({});
+  });
+});
@@ -0,0 +1,238 @@
+import type { File, FileMap, Folder } from '~/lib/stores/files';
+import type { Snapshot } from './types';
+
+export const BLOBS_STORE = 'blobs';
+
+/**
+ * File content shared by every snapshot that contains it, removed once no snapshot refers to it
+ * anymore.
+ */
+export interface SnapshotBlob {
+  hash: string;
+  content: string;
+
+  // encoded size in bytes
+  size: number;
+
+  // number of snapshots referring to the blob
+  refCount: number;
+}
+
+export type ManifestEntry = Folder | (Omit<File, 'content'> & { hash: string });
+
+export type SnapshotManifest = Record<string, ManifestEntry | undefined>;
+
+// what the snapshots store holds, snapshots saved before blobs existed still embed their files
+export type StoredSnapshot = Omit<Snapshot, 'files'> & { manifest: SnapshotManifest };
+
+export interface SnapshotRecord {
+  chatId: string;
+
+  // when the snapshot was saved, missing on snapshots saved before storage backends existed
+  timestamp?: string;
+
+  // sealed by the vault when it is enabled, the hashes of its files are then kept next to it
+  snapshot: StoredSnapshot | Snapshot | string;
+  hashes?: string[];
+}
+
+export interface PreparedSnapshot {
+  snapshot: StoredSnapshot;
+  blobs: Map<string, Pick<SnapshotBlob, 'content' | 'size'>>;
+}
+
+export interface SnapshotStorageReport {
+  snapshots: number;
+
+  // snapshots still embedding their files, converted the next time they are saved
+  legacySnapshots: number;
+
+  // snapshots whose chat was deleted without releasing them
+  orphanedSnapshots: number;
+  files: number;
+  blobs: number;
+
+  // size of all snapshot files if every snapshot kept its own copy
+  logicalSize: number;
+  storedSize: number;
+}
+
+const encoder = new TextEncoder();
+
+export function isStoredSnapshot(snapshot: StoredSnapshot | Snapshot | string | undefined): snapshot is StoredSnapshot {
+  return typeof snapshot === 'object' && 'manifest' in snapshot;
+}
+
+export function createBlobsStore(db: IDBDatabase) {
+  return db.createObjectStore(BLOBS_STORE, { keyPath: 'hash' });
+}
+
+export type Digest = (bytes: Uint8Array<ArrayBuffer>) => Promise<ArrayBuffer>;
+
+const sha256: Digest = (bytes) => crypto.subtle.digest('SHA-256', bytes);
+
+async function hashContent(content: string, digestContent: Digest) {
+  const bytes = encoder.encode(content);
+  const digest = await digestContent(bytes);
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+  return { hash, size: bytes.byteLength };
+}
+
+/**
+ * Splits a snapshot into a manifest of hashes and the blobs it refers to. Hashing is async, so it
+ * runs before the transaction that stores the result.
+ */
+export async function prepareSnapshot(
+  { files, ...snapshot }: Snapshot,
+  digest: Digest = sha256,
+): Promise<PreparedSnapshot> {
+  const manifest: SnapshotManifest = {};
+  const blobs: PreparedSnapshot['blobs'] = new Map();
+
+  for (const [path, dirent] of Object.entries(files)) {
+    if (!dirent) {
+      continue;
+    }
+
+    if (dirent.type === 'folder') {
+      manifest[path] = dirent;
+      continue;
+    }
+
+    const { content, ...file } = dirent;
+    const { hash, size } = await hashContent(content, digest);
+
+    manifest[path] = { ...file, hash };
+    blobs.set(hash, { content, size });
+  }
+
+  return { snapshot: { ...snapshot, manifest }, blobs };
+}
+
+export function getReferencedHashes(snapshot: StoredSnapshot | Snapshot | string | undefined) {
+  const hashes = new Set<string>();
+
+  if (isStoredSnapshot(snapshot)) {
+    for (const entry of Object.values(snapshot.manifest)) {
+      if (entry?.type === 'file') {
+        hashes.add(entry.hash);
+      }
+    }
+  }
+
+  return hashes;
+}
+
+// the blobs a stored record refers to, also when its snapshot is sealed
+export function getRecordHashes(record: Pick<SnapshotRecord, 'snapshot' | 'hashes'> | undefined) {
+  return record?.hashes ? new Set(record.hashes) : getReferencedHashes(record?.snapshot);
+}
+
+/**
+ * Adds a reference to the blobs in `added` and drops one from those in `removed`, deleting the
+ * blobs nobody refers to anymore. A hash may be listed once per snapshot, so several snapshots
+ * can be updated in one call. Runs in the caller's transaction.
+ */
+export function updateBlobReferences(
+  store: IDBObjectStore,
+  added: Iterable<string>,
+  removed: Iterable<string>,
+  contents: PreparedSnapshot['blobs'] = new Map(),
+) {
+  // one read and write per blob, separate requests for the same blob would overwrite each other
+  const deltas = new Map<string, number>();
+
+  for (const hash of added) {
+    deltas.set(hash, (deltas.get(hash) ?? 0) + 1);
+  }
+
+  for (const hash of removed) {
+    deltas.set(hash, (deltas.get(hash) ?? 0) - 1);
+  }
+
+  for (const [hash, delta] of deltas) {
+    if (delta === 0) {
+      continue;
+    }
+
+    const request = store.get(hash);
+
+    request.onsuccess = () => {
+      const blob = request.result as SnapshotBlob | undefined;
+      const refCount = (blob?.refCount ?? 0) + delta;
+
+      if (refCount <= 0) {
+        if (blob) {
+          store.delete(hash);
+        }
+      } else if (blob) {
+        store.put({ ...blob, refCount });
+      } else {
+        store.put({ hash, ...contents.get(hash)!, refCount } satisfies SnapshotBlob);
+      }
+    };
+  }
+}
+
+/**
+ * Rebuilds the files of a snapshot from its blobs, calling `onResolved` once every blob was read.
+ */
+export function resolveSnapshot(
+  store: IDBObjectStore,
+  snapshot: StoredSnapshot | Snapshot,
+  onResolved: (snapshot: Snapshot) => void,
+) {
+  if (!isStoredSnapshot(snapshot)) {
+    onResolved(snapshot);
+    return;
+  }
+
+  const { manifest, ...rest } = snapshot;
+  const files: FileMap = {};
+  let pending = 0;
+
+  const done = () => onResolved({ ...rest, files });
+
+  for (const [path, entry] of Object.entries(manifest)) {
+    if (entry?.type !== 'file') {
+      files[path] = entry;
+      continue;
+    }
+
+    const { hash, ...file } = entry;
+    const request = store.get(hash);
+    pending++;
+
+    request.onsuccess = () => {
+      const blob = request.result as SnapshotBlob | undefined;
+
+      // a missing blob would be a bug, skipping the file keeps the rest of the project usable
+      if (blob) {
+        files[path] = { ...file, content: blob.content };
+      }
+
+      if (--pending === 0) {
+        done();
+      }
+    };
+  }
+
+  if (pending === 0) {
+    done();
+  }
+}
+
+export function getLegacySnapshotSize(snapshot: Snapshot) {
+  let files = 0;
+  let size = 0;
+
+  for (const dirent of Object.values(snapshot.files)) {
+    if (dirent?.type === 'file') {
+      files++;
+      size += encoder.encode(dirent.content).byteLength;
+    }
+  }
+
+  return { files, size };
+}
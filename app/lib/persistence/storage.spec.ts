@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isChatDeletion,
+  migrateStorage,
+  resolveConflict,
+  type ChatDeletion,
+  type StorageAdapter,
+  type TimestampedSnapshot,
+} from './storage';
+import type { ChatHistoryItem } from './useChatHistory';
+
+const chat = (id: string, updatedAt: string): ChatHistoryItem => ({
+  id,
+  messages: [],
+  timestamp: '2025-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+function createMemoryStorage(chats: ChatHistoryItem[] = []): StorageAdapter & { chats: Map<string, ChatHistoryItem> } {
+  const stored = new Map(chats.map((item) => [item.id, item]));
+  const snapshots = new Map<string, TimestampedSnapshot>();
+
+  return {
+    backend: 'server',
+    chats: stored,
+    list: async () => ({ chats: [...stored.values()], deletions: [] }),
+    getChat: async (id) => stored.get(id),
+    putChat: async (item) => {
+      const kept = resolveConflict(item, stored.get(item.id));
+      stored.set(item.id, kept);
+
+      return kept;
+    },
+    deleteChat: async ({ id }: ChatDeletion) => {
+      stored.delete(id);
+    },
+    getSnapshot: async (chatId) => snapshots.get(chatId),
+    putSnapshot: async (chatId, record) => {
+      snapshots.set(chatId, record);
+      return record;
+    },
+  };
+}
+
+describe('storage', () => {
+  it('should keep the newer record and the stored one on ties', () => {
+    const older = chat('1', '2025-01-01T10:00:00.000Z');
+    const newer = chat('1', '2025-01-01T11:00:00.000Z');
+
+    expect(resolveConflict(newer, older)).toBe(newer);
+    expect(resolveConflict(older, newer)).toBe(newer);
+    expect(resolveConflict({ ...older }, older)).toBe(older);
+    expect(resolveConflict(older, undefined)).toBe(older);
+
+    // records saved before `updatedAt` existed are compared by `timestamp`
+    expect(resolveConflict({ ...older, updatedAt: undefined }, older)).toBe(older);
+    expect(isChatDeletion({ id: '1', timestamp: older.updatedAt! })).toBe(true);
+    expect(isChatDeletion(older)).toBe(false);
+  });
+
+  it('should migrate chats without overwriting newer ones', async () => {
+    const source = createMemoryStorage([chat('1', '2025-01-02T00:00:00.000Z'), chat('2', '2025-01-02T00:00:00.000Z')]);
+    const target = createMemoryStorage([chat('2', '2025-01-03T00:00:00.000Z')]);
+    await source.putSnapshot('1', { timestamp: '2025-01-02T00:00:00.000Z', snapshot: { chatIndex: 'm1', files: {} } });
+
+    const report = await migrateStorage(source, target);
+
+    expect(report).toEqual({ copied: 1, skipped: 1, snapshots: 1 });
+    expect(target.chats.get('1')).toEqual(source.chats.get('1'));
+    expect(target.chats.get('2')?.updatedAt).toBe('2025-01-03T00:00:00.000Z');
+    expect(await target.getSnapshot('1')).toMatchObject({ snapshot: { chatIndex: 'm1' } });
+  });
+});
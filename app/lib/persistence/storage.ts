@@ -0,0 +1,207 @@
+import { atom } from 'nanostores';
+import Cookies from 'js-cookie';
+import { getLocalStorage, setLocalStorage } from './localStorage';
+import type { Snapshot } from './types';
+import type { ChatHistoryItem } from './useChatHistory';
+
+export type StorageBackend = 'indexeddb' | 'server';
+
+// a chat deleted from a backend, kept so other devices delete their copy instead of restoring it
+export interface ChatDeletion {
+  id: string;
+  timestamp: string;
+}
+
+export interface StorageListing {
+  chats: ChatHistoryItem[];
+  deletions: ChatDeletion[];
+}
+
+export interface TimestampedSnapshot {
+  timestamp: string;
+  snapshot: Snapshot;
+}
+
+/**
+ * Where chats and their snapshots are kept. Writes are resolved by timestamp: a record older
+ * than the stored one, or than the deletion of its chat, is ignored and the stored one is
+ * returned instead.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  list(): Promise<StorageListing>;
+  getChat(id: string): Promise<ChatHistoryItem | undefined>;
+  putChat(chat: ChatHistoryItem): Promise<ChatHistoryItem | ChatDeletion>;
+  deleteChat(deletion: ChatDeletion): Promise<void>;
+  getSnapshot(chatId: string): Promise<TimestampedSnapshot | undefined>;
+  putSnapshot(chatId: string, record: TimestampedSnapshot): Promise<TimestampedSnapshot>;
+}
+
+export interface StorageMigrationReport {
+  copied: number;
+
+  // chats the target changed or deleted more recently
+  skipped: number;
+  snapshots: number;
+}
+
+const STORAGE_BACKEND_KEY = 'bolt_storage_backend';
+
+export const storageBackend = atom<StorageBackend>(getLocalStorage(STORAGE_BACKEND_KEY) ?? 'indexeddb');
+
+export function setStorageBackend(backend: StorageBackend) {
+  storageBackend.set(backend);
+  setLocalStorage(STORAGE_BACKEND_KEY, backend);
+}
+
+// the cookie the `api.storage.*` routes read the BOLT_STORAGE_TOKEN of the server from
+export const STORAGE_TOKEN_COOKIE = 'boltStorageToken';
+
+export interface ServerStorageStatus {
+  available: boolean;
+
+  // whether this browser sent the storage token of the server
+  authorized: boolean;
+}
+
+// strict so other sites cannot make the browser send the token along with their requests
+export function setStorageToken(token: string) {
+  Cookies.set(STORAGE_TOKEN_COOKIE, token, { expires: 365, sameSite: 'strict' });
+}
+
+type Versioned = { timestamp?: string; updatedAt?: string };
+
+// `timestamp` of a chat survives renames, records saved before `updatedAt` existed fall back to it
+function getTime(record: Versioned | undefined) {
+  const timestamp = record?.updatedAt ?? record?.timestamp;
+  const time = timestamp ? Date.parse(timestamp) : NaN;
+
+  return isNaN(time) ? 0 : time;
+}
+
+// whether `record` was written after `other`, records without a timestamp are the oldest
+export function isNewer(record: Versioned | undefined, other: Versioned | undefined) {
+  return getTime(record) > getTime(other);
+}
+
+export function isChatDeletion(record: ChatHistoryItem | ChatDeletion): record is ChatDeletion {
+  return !('messages' in record);
+}
+
+/**
+ * Picks the record to keep when two backends disagree, the stored one wins ties.
+ */
+export function resolveConflict<T extends Versioned>(incoming: T, stored: T | undefined): T {
+  return stored && !isNewer(incoming, stored) ? stored : incoming;
+}
+
+/**
+ * Talks to the `api.storage.*` routes, which keep chats in a directory on the server.
+ */
+export class ServerStorage implements StorageAdapter {
+  private static _instance: ServerStorage;
+  readonly backend = 'server';
+
+  static getInstance(): ServerStorage {
+    if (!ServerStorage._instance) {
+      ServerStorage._instance = new ServerStorage();
+    }
+
+    return ServerStorage._instance;
+  }
+
+  private async _request<T>(path: string, init?: RequestInit): Promise<T | undefined> {
+    const response = await fetch(`/api/storage/${path}`, {
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+    });
+
+    if (response.status === 404) {
+      return undefined;
+    }
+
+    if (!response.ok) {
+      const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(error || `Storage request failed with status ${response.status}`);
+    }
+
+    return response.status === 204 ? undefined : ((await response.json()) as T);
+  }
+
+  async status(): Promise<ServerStorageStatus> {
+    const status = await this._request<ServerStorageStatus>('status').catch(() => undefined);
+
+    return { available: !!status?.available, authorized: !!status?.authorized };
+  }
+
+  async list() {
+    return (await this._request<StorageListing>('chats')) ?? { chats: [], deletions: [] };
+  }
+
+  getChat(id: string) {
+    return this._request<ChatHistoryItem>(`chats/${encodeURIComponent(id)}`);
+  }
+
+  async putChat(chat: ChatHistoryItem) {
+    const stored = await this._request<ChatHistoryItem | ChatDeletion>(`chats/${encodeURIComponent(chat.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(chat),
+    });
+
+    return stored ?? chat;
+  }
+
+  async deleteChat(deletion: ChatDeletion) {
+    await this._request(`chats/${encodeURIComponent(deletion.id)}`, {
+      method: 'DELETE',
+      body: JSON.stringify(deletion),
+    });
+  }
+
+  getSnapshot(chatId: string) {
+    return this._request<TimestampedSnapshot>(`snapshots/${encodeURIComponent(chatId)}`);
+  }
+
+  async putSnapshot(chatId: string, record: TimestampedSnapshot) {
+    const stored = await this._request<TimestampedSnapshot>(`snapshots/${encodeURIComponent(chatId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(record),
+    });
+
+    return stored ?? record;
+  }
+}
+
+/**
+ * Copies every chat and its snapshot from one backend to another. Chats the target changed
+ * more recently are left alone.
+ */
+export async function migrateStorage(
+  source: StorageAdapter,
+  target: StorageAdapter,
+  onProgress?: (done: number, total: number) => void,
+): Promise<StorageMigrationReport> {
+  const { chats } = await source.list();
+  const report: StorageMigrationReport = { copied: 0, skipped: 0, snapshots: 0 };
+
+  for (const [index, chat] of chats.entries()) {
+    const stored = await target.putChat(chat);
+
+    if (isChatDeletion(stored) || isNewer(stored, chat)) {
+      report.skipped++;
+    } else {
+      report.copied++;
+
+      const snapshot = await source.getSnapshot(chat.id);
+
+      if (snapshot) {
+        await target.putSnapshot(chat.id, snapshot);
+        report.snapshots++;
+      }
+    }
+
+    onProgress?.(index + 1, chats.length);
+  }
+
+  return report;
+}
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatTabSync } from './tabSync';
+
+const tabs: ChatTabSync[] = [];
+
+function openTab() {
+  const tab = new ChatTabSync({ channel: new BroadcastChannel('bolt-chat-sync-test'), electionTimeout: 20 });
+  tabs.push(tab);
+
+  return tab;
+}
+
+afterEach(() => {
+  tabs.splice(0).forEach((tab) => tab.dispose());
+});
+
+describe('ChatTabSync', () => {
+  it('should let one tab lead a chat and mirror it in the others', async () => {
+    const first = openTab();
+    const second = openTab();
+
+    first.join('1');
+    await vi.waitFor(() => expect(first.state.get().role).toBe('leader'));
+
+    second.join('1');
+    await vi.waitFor(() => expect(second.state.get()).toMatchObject({ role: 'follower', leaderId: first.tabId }));
+    expect(second.canWrite()).toBe(false);
+
+    first.publishMessages([{ id: 'm1', role: 'user', content: 'Build a todo app' }], true);
+    await vi.waitFor(() => expect(second.mirror.get()).toMatchObject({ streaming: true, messages: [{ id: 'm1' }] }));
+  });
+
+  it('should only send what changed since the last update', async () => {
+    const first = openTab();
+    const second = openTab();
+    const posted = vi.spyOn(BroadcastChannel.prototype, 'postMessage');
+
+    first.join('1');
+    await vi.waitFor(() => expect(first.state.get().role).toBe('leader'));
+    second.join('1');
+    await vi.waitFor(() => expect(second.state.get().role).toBe('follower'));
+
+    const question = { id: 'm1', role: 'user' as const, content: 'Build a todo app' };
+    const index = { type: 'file' as const, content: '<html></html>', isBinary: false };
+    const style = { type: 'file' as const, content: 'body {}', isBinary: false };
+
+    first.publishMessages([question], true);
+    first.publishMessages([question, { id: 'm2', role: 'assistant', content: 'Sure' }], false);
+    first.publishFiles({ '/home/project/index.html': index, '/home/project/style.css': style });
+    first.publishFiles({ '/home/project/index.html': index });
+
+    await vi.waitFor(() =>
+      expect(second.mirror.get()).toMatchObject({
+        streaming: false,
+        messages: [{ id: 'm1' }, { id: 'm2' }],
+        files: { '/home/project/index.html': index },
+      }),
+    );
+    expect(second.mirror.get().files).not.toHaveProperty('/home/project/style.css');
+    expect(posted).toHaveBeenCalledWith(expect.objectContaining({ type: 'messages', from: 1 }));
+    expect(posted).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'files', changed: {}, removed: ['/home/project/style.css'], full: false }),
+    );
+
+    posted.mockRestore();
+  });
+
+  it('should hand the chat over to the tab taking over', async () => {
+    const first = openTab();
+    const second = openTab();
+
+    first.join('1');
+    await vi.waitFor(() => expect(first.state.get().role).toBe('leader'));
+    second.join('1');
+    await vi.waitFor(() => expect(second.state.get().role).toBe('follower'));
+
+    second.takeOver();
+    expect(second.canWrite()).toBe(true);
+    await vi.waitFor(() => expect(first.state.get()).toMatchObject({ role: 'follower', leaderId: second.tabId }));
+
+    // once the leader leaves, the follower leads again
+    second.leave();
+    await vi.waitFor(() => expect(first.state.get().role).toBe('leader'));
+  });
+});
@@ -0,0 +1,362 @@
+import type { Message } from 'ai';
+import { atom } from 'nanostores';
+import type { FileMap } from '~/lib/stores/files';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('TabSync');
+
+const CHANNEL_NAME = 'bolt-chat-sync';
+
+// how long a tab waits for a leader to answer before leading the chat itself
+const ELECTION_TIMEOUT = 300;
+const HEARTBEAT_INTERVAL = 2000;
+
+// a leader not heard of for this long is gone, e.g. its tab crashed
+const LEADER_TIMEOUT = 5000;
+
+/**
+ * `leader` owns the writes of the chat, a `follower` mirrors what the leader sends. Tabs without
+ * a chat, or without `BroadcastChannel`, are always `leader`.
+ */
+export type TabRole = 'electing' | 'leader' | 'follower';
+
+export interface TabSyncState {
+  role: TabRole;
+  chatId?: string;
+  leaderId?: string;
+}
+
+export interface ChatMirror {
+  messages?: Message[];
+  streaming: boolean;
+  files?: FileMap;
+}
+
+type SyncPayload = { chatId: string } & (
+  | { type: 'query' }
+  | { type: 'leader' }
+  | { type: 'release' }
+  | { type: 'takeover' }
+
+  // the messages from index `from` on, the ones before it did not change
+  | { type: 'messages'; from: number; messages: Message[]; streaming: boolean }
+
+  // the entries that changed and the paths that are gone, `full` when `changed` holds every file
+  | { type: 'files'; changed: FileMap; removed: string[]; full: boolean }
+);
+
+type SyncMessage = SyncPayload & { tabId: string };
+
+interface ChatTabSyncOptions {
+  channel?: BroadcastChannel;
+  electionTimeout?: number;
+}
+
+/**
+ * Elects one tab per chat over a `BroadcastChannel` to write the chat, so two tabs on the same
+ * chat no longer overwrite each other. The leader streams its messages and files to the other
+ * tabs, which show them read-only until they take over. Only what changed since the last update
+ * is sent, a follower that missed the start asks for everything again.
+ */
+export class ChatTabSync {
+  readonly tabId = Math.random().toString(36).substring(2, 15);
+  readonly state = atom<TabSyncState>({ role: 'leader' });
+  readonly mirror = atom<ChatMirror>({ streaming: false });
+
+  #channel?: BroadcastChannel;
+  #electionTimeout: number;
+  #electionTimer?: ReturnType<typeof setTimeout>;
+  #heartbeatTimer?: ReturnType<typeof setInterval>;
+  #lastHeartbeat = 0;
+  #lastMessages?: { messages: Message[]; streaming: boolean };
+  #lastFiles?: FileMap;
+
+  constructor({ channel, electionTimeout = ELECTION_TIMEOUT }: ChatTabSyncOptions = {}) {
+    this.#electionTimeout = electionTimeout;
+    this.#channel = channel;
+
+    if (this.#channel) {
+      this.#channel.onmessage = (event: MessageEvent<SyncMessage>) => this.#receive(event.data);
+    }
+  }
+
+  // whether this tab may save the chat, only followers may not
+  canWrite() {
+    return this.state.get().role !== 'follower';
+  }
+
+  /**
+   * Starts following `chatId`: asks the other tabs for its leader and leads it when none answers.
+   */
+  join(chatId: string | undefined) {
+    if (chatId === this.state.get().chatId) {
+      return;
+    }
+
+    this.leave();
+
+    if (!chatId || !this.#channel) {
+      this.state.set({ role: 'leader', chatId });
+      return;
+    }
+
+    this.#elect(chatId);
+  }
+
+  // hands the chat over to the other tabs, e.g. when this one navigates away or closes
+  leave() {
+    const { role, chatId } = this.state.get();
+
+    if (role === 'leader' && chatId) {
+      this.#post({ type: 'release', chatId });
+    }
+
+    this.#stopTimers();
+    this.#lastMessages = undefined;
+    this.#lastFiles = undefined;
+    this.mirror.set({ streaming: false });
+    this.state.set({ role: 'leader' });
+  }
+
+  // makes this tab the leader of its chat, the former leader turns into a follower
+  takeOver() {
+    const { role, chatId } = this.state.get();
+
+    if (role !== 'follower' || !chatId) {
+      return;
+    }
+
+    this.#post({ type: 'takeover', chatId });
+    this.#lead(chatId);
+  }
+
+  publishMessages(messages: Message[], streaming: boolean) {
+    const { role, chatId } = this.state.get();
+
+    if (role !== 'leader' || !chatId) {
+      return;
+    }
+
+    const last = this.#lastMessages;
+    let from = 0;
+
+    while (last && from < messages.length && messages[from] === last.messages[from]) {
+      from++;
+    }
+
+    if (last && from === messages.length && messages.length === last.messages.length && streaming === last.streaming) {
+      return;
+    }
+
+    this.#lastMessages = { messages, streaming };
+    this.#post({ type: 'messages', chatId, from, messages: messages.slice(from), streaming });
+  }
+
+  publishFiles(files: FileMap) {
+    const { role, chatId } = this.state.get();
+
+    if (role !== 'leader' || !chatId) {
+      return;
+    }
+
+    const last = this.#lastFiles;
+    this.#lastFiles = files;
+
+    if (!last) {
+      this.#post({ type: 'files', chatId, changed: files, removed: [], full: true });
+      return;
+    }
+
+    const changed: FileMap = {};
+
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (last[filePath] !== dirent) {
+        changed[filePath] = dirent;
+      }
+    }
+
+    const removed = Object.keys(last).filter((filePath) => !(filePath in files));
+
+    if (Object.keys(changed).length > 0 || removed.length > 0) {
+      this.#post({ type: 'files', chatId, changed, removed, full: false });
+    }
+  }
+
+  dispose() {
+    this.leave();
+    this.#channel?.close();
+    this.#channel = undefined;
+  }
+
+  #elect(chatId: string) {
+    this.#stopTimers();
+    this.state.set({ role: 'electing', chatId });
+    this.#post({ type: 'query', chatId });
+
+    this.#electionTimer = setTimeout(() => {
+      if (this.state.get().role === 'electing') {
+        this.#lead(chatId);
+      }
+    }, this.#electionTimeout);
+  }
+
+  #lead(chatId: string) {
+    this.#stopTimers();
+    this.state.set({ role: 'leader', chatId, leaderId: this.tabId });
+    this.mirror.set({ streaming: false });
+    this.#post({ type: 'leader', chatId });
+
+    this.#heartbeatTimer = setInterval(() => this.#post({ type: 'leader', chatId }), HEARTBEAT_INTERVAL);
+  }
+
+  #follow(chatId: string, leaderId: string) {
+    this.#stopTimers();
+    this.#lastHeartbeat = Date.now();
+    this.#lastMessages = undefined;
+    this.#lastFiles = undefined;
+    this.state.set({ role: 'follower', chatId, leaderId });
+
+    this.#heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.#lastHeartbeat > LEADER_TIMEOUT) {
+        logger.debug(`Leader ${leaderId} of chat ${chatId} is gone`);
+        this.#elect(chatId);
+      }
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  #receive(message: SyncMessage) {
+    const { role, chatId: currentChatId, leaderId } = this.state.get();
+    const { chatId } = message;
+
+    if (chatId !== currentChatId || message.tabId === this.tabId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'query': {
+        if (role === 'leader') {
+          this.#post({ type: 'leader', chatId });
+
+          // a tab joining mid-stream has not seen the messages and files saved so far
+          if (this.#lastMessages) {
+            this.#post({ type: 'messages', chatId, from: 0, ...this.#lastMessages });
+          }
+
+          if (this.#lastFiles) {
+            this.#post({ type: 'files', chatId, changed: this.#lastFiles, removed: [], full: true });
+          }
+        }
+
+        break;
+      }
+      case 'leader': {
+        if (role === 'electing') {
+          this.#follow(chatId, message.tabId);
+        } else if (role === 'follower') {
+          this.#lastHeartbeat = Date.now();
+
+          if (leaderId !== message.tabId) {
+            this.state.set({ role, chatId, leaderId: message.tabId });
+          }
+        } else if (message.tabId < this.tabId) {
+          // two tabs elected themselves at once, the lower id keeps the chat
+          this.#follow(chatId, message.tabId);
+        } else {
+          this.#post({ type: 'leader', chatId });
+        }
+
+        break;
+      }
+      case 'release': {
+        if (role === 'follower' && message.tabId === leaderId) {
+          // spread out the new election so the followers do not all claim the chat at once
+          setTimeout(() => this.state.get().role === 'follower' && this.#elect(chatId), Math.random() * 200);
+        }
+
+        break;
+      }
+      case 'takeover': {
+        if (role !== 'follower') {
+          this.#follow(chatId, message.tabId);
+        }
+
+        break;
+      }
+      case 'messages': {
+        if (role !== 'leader') {
+          this.#applyMessages(chatId, message);
+        }
+
+        break;
+      }
+      case 'files': {
+        if (role !== 'leader') {
+          this.#applyFiles(chatId, message);
+        }
+
+        break;
+      }
+    }
+  }
+
+  #applyMessages(
+    chatId: string,
+    { from, messages, streaming }: { from: number; messages: Message[]; streaming: boolean },
+  ) {
+    const mirror = this.mirror.get();
+    const current = mirror.messages ?? [];
+
+    if (from > current.length) {
+      this.#post({ type: 'query', chatId });
+      return;
+    }
+
+    this.mirror.set({ ...mirror, messages: [...current.slice(0, from), ...messages], streaming });
+  }
+
+  #applyFiles(chatId: string, { changed, removed, full }: { changed: FileMap; removed: string[]; full: boolean }) {
+    const mirror = this.mirror.get();
+
+    if (!full && !mirror.files) {
+      this.#post({ type: 'query', chatId });
+      return;
+    }
+
+    const files = full ? { ...changed } : { ...mirror.files, ...changed };
+    removed.forEach((filePath) => delete files[filePath]);
+
+    this.mirror.set({ ...mirror, files });
+  }
+
+  #post(message: SyncPayload) {
+    try {
+      this.#channel?.postMessage({ ...message, tabId: this.tabId });
+    } catch (error) {
+      logger.error('Failed to sync the chat with the other tabs', error);
+    }
+  }
+
+  #stopTimers() {
+    clearTimeout(this.#electionTimer);
+    clearInterval(this.#heartbeatTimer);
+  }
+}
+
+function createChannel(): BroadcastChannel | undefined {
+  if (typeof window === 'undefined' || typeof BroadcastChannel !== 'function') {
+    return undefined;
+  }
+
+  try {
+    return new BroadcastChannel(CHANNEL_NAME);
+  } catch (error) {
+    logger.warn('BroadcastChannel unavailable:', error);
+    return undefined;
+  }
+}
+
+export const chatTabSync = new ChatTabSync({ channel: createChannel() });
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => chatTabSync.leave());
+}
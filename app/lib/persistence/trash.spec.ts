@@ -0,0 +1,28 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { compressMessages, decompressMessages, isOlderThan } from './trash';
+
+describe('trash', () => {
+  it('should expire records older than the retention period', () => {
+    const now = Date.parse('2025-03-31T00:00:00.000Z');
+
+    expect(isOlderThan('2025-03-01T00:00:00.000Z', 29, now)).toBe(true);
+    expect(isOlderThan('2025-03-01T00:00:00.000Z', 30, now)).toBe(false);
+
+    // 0 days never expire
+    expect(isOlderThan('2020-01-01T00:00:00.000Z', 0, now)).toBe(false);
+    expect(isOlderThan(undefined, 30, now)).toBe(false);
+  });
+
+  it('should restore archived messages as they were', async () => {
+    const messages: Message[] = [
+      { id: '1', role: 'user', content: 'Build a todo app' },
+      { id: '2', role: 'assistant', content: 'x'.repeat(10_000) },
+    ];
+    const compressed = await compressMessages(messages);
+
+    expect(compressed.byteLength).toBeLessThan(1_000);
+    expect(await decompressMessages(compressed)).toEqual(messages);
+    expect(await decompressMessages(await compressMessages('bolt-vault:1:sealed'))).toBe('bolt-vault:1:sealed');
+  });
+});
@@ -0,0 +1,82 @@
+import type { Message } from 'ai';
+import { atom } from 'nanostores';
+import { getLocalStorage, setLocalStorage } from './localStorage';
+import type { ChatHistoryItem } from './useChatHistory';
+
+export const TRASH_STORE = 'trash';
+export const ARCHIVE_STORE = 'archive';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionSettings {
+  // days a deleted chat stays in the trash, 0 keeps it until the trash is emptied
+  trashDays: number;
+
+  // chats not updated for this many days are archived, 0 turns archiving off
+  archiveAfterDays: number;
+}
+
+const RETENTION_KEY = 'bolt_retention';
+
+export const retentionSettings = atom<RetentionSettings>({
+  trashDays: 30,
+  archiveAfterDays: 0,
+  ...getLocalStorage(RETENTION_KEY),
+});
+
+export function setRetentionSettings(settings: RetentionSettings) {
+  retentionSettings.set(settings);
+  setLocalStorage(RETENTION_KEY, settings);
+}
+
+// the messages of a chat as stored, sealed while the vault is enabled
+type StoredMessages = Message[] | string;
+
+/**
+ * A deleted chat. Its snapshots stay in place until it is purged, so restoring it also brings
+ * back its files and the workspace of each message.
+ */
+export interface TrashedChat {
+  id: string;
+  deletedAt: string;
+  chat: Omit<ChatHistoryItem, 'messages'> & { messages: StoredMessages };
+}
+
+/**
+ * A chat moved out of the active list. The messages, which make up most of a chat, are kept
+ * gzipped until it is brought back.
+ */
+export interface ArchivedChat {
+  id: string;
+  archivedAt: string;
+  chat: Omit<ChatHistoryItem, 'messages'>;
+  messages: Uint8Array;
+}
+
+export function createTrashStore(db: IDBDatabase) {
+  const store = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+  store.createIndex('deletedAt', 'deletedAt', { unique: false });
+
+  return store;
+}
+
+export function createArchiveStore(db: IDBDatabase) {
+  return db.createObjectStore(ARCHIVE_STORE, { keyPath: 'id' });
+}
+
+export async function compressMessages(messages: StoredMessages): Promise<Uint8Array> {
+  const stream = new Blob([JSON.stringify(messages)]).stream().pipeThrough(new CompressionStream('gzip'));
+
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function decompressMessages(data: Uint8Array): Promise<StoredMessages> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('gzip'));
+
+  return JSON.parse(await new Response(stream).text());
+}
+
+// whether `timestamp` lies more than `days` days before `now`, 0 days never expire
+export function isOlderThan(timestamp: string | undefined, days: number, now = Date.now()) {
+  return days > 0 && !!timestamp && now - Date.parse(timestamp) > days * DAY_MS;
+}
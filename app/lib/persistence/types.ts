@@ -1,7 +1,21 @@
 import type { FileMap } from '~/lib/stores/files';
+import type { ChatCompaction } from '~/types/context';
+import type { TurnCost } from '~/types/cost';
 
 export interface Snapshot {
   chatIndex: string;
   files: FileMap;
   summary?: string;
+  compaction?: ChatCompaction;
+}
+
+export interface TurnCostRecord {
+  // id of the assistant message the cost belongs to
+  messageId: string;
+  chatId: string;
+
+  // local calendar day, YYYY-MM-DD
+  day: string;
+  timestamp: string;
+  cost: TurnCost;
 }
@@ -5,6 +5,7 @@ import { generateId, type JSONValue, type Message } from 'ai';
 import { toast } from 'react-toastify';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { logStore } from '~/lib/stores/logs'; // Import logStore
+import { createScopedLogger } from '~/utils/logger';
 import {
   getMessages,
   getNextId,
@@ -15,13 +16,30 @@ import {
   createChatFromMessages,
   getSnapshot,
   setSnapshot,
+  setMessageSnapshot,
+  updateChatMetadata,
+  type ChatPullRequest,
   type IChatMetadata,
 } from './db';
 import type { FileMap } from '~/lib/stores/files';
 import type { Snapshot } from './types';
+import { chatTabSync } from './tabSync';
 import { webcontainer } from '~/lib/webcontainer';
 import { detectProjectCommands, createCommandActionsString } from '~/utils/projectCommands';
-import type { ContextAnnotation } from '~/types/context';
+import type { ChatCompaction, ContextAnnotation, UsageAnnotation } from '~/types/context';
+import { recordTurnCost, refreshSpending } from '~/lib/stores/spending';
+import type { ArtifactCallbackData } from '~/lib/runtime/message-parser';
+import { promptStore } from '~/lib/stores/settings';
+import { defaultDesignScheme, type DesignScheme } from '~/types/design-scheme';
+import {
+  BUNDLE_EXTENSION,
+  createBundle,
+  importBundle,
+  readBundle,
+  writeBundle,
+  type BundleChat,
+  type DuplicateAction,
+} from './bundle';
 
 export interface ChatHistoryItem {
   id: string;
@@ -29,9 +47,14 @@ export interface ChatHistoryItem {
   description?: string;
   messages: Message[];
   timestamp: string;
+
+  // when the chat was last saved, used to pick the newer version when storage backends disagree
+  updatedAt?: string;
   metadata?: IChatMetadata;
 }
 
+const logger = createScopedLogger('ChatHistory');
+
 const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
 
 export const db = persistenceEnabled ? await openDatabase() : undefined;
@@ -39,6 +62,13 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+// the design scheme of the open chat, kept in its metadata
+export const chatDesignScheme = atom<DesignScheme>(defaultDesignScheme);
+
+// the summary standing in for the compacted turns of the chat, kept with its snapshot
+export const chatCompaction = atom<ChatCompaction | undefined>(undefined);
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -179,6 +209,9 @@ ${value.content}
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
             chatMetadata.set(storedMessages.metadata);
+            chatDesignScheme.set(storedMessages.metadata?.designScheme ?? defaultDesignScheme);
+            chatCompaction.set(snapshot?.compaction);
+            refreshSpending(db, storedMessages.id);
           } else {
             navigate('/', { replace: true });
           }
@@ -193,6 +226,10 @@ ${value.content}
         });
     } else {
       // Handle case where there is no mixedId (e.g., new chat)
+      chatMetadata.set(undefined);
+      chatDesignScheme.set(defaultDesignScheme);
+      chatCompaction.set(undefined);
+      refreshSpending(db);
       setReady(true);
     }
   }, [mixedId, db, navigate, searchParams]); // Added db, navigate, searchParams dependencies
@@ -209,6 +246,7 @@ ${value.content}
         chatIndex: chatIdx,
         files,
         summary: chatSummary,
+        compaction: chatCompaction.get(),
       };
 
       // localStorage.setItem(`snapshot:${id}`, JSON.stringify(snapshot)); // Remove localStorage usage
@@ -261,7 +299,7 @@ ${value.content}
     updateChatMestaData: async (metadata: IChatMetadata) => {
       const id = chatId.get();
 
-      if (!db || !id) {
+      if (!db || !id || !chatTabSync.canWrite()) {
         return;
       }
 
@@ -274,7 +312,8 @@ ${value.content}
       }
     },
     storeMessageHistory: async (messages: Message[]) => {
-      if (!db || messages.length === 0) {
+      // the tab leading the chat saves it, the others only mirror it
+      if (!db || messages.length === 0 || !chatTabSync.canWrite()) {
         return;
       }
 
@@ -291,6 +330,7 @@ ${value.content}
       }
 
       let chatSummary: string | undefined = undefined;
+      let turnCost: UsageAnnotation['cost'] = undefined;
       const lastMessage = messages[messages.length - 1];
 
       if (lastMessage.role === 'assistant') {
@@ -303,6 +343,15 @@ ${value.content}
         if (filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')) {
           chatSummary = filteredAnnotations.find((annotation) => annotation.type === 'chatSummary')?.summary;
         }
+
+        turnCost = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.cost;
+
+        const compaction = filteredAnnotations.find((annotation) => annotation.type === 'compaction')?.compaction;
+
+        // an older annotation must not undo an edit made since
+        if (compaction && compaction.updatedAt > (chatCompaction.get()?.updatedAt ?? '')) {
+          chatCompaction.set(compaction);
+        }
       }
 
       takeSnapshot(messages[messages.length - 1].id, workbenchStore.files.get(), _urlId, chatSummary);
@@ -332,6 +381,10 @@ ${value.content}
         return;
       }
 
+      if (turnCost) {
+        await recordTurnCost(db, finalChatId, lastMessage.id, turnCost);
+      }
+
       await setMessages(
         db,
         finalChatId, // Use the potentially updated chatId
@@ -378,18 +431,24 @@ ${value.content}
         return;
       }
 
-      const chat = await getMessages(db, id);
-      const chatData = {
-        messages: chat.messages,
-        description: chat.description,
-        exportDate: new Date().toISOString(),
-      };
+      let data: Uint8Array;
 
-      const blob = new Blob([JSON.stringify(chatData, null, 2)], { type: 'application/json' });
+      try {
+        const bundle = await createBundle(db, [id], {
+          designScheme: chatDesignScheme.get(),
+          promptId: promptStore.get(),
+        });
+        data = await writeBundle(bundle);
+      } catch (error) {
+        toast.error('Failed to export chat: ' + (error as Error).message);
+        return;
+      }
+
+      const blob = new Blob([data as Uint8Array<ArrayBuffer>], { type: 'application/zip' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `chat-${new Date().toISOString()}.json`;
+      a.download = `chat-${new Date().toISOString()}${BUNDLE_EXTENSION}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -398,6 +457,137 @@ ${value.content}
   };
 }
 
+/**
+ * Changes the design scheme of the open chat. A chat that is not saved yet gets it with its
+ * first message.
+ */
+export async function setChatDesignScheme(designScheme: DesignScheme) {
+  chatDesignScheme.set(designScheme);
+  await saveChatMetadata({ ...chatMetadata.get(), designScheme });
+}
+
+/**
+ * Imports a `.bolt` bundle or the JSON of an older export and opens the first chat in it.
+ */
+export async function importBundleFile(
+  file: File,
+  resolveDuplicate: (chat: BundleChat, existing: ChatHistoryItem) => Promise<DuplicateAction>,
+) {
+  if (!db) {
+    toast.error('Chat persistence is unavailable');
+    return;
+  }
+
+  try {
+    const bundle = await readBundle(new Uint8Array(await file.arrayBuffer()));
+    const { urlIds, created, merged } = await importBundle(db, bundle, resolveDuplicate);
+
+    const chats = (count: number) => `${count} chat${count === 1 ? '' : 's'}`;
+
+    toast.success(created > 0 ? `Imported ${chats(created + merged)}` : `Merged ${chats(merged)} into your history`);
+    window.location.href = `/chat/${urlIds[0]}`;
+  } catch (error) {
+    toast.error('Failed to import chat: ' + (error as Error).message);
+  }
+}
+
+/**
+ * Records the files once the actions of an artifact have run, so the workspace can later be
+ * restored to the message the artifact belongs to.
+ */
+export function recordMessageSnapshot(data: ArtifactCallbackData) {
+  if (!db || !chatTabSync.canWrite()) {
+    return;
+  }
+
+  const database = db;
+
+  workbenchStore
+    .getFilesAfterArtifact(data)
+    .then(async (files) => {
+      const id = chatId.get();
+
+      if (files && id) {
+        await setMessageSnapshot(database, id, data.messageId, files);
+      }
+    })
+    .catch((error) => logger.error('Failed to record the message snapshot:', error));
+}
+
+/**
+ * Rewinds the workspace to `files` and saves them as the files of the chat, so reopening it
+ * shows the restored workspace.
+ */
+export async function restoreWorkspace(files: FileMap) {
+  await workbenchStore.restoreFiles(files);
+
+  const id = chatId.get();
+
+  if (!db || !id) {
+    return;
+  }
+
+  const snapshot = await getSnapshot(db, id);
+
+  if (snapshot) {
+    await setSnapshot(db, id, { ...snapshot, files: workbenchStore.files.get() });
+  }
+}
+
+/**
+ * Saves a summary edited by the user, it is sent with the next messages in place of the turns it
+ * covers.
+ */
+export async function saveChatCompaction(summary: ChatCompaction['summary']) {
+  const compaction = chatCompaction.get();
+
+  if (!compaction) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+
+  chatCompaction.set({ ...compaction, summary, updatedAt: now, editedAt: now });
+
+  const id = chatId.get();
+
+  if (!db || !id) {
+    return;
+  }
+
+  const snapshot = await getSnapshot(db, id);
+
+  if (snapshot) {
+    await setSnapshot(db, id, { ...snapshot, compaction: chatCompaction.get() });
+  }
+}
+
+/**
+ * Remembers the pull request opened for the chat, so the next deploy pushes to it instead of
+ * opening another one.
+ */
+export async function saveChatPullRequest(pullRequest: ChatPullRequest) {
+  await saveChatMetadata({ ...chatMetadata.get(), pullRequest });
+}
+
+// links the commit the files of an assistant message were auto-committed as to the message
+export async function saveTurnCommit(messageId: string, oid: string) {
+  const metadata = chatMetadata.get();
+
+  await saveChatMetadata({ ...metadata, turnCommits: { ...metadata?.turnCommits, [messageId]: oid } });
+}
+
+// replaces the metadata of the open chat, outside of the chat component
+export async function saveChatMetadata(metadata: IChatMetadata) {
+  const id = chatId.get();
+
+  chatMetadata.set(metadata);
+
+  if (db && id && chatTabSync.canWrite()) {
+    await updateChatMetadata(db, id, metadata);
+  }
+}
+
 function navigateChat(nextId: string) {
   /**
    * FIXME: Using the intended navigate function causes a rerender for <Chat /> that breaks the app.
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  isSealed,
+  isVaultSealing,
+  lockVault,
+  openJson,
+  sealJson,
+  sealText,
+  unlockVault,
+  VaultLockedError,
+  vaultStatus,
+} from './vault';
+
+describe('vault', () => {
+  const messages = [{ id: 'm1', role: 'user', content: 'hello' }];
+
+  it('seals values with a key only the passphrase unlocks', async () => {
+    expect(await sealJson(messages)).toBe(messages);
+
+    await enableVault('correct horse', async () => undefined);
+
+    const sealed = await sealJson(messages);
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain('hello');
+    expect(await sealText('hello')).not.toBe(await sealText('hello'));
+    expect(await openJson(sealed)).toEqual(messages);
+
+    await lockVault();
+    expect(vaultStatus.get()).toBe('locked');
+    await expect(openJson(sealed)).rejects.toBeInstanceOf(VaultLockedError);
+    await expect(unlockVault('wrong')).rejects.toThrow('Wrong passphrase');
+
+    await unlockVault('correct horse');
+    expect(await openJson(sealed)).toEqual(messages);
+  });
+
+  it('keeps the data readable after a passphrase change and writes it in the clear when disabled', async () => {
+    const sealed = await sealJson(messages);
+
+    await changeVaultPassphrase('correct horse', 'battery staple');
+    await lockVault();
+    await expect(unlockVault('correct horse')).rejects.toThrow('Wrong passphrase');
+    await unlockVault('battery staple');
+    expect(await openJson(sealed)).toEqual(messages);
+
+    let rewritten: unknown;
+
+    await disableVault('battery staple', async () => {
+      expect(isVaultSealing()).toBe(false);
+      rewritten = await sealJson(await openJson(sealed));
+    });
+
+    expect(rewritten).toEqual(messages);
+    expect(vaultStatus.get()).toBe('disabled');
+  });
+});
@@ -0,0 +1,353 @@
+import Cookies from 'js-cookie';
+import { atom } from 'nanostores';
+import { createScopedLogger } from '~/utils/logger';
+import { getLocalStorage, setLocalStorage } from './localStorage';
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+/**
+ * What is kept about the vault in this browser. The passphrase derives a key that wraps the
+ * random data key, so changing the passphrase does not touch the encrypted data.
+ */
+export interface VaultConfig {
+  salt: string;
+  iterations: number;
+
+  // the data key, sealed with the key derived from the passphrase
+  wrappedKey: string;
+
+  // 0 keeps the vault unlocked until it is locked by hand
+  autoLockMinutes: number;
+}
+
+interface VaultKeys {
+  encryption: CryptoKey;
+  hashing: CryptoKey;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The vault is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+const logger = createScopedLogger('Vault');
+
+const VAULT_CONFIG_KEY = 'bolt_vault';
+const VAULT_API_KEYS_KEY = 'bolt_vault_api_keys';
+const API_KEYS_COOKIE = 'apiKeys';
+const SEALED_PREFIX = 'bolt-vault:1:';
+const PBKDF2_ITERATIONS = 310_000;
+const IV_LENGTH = 12;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let _config: VaultConfig | undefined = getLocalStorage(VAULT_CONFIG_KEY) ?? undefined;
+let _keys: VaultKeys | undefined;
+
+// false while the vault is being removed, the data is then read sealed and written in the clear
+let _sealing = true;
+
+export const vaultStatus = atom<VaultStatus>(_config ? 'locked' : 'disabled');
+
+export function getVaultConfig(): VaultConfig | undefined {
+  return _config;
+}
+
+function saveConfig(config: VaultConfig | undefined) {
+  _config = config;
+
+  if (config) {
+    setLocalStorage(VAULT_CONFIG_KEY, config);
+  } else if (typeof localStorage !== 'undefined') {
+    localStorage.removeItem(VAULT_CONFIG_KEY);
+  }
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function deriveWrappingKey(passphrase: string, salt: string, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+// separate keys for encryption and for hashing blobs are derived from the one data key
+async function deriveVaultKeys(dataKey: Uint8Array<ArrayBuffer>): Promise<VaultKeys> {
+  const material = await crypto.subtle.importKey('raw', dataKey, 'HKDF', false, ['deriveKey']);
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: encoder.encode(info) },
+      material,
+      algorithm,
+      false,
+      usages,
+    );
+
+  return {
+    encryption: await derive('bolt-vault-encryption', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+    hashing: await derive('bolt-vault-hashing', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']),
+  };
+}
+
+async function encryptBytes(key: CryptoKey, bytes: Uint8Array<ArrayBuffer>) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+
+  return `${SEALED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(data))}`;
+}
+
+async function decryptBytes(key: CryptoKey, sealed: string) {
+  const [iv, data] = sealed.slice(SEALED_PREFIX.length).split(':');
+  const bytes = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+
+  return new Uint8Array(bytes);
+}
+
+// the data key, or an error naming the passphrase as the culprit
+async function unwrapDataKey(config: VaultConfig, passphrase: string) {
+  const wrappingKey = await deriveWrappingKey(passphrase, config.salt, config.iterations);
+
+  try {
+    return await decryptBytes(wrappingKey, config.wrappedKey);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+}
+
+async function wrapDataKey(dataKey: Uint8Array<ArrayBuffer>, passphrase: string) {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  return { salt, iterations: PBKDF2_ITERATIONS, wrappedKey: await encryptBytes(wrappingKey, dataKey) };
+}
+
+function getKeys() {
+  if (!_keys) {
+    throw new VaultLockedError();
+  }
+
+  return _keys;
+}
+
+export function isSealed(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(SEALED_PREFIX);
+}
+
+// whether values written now have to be sealed
+export function isVaultSealing() {
+  return _sealing && vaultStatus.get() !== 'disabled';
+}
+
+/**
+ * Encrypts `text` while the vault is enabled and returns it unchanged otherwise.
+ */
+export async function sealText(text: string): Promise<string> {
+  return isVaultSealing() ? encryptBytes(getKeys().encryption, encoder.encode(text)) : text;
+}
+
+export async function openText(value: string): Promise<string> {
+  return isSealed(value) ? decoder.decode(await decryptBytes(getKeys().encryption, value)) : value;
+}
+
+export async function sealJson<T>(value: T): Promise<T | string> {
+  return isVaultSealing() ? sealText(JSON.stringify(value)) : value;
+}
+
+export async function openJson<T>(value: T | string): Promise<T> {
+  return isSealed(value) ? (JSON.parse(await openText(value)) as T) : (value as T);
+}
+
+/**
+ * Keyed digest used in place of a plain hash while the vault is enabled, so the hashes stored
+ * next to encrypted content do not reveal it.
+ */
+export async function vaultDigest(bytes: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+  return crypto.subtle.sign('HMAC', getKeys().hashing, bytes);
+}
+
+// the API keys cookie only exists while the vault is unlocked, this keeps a sealed copy of it
+async function storeApiKeys() {
+  const apiKeys = Cookies.get(API_KEYS_COOKIE);
+
+  if (apiKeys !== undefined) {
+    setLocalStorage(VAULT_API_KEYS_KEY, await encryptBytes(getKeys().encryption, encoder.encode(apiKeys)));
+  }
+}
+
+async function restoreApiKeys() {
+  const sealed = getLocalStorage(VAULT_API_KEYS_KEY);
+
+  if (isSealed(sealed)) {
+    Cookies.set(API_KEYS_COOKIE, decoder.decode(await decryptBytes(getKeys().encryption, sealed)));
+  }
+}
+
+/**
+ * Writes the API keys cookie, keeping the sealed copy up to date while the vault is unlocked.
+ */
+export async function saveApiKeys(apiKeys: Record<string, string>) {
+  Cookies.set(API_KEYS_COOKIE, JSON.stringify(apiKeys));
+
+  if (vaultStatus.get() === 'unlocked') {
+    try {
+      await storeApiKeys();
+    } catch (error) {
+      logger.error('Failed to seal the API keys', error);
+    }
+  }
+}
+
+/**
+ * Creates the vault and unlocks it. `reseal` rewrites the stored data so it ends up encrypted.
+ */
+export async function enableVault(passphrase: string, reseal: () => Promise<void>) {
+  if (_config) {
+    throw new Error('The vault is already enabled');
+  }
+
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+
+  saveConfig({ ...(await wrapDataKey(dataKey, passphrase)), autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES });
+  _keys = await deriveVaultKeys(dataKey);
+  vaultStatus.set('unlocked');
+
+  await storeApiKeys();
+  await reseal();
+}
+
+export async function unlockVault(passphrase: string) {
+  if (!_config) {
+    throw new Error('The vault is not enabled');
+  }
+
+  _keys = await deriveVaultKeys(await unwrapDataKey(_config, passphrase));
+
+  // before the app mounts again and reads the cookie
+  try {
+    await restoreApiKeys();
+  } catch (error) {
+    logger.error('Failed to restore the API keys', error);
+  }
+
+  vaultStatus.set('unlocked');
+}
+
+/**
+ * Forgets the keys and removes the API keys cookie, which is restored on unlock. Also used on
+ * load, where the cookie may have outlived the previous session.
+ */
+export async function lockVault() {
+  if (!_config) {
+    return;
+  }
+
+  if (_keys) {
+    try {
+      await storeApiKeys();
+    } catch (error) {
+      logger.error('Failed to seal the API keys', error);
+    }
+  }
+
+  Cookies.remove(API_KEYS_COOKIE);
+  _keys = undefined;
+  vaultStatus.set('locked');
+}
+
+// wraps the data key with a new passphrase, the data itself stays as it is
+export async function changeVaultPassphrase(passphrase: string, newPassphrase: string) {
+  if (!_config) {
+    throw new Error('The vault is not enabled');
+  }
+
+  const dataKey = await unwrapDataKey(_config, passphrase);
+
+  saveConfig({ ..._config, ...(await wrapDataKey(dataKey, newPassphrase)) });
+}
+
+/**
+ * Removes the vault after `reseal` rewrote the stored data in the clear. The vault stays in
+ * place if that fails, so nothing is left encrypted without a way to open it.
+ */
+export async function disableVault(passphrase: string, reseal: () => Promise<void>) {
+  if (!_config) {
+    return;
+  }
+
+  _keys = await deriveVaultKeys(await unwrapDataKey(_config, passphrase));
+  vaultStatus.set('unlocked');
+  await restoreApiKeys();
+
+  _sealing = false;
+
+  try {
+    await reseal();
+  } finally {
+    _sealing = true;
+  }
+
+  saveConfig(undefined);
+
+  if (typeof localStorage !== 'undefined') {
+    localStorage.removeItem(VAULT_API_KEYS_KEY);
+  }
+
+  _keys = undefined;
+  vaultStatus.set('disabled');
+}
+
+export function setAutoLockMinutes(minutes: number) {
+  if (_config) {
+    saveConfig({ ..._config, autoLockMinutes: minutes });
+  }
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Locks the vault after the configured time without user activity. Returns a cleanup function.
+ */
+export function startAutoLock() {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const schedule = () => {
+    clearTimeout(timer);
+
+    const minutes = _config?.autoLockMinutes ?? 0;
+
+    if (minutes > 0) {
+      timer = setTimeout(() => lockVault(), minutes * 60_000);
+    }
+  };
+
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, schedule, { passive: true }));
+  schedule();
+
+  return () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, schedule));
+  };
+}
@@ -6,6 +6,7 @@ import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
 import type { BoltShell } from '~/utils/shell';
+import { applyPatch, PatchApplyError } from '~/utils/patch';
 
 const logger = createScopedLogger('ActionRunner');
 
@@ -77,6 +78,9 @@ export class ActionRunner {
   onDeployAlert?: (alert: DeployAlert) => void;
   buildOutput?: { path: string; exitCode: number; output: string };
 
+  // files written by the file and patch actions, checked by the post-write hooks once the artifact closes
+  touchedFiles = new Set<string>();
+
   constructor(
     webcontainerPromise: Promise<WebContainer>,
     getShellTerminal: () => BoltShell,
@@ -151,6 +155,13 @@ export class ActionRunner {
     return;
   }
 
+  // completes an action that ran somewhere else without running it again
+  markAsDone({ actionId, action }: ActionCallbackData) {
+    if (!this.actions.get()[actionId]?.executed) {
+      this.#updateAction(actionId, { ...action, executed: true, status: 'complete' });
+    }
+  }
+
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
 
@@ -164,6 +175,31 @@ export class ActionRunner {
         }
         case 'file': {
           await this.#runFileAction(action);
+          this.touchedFiles.add(action.filePath);
+          break;
+        }
+        case 'patch': {
+          try {
+            await this.#runPatchAction(action);
+            this.touchedFiles.add(action.filePath);
+          } catch (error) {
+            if (!(error instanceof PatchApplyError)) {
+              throw error;
+            }
+
+            this.#updateAction(actionId, { status: 'failed', error: error.message });
+            this.onAlert?.({
+              type: 'error',
+              title: 'Patch Failed',
+              description: `${action.filePath}: ${error.message}`,
+              content: error.hunk
+                ? `Could not find these lines in ${action.filePath}:\n\n${error.hunk}`
+                : `Could not patch ${action.filePath}`,
+              source: 'patch',
+            });
+
+            return;
+          }
           break;
         }
         case 'supabase': {
@@ -376,6 +412,29 @@ export class ActionRunner {
     }
   }
 
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    let original: string;
+
+    try {
+      original = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      throw new PatchApplyError('The file does not exist, use a file action to create it');
+    }
+
+    // all hunks are anchored before anything is written, so a failed patch leaves the file untouched
+    const content = applyPatch(original, action.content);
+
+    await webcontainer.fs.writeFile(relativePath, content);
+    logger.debug(`File patched ${relativePath}`);
+  }
+
   private _detectPathologicalRepetition(content: string): { isPathological: boolean; reason: string; cleaned: string } {
     // Detect pathological patterns like:
     // - Same line repeated 50+ times
@@ -23,6 +23,22 @@ describe('StreamingMessageParser', () => {
     expect(parser.parse('test_id', 'Hello <strong>world</strong>!')).toBe('Hello <strong>world</strong>!');
   });
 
+  it('should parse patch actions and strip the diff fence', () => {
+    const onActionClose = vi.fn();
+    const parser = new StreamingMessageParser({ callbacks: { onActionClose } });
+
+    parser.parse(
+      'test_id',
+      '<boltArtifact title="Fix" id="fix"><boltAction type="patch" filePath="src/App.tsx">\n```diff\n@@ -1 +1 @@\n-a\n+b\n```\n</boltAction></boltArtifact>',
+    );
+
+    expect(onActionClose).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: { type: 'patch', filePath: 'src/App.tsx', content: '@@ -1 +1 @@\n-a\n+b' },
+      }),
+    );
+  });
+
   describe('no artifacts', () => {
     it.each<[string | string[], ExpectedResult | string]>([
       ['Foo bar', 'Foo bar'],
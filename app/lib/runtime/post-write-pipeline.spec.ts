@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getHookCommand, parsePostWriteConfig } from './post-write-pipeline';
+
+describe('post-write hooks', () => {
+  it('should parse the config with defaults and reject invalid ones', () => {
+    expect(parsePostWriteConfig('{"hooks":[{"name":"tsc","command":"npx tsc --noEmit"}]}')).toEqual({
+      hooks: [{ name: 'tsc', command: 'npx tsc --noEmit' }],
+      autoFix: false,
+    });
+    expect(parsePostWriteConfig('{"hooks":[{"name":"tsc"}]}')).toBeUndefined();
+    expect(parsePostWriteConfig('not json')).toBeUndefined();
+  });
+
+  it('should substitute the matching files into the command', () => {
+    const hook = { name: 'eslint', command: 'npx eslint --fix {files}', extensions: ['ts', '.tsx'] };
+
+    expect(getHookCommand(hook, ['src/App.tsx', 'src/index.css', "src/it's.ts"])).toBe(
+      `npx eslint --fix 'src/App.tsx' 'src/it'\\''s.ts'`,
+    );
+    expect(getHookCommand(hook, ['src/index.css'])).toBeUndefined();
+    expect(getHookCommand({ name: 'tsc', command: 'npx tsc --noEmit' }, ['src/index.css'])).toBe('npx tsc --noEmit');
+  });
+});
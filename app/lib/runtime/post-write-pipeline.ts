@@ -0,0 +1,229 @@
+import type { WebContainer } from '@webcontainer/api';
+import { z } from 'zod';
+import type { ActionAlert } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+import { path as nodePath } from '~/utils/path';
+import { cleanTerminalOutput } from '~/utils/shell';
+
+const logger = createScopedLogger('PostWritePipeline');
+
+/*
+ * Project file listing the commands to run on the files an artifact wrote, e.g.
+ *
+ * {
+ *   "hooks": [
+ *     { "name": "prettier", "command": "npx prettier --write {files}", "extensions": ["ts", "tsx", "css"] },
+ *     { "name": "eslint", "command": "npx eslint --fix {files}", "extensions": ["ts", "tsx"] },
+ *     { "name": "tsc", "command": "npx tsc --noEmit", "extensions": ["ts", "tsx"] }
+ *   ],
+ *   "autoFix": true
+ * }
+ *
+ * `{files}` is replaced by the touched files, hooks without matching files are skipped and
+ * `autoFix` sends the diagnostics back to the model instead of only showing them.
+ */
+export const POST_WRITE_CONFIG_PATH = '.bolt/hooks.json';
+
+const DEFAULT_HOOK_TIMEOUT = 60_000;
+const MAX_OUTPUT_LENGTH = 4000;
+
+// failing runs in a row that are sent back to the model, after that only the alert is shown
+const MAX_AUTO_FIX_ROUNDS = 3;
+
+const postWriteHookSchema = z.object({
+  name: z.string().min(1),
+  command: z.string().min(1),
+  extensions: z.array(z.string().min(1)).optional(),
+  timeout: z.number().positive().optional(),
+});
+
+const postWriteConfigSchema = z.object({
+  hooks: z.array(postWriteHookSchema).default([]),
+  autoFix: z.boolean().default(false),
+});
+
+export type PostWriteHook = z.infer<typeof postWriteHookSchema>;
+export type PostWriteConfig = z.infer<typeof postWriteConfigSchema>;
+
+export interface PostWriteHookResult {
+  hook: string;
+  command: string;
+  exitCode: number;
+  output: string;
+  timedOut: boolean;
+}
+
+export function parsePostWriteConfig(json: string): PostWriteConfig | undefined {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(json);
+  } catch {
+    logger.warn(`${POST_WRITE_CONFIG_PATH} is not valid JSON`);
+    return undefined;
+  }
+
+  const result = postWriteConfigSchema.safeParse(value);
+
+  if (!result.success) {
+    logger.warn(`Ignoring invalid ${POST_WRITE_CONFIG_PATH}`, result.error.issues);
+    return undefined;
+  }
+
+  return result.data;
+}
+
+const quote = (file: string) => `'${file.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Returns the command to run for `files`, or undefined when the hook does not apply to any of
+ * them.
+ */
+export function getHookCommand(hook: PostWriteHook, files: string[]) {
+  const extensions = hook.extensions?.map((extension) => (extension.startsWith('.') ? extension : `.${extension}`));
+  const matching = extensions
+    ? files.filter((file) => extensions.some((extension) => file.endsWith(extension)))
+    : files;
+
+  if (matching.length === 0) {
+    return undefined;
+  }
+
+  return hook.command.split('{files}').join(matching.map(quote).join(' '));
+}
+
+export function formatHookDiagnostics(results: PostWriteHookResult[]) {
+  return results
+    .map((result) => {
+      const status = result.timedOut ? 'timed out' : `exited with code ${result.exitCode}`;
+      let output = result.output.trim() || 'No output available';
+
+      if (output.length > MAX_OUTPUT_LENGTH) {
+        output = `...${output.slice(-MAX_OUTPUT_LENGTH)}`;
+      }
+
+      return `$ ${result.command}\n${result.hook} ${status}\n\n${output}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Runs the hooks of `.bolt/hooks.json` on the files written by an artifact. Hooks run in their
+ * own shell process rather than the bolt terminal, which usually hosts the dev server.
+ */
+export class PostWritePipeline {
+  #webcontainer: Promise<WebContainer>;
+  #autoFixRounds = 0;
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+  }
+
+  /**
+   * Returns an alert with the diagnostics of the failing hooks, or undefined when every hook
+   * passed or none is configured.
+   */
+  async run(files: string[]): Promise<ActionAlert | undefined> {
+    const webcontainer = await this.#webcontainer;
+    const config = await this.#loadConfig(webcontainer);
+
+    if (!config?.hooks.length || files.length === 0) {
+      return undefined;
+    }
+
+    const relativeFiles = [
+      ...new Set(
+        files.map((file) =>
+          nodePath.relative(
+            webcontainer.workdir,
+            nodePath.isAbsolute(file) ? file : nodePath.join(webcontainer.workdir, file),
+          ),
+        ),
+      ),
+    ];
+
+    const failures: PostWriteHookResult[] = [];
+
+    for (const hook of config.hooks) {
+      const command = getHookCommand(hook, relativeFiles);
+
+      if (!command) {
+        continue;
+      }
+
+      const result = await this.#runHook(webcontainer, hook, command);
+      logger.debug(`${hook.name} finished with exit code ${result.exitCode}`);
+
+      if (result.exitCode !== 0) {
+        failures.push(result);
+      }
+    }
+
+    if (failures.length === 0) {
+      this.#autoFixRounds = 0;
+      return undefined;
+    }
+
+    // the count stays at the cap until a passing run resets it, so a failing loop is not restarted
+    const autoSend = config.autoFix && this.#autoFixRounds < MAX_AUTO_FIX_ROUNDS;
+
+    if (autoSend) {
+      this.#autoFixRounds++;
+    }
+
+    return {
+      type: 'error',
+      title: 'Post-write Checks Failed',
+      description: `${failures.map((failure) => failure.hook).join(', ')} reported problems after writing ${relativeFiles.length} file(s)`,
+      content: formatHookDiagnostics(failures),
+      source: 'terminal',
+      autoSend,
+    };
+  }
+
+  async #loadConfig(webcontainer: WebContainer) {
+    let json: string;
+
+    try {
+      json = await webcontainer.fs.readFile(POST_WRITE_CONFIG_PATH, 'utf-8');
+    } catch {
+      // no hooks configured for this project
+      return undefined;
+    }
+
+    return parsePostWriteConfig(json);
+  }
+
+  async #runHook(webcontainer: WebContainer, hook: PostWriteHook, command: string): Promise<PostWriteHookResult> {
+    const process = await webcontainer.spawn('/bin/jsh', ['-c', command]);
+
+    let output = '';
+    process.output.pipeTo(
+      new WritableStream({
+        write(data) {
+          output += data;
+        },
+      }),
+    );
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), hook.timeout ?? DEFAULT_HOOK_TIMEOUT);
+    });
+
+    const exit = await Promise.race([process.exit, timeout]);
+    clearTimeout(timer);
+
+    if (exit === 'timeout') {
+      process.kill();
+    }
+
+    return {
+      hook: hook.name,
+      command,
+      exitCode: exit === 'timeout' ? 124 : exit,
+      output: cleanTerminalOutput(output),
+      timedOut: exit === 'timeout',
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import type { ActionAlert } from '~/types/actions';
+import { SelfHealingLoop, summarizeChanges } from './self-healing';
+
+const settings = { enabled: true, maxAttempts: 2 };
+
+const alert = (content: string): ActionAlert => ({
+  type: 'error',
+  title: 'Terminal Error',
+  description: 'npm run build failed',
+  content,
+  source: 'terminal',
+});
+
+const files = (content: string): FileMap => ({
+  '/home/project/src/App.tsx': { type: 'file', content, isBinary: false },
+});
+
+describe('SelfHealingLoop', () => {
+  it('should send fix requests until the attempts of the turn run out', () => {
+    const loop = new SelfHealingLoop();
+
+    const first = loop.next(alert('src/App.tsx:3:1 Unexpected token'), files('a\n'), settings);
+    expect(first.type).toBe('send');
+    expect(first.type === 'send' && first.message).toContain('*Auto-fix attempt 1 of 2*');
+
+    const second = loop.next(alert('src/App.tsx:9:4 Cannot find name x'), files('a\nb\n'), settings);
+    expect(second.type === 'send' && second.message).toContain('- src/App.tsx (+1 -0)');
+
+    const third = loop.next(alert('src/App.tsx:1:1 Missing semicolon'), files('a\nb\n'), settings);
+    expect(third.type === 'stop' && third.alert.description).toContain('Auto-fix stopped after 2 attempts');
+
+    loop.reset();
+    expect(loop.next(alert('src/App.tsx:1:1 Missing semicolon'), files('a\nb\n'), settings).type).toBe('send');
+  });
+
+  it('should stop when an attempt brings back the same error', () => {
+    const loop = new SelfHealingLoop();
+
+    loop.next(alert('src/App.tsx:3:1 Unexpected token'), files('a\n'), settings);
+
+    // only the position changed
+    const decision = loop.next(alert('src/App.tsx:4:2 Unexpected token'), files('b\n'), settings);
+
+    expect(decision.type).toBe('stop');
+    expect(decision.type === 'stop' && decision.alert.description).toContain('brought back the same error');
+  });
+
+  it('should ignore alerts when disabled or already handled', () => {
+    const loop = new SelfHealingLoop();
+    const error = alert('boom');
+
+    expect(loop.next(error, {}, { ...settings, enabled: false }).type).toBe('ignore');
+    expect(loop.next(error, {}, settings).type).toBe('send');
+    expect(loop.next(error, {}, settings).type).toBe('ignore');
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('should list created, deleted and changed files', () => {
+    const before: FileMap = {
+      '/home/project/a.ts': { type: 'file', content: 'x\n', isBinary: false },
+      '/home/project/b.ts': { type: 'file', content: 'y\n', isBinary: false },
+    };
+    const after: FileMap = {
+      '/home/project/a.ts': { type: 'file', content: 'x\nz\n', isBinary: false },
+      '/home/project/c.ts': { type: 'file', content: 'c\n', isBinary: false },
+    };
+
+    expect(summarizeChanges(before, after)).toEqual(['a.ts (+1 -0)', 'b.ts (deleted)', 'c.ts (created)']);
+  });
+});
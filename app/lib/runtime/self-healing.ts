@@ -0,0 +1,145 @@
+import { diffLines } from 'diff';
+import type { FileMap } from '~/lib/stores/files';
+import type { ActionAlert, SelfHealingSettings } from '~/types/actions';
+import { extractRelativePath } from '~/utils/diff';
+
+export type SelfHealingDecision =
+  { type: 'send'; message: string } | { type: 'stop'; alert: ActionAlert } | { type: 'ignore' };
+
+interface Attempt {
+  signature: string;
+
+  // the files when the fix request was sent, to summarize what the attempt changed
+  files: FileMap;
+}
+
+/**
+ * Reduces an alert to what identifies the error, so that line numbers, ports or timings that
+ * change between runs do not make a repeated error look new.
+ */
+export function getErrorSignature(alert: ActionAlert) {
+  return `${alert.source}:${alert.description}\n${alert.content}`
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 1000);
+}
+
+/**
+ * Lists the files that differ between two snapshots of the project with the number of added and
+ * removed lines, e.g. `src/App.tsx (+3 -1)`.
+ */
+export function summarizeChanges(before: FileMap, after: FileMap) {
+  const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const summary: string[] = [];
+
+  for (const path of [...paths].sort()) {
+    const previous = before[path];
+    const current = after[path];
+    const previousContent = previous?.type === 'file' && !previous.isBinary ? previous.content : undefined;
+    const currentContent = current?.type === 'file' && !current.isBinary ? current.content : undefined;
+
+    if (previousContent === currentContent) {
+      continue;
+    }
+
+    const name = extractRelativePath(path);
+
+    if (previousContent === undefined) {
+      summary.push(`${name} (created)`);
+    } else if (currentContent === undefined) {
+      summary.push(`${name} (deleted)`);
+    } else {
+      let added = 0;
+      let removed = 0;
+
+      for (const change of diffLines(previousContent, currentContent)) {
+        if (change.added) {
+          added += change.count ?? 0;
+        } else if (change.removed) {
+          removed += change.count ?? 0;
+        }
+      }
+
+      summary.push(`${name} (+${added} -${removed})`);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Decides whether a preview or terminal error is sent back to the model. Attempts are counted
+ * per turn, the loop stops once the limit is reached or an attempt brings back the same error.
+ */
+export class SelfHealingLoop {
+  #attempts: Attempt[] = [];
+  #handled = new WeakSet<ActionAlert>();
+
+  // starts a new turn, called when the user sends a message
+  reset() {
+    this.#attempts = [];
+  }
+
+  next(alert: ActionAlert, files: FileMap, settings: SelfHealingSettings): SelfHealingDecision {
+    if (
+      !settings.enabled ||
+      alert.autoSend ||
+      (alert.source !== 'preview' && alert.source !== 'terminal') ||
+      this.#handled.has(alert)
+    ) {
+      return { type: 'ignore' };
+    }
+
+    this.#handled.add(alert);
+
+    const signature = getErrorSignature(alert);
+    const previous = this.#attempts.at(-1);
+    const changes = previous ? summarizeChanges(previous.files, files) : [];
+
+    if (previous && (previous.signature === signature || this.#attempts.length >= settings.maxAttempts)) {
+      const reason =
+        previous.signature === signature
+          ? `Auto-fix stopped, attempt ${this.#attempts.length} brought back the same error`
+          : `Auto-fix stopped after ${this.#attempts.length} attempts`;
+      const lastChanges = `the last attempt changed ${changes.length ? changes.join(', ') : 'no files'}`;
+
+      const stopped: ActionAlert = {
+        ...alert,
+        description: [`${reason}, ${lastChanges}`, alert.description].filter(Boolean).join('. '),
+      };
+      this.#handled.add(stopped);
+
+      return { type: 'stop', alert: stopped };
+    }
+
+    this.#attempts.push({ signature, files });
+
+    return { type: 'send', message: this.#createFixRequest(alert, settings.maxAttempts, changes) };
+  }
+
+  #createFixRequest(alert: ActionAlert, maxAttempts: number, previousChanges: string[]) {
+    const isPreview = alert.source === 'preview';
+    const lines = [
+      `*Auto-fix attempt ${this.#attempts.length} of ${maxAttempts}*`,
+      '',
+      `The ${isPreview ? 'preview' : 'terminal'} reported an error${alert.description ? `: ${alert.description}` : ''}`,
+      `\`\`\`${isPreview ? 'js' : 'sh'}\n${alert.content}\n\`\`\``,
+    ];
+
+    if (this.#attempts.length > 1) {
+      lines.push(
+        '',
+        'The previous attempt did not fix it. It changed:',
+        ...(previousChanges.length ? previousChanges.map((change) => `- ${change}`) : ['- no files']),
+      );
+    }
+
+    lines.push('', 'Find the root cause and fix it with the smallest change. Do not repeat a fix that did not work.');
+
+    return lines.join('\n');
+  }
+}
+
+export const selfHealingLoop = new SelfHealingLoop();
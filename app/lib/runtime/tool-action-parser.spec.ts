@@ -0,0 +1,52 @@
+import type { Message } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { ToolActionParser } from './tool-action-parser';
+
+const invocation = (toolCallId: string, toolName: string, args: unknown, state = 'result') =>
+  ({ type: 'tool-invocation', toolInvocation: { toolCallId, toolName, args, state, result: 'ok' } }) as NonNullable<
+    Message['parts']
+  >[number];
+
+describe('ToolActionParser', () => {
+  it('should turn editing tool calls into actions of one artifact', () => {
+    const callbacks = {
+      onArtifactOpen: vi.fn(),
+      onArtifactClose: vi.fn(),
+      onActionOpen: vi.fn(),
+      onActionClose: vi.fn(),
+    };
+    const parser = new ToolActionParser({ callbacks, artifactElement: ({ artifactId }) => `[${artifactId}]` });
+
+    const parts = [
+      { type: 'text' as const, text: 'Adding a button' },
+      invocation('call-1', 'write_file', { filePath: 'src/Button.tsx', content: 'export {}' }),
+      invocation('call-2', 'run_shell', { command: 'npm install' }, 'partial-call'),
+      invocation('call-3', 'search_docs', { query: 'button' }),
+    ];
+
+    expect(parser.parse('msg-1', parts, false)).toBe('[msg-1-tools]');
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose).toHaveBeenCalledWith({
+      artifactId: 'msg-1-tools',
+      messageId: 'msg-1',
+      actionId: 'call-1',
+      action: { type: 'file', filePath: 'src/Button.tsx', content: 'export {}' },
+    });
+
+    parts[2] = invocation('call-2', 'run_shell', { command: 'npm install' });
+
+    expect(parser.parse('msg-1', parts, true)).toBe('');
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose).toHaveBeenCalledTimes(2);
+    expect(callbacks.onActionClose.mock.calls[1][0].action).toEqual({ type: 'shell', content: 'npm install' });
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip calls with invalid arguments', () => {
+    const onActionClose = vi.fn();
+    const parser = new ToolActionParser({ callbacks: { onActionClose } });
+
+    expect(parser.parse('msg-1', [invocation('call-1', 'write_file', { content: 'no path' })], true)).toBe('');
+    expect(onActionClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import type { Message } from 'ai';
+import { isEditingTool, toolCallToAction } from '~/lib/common/editing-tools';
+import { createScopedLogger } from '~/utils/logger';
+import { createArtifactElement, type ElementFactory, type ParserCallbacks } from './message-parser';
+
+const logger = createScopedLogger('ToolActionParser');
+
+interface MessageState {
+  artifactId?: string;
+  closed: boolean;
+  toolCallIds: Set<string>;
+}
+
+export interface ToolActionParserOptions {
+  callbacks?: ParserCallbacks;
+  artifactElement?: ElementFactory;
+}
+
+/**
+ * Counterpart of the `StreamingMessageParser` for the `tools` editing mode. Turns the editing tool
+ * calls of an assistant message into one artifact with an action per call and drives the same
+ * callbacks, so the ActionRunner cannot tell both modes apart.
+ */
+export class ToolActionParser {
+  #messages = new Map<string, MessageState>();
+
+  constructor(private _options: ToolActionParserOptions = {}) {}
+
+  /**
+   * Processes the tool calls that completed since the last call and returns the markup to append
+   * to the rendered message, which is the artifact element the first time a call is seen.
+   * `done` closes the artifact once the message is complete.
+   */
+  parse(messageId: string, parts: Message['parts'], done: boolean) {
+    let state = this.#messages.get(messageId);
+
+    if (!state) {
+      state = { closed: false, toolCallIds: new Set() };
+      this.#messages.set(messageId, state);
+    }
+
+    let output = '';
+
+    for (const part of parts ?? []) {
+      if (part.type !== 'tool-invocation') {
+        continue;
+      }
+
+      const { toolCallId, toolName, args, state: invocationState } = part.toolInvocation;
+
+      // partial calls are still streaming their arguments
+      if (!isEditingTool(toolName) || invocationState === 'partial-call' || state.toolCallIds.has(toolCallId)) {
+        continue;
+      }
+
+      state.toolCallIds.add(toolCallId);
+
+      const action = toolCallToAction(toolName, args);
+
+      if (!action) {
+        logger.warn(`Ignoring ${toolName} call with invalid arguments`, args);
+        continue;
+      }
+
+      if (!state.artifactId) {
+        state.artifactId = `${messageId}-tools`;
+
+        this._options.callbacks?.onArtifactOpen?.({ messageId, id: state.artifactId, title: 'Project Changes' });
+
+        const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+        output += artifactFactory({ messageId, artifactId: state.artifactId });
+      }
+
+      const actionData = { artifactId: state.artifactId, messageId, actionId: toolCallId, action };
+
+      this._options.callbacks?.onActionOpen?.(actionData);
+      this._options.callbacks?.onActionClose?.(actionData);
+    }
+
+    if (done && state.artifactId && !state.closed) {
+      state.closed = true;
+      this._options.callbacks?.onArtifactClose?.({
+        messageId,
+        id: state.artifactId,
+        artifactId: state.artifactId,
+        title: 'Project Changes',
+      });
+    }
+
+    return output;
+  }
+
+  reset() {
+    this.#messages.clear();
+  }
+}
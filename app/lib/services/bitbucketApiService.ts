@@ -0,0 +1,158 @@
+import type { GitHostBranch, GitHostCommit, GitHostProvider, GitHostRepository, GitHostUser } from './gitHostProvider';
+
+interface BitbucketRepository {
+  full_name: string;
+  name: string;
+  description: string;
+  is_private: boolean;
+  updated_on: string;
+  mainbranch: { name: string } | null;
+  links: { html: { href: string } };
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+function toGitHostRepository(repo: BitbucketRepository): GitHostRepository {
+  return {
+    fullName: repo.full_name,
+    name: repo.name,
+    description: repo.description || undefined,
+    private: repo.is_private,
+    defaultBranch: repo.mainbranch?.name || 'main',
+
+    // the clone links carry the username, credentials come from the saved git auth instead
+    cloneUrl: `https://bitbucket.org/${repo.full_name}.git`,
+    webUrl: repo.links.html.href,
+    updatedAt: repo.updated_on,
+  };
+}
+
+/**
+ * Bitbucket Cloud REST API 2.0. With a username the token is an app password or API token sent
+ * with basic auth, without one it is an access token.
+ */
+export class BitbucketApiService implements GitHostProvider {
+  private _baseUrl = 'https://api.bitbucket.org/2.0';
+  private _token: string;
+  private _username?: string;
+
+  constructor(token: string, username?: string) {
+    this._token = token;
+    this._username = username;
+  }
+
+  private get _authorization() {
+    return this._username ? `Basic ${btoa(`${this._username}:${this._token}`)}` : `Bearer ${this._token}`;
+  }
+
+  private async _request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const url = endpoint.startsWith('https://') ? endpoint : `${this._baseUrl}${endpoint}`;
+    const response = await fetch(url, {
+      ...options,
+      headers: { Accept: 'application/json', Authorization: this._authorization, ...options.headers },
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as { error?: { message?: string } };
+      const error = new Error(`Bitbucket API error: ${errorData.error?.message || response.statusText}`);
+
+      throw Object.assign(error, { status: response.status });
+    }
+
+    // commits answer with an empty body
+    const text = await response.text();
+
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  private async _getAll<T>(endpoint: string, maxPages = 10): Promise<T[]> {
+    const values: T[] = [];
+    let next: string | undefined = endpoint;
+
+    for (let page = 0; next && page < maxPages; page++) {
+      const result: BitbucketPage<T> = await this._request<BitbucketPage<T>>(next);
+
+      values.push(...result.values);
+      next = result.next;
+    }
+
+    return values;
+  }
+
+  async getAccount(): Promise<GitHostUser> {
+    const user = await this._request<{
+      username: string;
+      display_name: string;
+      links: { avatar: { href: string }; html: { href: string } };
+    }>('/user');
+
+    return {
+      username: user.username,
+      name: user.display_name,
+      avatarUrl: user.links.avatar.href,
+      webUrl: user.links.html.href,
+    };
+  }
+
+  async listRepositories(): Promise<GitHostRepository[]> {
+    const repos = await this._getAll<BitbucketRepository>('/repositories?role=member&sort=-updated_on&pagelen=100');
+
+    return repos.map(toGitHostRepository);
+  }
+
+  async findRepository(fullName: string): Promise<GitHostRepository | null> {
+    try {
+      return toGitHostRepository(await this._request<BitbucketRepository>(`/repositories/${fullName}`));
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async listBranches(fullName: string): Promise<GitHostBranch[]> {
+    const [repo, branches] = await Promise.all([
+      this._request<BitbucketRepository>(`/repositories/${fullName}`),
+      this._getAll<{ name: string; target: { hash: string } }>(`/repositories/${fullName}/refs/branches?pagelen=100`),
+    ]);
+
+    return branches.map((branch) => ({
+      name: branch.name,
+      sha: branch.target.hash,
+      protected: false,
+      isDefault: branch.name === repo.mainbranch?.name,
+    }));
+  }
+
+  async createRepository(name: string, isPrivate: boolean): Promise<GitHostRepository> {
+    const { username } = await this.getAccount();
+
+    // repositories live in a workspace, the personal one is named after the user
+    const repo = await this._request<BitbucketRepository>(`/repositories/${username}/${name}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scm: 'git', is_private: isPrivate, description: 'Project created from Bolt.diy' }),
+    });
+
+    return toGitHostRepository(repo);
+  }
+
+  async pushFiles(fullName: string, { branch, files, message }: GitHostCommit): Promise<void> {
+    // the src endpoint commits every form field named after a path, creating the branch if needed
+    const form = new FormData();
+
+    form.append('message', message);
+    form.append('branch', branch);
+
+    for (const [filePath, content] of Object.entries(files)) {
+      form.append(filePath, new Blob([content]), filePath);
+    }
+
+    await this._request(`/repositories/${fullName}/src`, { method: 'POST', body: form });
+  }
+}
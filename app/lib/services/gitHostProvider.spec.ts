@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  pushToGitHost,
+  repositoryName,
+  splitFullName,
+  type GitHostProvider,
+  type GitHostRepository,
+} from './gitHostProvider';
+
+function repository(fullName: string): GitHostRepository {
+  const { name } = splitFullName(fullName);
+
+  return { fullName, name, private: true, defaultBranch: 'main', cloneUrl: '', webUrl: '' };
+}
+
+function fakeProvider(existing: string[]) {
+  return {
+    getAccount: vi.fn(async () => ({ username: 'octo' })),
+    listRepositories: vi.fn(),
+    findRepository: vi.fn(async (fullName: string) => (existing.includes(fullName) ? repository(fullName) : null)),
+    listBranches: vi.fn(),
+    createRepository: vi.fn(async (name: string) => repository(`octo/${name}`)),
+    pushFiles: vi.fn(async () => undefined),
+  } satisfies GitHostProvider;
+}
+
+describe('gitHostProvider', () => {
+  it('should name repositories the way hosts accept', () => {
+    expect(repositoryName(' My App (v2) ')).toBe('my-app-v2');
+    expect(repositoryName('...')).toBe('bolt-project');
+    expect(splitFullName('group/sub/app')).toEqual({ owner: 'group/sub', name: 'app' });
+  });
+
+  it('should create the repository only when the account does not have it', async () => {
+    const files = { 'index.html': '<html></html>' };
+    const provider = fakeProvider(['octo/existing']);
+
+    expect(await pushToGitHost(provider, { name: 'new app', isPrivate: true, files })).toMatchObject({ created: true });
+    expect(provider.createRepository).toHaveBeenCalledWith('new-app', true);
+    expect(provider.pushFiles).toHaveBeenLastCalledWith('octo/new-app', {
+      branch: 'main',
+      files,
+      message: 'Initial commit from Bolt.diy',
+    });
+
+    expect(await pushToGitHost(provider, { name: 'Existing', isPrivate: true, files })).toMatchObject({
+      created: false,
+    });
+    expect(provider.createRepository).toHaveBeenCalledTimes(1);
+    expect(provider.pushFiles).toHaveBeenLastCalledWith(
+      'octo/existing',
+      expect.objectContaining({ message: 'Update from Bolt.diy' }),
+    );
+  });
+});
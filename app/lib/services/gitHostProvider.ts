@@ -0,0 +1,100 @@
+/**
+ * What importing from and deploying to a git host needs from its API. GitHub and GitLab implement
+ * it on their API services next to their own features, Bitbucket and Gitea/Forgejo are integrated
+ * through it alone.
+ */
+
+export type GitHostId = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export interface GitHostUser {
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+  webUrl?: string;
+}
+
+export interface GitHostRepository {
+  // `owner/name`, repositories are addressed by it, nested namespaces included
+  fullName: string;
+  name: string;
+  description?: string;
+  private: boolean;
+  defaultBranch: string;
+  cloneUrl: string;
+  webUrl: string;
+  updatedAt?: string;
+}
+
+export interface GitHostBranch {
+  name: string;
+  sha: string;
+  protected: boolean;
+  isDefault: boolean;
+}
+
+export interface GitHostCommit {
+  branch: string;
+  files: Record<string, string>;
+  message: string;
+}
+
+export interface GitHostProvider {
+  getAccount(): Promise<GitHostUser>;
+  listRepositories(): Promise<GitHostRepository[]>;
+
+  // `null` when the repository does not exist or is not visible to the account
+  findRepository(fullName: string): Promise<GitHostRepository | null>;
+  listBranches(fullName: string): Promise<GitHostBranch[]>;
+
+  // a repository of the account, with its default branch initialized when the host allows it
+  createRepository(name: string, isPrivate: boolean): Promise<GitHostRepository>;
+
+  // commits `files` on top of the branch, creating or updating each of them
+  pushFiles(fullName: string, commit: GitHostCommit): Promise<void>;
+}
+
+export function splitFullName(fullName: string) {
+  const index = fullName.lastIndexOf('/');
+
+  return { owner: fullName.substring(0, index), name: fullName.substring(index + 1) };
+}
+
+/*
+ * a repository name the hosts accept, they all allow letters, digits, `-`, `_` and `.`, lowercased
+ * because Bitbucket only addresses repositories by their lowercase slug
+ */
+export function repositoryName(name: string) {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^[-.]+|[-.]+$/g, '') || 'bolt-project'
+  );
+}
+
+/**
+ * Pushes `files` to the account's repository `name` on its default branch, creating the repository
+ * when it does not exist yet.
+ */
+export async function pushToGitHost(
+  provider: GitHostProvider,
+  options: { name: string; isPrivate: boolean; files: Record<string, string>; message?: string },
+): Promise<{ repository: GitHostRepository; created: boolean }> {
+  const account = await provider.getAccount();
+  const name = repositoryName(options.name);
+  let repository = await provider.findRepository(`${account.username}/${name}`);
+  const created = !repository;
+
+  if (!repository) {
+    repository = await provider.createRepository(name, options.isPrivate);
+  }
+
+  await provider.pushFiles(repository.fullName, {
+    branch: repository.defaultBranch,
+    files: options.files,
+    message: options.message || (created ? 'Initial commit from Bolt.diy' : 'Update from Bolt.diy'),
+  });
+
+  return { repository, created };
+}
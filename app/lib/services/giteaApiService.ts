@@ -0,0 +1,184 @@
+import { Buffer } from 'node:buffer';
+import type { GitHostBranch, GitHostCommit, GitHostProvider, GitHostRepository, GitHostUser } from './gitHostProvider';
+
+interface GiteaRepository {
+  full_name: string;
+  name: string;
+  description: string;
+  private: boolean;
+  default_branch: string;
+  clone_url: string;
+  html_url: string;
+  updated_at: string;
+}
+
+interface GiteaTree {
+  tree: { path: string; type: 'blob' | 'tree' | 'commit'; sha: string }[];
+  truncated: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+function toGitHostRepository(repo: GiteaRepository): GitHostRepository {
+  return {
+    fullName: repo.full_name,
+    name: repo.name,
+    description: repo.description || undefined,
+    private: repo.private,
+    defaultBranch: repo.default_branch || 'main',
+    cloneUrl: repo.clone_url,
+    webUrl: repo.html_url,
+    updatedAt: repo.updated_at,
+  };
+}
+
+/**
+ * Gitea REST API v1, which Forgejo serves unchanged. The instance has to allow cross-origin
+ * requests from this app, see `[cors]` in its app.ini.
+ */
+export class GiteaApiService implements GitHostProvider {
+  private _baseUrl: string;
+  private _token: string;
+
+  constructor(token: string, baseUrl: string) {
+    this._token = token;
+    this._baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async _request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this._baseUrl}/api/v1${endpoint}`, {
+      ...options,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: `token ${this._token}`,
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as { message?: string };
+      const error = new Error(`Gitea API error: ${errorData.message || response.statusText}`);
+
+      throw Object.assign(error, { status: response.status });
+    }
+
+    return response.json();
+  }
+
+  private async _getAll<T>(endpoint: string, maxPages = 10): Promise<T[]> {
+    const values: T[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+
+    for (let page = 1; page <= maxPages; page++) {
+      const items = await this._request<T[]>(`${endpoint}${separator}limit=${PAGE_SIZE}&page=${page}`);
+
+      values.push(...items);
+
+      if (items.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return values;
+  }
+
+  async getAccount(): Promise<GitHostUser> {
+    const user = await this._request<{ login: string; full_name: string; avatar_url: string; html_url: string }>(
+      '/user',
+    );
+
+    return {
+      username: user.login,
+      name: user.full_name || undefined,
+      avatarUrl: user.avatar_url,
+      webUrl: user.html_url,
+    };
+  }
+
+  async listRepositories(): Promise<GitHostRepository[]> {
+    return (await this._getAll<GiteaRepository>('/user/repos')).map(toGitHostRepository);
+  }
+
+  async findRepository(fullName: string): Promise<GitHostRepository | null> {
+    try {
+      return toGitHostRepository(await this._request<GiteaRepository>(`/repos/${fullName}`));
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async listBranches(fullName: string): Promise<GitHostBranch[]> {
+    const [repo, branches] = await Promise.all([
+      this._request<GiteaRepository>(`/repos/${fullName}`),
+      this._getAll<{ name: string; commit: { id: string }; protected: boolean }>(`/repos/${fullName}/branches`),
+    ]);
+
+    return branches.map((branch) => ({
+      name: branch.name,
+      sha: branch.commit.id,
+      protected: branch.protected,
+      isDefault: branch.name === repo.default_branch,
+    }));
+  }
+
+  async createRepository(name: string, isPrivate: boolean): Promise<GitHostRepository> {
+    // initialized with a readme, the contents API cannot commit to an empty repository
+    const repo = await this._request<GiteaRepository>('/user/repos', {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        private: isPrivate,
+        auto_init: true,
+        readme: 'Default',
+        default_branch: 'main',
+        description: 'Project created from Bolt.diy',
+      }),
+    });
+
+    return toGitHostRepository(repo);
+  }
+
+  // the blob shas of the files on `branch`, which updating a file through the contents API requires
+  private async _getFileShas(fullName: string, branch: string): Promise<Map<string, string>> {
+    const shas = new Map<string, string>();
+
+    for (let page = 1; ; page++) {
+      const { tree, truncated } = await this._request<GiteaTree>(
+        `/repos/${fullName}/git/trees/${encodeURIComponent(branch)}?recursive=true&per_page=1000&page=${page}`,
+      );
+
+      for (const entry of tree) {
+        if (entry.type === 'blob') {
+          shas.set(entry.path, entry.sha);
+        }
+      }
+
+      if (!truncated) {
+        return shas;
+      }
+    }
+  }
+
+  async pushFiles(fullName: string, { branch, files, message }: GitHostCommit): Promise<void> {
+    const shas = await this._getFileShas(fullName, branch);
+
+    await this._request(`/repos/${fullName}/contents`, {
+      method: 'POST',
+      body: JSON.stringify({
+        branch,
+        message,
+        files: Object.entries(files).map(([filePath, content]) => ({
+          operation: shas.has(filePath) ? 'update' : 'create',
+          path: filePath,
+          content: Buffer.from(content).toString('base64'),
+          sha: shas.get(filePath),
+        })),
+      }),
+    });
+  }
+}
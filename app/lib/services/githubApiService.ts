@@ -5,7 +5,16 @@ import type {
   GitHubOrganization,
   GitHubStats,
   GitHubLanguageStats,
+  GitHubPullRequest,
 } from '~/types/GitHub';
+import {
+  splitFullName,
+  type GitHostBranch,
+  type GitHostCommit,
+  type GitHostProvider,
+  type GitHostRepository,
+  type GitHostUser,
+} from './gitHostProvider';
 
 export interface GitHubApiServiceConfig {
   token?: string;
@@ -26,7 +35,24 @@ export interface GitHubApiError {
   code?: string;
 }
 
-export class GitHubApiServiceClass {
+interface GitRef {
+  object: { sha: string };
+}
+
+function toGitHostRepository(repo: GitHubRepoInfo): GitHostRepository {
+  return {
+    fullName: repo.full_name,
+    name: repo.name,
+    description: repo.description,
+    private: !!repo.private,
+    defaultBranch: repo.default_branch,
+    cloneUrl: `${repo.html_url}.git`,
+    webUrl: repo.html_url,
+    updatedAt: repo.updated_at,
+  };
+}
+
+export class GitHubApiServiceClass implements GitHostProvider {
   private _config: GitHubApiServiceConfig;
   private _baseURL: string;
 
@@ -71,6 +97,10 @@ export class GitHubApiServiceClass {
     return response.json();
   }
 
+  private _json(method: string, body: unknown): RequestInit {
+    return { method, body: JSON.stringify(body) };
+  }
+
   /**
    * Fetch all user repositories with pagination
    */
@@ -130,6 +160,156 @@ export class GitHubApiServiceClass {
     return this._makeRequestInternal<GitHubBranch[]>(`/repos/${owner}/${repo}/branches`);
   }
 
+  /**
+   * Commits `files` on top of `branch`, which is created from `baseBranch` when it does not exist
+   * yet. Returns the sha of the new commit.
+   */
+  async commitFiles(
+    owner: string,
+    repo: string,
+    options: {
+      branch: string;
+      baseBranch: string;
+      files: Record<string, string>;
+      message: string;
+
+      // paths the commit removes
+      deletions?: string[];
+    },
+  ): Promise<string> {
+    const { branch, baseBranch, files, message, deletions = [] } = options;
+    const path = `/repos/${owner}/${repo}/git`;
+    let parentSha: string;
+
+    try {
+      parentSha = (await this._makeRequestInternal<GitRef>(`${path}/ref/heads/${branch}`)).object.sha;
+    } catch (error) {
+      if ((error as GitHubApiError).status !== 404) {
+        throw error;
+      }
+
+      parentSha = (await this._makeRequestInternal<GitRef>(`${path}/ref/heads/${baseBranch}`)).object.sha;
+      await this._makeRequestInternal(
+        `${path}/refs`,
+        this._json('POST', { ref: `refs/heads/${branch}`, sha: parentSha }),
+      );
+    }
+
+    const parent = await this._makeRequestInternal<{ tree: { sha: string } }>(`${path}/commits/${parentSha}`);
+    const tree = await this._makeRequestInternal<{ sha: string }>(
+      `${path}/trees`,
+      this._json('POST', {
+        base_tree: parent.tree.sha,
+        tree: [
+          ...Object.entries(files).map(([filePath, content]) => ({
+            path: filePath,
+            mode: '100644',
+            type: 'blob',
+            content,
+          })),
+
+          // an entry without a sha removes the path from the base tree
+          ...deletions.map((filePath) => ({ path: filePath, mode: '100644', type: 'blob', sha: null })),
+        ],
+      }),
+    );
+    const commit = await this._makeRequestInternal<{ sha: string }>(
+      `${path}/commits`,
+      this._json('POST', { message, tree: tree.sha, parents: [parentSha] }),
+    );
+
+    await this._makeRequestInternal(`${path}/refs/heads/${branch}`, this._json('PATCH', { sha: commit.sha }));
+
+    return commit.sha;
+  }
+
+  // the paths of all files on `ref`, to find the files a commit removes
+  async getFilePaths(owner: string, repo: string, ref: string): Promise<string[]> {
+    const { tree } = await this._makeRequestInternal<{ tree: { path: string; type: 'blob' | 'tree' | 'commit' }[] }>(
+      `/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+    );
+
+    return tree.filter((entry) => entry.type === 'blob').map((entry) => entry.path);
+  }
+
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    pullRequest: { title: string; body: string; head: string; base: string },
+  ): Promise<GitHubPullRequest> {
+    return this._makeRequestInternal<GitHubPullRequest>(
+      `/repos/${owner}/${repo}/pulls`,
+      this._json('POST', pullRequest),
+    );
+  }
+
+  async getPullRequest(owner: string, repo: string, number: number): Promise<GitHubPullRequest> {
+    return this._makeRequestInternal<GitHubPullRequest>(`/repos/${owner}/${repo}/pulls/${number}`);
+  }
+
+  async updatePullRequest(
+    owner: string,
+    repo: string,
+    number: number,
+    changes: { title?: string; body?: string },
+  ): Promise<GitHubPullRequest> {
+    return this._makeRequestInternal<GitHubPullRequest>(
+      `/repos/${owner}/${repo}/pulls/${number}`,
+      this._json('PATCH', changes),
+    );
+  }
+
+  async getAccount(): Promise<GitHostUser> {
+    const user = await this.getAuthenticatedUser();
+
+    return { username: user.login, name: user.name, avatarUrl: user.avatar_url, webUrl: user.html_url };
+  }
+
+  async listRepositories(): Promise<GitHostRepository[]> {
+    return (await this.getAllUserRepositories()).map(toGitHostRepository);
+  }
+
+  async findRepository(fullName: string): Promise<GitHostRepository | null> {
+    try {
+      return toGitHostRepository(await this._makeRequestInternal<GitHubRepoInfo>(`/repos/${fullName}`));
+    } catch (error) {
+      if ((error as GitHubApiError).status === 404) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async listBranches(fullName: string): Promise<GitHostBranch[]> {
+    const [repo, branches] = await Promise.all([
+      this._makeRequestInternal<GitHubRepoInfo>(`/repos/${fullName}`),
+      this._makeRequestInternal<(GitHubBranch & { protected?: boolean })[]>(`/repos/${fullName}/branches?per_page=100`),
+    ]);
+
+    return branches.map((branch) => ({
+      name: branch.name,
+      sha: branch.commit.sha,
+      protected: !!branch.protected,
+      isDefault: branch.name === repo.default_branch,
+    }));
+  }
+
+  async createRepository(name: string, isPrivate: boolean): Promise<GitHostRepository> {
+    const repo = await this._makeRequestInternal<GitHubRepoInfo>(
+      '/user/repos',
+      this._json('POST', { name, private: isPrivate, auto_init: true }),
+    );
+
+    return toGitHostRepository(repo);
+  }
+
+  async pushFiles(fullName: string, { branch, files, message }: GitHostCommit): Promise<void> {
+    const { owner, name } = splitFullName(fullName);
+
+    await this.commitFiles(owner, name, { branch, baseBranch: branch, files, message });
+  }
+
   /**
    * Get contributors count using Link header pagination info
    */
@@ -5,7 +5,9 @@ import type {
   GitLabGroupInfo,
   GitLabProjectResponse,
   GitLabCommitRequest,
+  GitLabMergeRequest,
 } from '~/types/GitLab';
+import type { GitHostBranch, GitHostCommit, GitHostProvider, GitHostRepository, GitHostUser } from './gitHostProvider';
 
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
@@ -93,7 +95,20 @@ async function fetchWithRetry(url: string, options: RequestInit, maxRetries = 3)
   throw lastError!;
 }
 
-export class GitLabApiService {
+function toGitHostRepository(project: GitLabProjectInfo | GitLabProjectResponse): GitHostRepository {
+  return {
+    fullName: project.path_with_namespace,
+    name: project.name,
+    description: project.description,
+    private: project.visibility !== 'public',
+    defaultBranch: project.default_branch || 'main',
+    cloneUrl: project.http_url_to_repo,
+    webUrl: 'web_url' in project ? project.web_url : project.http_url_to_repo.replace(/\.git$/, ''),
+    updatedAt: project.updated_at,
+  };
+}
+
+export class GitLabApiService implements GitHostProvider {
   private _baseUrl: string;
   private _token: string;
 
@@ -380,6 +395,79 @@ export class GitLabApiService {
     return await response.json();
   }
 
+  async branchExists(projectId: number, branchName: string): Promise<boolean> {
+    const response = await this._request(
+      `/projects/${projectId}/repository/branches/${encodeURIComponent(branchName)}`,
+    );
+
+    return response.ok;
+  }
+
+  // the paths of all files on `ref`, to tell files to create from files to update in a commit
+  async getFilePaths(projectId: number, ref: string): Promise<string[]> {
+    const paths: string[] = [];
+    const perPage = 100;
+
+    for (let page = 1; ; page++) {
+      const response = await this._request(
+        `/projects/${projectId}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}&per_page=${perPage}&page=${page}`,
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to list files: ${response.status} ${response.statusText}`);
+      }
+
+      const entries = (await response.json()) as { path: string; type: 'blob' | 'tree' }[];
+      paths.push(...entries.filter((entry) => entry.type === 'blob').map((entry) => entry.path));
+
+      if (entries.length < perPage) {
+        return paths;
+      }
+    }
+  }
+
+  async createMergeRequest(
+    projectId: number,
+    mergeRequest: { title: string; description: string; source_branch: string; target_branch: string },
+  ): Promise<GitLabMergeRequest> {
+    const response = await this._request(`/projects/${projectId}/merge_requests`, {
+      method: 'POST',
+      body: JSON.stringify({ ...mergeRequest, remove_source_branch: true }),
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as { message?: string | string[] };
+      const detail = Array.isArray(errorData.message) ? errorData.message.join(', ') : errorData.message;
+
+      throw new Error(`Failed to create merge request: ${detail || response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  async getMergeRequest(projectId: number, iid: number): Promise<GitLabMergeRequest | null> {
+    const response = await this._request(`/projects/${projectId}/merge_requests/${iid}`);
+
+    return response.ok ? await response.json() : null;
+  }
+
+  async updateMergeRequest(
+    projectId: number,
+    iid: number,
+    changes: { title?: string; description?: string },
+  ): Promise<GitLabMergeRequest> {
+    const response = await this._request(`/projects/${projectId}/merge_requests/${iid}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update merge request: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
   async getFile(projectId: number, filePath: string, ref: string): Promise<Response> {
     return this._request(`/projects/${projectId}/repository/files/${encodeURIComponent(filePath)}?ref=${ref}`);
   }
@@ -503,6 +591,71 @@ export class GitLabApiService {
       }
     }
   }
+
+  async getAccount(): Promise<GitHostUser> {
+    const user = await this.getUser();
+
+    return { username: user.username, name: user.name, avatarUrl: user.avatar_url, webUrl: user.web_url };
+  }
+
+  async listRepositories(): Promise<GitHostRepository[]> {
+    return (await this.getProjects()).map(toGitHostRepository);
+  }
+
+  async findRepository(fullName: string): Promise<GitHostRepository | null> {
+    const project = await this.getProjectByPath(fullName);
+
+    return project ? toGitHostRepository(project) : null;
+  }
+
+  async listBranches(fullName: string): Promise<GitHostBranch[]> {
+    const response = await this._request(`/projects/${encodeURIComponent(fullName)}/repository/branches?per_page=100`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch branches: ${response.status} ${response.statusText}`);
+    }
+
+    const branches = (await response.json()) as {
+      name: string;
+      commit: { id: string };
+      protected: boolean;
+      default: boolean;
+    }[];
+
+    return branches.map((branch) => ({
+      name: branch.name,
+      sha: branch.commit.id,
+      protected: branch.protected,
+      isDefault: branch.default,
+    }));
+  }
+
+  async createRepository(name: string, isPrivate: boolean): Promise<GitHostRepository> {
+    return toGitHostRepository(await this.createProject(name, isPrivate));
+  }
+
+  async pushFiles(fullName: string, { branch, files, message }: GitHostCommit): Promise<void> {
+    const project = await this.getProjectByPath(fullName);
+
+    if (!project) {
+      throw new Error(`Project ${fullName} not found`);
+    }
+
+    // a new project has no branch yet, the commit creates it
+    const paths = new Set(
+      (await this.branchExists(project.id, branch)) ? await this.getFilePaths(project.id, branch) : [],
+    );
+
+    await this.commitFiles(project.id, {
+      branch,
+      commit_message: message,
+      actions: Object.entries(files).map(([filePath, content]) => ({
+        action: paths.has(filePath) ? 'update' : 'create',
+        file_path: filePath,
+        content,
+      })),
+    });
+  }
 }
 
 export { gitlabCache };
@@ -1,60 +1,54 @@
 import Cookies from 'js-cookie';
-import { type Message } from 'ai';
-import { getAllChats, deleteChat } from '~/lib/persistence/chats';
-
-interface ExtendedMessage extends Message {
-  name?: string;
-  function_call?: any;
-  timestamp?: number;
-}
+import { createBundle, writeBundle } from '~/lib/persistence/bundle';
+import { getAllStoredChats } from '~/lib/persistence/chats';
+import { deleteById, emptyTrash, getArchivedChats, purgeChat } from '~/lib/persistence/db';
 
 /**
  * Service for handling import and export operations of application data
  */
 export class ImportExportService {
   /**
-   * Export all chats to a JSON file
+   * Export chats to a `.bolt` bundle
    * @param db The IndexedDB database instance
-   * @returns A promise that resolves to the export data
+   * @param chatIds The ids of the chats to export
+   * @param options.decrypt Decrypt the messages and files of the chats, they stay sealed by the vault otherwise
+   * @returns A promise that resolves to the zipped bundle
    */
-  static async exportAllChats(db: IDBDatabase): Promise<{ chats: any[]; exportDate: string }> {
+  static async exportChats(
+    db: IDBDatabase,
+    chatIds: string[],
+    { decrypt = false }: { decrypt?: boolean } = {},
+  ): Promise<Uint8Array> {
     if (!db) {
       throw new Error('Database not initialized');
     }
 
     try {
-      // Get all chats from the database using the getAllChats helper
-      const chats = await getAllChats(db);
-
-      // Validate and sanitize each chat before export
-      const sanitizedChats = chats.map((chat) => ({
-        id: chat.id,
-        description: chat.description || '',
-        messages: chat.messages.map((msg: ExtendedMessage) => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          name: msg.name,
-          function_call: msg.function_call,
-          timestamp: msg.timestamp,
-        })),
-        timestamp: chat.timestamp,
-        urlId: chat.urlId || null,
-        metadata: chat.metadata || null,
-      }));
-
-      console.log(`Successfully prepared ${sanitizedChats.length} chats for export`);
+      const bundle = await createBundle(db, chatIds);
 
-      return {
-        chats: sanitizedChats,
-        exportDate: new Date().toISOString(),
-      };
+      return await writeBundle(bundle, { seal: !decrypt });
     } catch (error) {
       console.error('Error exporting chats:', error);
       throw new Error(`Failed to export chats: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Export all chats to a `.bolt` bundle
+   * @param db The IndexedDB database instance
+   * @param options.decrypt Decrypt the messages and files of the chats, they stay sealed by the vault otherwise
+   * @returns A promise that resolves to the zipped bundle
+   */
+  static async exportAllChats(db: IDBDatabase, options: { decrypt?: boolean } = {}): Promise<Uint8Array> {
+    const chats = await getAllStoredChats(db);
+
+    return ImportExportService.exportChats(
+      db,
+      chats.map((chat) => chat.id),
+      options,
+    );
+  }
+
   /**
    * Export application settings to a JSON file
    * @returns A promise that resolves to the settings data
@@ -322,11 +316,18 @@ export class ImportExportService {
     if (!db) {
       console.warn('Database not initialized, skipping IndexedDB reset');
     } else {
-      // Get all chats and delete them
-      const chats = await getAllChats(db);
+      // Get all chats, including the trashed and archived ones, and delete them for good
+      const chats = await getAllStoredChats(db);
+
+      for (const chat of chats) {
+        await purgeChat(db, chat.id);
+      }
 
-      const deletePromises = chats.map((chat) => deleteChat(db, chat.id));
-      await Promise.all(deletePromises);
+      for (const archived of await getArchivedChats(db)) {
+        await purgeChat(db, archived.id);
+      }
+
+      await emptyTrash(db);
     }
 
     // 4. Clear any chat snapshots
@@ -341,7 +342,7 @@ export class ImportExportService {
   }
 
   /**
-   * Delete all chats from the database
+   * Move all chats to the trash
    * @param db The IndexedDB database instance
    */
   static async deleteAllChats(db: IDBDatabase): Promise<void> {
@@ -353,10 +354,12 @@ export class ImportExportService {
       throw new Error('Database not initialized');
     }
 
-    // Get all chats and delete them one by one
-    const chats = await getAllChats(db);
-    const deletePromises = chats.map((chat) => deleteChat(db, chat.id));
-    await Promise.all(deletePromises);
+    // Get all chats and move them to the trash one by one, their snapshots stay until they are purged
+    const chats = await getAllStoredChats(db);
+
+    for (const chat of chats) {
+      await deleteById(db, chat.id);
+    }
   }
 
   // Private helper methods
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { describePullRequest, getProjectPaths, getRemovedPaths, pullRequestBranch } from './pullRequestService';
+
+describe('pullRequestService', () => {
+  it('should describe the changes of a chat', () => {
+    const { title, body } = describePullRequest({
+      chatTitle: 'Todo app',
+      changes: ['Add todo list', 'Add todo list', ' '],
+      files: ['src/App.tsx', 'package.json'],
+    });
+
+    expect(title).toBe('Todo app');
+    expect(body).toContain('## Changes\n- Add todo list\n\n');
+    expect(body).toContain('## Files (2)\n- `src/App.tsx`\n- `package.json`');
+    expect(describePullRequest({ changes: ['Fix the header'], files: [] }).title).toBe('Fix the header');
+  });
+
+  it('should name a feature branch after the title', () => {
+    const now = new Date('2026-03-04T05:06:07Z');
+
+    expect(pullRequestBranch('Add a dark mode!', now)).toBe('bolt/add-a-dark-mode-202603040506');
+    expect(pullRequestBranch('???', now)).toBe('bolt/changes-202603040506');
+  });
+
+  it('should remove the files the project no longer has', () => {
+    const projectPaths = getProjectPaths({
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/App.tsx': { type: 'file', content: '', isBinary: false },
+      '/home/project/logo.png': { type: 'file', content: '', isBinary: true },
+    });
+
+    expect(projectPaths).toEqual(['src/App.tsx', 'logo.png']);
+    expect(getRemovedPaths(['src/App.tsx', 'src/Old.tsx', 'logo.png'], projectPaths)).toEqual(['src/Old.tsx']);
+  });
+});
@@ -0,0 +1,204 @@
+import type { ChatPullRequest } from '~/lib/persistence/db';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+import type { GitLabProjectResponse } from '~/types/GitLab';
+import { gitHubApiService } from './githubApiService';
+import type { GitLabApiService } from './gitlabApiService';
+
+export interface PullRequestText {
+  title: string;
+  body: string;
+}
+
+const BRANCH_PREFIX = 'bolt/';
+const MAX_LISTED_FILES = 50;
+
+/**
+ * Title and description of a pull request for a chat, from its title, the titles of the changes
+ * made in it and the files pushed.
+ */
+export function describePullRequest(options: {
+  chatTitle?: string;
+  changes: string[];
+  files: string[];
+}): PullRequestText {
+  const { chatTitle, files } = options;
+  const changes = [...new Set(options.changes.map((change) => change.trim()).filter(Boolean))];
+  const title = chatTitle?.trim() || changes[changes.length - 1] || 'Changes from Bolt.diy';
+  const sections = ['Opened from a Bolt.diy chat.'];
+
+  if (changes.length > 0) {
+    sections.push(['## Changes', ...changes.map((change) => `- ${change}`)].join('\n'));
+  }
+
+  const listed = files.slice(0, MAX_LISTED_FILES).map((file) => `- \`${file}\``);
+
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`- and ${files.length - MAX_LISTED_FILES} more`);
+  }
+
+  sections.push([`## Files (${files.length})`, ...listed].join('\n'));
+
+  return { title, body: sections.join('\n\n') };
+}
+
+// a feature branch named after the pull request, unique to the minute
+export function pullRequestBranch(title: string, now = new Date()) {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 40)
+    .replace(/-+$/, '');
+  const stamp = now.toISOString().replace(/[-:T]/g, '').substring(0, 12);
+
+  return `${BRANCH_PREFIX}${slug || 'changes'}-${stamp}`;
+}
+
+// every file of the workspace relative to it, binary ones included
+export function getProjectPaths(files: FileMap): string[] {
+  return Object.entries(files)
+    .filter(([, dirent]) => dirent?.type === 'file')
+    .map(([filePath]) => filePath.slice(WORK_DIR.length + 1));
+}
+
+// the files on a branch that the project no longer has, e.g. deleted in the chat
+export function getRemovedPaths(branchPaths: string[], projectPaths: string[]) {
+  const kept = new Set(projectPaths);
+
+  return branchPaths.filter((filePath) => !kept.has(filePath));
+}
+
+/**
+ * Pushes `files` to a GitHub pull request: the chat's pull request while it is open, a new one
+ * from a feature branch otherwise.
+ */
+export async function openGitHubPullRequest(options: {
+  token: string;
+  tokenType?: 'classic' | 'fine-grained';
+  owner: string;
+  repo: string;
+  baseBranch: string;
+  files: Record<string, string>;
+
+  // every file of the project, files on the branch outside of it are removed
+  projectPaths: string[];
+  text: PullRequestText;
+  existing?: ChatPullRequest;
+}): Promise<ChatPullRequest> {
+  const { owner, repo, baseBranch, files, projectPaths, text, existing } = options;
+  const repoPath = `${owner}/${repo}`;
+
+  gitHubApiService.configure({ token: options.token, tokenType: options.tokenType });
+
+  const commit = async (branch: string, ref: string, message: string) => {
+    const deletions = getRemovedPaths(await gitHubApiService.getFilePaths(owner, repo, ref), projectPaths);
+
+    await gitHubApiService.commitFiles(owner, repo, { branch, baseBranch, files, message, deletions });
+  };
+
+  if (existing?.provider === 'github' && existing.repo === repoPath) {
+    const pullRequest = await gitHubApiService.getPullRequest(owner, repo, existing.number);
+
+    if (pullRequest.state === 'open') {
+      await commit(pullRequest.head.ref, pullRequest.head.ref, 'Update from Bolt.diy');
+      await gitHubApiService.updatePullRequest(owner, repo, existing.number, { body: text.body });
+
+      return { ...existing, url: pullRequest.html_url };
+    }
+  }
+
+  const branch = pullRequestBranch(text.title);
+
+  await commit(branch, baseBranch, text.title);
+
+  const pullRequest = await gitHubApiService.createPullRequest(owner, repo, {
+    title: text.title,
+    body: text.body,
+    head: branch,
+    base: baseBranch,
+  });
+
+  return {
+    provider: 'github',
+    repo: repoPath,
+    number: pullRequest.number,
+    url: pullRequest.html_url,
+    branch,
+    baseBranch,
+  };
+}
+
+/**
+ * Pushes `files` to a GitLab merge request: the chat's merge request while it is open, a new one
+ * from a feature branch otherwise.
+ */
+export async function openGitLabMergeRequest(options: {
+  service: GitLabApiService;
+  project: GitLabProjectResponse;
+  files: Record<string, string>;
+
+  // every file of the project, files on the branch outside of it are removed
+  projectPaths: string[];
+  text: PullRequestText;
+  existing?: ChatPullRequest;
+}): Promise<ChatPullRequest> {
+  const { service, project, files, projectPaths, text, existing } = options;
+  const baseBranch = project.default_branch || 'main';
+
+  const commit = async (branch: string, message: string) => {
+    const branchPaths = await service.getFilePaths(project.id, branch);
+    const paths = new Set(branchPaths);
+
+    await service.commitFiles(project.id, {
+      branch,
+      commit_message: message,
+      actions: [
+        ...Object.entries(files).map(([filePath, content]) => ({
+          action: paths.has(filePath) ? ('update' as const) : ('create' as const),
+          file_path: filePath,
+          content,
+        })),
+        ...getRemovedPaths(branchPaths, projectPaths).map((filePath) => ({
+          action: 'delete' as const,
+          file_path: filePath,
+        })),
+      ],
+    });
+  };
+
+  if (existing?.provider === 'gitlab' && existing.repo === project.path_with_namespace) {
+    const mergeRequest = await service.getMergeRequest(project.id, existing.number);
+
+    if (mergeRequest?.state === 'opened') {
+      await commit(mergeRequest.source_branch, 'Update from Bolt.diy');
+      await service.updateMergeRequest(project.id, existing.number, { description: text.body });
+
+      return { ...existing, url: mergeRequest.web_url };
+    }
+  }
+
+  const branch = pullRequestBranch(text.title);
+
+  if (!(await service.branchExists(project.id, branch))) {
+    await service.createBranch(project.id, branch, baseBranch);
+  }
+
+  await commit(branch, text.title);
+
+  const mergeRequest = await service.createMergeRequest(project.id, {
+    title: text.title,
+    description: text.body,
+    source_branch: branch,
+    target_branch: baseBranch,
+  });
+
+  return {
+    provider: 'gitlab',
+    repo: project.path_with_namespace,
+    number: mergeRequest.iid,
+    url: mergeRequest.web_url,
+    branch,
+    baseBranch,
+  };
+}
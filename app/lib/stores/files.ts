@@ -21,6 +21,7 @@ import {
   clearCache,
 } from '~/lib/persistence/lockedFiles';
 import { getCurrentChatId } from '~/utils/fileLocks';
+import { FileIndex } from '~/lib/common/file-index';
 
 const logger = createScopedLogger('FilesStore');
 
@@ -69,6 +70,12 @@ export class FilesStore {
    */
   files: MapStore<FileMap> = import.meta.hot?.data.files ?? map({});
 
+  /**
+   * Search index over the text files, kept in sync with the file watcher and used to rank
+   * context files for the model.
+   */
+  index: FileIndex = import.meta.hot?.data.index ?? new FileIndex();
+
   get filesCount() {
     return this.#size;
   }
@@ -101,6 +108,7 @@ export class FilesStore {
       import.meta.hot.data.files = this.files;
       import.meta.hot.data.modifiedFiles = this.#modifiedFiles;
       import.meta.hot.data.deletedPaths = this.#deletedPaths;
+      import.meta.hot.data.index = this.index;
     }
 
     // Listen for URL changes to detect chat ID changes
@@ -708,6 +716,7 @@ export class FilesStore {
         }
         case 'remove_dir': {
           this.files.setKey(sanitizedPath, undefined);
+          this.index.removeFolder(sanitizedPath);
 
           for (const [direntPath] of Object.entries(this.files)) {
             if (direntPath.startsWith(sanitizedPath)) {
@@ -735,6 +744,9 @@ export class FilesStore {
 
           if (!isBinary) {
             content = this.#decodeFileContent(buffer);
+            this.index.upsert(sanitizedPath, content);
+          } else {
+            this.index.remove(sanitizedPath);
           }
 
           this.files.setKey(sanitizedPath, { type: 'file', content, isBinary });
@@ -744,6 +756,7 @@ export class FilesStore {
         case 'remove_file': {
           this.#size--;
           this.files.setKey(sanitizedPath, undefined);
+          this.index.remove(sanitizedPath);
           break;
         }
         case 'update_directory': {
@@ -875,6 +888,95 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Rewinds the project to `files`, e.g. the snapshot of an earlier message. Files and folders
+   * missing from `files` are deleted, the others are only written when their content differs.
+   */
+  async restoreFiles(files: FileMap) {
+    const webcontainer = await this.#webcontainer;
+    const current = this.files.get();
+
+    for (const [filePath, dirent] of Object.entries(current)) {
+      if (dirent?.type === 'file' && files[filePath]?.type !== 'file') {
+        await this.deleteFile(filePath);
+      }
+    }
+
+    // the folders of `files`, including the ones only implied by the paths in it
+    const keptFolders = new Set<string>();
+
+    for (const filePath of Object.keys(files)) {
+      let folder = path.dirname(filePath);
+
+      while (folder.startsWith(`${webcontainer.workdir}/`)) {
+        keptFolders.add(folder);
+        folder = path.dirname(folder);
+      }
+    }
+
+    const removedFolders = Object.entries(current)
+      .filter(([folderPath, dirent]) => dirent?.type === 'folder' && !files[folderPath] && !keptFolders.has(folderPath))
+      .map(([folderPath]) => folderPath);
+
+    // deleting the outermost folder takes the ones inside it along
+    for (const folderPath of removedFolders) {
+      if (!removedFolders.some((parent) => folderPath.startsWith(`${parent}/`))) {
+        await this.deleteFolder(folderPath);
+      }
+    }
+
+    for (const [filePath, dirent] of Object.entries(files)) {
+      const existing = current[filePath];
+
+      if (dirent?.type === 'folder') {
+        if (!existing) {
+          await this.createFolder(filePath);
+        }
+
+        continue;
+      }
+
+      // the watcher does not keep the content of binary files, there is nothing to restore
+      if (
+        !dirent ||
+        (dirent.isBinary && !dirent.content) ||
+        (existing?.type === 'file' && existing.content === dirent.content)
+      ) {
+        continue;
+      }
+
+      const relativePath = path.relative(webcontainer.workdir, filePath);
+      const dirPath = path.dirname(relativePath);
+
+      if (dirPath !== '.') {
+        await webcontainer.fs.mkdir(dirPath, { recursive: true });
+      }
+
+      await webcontainer.fs.writeFile(
+        relativePath,
+        dirent.isBinary ? Buffer.from(dirent.content, 'base64') : dirent.content,
+      );
+
+      if (!this.#modifiedFiles.has(filePath)) {
+        this.#modifiedFiles.set(filePath, existing?.type === 'file' ? existing.content : dirent.content);
+      }
+
+      if (!existing) {
+        this.#size++;
+      }
+
+      this.#deletedPaths.delete(filePath);
+      this.files.setKey(filePath, {
+        ...dirent,
+        isLocked: existing?.type === 'file' ? existing.isLocked : false,
+      });
+    }
+
+    this.#persistDeletedPaths();
+
+    logger.info('Files restored');
+  }
+
   async deleteFolder(folderPath: string) {
     const webcontainer = await this.#webcontainer;
 
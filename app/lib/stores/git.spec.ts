@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { blameLines, describeStatus, isVersioned, type GitCommitInfo } from './git';
+
+const commit = (oid: string): GitCommitInfo => ({
+  oid,
+  message: oid,
+  author: 'dev',
+  email: 'dev@example.com',
+  timestamp: 0,
+});
+
+describe('GitStore', () => {
+  it('should tell staged from unstaged changes', () => {
+    expect(describeStatus(['new.ts', 0, 2, 0])).toEqual({ path: 'new.ts', unstaged: 'added' });
+    expect(describeStatus(['new.ts', 0, 2, 2])).toEqual({ path: 'new.ts', staged: 'added' });
+    expect(describeStatus(['app.ts', 1, 2, 1])).toEqual({ path: 'app.ts', unstaged: 'modified' });
+    expect(describeStatus(['app.ts', 1, 2, 3])).toEqual({ path: 'app.ts', staged: 'modified', unstaged: 'modified' });
+    expect(describeStatus(['old.ts', 1, 0, 1])).toEqual({ path: 'old.ts', unstaged: 'deleted' });
+    expect(describeStatus(['old.ts', 1, 0, 0])).toEqual({ path: 'old.ts', staged: 'deleted' });
+    expect(describeStatus(['same.ts', 1, 1, 1])).toEqual({ path: 'same.ts' });
+  });
+
+  it('should leave installed dependencies and nested repositories out of the status', () => {
+    expect(isVersioned('src/app.ts')).toBe(true);
+    expect(isVersioned('node_modules/react/index.js')).toBe(false);
+    expect(isVersioned('packages/ui/node_modules/react/index.js')).toBe(false);
+    expect(isVersioned('vendor/lib/.git/HEAD')).toBe(false);
+  });
+
+  it('should attribute each line to the commit that last changed it', () => {
+    const blame = blameLines([
+      { commit: commit('c3'), content: 'one\nTWO\nthree\nfour\n' },
+      { commit: commit('c2'), content: 'one\ntwo\nthree\nfour\n' },
+      { commit: commit('c1'), content: 'one\ntwo\n' },
+    ]);
+
+    expect(blame.map((line) => `${line.commit.oid} ${line.content}`)).toEqual([
+      'c1 one',
+      'c3 TWO',
+      'c2 three',
+      'c2 four',
+    ]);
+  });
+});
@@ -0,0 +1,598 @@
+import type { WebContainer } from '@webcontainer/api';
+import { diffLines } from 'diff';
+import git, { type AuthCallback, type GitAuth, type PromiseFsClient, type WalkerEntry } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { atom } from 'nanostores';
+import { webcontainer } from '~/lib/webcontainer';
+import { getFs, lookupSavedPassword, saveGitAuth } from '~/lib/webcontainer/git-fs';
+import { createScopedLogger } from '~/utils/logger';
+import { profileStore } from './profile';
+
+const logger = createScopedLogger('GitStore');
+
+const CORS_PROXY = '/api/git-proxy';
+const LOG_DEPTH = 50;
+
+// the upstream history fetched to find the commit a project was last synced with
+const SYNC_DEPTH = 200;
+
+export type GitChange = 'added' | 'modified' | 'deleted';
+
+export interface GitFileStatus {
+  path: string;
+  staged?: GitChange;
+  unstaged?: GitChange;
+}
+
+export interface GitCommitInfo {
+  oid: string;
+  message: string;
+  author: string;
+  email: string;
+
+  // seconds since the epoch, as git stores it
+  timestamp: number;
+}
+
+// the credentials a remote asked for, answered by the auth dialog with `undefined` when cancelled
+export interface GitAuthRequest {
+  host: string;
+  resolve(auth: { username: string; password: string } | undefined): void;
+}
+
+// a file a commit changed, the content is `undefined` on the side the file does not exist
+export interface CommitFileChange {
+  path: string;
+  before?: string;
+  after?: string;
+}
+
+export interface BlameLine {
+  content: string;
+  commit: GitCommitInfo;
+}
+
+interface Repo {
+  fs: PromiseFsClient;
+  dir: string;
+  container: WebContainer;
+}
+
+// folders that are never committed, wherever they are in the project
+const UNVERSIONED_FOLDERS = ['node_modules', '.git'];
+
+// the status filter, installed dependencies would otherwise be committed with every change
+export function isVersioned(path: string) {
+  return !path.split('/').some((part) => UNVERSIONED_FOLDERS.includes(part));
+}
+
+// a row of `git.statusMatrix`: path, then the file in HEAD, the working tree and the index
+type StatusRow = [string, number, number, number];
+
+/**
+ * Turns a row of the status matrix into what is staged and what is not, see
+ * https://isomorphic-git.org/docs/en/statusMatrix for the meaning of the numbers.
+ */
+export function describeStatus([path, head, workdir, stage]: StatusRow): GitFileStatus {
+  let staged: GitChange | undefined;
+  let unstaged: GitChange | undefined;
+
+  if (head === 0 && stage !== 0) {
+    staged = 'added';
+  } else if (head === 1 && stage === 0) {
+    staged = 'deleted';
+  } else if (head === 1 && stage !== 1) {
+    staged = 'modified';
+  }
+
+  if (workdir === 0 && stage !== 0) {
+    unstaged = 'deleted';
+  } else if (workdir !== 0 && stage === 0) {
+    unstaged = 'added';
+  } else if (workdir === 2 && stage !== 2) {
+    unstaged = 'modified';
+  }
+
+  return { path, staged, unstaged };
+}
+
+function splitLines(content: string) {
+  const lines = content.split('\n');
+
+  return lines[lines.length - 1] === '' ? lines.slice(0, -1) : lines;
+}
+
+// the line of `older` each unchanged line of `newer` comes from, by index
+function mapUnchangedLines(older: string, newer: string) {
+  const mapping = new Map<number, number>();
+  let olderIndex = 0;
+  let newerIndex = 0;
+
+  for (const change of diffLines(older, newer)) {
+    const count = change.count ?? splitLines(change.value).length;
+
+    if (change.added) {
+      newerIndex += count;
+    } else if (change.removed) {
+      olderIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        mapping.set(newerIndex++, olderIndex++);
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Attributes each line of the newest version of a file to the oldest commit it is unchanged
+ * since. `versions` are the file as of each commit that touched it, newest first.
+ */
+export function blameLines(versions: { commit: GitCommitInfo; content: string }[]): BlameLine[] {
+  const [latest, ...older] = versions;
+
+  if (!latest) {
+    return [];
+  }
+
+  const lines = splitLines(latest.content);
+  const owners = lines.map(() => latest.commit);
+
+  // where each line is in the version looked at, -1 once the line is attributed for good
+  let positions = lines.map((_, index) => index);
+  let newer = latest.content;
+
+  for (const version of older) {
+    const mapping = mapUnchangedLines(version.content, newer);
+
+    positions = positions.map((position, index) => {
+      const olderPosition = position === -1 ? undefined : mapping.get(position);
+
+      if (olderPosition === undefined) {
+        return -1;
+      }
+
+      owners[index] = version.commit;
+
+      return olderPosition;
+    });
+    newer = version.content;
+  }
+
+  return lines.map((content, index) => ({ content, commit: owners[index] }));
+}
+
+/**
+ * Version control of the project in the WebContainer, on the same isomorphic-git file system the
+ * repository is cloned with.
+ */
+export class GitStore {
+  #webcontainer: Promise<WebContainer>;
+
+  isRepo = atom<boolean | undefined>(undefined);
+  status = atom<GitFileStatus[]>([]);
+  branches = atom<string[]>([]);
+  currentBranch = atom<string | undefined>(undefined);
+  commits = atom<GitCommitInfo[]>([]);
+  remoteUrl = atom<string | undefined>(undefined);
+  busy = atom<string | undefined>(undefined);
+
+  // the commit the panel shows the changes of
+  selectedCommit = atom<string | undefined>(undefined);
+  authRequest = atom<GitAuthRequest | undefined>(undefined);
+
+  #queue = Promise.resolve();
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+  }
+
+  async refresh() {
+    const { fs, dir } = await this.#repo();
+
+    try {
+      await git.findRoot({ fs, filepath: dir });
+    } catch {
+      this.isRepo.set(false);
+      return;
+    }
+
+    this.isRepo.set(true);
+
+    const [status, branches, currentBranch, remotes] = await Promise.all([
+      this.#statusOf(fs, dir),
+      git.listBranches({ fs, dir }),
+      git.currentBranch({ fs, dir }),
+      git.listRemotes({ fs, dir }),
+    ]);
+
+    this.status.set(status);
+    this.branches.set(branches);
+    this.currentBranch.set(currentBranch ?? undefined);
+    this.remoteUrl.set(remotes.find((remote) => remote.remote === 'origin')?.url ?? remotes[0]?.url);
+    this.commits.set(await this.#log());
+  }
+
+  async init() {
+    await this.#run('Initializing', async ({ fs, dir }) => {
+      await git.init({ fs, dir, defaultBranch: 'main' });
+    });
+  }
+
+  async stage(paths: string[]) {
+    await this.#run('Staging', async ({ fs, dir }) => {
+      for (const path of paths) {
+        const file = this.status.get().find((status) => status.path === path);
+
+        if (file?.unstaged === 'deleted') {
+          await git.remove({ fs, dir, filepath: path });
+        } else {
+          await git.add({ fs, dir, filepath: path });
+        }
+      }
+    });
+  }
+
+  async unstage(paths: string[]) {
+    await this.#run('Unstaging', async ({ fs, dir }) => {
+      for (const path of paths) {
+        await git.resetIndex({ fs, dir, filepath: path });
+      }
+    });
+  }
+
+  // commits what is staged and returns the id of the commit
+  async commit(message: string): Promise<string> {
+    let oid = '';
+
+    await this.#run('Committing', async ({ fs, dir }) => {
+      oid = await git.commit({ fs, dir, message, author: await this.#author(fs, dir) });
+    });
+
+    return oid;
+  }
+
+  /**
+   * Stages every change in the working tree and commits it, creating the repository first when
+   * there is none. Returns the id of the commit, or `undefined` when nothing changed.
+   */
+  async commitAll(message: string): Promise<string | undefined> {
+    let oid: string | undefined;
+
+    await this.#run('Committing', async ({ fs, dir }) => {
+      if (!this.isRepo.get()) {
+        await git.init({ fs, dir, defaultBranch: 'main' });
+      }
+
+      for (const file of await this.#statusOf(fs, dir)) {
+        if (file.unstaged === 'deleted') {
+          await git.remove({ fs, dir, filepath: file.path });
+        } else if (file.unstaged) {
+          await git.add({ fs, dir, filepath: file.path });
+        }
+      }
+
+      if ((await this.#statusOf(fs, dir)).some((file) => file.staged)) {
+        oid = await git.commit({ fs, dir, message, author: await this.#author(fs, dir) });
+      }
+    });
+
+    return oid;
+  }
+
+  // the files `oid` changed compared to its first parent
+  async commitChanges(oid: string): Promise<CommitFileChange[]> {
+    const { fs, dir } = await this.#repo();
+    const { commit } = await git.readCommit({ fs, dir, oid });
+    const [parent] = commit.parent;
+    const trees = parent ? [git.TREE({ ref: parent }), git.TREE({ ref: oid })] : [git.TREE({ ref: oid })];
+
+    return git.walk({
+      fs,
+      dir,
+      trees,
+      map: async (path, entries) => {
+        const [before, after] = parent ? entries : [null, entries[0]];
+
+        if (path === '.') {
+          return undefined;
+        }
+
+        const [beforeOid, afterOid] = await Promise.all([before?.oid(), after?.oid()]);
+
+        // unchanged directories are skipped as a whole
+        if (beforeOid === afterOid) {
+          return null;
+        }
+
+        if ((await before?.type()) === 'tree' || (await after?.type()) === 'tree') {
+          return undefined;
+        }
+
+        return { path, before: await readText(before), after: await readText(after) };
+      },
+    });
+  }
+
+  /**
+   * Undoes the changes of `oid` in a new commit. Refuses when one of its files was changed since,
+   * which would need a merge.
+   */
+  async revert(oid: string): Promise<string> {
+    let revertOid = '';
+
+    await this.#run('Reverting', async ({ fs, dir, container }) => {
+      const { commit } = await git.readCommit({ fs, dir, oid });
+      const changes = await this.commitChanges(oid);
+
+      for (const change of changes) {
+        const current = await container.fs.readFile(change.path, 'utf-8').catch(() => undefined);
+
+        if (current !== change.after) {
+          throw new Error(`${change.path} was changed after ${oid.slice(0, 7)}, revert it by hand`);
+        }
+      }
+
+      for (const change of changes) {
+        if (change.before === undefined) {
+          await container.fs.rm(change.path, { force: true });
+          await git.remove({ fs, dir, filepath: change.path });
+        } else {
+          const { blob } = await git.readBlob({ fs, dir, oid: commit.parent[0], filepath: change.path });
+          const folder = change.path.split('/').slice(0, -1).join('/');
+
+          if (folder) {
+            await container.fs.mkdir(folder, { recursive: true });
+          }
+
+          await container.fs.writeFile(change.path, blob);
+          await git.add({ fs, dir, filepath: change.path });
+        }
+      }
+
+      revertOid = await git.commit({
+        fs,
+        dir,
+        message: `Revert "${commit.message.split('\n')[0]}"\n\nThis reverts commit ${oid}.`,
+        author: await this.#author(fs, dir),
+      });
+    });
+
+    return revertOid;
+  }
+
+  /**
+   * Fetches `branch` of `url`, or its default branch, without touching the working tree. Returns
+   * the fetched commit.
+   */
+  async fetchUpstream(url: string, branch?: string): Promise<string> {
+    let oid = '';
+
+    await this.#run('Fetching', async ({ fs, dir }) => {
+      if (!this.isRepo.get()) {
+        await git.init({ fs, dir, defaultBranch: 'main' });
+      }
+
+      const { fetchHead } = await git.fetch({
+        fs,
+        http,
+        dir,
+        url,
+        ref: branch,
+        singleBranch: true,
+        depth: SYNC_DEPTH,
+        tags: false,
+        corsProxy: CORS_PROXY,
+        ...this.#auth(),
+      });
+
+      if (!fetchHead) {
+        throw new Error(`${url} has no ${branch ?? 'default'} branch`);
+      }
+
+      oid = fetchHead;
+    });
+
+    return oid;
+  }
+
+  // whether the objects of commit `oid` are in the repository, a shallow fetch may not have them
+  async hasCommit(oid: string) {
+    const { fs, dir } = await this.#repo();
+
+    try {
+      await git.readCommit({ fs, dir, oid });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // the text files of commit `oid` by path, binary files are left out
+  async readFiles(oid: string): Promise<Record<string, string>> {
+    const { fs, dir } = await this.#repo();
+    const files: { path: string; content: string }[] = await git.walk({
+      fs,
+      dir,
+      trees: [git.TREE({ ref: oid })],
+      map: async (path, [entry]) => {
+        if (path === '.' || (await entry?.type()) !== 'blob') {
+          return undefined;
+        }
+
+        const content = await entry!.content();
+
+        return content && !content.subarray(0, 8000).includes(0)
+          ? { path, content: new TextDecoder().decode(content) }
+          : undefined;
+      },
+    });
+
+    return Object.fromEntries(files.map(({ path, content }) => [path, content]));
+  }
+
+  // the commits after `since` up to `oid`, newest first
+  async commitsSince(oid: string, since?: string): Promise<GitCommitInfo[]> {
+    const { fs, dir } = await this.#repo();
+    const commits = (await git.log({ fs, dir, ref: oid, depth: SYNC_DEPTH })).map(toCommitInfo);
+    const end = commits.findIndex((commit) => commit.oid === since);
+
+    return end === -1 ? commits : commits.slice(0, end);
+  }
+
+  async createBranch(name: string) {
+    await this.#run('Creating branch', async ({ fs, dir }) => {
+      await git.branch({ fs, dir, ref: name, checkout: true });
+    });
+  }
+
+  async checkout(branch: string) {
+    await this.#run('Switching branch', async ({ fs, dir }) => {
+      await git.checkout({ fs, dir, ref: branch });
+    });
+  }
+
+  async blame(path: string): Promise<BlameLine[]> {
+    const { fs, dir } = await this.#repo();
+    const commits = await git.log({ fs, dir, filepath: path, depth: LOG_DEPTH });
+    const versions = await Promise.all(
+      commits.map(async (entry) => {
+        const { blob } = await git.readBlob({ fs, dir, oid: entry.oid, filepath: path });
+
+        return { commit: toCommitInfo(entry), content: new TextDecoder().decode(blob) };
+      }),
+    );
+
+    return blameLines(versions);
+  }
+
+  async pull() {
+    await this.#run('Pulling', async ({ fs, dir }) => {
+      await git.pull({
+        fs,
+        http,
+        dir,
+        singleBranch: true,
+        corsProxy: CORS_PROXY,
+        author: await this.#author(fs, dir),
+        ...this.#auth(),
+      });
+    });
+  }
+
+  async push() {
+    await this.#run('Pushing', async ({ fs, dir }) => {
+      const result = await git.push({ fs, http, dir, corsProxy: CORS_PROXY, ...this.#auth() });
+
+      if (!result.ok) {
+        throw new Error(result.error ?? 'The remote rejected the push');
+      }
+    });
+  }
+
+  async #repo(): Promise<Repo> {
+    const container = await this.#webcontainer;
+
+    return { fs: getFs(container), dir: container.workdir, container };
+  }
+
+  async #statusOf(fs: PromiseFsClient, dir: string) {
+    const matrix = await git.statusMatrix({ fs, dir, filter: isVersioned });
+
+    return matrix.map(describeStatus).filter((file) => file.staged || file.unstaged);
+  }
+
+  async #log(): Promise<GitCommitInfo[]> {
+    const { fs, dir } = await this.#repo();
+
+    try {
+      return (await git.log({ fs, dir, depth: LOG_DEPTH })).map(toCommitInfo);
+    } catch (error) {
+      // a repository without commits has no HEAD yet
+      logger.debug('No history:', error);
+      return [];
+    }
+  }
+
+  async #author(fs: PromiseFsClient, dir: string) {
+    const name = await git.getConfig({ fs, dir, path: 'user.name' });
+    const email = await git.getConfig({ fs, dir, path: 'user.email' });
+
+    return {
+      name: name || profileStore.get().username || 'bolt.diy',
+      email: email || 'bolt@bolt.diy',
+    };
+  }
+
+  #auth(): { onAuth: AuthCallback; onAuthSuccess: (url: string, auth: any) => void } {
+    return {
+      onAuth: (url) => {
+        const saved = lookupSavedPassword(url);
+
+        if (saved) {
+          return saved;
+        }
+
+        return this.#requestAuth(url.split('/')[2]);
+      },
+      onAuthSuccess: saveGitAuth,
+    };
+  }
+
+  #requestAuth(host: string): Promise<GitAuth> {
+    return new Promise((resolve) => {
+      this.authRequest.set({
+        host,
+        resolve: (auth) => {
+          this.authRequest.set(undefined);
+          resolve(auth ?? { cancel: true });
+        },
+      });
+    });
+  }
+
+  /**
+   * Runs an operation that changes the repository after the ones already queued, so commits made
+   * in the background do not interleave with the panel, and refreshes the panel after it.
+   */
+  #run(label: string, operation: (repo: Repo) => Promise<void>) {
+    const result = this.#queue.then(async () => {
+      this.busy.set(label);
+
+      try {
+        await operation(await this.#repo());
+      } finally {
+        this.busy.set(undefined);
+        await this.refresh().catch((error) => logger.error('Failed to refresh the repository status', error));
+      }
+    });
+
+    // a failed operation does not stop the ones after it
+    this.#queue = result.catch(() => undefined);
+
+    return result;
+  }
+}
+
+async function readText(entry: WalkerEntry | null) {
+  if (!entry || (await entry.type()) !== 'blob') {
+    return undefined;
+  }
+
+  const content = await entry.content();
+
+  return content ? new TextDecoder().decode(content) : '';
+}
+
+function toCommitInfo({ oid, commit }: Awaited<ReturnType<typeof git.log>>[number]): GitCommitInfo {
+  return {
+    oid,
+    message: commit.message.trim(),
+    author: commit.author.name,
+    email: commit.author.email,
+    timestamp: commit.author.timestamp,
+  };
+}
+
+export const gitStore = new GitStore(webcontainer);
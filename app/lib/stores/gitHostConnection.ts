@@ -0,0 +1,138 @@
+import { atom, computed } from 'nanostores';
+import Cookies from 'js-cookie';
+import { getLocalStorage, setLocalStorage } from '~/lib/persistence/localStorage';
+import { BitbucketApiService } from '~/lib/services/bitbucketApiService';
+import { GiteaApiService } from '~/lib/services/giteaApiService';
+import type { GitHostProvider, GitHostUser } from '~/lib/services/gitHostProvider';
+import { saveGitAuth } from '~/lib/webcontainer/git-fs';
+import { logStore } from './logs';
+
+export type GitHostConnectionId = 'bitbucket' | 'gitea';
+
+export interface GitHostConnection {
+  user: GitHostUser | null;
+  token: string;
+
+  // the account the token belongs to, Bitbucket app passwords need it for basic auth
+  username?: string;
+
+  // the instance, for self-hosted hosts
+  url?: string;
+}
+
+export interface GitHostCredentials {
+  token: string;
+  username?: string;
+  url?: string;
+}
+
+interface GitHostConfig {
+  id: GitHostConnectionId;
+  name: string;
+  defaultUrl: string;
+  createService(credentials: GitHostCredentials): GitHostProvider;
+
+  // the username cloning over https authenticates with, next to the token as password
+  gitUsername(credentials: GitHostCredentials, user: GitHostUser): string;
+}
+
+const EMPTY_CONNECTION: GitHostConnection = { user: null, token: '' };
+
+/**
+ * The connection to a git host integrated through `GitHostProvider`, kept in localStorage under
+ * `<id>_connection`. Connecting also saves the git credentials of the host for cloning.
+ */
+export class GitHostConnectionStore {
+  readonly config: GitHostConfig;
+  readonly connection = atom<GitHostConnection>(EMPTY_CONNECTION);
+  readonly isConnected = computed(this.connection, (connection) => !!connection.user);
+  readonly isConnecting = atom(false);
+
+  constructor(config: GitHostConfig) {
+    this.config = config;
+
+    if (typeof window !== 'undefined') {
+      const saved = getLocalStorage(this.#storageKey);
+
+      if (saved?.user && saved.token) {
+        this.connection.set(saved);
+      }
+    }
+  }
+
+  get #storageKey() {
+    return `${this.config.id}_connection`;
+  }
+
+  get url() {
+    return this.connection.get().url || this.config.defaultUrl;
+  }
+
+  // the API service of the connected account
+  service(): GitHostProvider {
+    const connection = this.connection.get();
+
+    if (!connection.user) {
+      throw new Error(`Not connected to ${this.config.name}`);
+    }
+
+    return this.config.createService(connection);
+  }
+
+  async connect(credentials: GitHostCredentials) {
+    const url = (credentials.url || this.config.defaultUrl).replace(/\/+$/, '');
+
+    this.isConnecting.set(true);
+
+    try {
+      const user = await this.config.createService({ ...credentials, url }).getAccount();
+      const connection: GitHostConnection = { ...credentials, url, user };
+
+      this.connection.set(connection);
+      setLocalStorage(this.#storageKey, connection);
+      saveGitAuth(url, { username: this.config.gitUsername(credentials, user), password: credentials.token });
+
+      logStore.logInfo(`Connected to ${this.config.name}`, {
+        type: 'system',
+        message: `Connected to ${this.config.name} as ${user.username}`,
+      });
+
+      return user;
+    } catch (error) {
+      logStore.logError(`${this.config.name} authentication failed`, error);
+
+      throw error;
+    } finally {
+      this.isConnecting.set(false);
+    }
+  }
+
+  disconnect() {
+    Cookies.remove(`git:${this.url.split('/')[2]}`);
+    localStorage.removeItem(this.#storageKey);
+    this.connection.set(EMPTY_CONNECTION);
+  }
+}
+
+export const bitbucketConnectionStore = new GitHostConnectionStore({
+  id: 'bitbucket',
+  name: 'Bitbucket',
+  defaultUrl: 'https://bitbucket.org',
+  createService: ({ token, username }) => new BitbucketApiService(token, username),
+
+  // access tokens clone as the `x-token-auth` user
+  gitUsername: ({ username }) => username || 'x-token-auth',
+});
+
+export const giteaConnectionStore = new GitHostConnectionStore({
+  id: 'gitea',
+  name: 'Gitea / Forgejo',
+  defaultUrl: 'https://gitea.com',
+  createService: ({ token, url }) => new GiteaApiService(token, url || 'https://gitea.com'),
+  gitUsername: (_credentials, user) => user.username,
+});
+
+export const gitHostConnectionStores: Record<GitHostConnectionId, GitHostConnectionStore> = {
+  bitbucket: bitbucketConnectionStore,
+  gitea: giteaConnectionStore,
+};
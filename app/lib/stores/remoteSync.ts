@@ -0,0 +1,173 @@
+import { generateId, type Message } from 'ai';
+import ignore from 'ignore';
+import { atom } from 'nanostores';
+import { chatMetadata, restoreWorkspace, saveChatMetadata } from '~/lib/persistence/useChatHistory';
+import { WORK_DIR } from '~/utils/constants';
+import { localTextFiles } from '~/utils/fileUtils';
+import { createScopedLogger } from '~/utils/logger';
+import { mergeFiles, type FileMergeResult } from '~/utils/merge';
+import type { FileMap } from './files';
+import { gitStore, type GitCommitInfo } from './git';
+import { workbenchStore } from './workbench';
+
+const logger = createScopedLogger('RemoteSync');
+
+// the files an import leaves out, they are not synced either
+const IGNORE_PATTERNS = [
+  'node_modules/**',
+  '.git/**',
+  '.github/**',
+  '.vscode/**',
+  'dist/**',
+  'build/**',
+  '.next/**',
+  'coverage/**',
+  '.cache/**',
+  '.idea/**',
+  '**/*.log',
+  '**/.DS_Store',
+  '**/*lock.yaml',
+];
+
+const MAX_LISTED_COMMITS = 10;
+
+export interface RemoteSyncResult {
+  commits: GitCommitInfo[];
+  files: FileMergeResult[];
+}
+
+// splits a `url#branch` import url
+function parseGitUrl(gitUrl: string) {
+  const [url, branch] = gitUrl.split('#');
+
+  return { url, branch: branch || undefined };
+}
+
+/**
+ * The message added to the chat after a sync, so the model and the user know what changed.
+ */
+export function summarizeSync(url: string, { commits, files }: RemoteSyncResult, baseKnown: boolean): string {
+  const lines = [`Synced with upstream ${url}: ${commits.length} new ${commits.length === 1 ? 'commit' : 'commits'}.`];
+
+  if (!baseKnown) {
+    lines.push('', 'The commit this chat was last synced with is unknown, files changed on both sides are conflicts.');
+  }
+
+  if (commits.length > 0) {
+    lines.push('', '**Upstream commits**');
+    lines.push(...commits.slice(0, MAX_LISTED_COMMITS).map((commit) => `- ${commit.message.split('\n')[0]}`));
+
+    if (commits.length > MAX_LISTED_COMMITS) {
+      lines.push(`- and ${commits.length - MAX_LISTED_COMMITS} more`);
+    }
+  }
+
+  const groups: [FileMergeResult['status'], string][] = [
+    ['updated', 'Updated'],
+    ['added', 'Added'],
+    ['deleted', 'Deleted'],
+    ['conflict', 'Conflicts, resolve them in the diff view'],
+  ];
+
+  for (const [status, title] of groups) {
+    const paths = files.filter((file) => file.status === status).map((file) => `\`${file.path}\``);
+
+    if (paths.length > 0) {
+      lines.push('', `**${title}:** ${paths.join(', ')}`);
+    }
+  }
+
+  if (files.length === 0) {
+    lines.push('', 'No files changed.');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Pulls the upstream changes of a chat imported from a repository into its files, with a three-way
+ * merge against the commit the chat was imported or last synced with.
+ */
+export class RemoteSyncStore {
+  busy = atom(false);
+
+  // the files left with conflicts by path, with their content from before the sync
+  conflicts = atom<Record<string, string>>({});
+
+  // the summary of the last sync, the chat appends it to its messages
+  summary = atom<Message | undefined>(undefined);
+
+  async sync(): Promise<RemoteSyncResult> {
+    const metadata = chatMetadata.get();
+
+    if (!metadata?.gitUrl) {
+      throw new Error('This chat was not imported from a repository');
+    }
+
+    this.busy.set(true);
+
+    try {
+      const { url, branch } = parseGitUrl(metadata.gitUrl);
+      const head = await gitStore.fetchUpstream(url, metadata.gitBranch ?? branch);
+      const base = metadata.gitCommit;
+
+      if (head === base) {
+        return { commits: [], files: [] };
+      }
+
+      const ig = ignore().add(IGNORE_PATTERNS);
+      const baseKnown = !!base && (await gitStore.hasCommit(base));
+
+      if (base && !baseKnown) {
+        logger.warn(`Commit ${base} is not in the fetched history of ${url}`);
+      }
+
+      const theirs = await gitStore.readFiles(head);
+      const baseFiles = baseKnown ? await gitStore.readFiles(base!) : {};
+      const ours = localTextFiles(workbenchStore.files.get());
+      const files = mergeFiles(baseFiles, ours, theirs).filter((file) => !ig.ignores(file.path));
+      const commits = await gitStore.commitsSince(head, base);
+
+      await this.#apply(files);
+      await saveChatMetadata({ ...metadata, gitCommit: head });
+
+      const result = { commits, files };
+
+      this.summary.set({
+        id: generateId(),
+        role: 'assistant',
+        content: summarizeSync(url, result, baseKnown),
+        createdAt: new Date(),
+      });
+
+      return result;
+    } finally {
+      this.busy.set(false);
+    }
+  }
+
+  async #apply(results: FileMergeResult[]) {
+    if (results.length === 0) {
+      return;
+    }
+
+    const files: FileMap = { ...workbenchStore.files.get() };
+    const conflicts: Record<string, string> = {};
+
+    for (const { path, status, content } of results) {
+      const filePath = `${WORK_DIR}/${path}`;
+      const current = files[filePath];
+
+      if (status === 'conflict' && current?.type === 'file') {
+        conflicts[filePath] = current.content;
+      }
+
+      files[filePath] = content === undefined ? undefined : { type: 'file', content, isBinary: false };
+    }
+
+    await restoreWorkspace(files);
+    this.conflicts.set(conflicts);
+  }
+}
+
+export const remoteSyncStore = new RemoteSyncStore();
@@ -1,6 +1,12 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { parseCustomProviderConfigs } from '~/lib/modules/llm/custom-provider-config';
+import type { CustomProviderConfig } from '~/lib/modules/llm/types';
+import type { EditingMode, FailoverTarget, IProviderConfig } from '~/types/model';
+import type { CompactionSettings, ContextRetrievalSettings } from '~/types/context';
+import type { BudgetCaps } from '~/types/cost';
+import type { SelfHealingSettings } from '~/types/actions';
 import type { TabVisibilityConfig, TabWindowConfig, UserTabConfig } from '~/components/@settings/core/types';
 import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import { toggleTheme } from './theme';
@@ -53,6 +59,7 @@ export const shortcutsStore = map<Shortcuts>({
 // Create a single key for provider settings
 const PROVIDER_SETTINGS_KEY = 'provider_settings';
 const AUTO_ENABLED_KEY = 'auto_enabled_providers';
+const CUSTOM_PROVIDERS_KEY = 'custom_providers';
 
 // Add this helper function at the top of the file
 const isBrowser = typeof window !== 'undefined';
@@ -64,8 +71,11 @@ interface ConfiguredProvider {
   configMethod: 'environment' | 'none';
 }
 
-// Fetch configured providers from server
-const fetchConfiguredProviders = async (): Promise<ConfiguredProvider[]> => {
+// Fetch configured providers and the custom providers defined in the server environment
+const fetchConfiguredProviders = async (): Promise<{
+  providers: ConfiguredProvider[];
+  customProviders: CustomProviderConfig[];
+}> => {
   try {
     const response = await fetch('/api/configured-providers');
 
@@ -73,15 +83,40 @@ const fetchConfiguredProviders = async (): Promise<ConfiguredProvider[]> => {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    const data = (await response.json()) as { providers?: ConfiguredProvider[] };
+    const data = (await response.json()) as {
+      providers?: ConfiguredProvider[];
+      customProviders?: CustomProviderConfig[];
+    };
 
-    return data.providers || [];
+    return { providers: data.providers || [], customProviders: data.customProviders || [] };
   } catch (error) {
     console.error('Error fetching configured providers:', error);
-    return [];
+    return { providers: [], customProviders: [] };
   }
 };
 
+// Custom providers defined in the settings UI, the server reads them from the `customProviders` cookie
+export const customProvidersStore = atom<CustomProviderConfig[]>(
+  isBrowser ? parseCustomProviderConfigs(localStorage.getItem(CUSTOM_PROVIDERS_KEY) || '') : [],
+);
+
+// Builds the store entries of custom providers
+const getCustomProviderSettings = (configs: CustomProviderConfig[], current: ProviderSetting): ProviderSetting => {
+  const manager = LLMManager.getInstance();
+  const customProviders = manager.getCustomProviders(configs);
+  const entries: ProviderSetting = {};
+
+  configs.forEach((config) => {
+    const provider = manager.getProvider(config.name, customProviders);
+
+    if (provider) {
+      entries[config.name] = { ...provider, settings: current[config.name]?.settings ?? { enabled: true } };
+    }
+  });
+
+  return entries;
+};
+
 // Initialize provider settings from both localStorage and server-detected configuration
 const getInitialProviderSettings = (): ProviderSetting => {
   const initialSettings: ProviderSetting = {};
@@ -97,6 +132,8 @@ const getInitialProviderSettings = (): ProviderSetting => {
     };
   });
 
+  Object.assign(initialSettings, getCustomProviderSettings(customProvidersStore.get(), initialSettings));
+
   // Only try to load from localStorage in the browser
   if (isBrowser) {
     const savedSettings = localStorage.getItem(PROVIDER_SETTINGS_KEY);
@@ -125,7 +162,7 @@ const autoEnableConfiguredProviders = async () => {
   }
 
   try {
-    const configuredProviders = await fetchConfiguredProviders();
+    const { providers: configuredProviders, customProviders } = await fetchConfiguredProviders();
     const currentSettings = providersStore.get();
     const savedSettings = localStorage.getItem(PROVIDER_SETTINGS_KEY);
     const autoEnabledProviders = localStorage.getItem(AUTO_ENABLED_KEY);
@@ -136,6 +173,15 @@ const autoEnableConfiguredProviders = async () => {
 
     let hasChanges = false;
 
+    // Providers from the server's CUSTOM_PROVIDERS are added once, settings defined in the UI take precedence
+    const envCustomProviders = customProviders.filter((config) => !currentSettings[config.name]);
+
+    if (envCustomProviders.length > 0) {
+      const savedProviderSettings = savedSettings ? JSON.parse(savedSettings) : {};
+      Object.assign(currentSettings, getCustomProviderSettings(envCustomProviders, savedProviderSettings));
+      hasChanges = true;
+    }
+
     configuredProviders.forEach(({ name, isConfigured, configMethod }) => {
       if (isConfigured && configMethod === 'environment' && LOCAL_PROVIDERS.includes(name)) {
         const currentProvider = currentSettings[name];
@@ -167,7 +213,7 @@ const autoEnableConfiguredProviders = async () => {
 
     if (hasChanges) {
       // Update the store
-      providersStore.set(currentSettings);
+      providersStore.set({ ...currentSettings });
 
       // Save to localStorage
       localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(currentSettings));
@@ -176,7 +222,9 @@ const autoEnableConfiguredProviders = async () => {
       const allAutoEnabled = [...new Set([...previouslyAutoEnabled, ...newlyAutoEnabled])];
       localStorage.setItem(AUTO_ENABLED_KEY, JSON.stringify(allAutoEnabled));
 
-      console.log(`Auto-enabled providers: ${newlyAutoEnabled.join(', ')}`);
+      if (newlyAutoEnabled.length > 0) {
+        console.log(`Auto-enabled providers: ${newlyAutoEnabled.join(', ')}`);
+      }
     }
   } catch (error) {
     console.error('Error auto-enabling configured providers:', error);
@@ -222,6 +270,24 @@ export const updateProviderSettings = (provider: string, settings: ProviderSetti
   }
 };
 
+// Replaces the custom providers defined in the UI, keeping the settings of the ones that stay
+export const updateCustomProviders = (configs: CustomProviderConfig[]) => {
+  const currentSettings = { ...providersStore.get() };
+
+  customProvidersStore
+    .get()
+    .filter((config) => !configs.some((x) => x.name === config.name))
+    .forEach((config) => delete currentSettings[config.name]);
+
+  Object.assign(currentSettings, getCustomProviderSettings(configs, currentSettings));
+
+  customProvidersStore.set(configs);
+  localStorage.setItem(CUSTOM_PROVIDERS_KEY, JSON.stringify(configs));
+
+  providersStore.set(currentSettings);
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(currentSettings));
+};
+
 // Update auto-enabled tracking when user manually changes provider settings
 const updateAutoEnabledTracking = (providerName: string, isEnabled: boolean) => {
   if (!isBrowser) {
@@ -258,6 +324,13 @@ const SETTINGS_KEYS = {
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
+  FAILOVER_CHAIN: 'failoverChain',
+  CONTEXT_RETRIEVAL: 'contextRetrieval',
+  BUDGET_CAPS: 'budgetCaps',
+  EDITING_MODES: 'editingModes',
+  SELF_HEALING: 'selfHealing',
+  COMPACTION: 'compaction',
+  AUTO_COMMIT: 'autoCommit',
 } as const;
 
 // Initialize settings from localStorage or defaults
@@ -280,6 +353,92 @@ const getInitialSettings = () => {
     }
   };
 
+  const getStoredFailoverChain = (): FailoverTarget[] => {
+    if (!isBrowser) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.FAILOVER_CHAIN) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const getStoredContextRetrieval = (): ContextRetrievalSettings => {
+    const fallback: ContextRetrievalSettings = { mode: 'hybrid' };
+
+    if (!isBrowser) {
+      return fallback;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.CONTEXT_RETRIEVAL) || 'null');
+      return stored && typeof stored.mode === 'string' ? stored : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const getStoredBudgetCaps = (): BudgetCaps => {
+    const fallback: BudgetCaps = { perChat: {}, perDay: {} };
+
+    if (!isBrowser) {
+      return fallback;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.BUDGET_CAPS) || 'null');
+      return stored ? { ...fallback, ...stored } : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const getStoredEditingModes = (): Record<string, EditingMode> => {
+    if (!isBrowser) {
+      return {};
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.EDITING_MODES) || '{}');
+      return stored && typeof stored === 'object' ? stored : {};
+    } catch {
+      return {};
+    }
+  };
+
+  const getStoredSelfHealing = (): SelfHealingSettings => {
+    const fallback: SelfHealingSettings = { enabled: false, maxAttempts: 3 };
+
+    if (!isBrowser) {
+      return fallback;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.SELF_HEALING) || 'null');
+      return stored ? { ...fallback, ...stored } : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const getStoredCompaction = (): CompactionSettings => {
+    const fallback: CompactionSettings = { enabled: false, threshold: 0.6 };
+
+    if (!isBrowser) {
+      return fallback;
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.COMPACTION) || 'null');
+      return stored ? { ...fallback, ...stored } : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
   return {
     latestBranch: getStoredBoolean(SETTINGS_KEYS.LATEST_BRANCH, false),
     autoSelectTemplate: getStoredBoolean(SETTINGS_KEYS.AUTO_SELECT_TEMPLATE, true),
@@ -287,6 +446,13 @@ const getInitialSettings = () => {
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
+    failoverChain: getStoredFailoverChain(),
+    contextRetrieval: getStoredContextRetrieval(),
+    budgetCaps: getStoredBudgetCaps(),
+    editingModes: getStoredEditingModes(),
+    selfHealing: getStoredSelfHealing(),
+    compaction: getStoredCompaction(),
+    autoCommit: getStoredBoolean(SETTINGS_KEYS.AUTO_COMMIT, false),
   };
 };
 
@@ -298,6 +464,17 @@ export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelec
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const failoverChainStore = atom<FailoverTarget[]>(initialSettings.failoverChain);
+export const contextRetrievalStore = atom<ContextRetrievalSettings>(initialSettings.contextRetrieval);
+export const budgetCapsStore = atom<BudgetCaps>(initialSettings.budgetCaps);
+export const selfHealingStore = atom<SelfHealingSettings>(initialSettings.selfHealing);
+export const compactionStore = atom<CompactionSettings>(initialSettings.compaction);
+export const autoCommitStore = atom<boolean>(initialSettings.autoCommit);
+
+// editing mode per `provider/model`, models without an entry use the artifact protocol
+export const editingModesStore = atom<Record<string, EditingMode>>(initialSettings.editingModes);
+
+export const getEditingModeKey = (provider: string, model: string) => `${provider}/${model}`;
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -325,6 +502,44 @@ export const updatePromptId = (id: string) => {
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateFailoverChain = (chain: FailoverTarget[]) => {
+  failoverChainStore.set(chain);
+  localStorage.setItem(SETTINGS_KEYS.FAILOVER_CHAIN, JSON.stringify(chain));
+};
+
+export const updateContextRetrieval = (settings: ContextRetrievalSettings) => {
+  contextRetrievalStore.set(settings);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_RETRIEVAL, JSON.stringify(settings));
+};
+
+export const updateBudgetCaps = (caps: BudgetCaps) => {
+  budgetCapsStore.set(caps);
+  localStorage.setItem(SETTINGS_KEYS.BUDGET_CAPS, JSON.stringify(caps));
+};
+
+export const updateSelfHealing = (settings: SelfHealingSettings) => {
+  selfHealingStore.set(settings);
+  localStorage.setItem(SETTINGS_KEYS.SELF_HEALING, JSON.stringify(settings));
+};
+
+export const updateCompaction = (settings: CompactionSettings) => {
+  compactionStore.set(settings);
+  localStorage.setItem(SETTINGS_KEYS.COMPACTION, JSON.stringify(settings));
+};
+
+export const updateAutoCommit = (enabled: boolean) => {
+  autoCommitStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_COMMIT, JSON.stringify(enabled));
+};
+
+export const updateEditingMode = (provider: string, model: string, mode: EditingMode) => {
+  const { [getEditingModeKey(provider, model)]: _previous, ...modes } = editingModesStore.get();
+  const updated = mode === 'artifacts' ? modes : { ...modes, [getEditingModeKey(provider, model)]: mode };
+
+  editingModesStore.set(updated);
+  localStorage.setItem(SETTINGS_KEYS.EDITING_MODES, JSON.stringify(updated));
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
@@ -349,9 +564,14 @@ const getInitialTabConfiguration = (): TabWindowConfig => {
     }
 
     // Ensure proper typing of loaded configuration
-    return {
-      userTabs: parsed.userTabs.filter((tab: TabVisibilityConfig): tab is UserTabConfig => tab.window === 'user'),
-    };
+    const userTabs: UserTabConfig[] = parsed.userTabs.filter(
+      (tab: TabVisibilityConfig): tab is UserTabConfig => tab.window === 'user',
+    );
+
+    // tabs added since the configuration was saved
+    const addedTabs = defaultConfig.userTabs.filter((tab) => !userTabs.some((saved) => saved.id === tab.id));
+
+    return { userTabs: [...userTabs, ...addedTabs] };
   } catch (error) {
     console.warn('Failed to parse tab configuration:', error);
     return defaultConfig;
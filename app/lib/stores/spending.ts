@@ -0,0 +1,41 @@
+import { atom } from 'nanostores';
+import { addTurnCost, getSpendingTotals } from '~/lib/persistence/db';
+import type { SpendingTotals, TurnCost } from '~/types/cost';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Spending');
+
+/**
+ * What has been spent in the open chat and today, checked against the budget caps with every
+ * chat request.
+ */
+export const spendingStore = atom<SpendingTotals>({ chat: 0, day: 0 });
+
+export function toDayKey(date = new Date()) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export async function refreshSpending(db: IDBDatabase, chatId?: string) {
+  try {
+    spendingStore.set(await getSpendingTotals(db, chatId, toDayKey()));
+  } catch (error) {
+    logger.error('Failed to load spending totals', error);
+  }
+}
+
+export async function recordTurnCost(db: IDBDatabase, chatId: string, messageId: string, cost: TurnCost) {
+  const added = await addTurnCost(db, {
+    messageId,
+    chatId,
+    day: toDayKey(),
+    timestamp: new Date().toISOString(),
+    cost,
+  });
+
+  if (added) {
+    await refreshSpending(db, chatId);
+  }
+}
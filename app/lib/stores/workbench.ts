@@ -1,6 +1,7 @@
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
 import { ActionRunner } from '~/lib/runtime/action-runner';
+import { PostWritePipeline } from '~/lib/runtime/post-write-pipeline';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
 import type { ITerminal } from '~/types/terminal';
@@ -21,6 +22,9 @@ import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
 
 const { saveAs } = fileSaver;
 
+// a little longer than the file watcher buffers its events
+const FILE_WATCHER_SETTLE_DELAY = 250;
+
 export interface ArtifactState {
   id: string;
   title: string;
@@ -33,16 +37,21 @@ export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
 
 type Artifacts = MapStore<Record<string, ArtifactState>>;
 
-export type WorkbenchViewType = 'code' | 'diff' | 'preview';
+export type WorkbenchViewType = 'code' | 'diff' | 'git' | 'preview';
 
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
+  #postWritePipeline = new PostWritePipeline(webcontainer);
 
   #reloadedMessages = new Set<string>();
 
+  // messages mirrored from the leader tab of the chat, their actions already ran there
+  #mirroredMessages = new Set<string>();
+  #checkedArtifacts = new Set<string>();
+
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
 
   showWorkbench: WritableAtom<boolean> = import.meta.hot?.data.showWorkbench ?? atom(false);
@@ -107,6 +116,14 @@ export class WorkbenchStore {
     return this.#filesStore.filesCount;
   }
 
+  /**
+   * Returns the paths of the files most relevant to `query` according to the file index,
+   * best match first.
+   */
+  rankContextFiles(query: string, limit?: number) {
+    return this.#filesStore.index.search(query, { limit }).map((result) => result.path);
+  }
+
   get showTerminal() {
     return this.#terminalStore.showTerminal;
   }
@@ -465,6 +482,14 @@ export class WorkbenchStore {
     this.#reloadedMessages = new Set(messages);
   }
 
+  setMirroredMessages(messages: string[]) {
+    this.#mirroredMessages = new Set(messages);
+  }
+
+  #isReplayed(messageId: string) {
+    return this.#reloadedMessages.has(messageId) || this.#mirroredMessages.has(messageId);
+  }
+
   addArtifact({ messageId, title, id, type }: ArtifactCallbackData) {
     const artifact = this.#getArtifact(id);
 
@@ -485,21 +510,21 @@ export class WorkbenchStore {
         webcontainer,
         () => this.boltTerminal,
         (alert) => {
-          if (this.#reloadedMessages.has(messageId)) {
+          if (this.#isReplayed(messageId)) {
             return;
           }
 
           this.actionAlert.set(alert);
         },
         (alert) => {
-          if (this.#reloadedMessages.has(messageId)) {
+          if (this.#isReplayed(messageId)) {
             return;
           }
 
           this.supabaseAlert.set(alert);
         },
         (alert) => {
-          if (this.#reloadedMessages.has(messageId)) {
+          if (this.#isReplayed(messageId)) {
             return;
           }
 
@@ -522,6 +547,69 @@ export class WorkbenchStore {
 
     this.artifacts.setKey(artifactId, { ...artifact, ...state });
   }
+
+  /**
+   * Queues the post-write hooks for the files the artifact wrote, after its actions have run.
+   * Diagnostics of failing hooks become the action alert.
+   */
+  runPostWriteHooks({ artifactId, messageId }: ArtifactCallbackData) {
+    if (!artifactId || this.#isReplayed(messageId) || this.#checkedArtifacts.has(artifactId)) {
+      return;
+    }
+
+    this.#checkedArtifacts.add(artifactId);
+
+    this.addToExecutionQueue(async () => {
+      const files = [...(this.#getArtifact(artifactId)?.runner.touchedFiles ?? [])];
+
+      if (files.length === 0) {
+        return;
+      }
+
+      try {
+        const alert = await this.#postWritePipeline.run(files);
+
+        if (alert) {
+          this.actionAlert.set(alert);
+        }
+      } catch (error) {
+        console.error('Failed to run post-write hooks:', error);
+      }
+    });
+  }
+
+  /**
+   * Resolves with the project files once the actions of the artifact have run, or with undefined
+   * when the artifact wrote no files or belongs to a reloaded message.
+   */
+  getFilesAfterArtifact({ artifactId, messageId }: ArtifactCallbackData): Promise<FileMap | undefined> {
+    if (!artifactId || this.#isReplayed(messageId)) {
+      return Promise.resolve(undefined);
+    }
+
+    return new Promise((resolve) => {
+      this.addToExecutionQueue(async () => {
+        if (!this.#getArtifact(artifactId)?.runner.touchedFiles.size) {
+          resolve(undefined);
+          return;
+        }
+
+        // written files reach the store through the buffered file watcher
+        setTimeout(() => resolve(this.files.get()), FILE_WATCHER_SETTLE_DELAY);
+      });
+    });
+  }
+
+  /**
+   * Rewinds the project files to `files`, unsaved changes in the editor are dropped.
+   */
+  async restoreFiles(files: FileMap) {
+    await this.#filesStore.restoreFiles(files);
+
+    this.unsavedFiles.set(new Set<string>());
+    this.setDocuments(this.files.get());
+  }
+
   addAction(data: ActionCallbackData) {
     // this._addAction(data);
 
@@ -540,6 +628,15 @@ export class WorkbenchStore {
   }
 
   runAction(data: ActionCallbackData, isStreaming: boolean = false) {
+    if (this.#mirroredMessages.has(data.messageId)) {
+      // the leader tab ran the action, its files arrive through the tab sync
+      if (!isStreaming) {
+        this.addToExecutionQueue(async () => this.#getArtifact(data.artifactId)?.runner.markAsDone(data));
+      }
+
+      return;
+    }
+
     if (isStreaming) {
       this.actionStreamSampler(data, isStreaming);
     } else {
@@ -595,6 +692,20 @@ export class WorkbenchStore {
         await artifact.runner.runAction(data);
         this.resetAllFileModifications();
       }
+    } else if (data.action.type === 'patch') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      // the runner patches the file in the container, the editor picks the change up from the file watcher
+      await artifact.runner.runAction(data);
+
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+
+      if (this.currentView.value !== 'code') {
+        this.currentView.set('code');
+      }
     } else {
       await artifact.runner.runAction(data);
     }
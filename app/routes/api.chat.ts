@@ -1,26 +1,58 @@
-import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
 import { createDataStream, generateId } from 'ai';
-import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
+import { MAX_EDITING_TOOL_STEPS, MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
-import SwitchableStream from '~/lib/.server/llm/switchable-stream';
-import type { IProviderSetting } from '~/types/model';
+import type { EditingMode, FailoverTarget, IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
-import { WORK_DIR } from '~/utils/constants';
+import type {
+  ChatCompaction,
+  CompactionSettings,
+  ContextAnnotation,
+  ContextBudget,
+  ContextRetrievalSettings,
+  ProgressAnnotation,
+  UsageAnnotation,
+} from '~/types/context';
+import type { SpendingLimits } from '~/types/cost';
+import { MODEL_REGEX, PROVIDER_REGEX, RESUMABLE_STREAM_ID_HEADER, WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
+import { applyCompaction, compactHistory, renderConversationSummary } from '~/lib/.server/llm/compact-history';
 import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
 import type { DesignScheme } from '~/types/design-scheme';
 import { MCPService } from '~/lib/services/mcpService';
+import { createEditingTools } from '~/lib/common/editing-tools';
 import { StreamRecoveryManager } from '~/lib/.server/llm/stream-recovery';
+import { ResumableStreamManager } from '~/lib/.server/llm/resumable-stream';
+import { checkSpendingLimits, TurnCostTracker } from '~/lib/.server/llm/cost-tracker';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { parseCustomProviderConfigs } from '~/lib/modules/llm/custom-provider-config';
 
 export async function action(args: ActionFunctionArgs) {
+  if (args.request.method === 'DELETE') {
+    return abortAction(args);
+  }
+
   return chatAction(args);
 }
 
+export async function loader(args: LoaderFunctionArgs) {
+  return resumeAction(args);
+}
+
 const logger = createScopedLogger('api.chat');
 
+// how long a generation keeps running after the connection dropped, a stop from the client aborts it right away
+const RECONNECT_WINDOW_MS = 60000;
+
+const STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  Connection: 'keep-alive',
+  'Cache-Control': 'no-cache',
+  'Text-Encoding': 'chunked',
+};
+
 function parseCookies(cookieHeader: string): Record<string, string> {
   const cookies: Record<string, string> = {};
 
@@ -39,41 +71,188 @@ function parseCookies(cookieHeader: string): Record<string, string> {
   return cookies;
 }
 
+/**
+ * Points the turn at another provider/model. If the failed attempt already streamed some text, the
+ * new model is asked to continue it, otherwise the last user message is simply re-addressed.
+ */
+function retargetMessages(messages: Messages, target: FailoverTarget, partialText: string) {
+  const header = `[Model: ${target.model}]\n\n[Provider: ${target.provider}]\n\n`;
+
+  if (partialText) {
+    messages.push({ id: generateId(), role: 'assistant', content: partialText });
+    messages.push({ id: generateId(), role: 'user', content: `${header}${CONTINUE_PROMPT}` });
+
+    return;
+  }
+
+  const index = messages.map((x) => x.role).lastIndexOf('user');
+
+  if (index === -1) {
+    return;
+  }
+
+  const message = messages[index];
+  const readdress = (text: string) => `${header}${text.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '')}`;
+
+  messages[index] = {
+    ...message,
+    content: readdress(message.content),
+    parts: message.parts?.map((part) => (part.type === 'text' ? { ...part, text: readdress(part.text) } : part)),
+  };
+}
+
+async function resumeAction({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const streamId = url.searchParams.get('streamId');
+  const offset = Number(url.searchParams.get('offset') || 0);
+
+  if (!streamId) {
+    return new Response(JSON.stringify({ error: true, message: 'Missing streamId', statusCode: 400 }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const stream = ResumableStreamManager.getInstance().read(streamId, Number.isFinite(offset) ? offset : 0);
+
+  if (!stream) {
+    return new Response(
+      JSON.stringify({ error: true, message: 'Stream not found or expired', statusCode: 404, isRetryable: false }),
+      {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
+
+  logger.info(`Resuming stream ${streamId} from offset ${offset}`);
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...STREAM_HEADERS,
+      [RESUMABLE_STREAM_ID_HEADER]: streamId,
+    },
+  });
+}
+
+// the client stopped the generation, unlike a dropped connection there is nothing to wait for
+async function abortAction({ request }: ActionFunctionArgs) {
+  const streamId = new URL(request.url).searchParams.get('streamId');
+
+  if (!streamId || !ResumableStreamManager.getInstance().abort(streamId)) {
+    return new Response(JSON.stringify({ error: true, message: 'Stream not found or expired', statusCode: 404 }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  logger.info(`Stream ${streamId} aborted by the client`);
+
+  return new Response(null, { status: 204 });
+}
+
 async function chatAction({ context, request }: ActionFunctionArgs) {
+  const generationAbort = new AbortController();
+
+  // fails over through the whole chain, one attempt per target
   const streamRecovery = new StreamRecoveryManager({
     timeout: 45000,
-    maxRetries: 2,
     onTimeout: () => {
-      logger.warn('Stream timeout - attempting recovery');
+      logger.warn('Stream timeout - failing over to the next model');
     },
   });
 
-  const { messages, files, promptId, contextOptimization, supabase, chatMode, designScheme, maxLLMSteps } =
-    await request.json<{
-      messages: Messages;
-      files: any;
-      promptId?: string;
-      contextOptimization: boolean;
-      chatMode: 'discuss' | 'build';
-      designScheme?: DesignScheme;
-      supabase?: {
-        isConnected: boolean;
-        hasSelectedProject: boolean;
-        credentials?: {
-          anonKey?: string;
-          supabaseUrl?: string;
-        };
+  // keeps the generation alive while the client reconnects, and stops it if nobody comes back
+  const reconnectWindow = new StreamRecoveryManager({
+    timeout: RECONNECT_WINDOW_MS,
+    maxRetries: 0,
+    onGiveUp: () => {
+      logger.warn('Client did not reconnect - aborting generation');
+      generationAbort.abort();
+    },
+  });
+
+  const {
+    messages,
+    files,
+    promptId,
+    contextOptimization,
+    supabase,
+    chatMode,
+    designScheme,
+    maxLLMSteps,
+    failoverChain,
+    contextRetrieval,
+    contextCandidates,
+    spendingLimits,
+    editingMode,
+    compaction,
+    compactionSettings,
+  } = await request.json<{
+    messages: Messages;
+    files: any;
+    promptId?: string;
+    contextOptimization: boolean;
+    chatMode: 'discuss' | 'build';
+    designScheme?: DesignScheme;
+    supabase?: {
+      isConnected: boolean;
+      hasSelectedProject: boolean;
+      credentials?: {
+        anonKey?: string;
+        supabaseUrl?: string;
       };
-      maxLLMSteps: number;
-    }>();
+    };
+    maxLLMSteps: number;
+    failoverChain?: FailoverTarget[];
+    contextRetrieval?: ContextRetrievalSettings;
+    contextCandidates?: string[];
+    spendingLimits?: SpendingLimits;
+    editingMode?: EditingMode;
+    compaction?: ChatCompaction;
+    compactionSettings?: CompactionSettings;
+  }>();
 
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
   const providerSettings: Record<string, IProviderSetting> = JSON.parse(
     parseCookies(cookieHeader || '').providers || '{}',
   );
+  const customProviders = LLMManager.getInstance().getCustomProviders(
+    parseCustomProviderConfigs(parseCookies(cookieHeader || '').customProviders),
+    context.cloudflare?.env as any,
+  );
+
+  // file edits arrive as tool calls instead of `<boltArtifact>` markup
+  const useEditingTools = chatMode === 'build' && editingMode === 'tools';
 
-  const stream = new SwitchableStream();
+  // advisory only, the totals come from the client
+  const spendingCheck = checkSpendingLimits(spendingLimits);
+
+  if (spendingCheck.blocked) {
+    return new Response(
+      JSON.stringify({
+        error: true,
+        message: spendingCheck.blocked,
+        statusCode: 402,
+        isRetryable: false,
+        provider: 'unknown',
+      }),
+      {
+        status: 402,
+        headers: { 'Content-Type': 'application/json' },
+        statusText: 'Payment Required',
+      },
+    );
+  }
+
+  const costTracker = new TurnCostTracker({
+    apiKeys,
+    providerSettings,
+    serverEnv: context.cloudflare?.env as any,
+    customProviders,
+  });
 
   const cumulativeUsage = {
     completionTokens: 0,
@@ -92,19 +271,134 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
     const dataStream = createDataStream({
       async execute(dataStream) {
-        streamRecovery.startMonitoring();
-
         const filePaths = getFilePaths(files || {});
         let filteredFiles: FileMap | undefined = undefined;
         let summary: string | undefined = undefined;
-        let messageSliceId = 0;
+        let codeContextWritten = false;
+
+        // turns already folded into the summary of the chat are not sent again
+        let { messages: processedMessages, compaction: activeCompaction } = applyCompaction(
+          await mcpService.processToolInvocations(messages, dataStream),
+          compaction,
+        );
+
+        const requestedTarget = extractPropertiesFromMessage(
+          processedMessages.filter((x) => x.role == 'user').slice(-1)[0],
+        );
+        const targets: FailoverTarget[] = [
+          { provider: requestedTarget.provider, model: requestedTarget.model },
+          ...(failoverChain || []).filter(
+            (target) =>
+              target?.provider &&
+              target?.model &&
+              !(target.provider === requestedTarget.provider && target.model === requestedTarget.model),
+          ),
+        ];
+
+        // the model currently generating the response, changes when the turn fails over
+        let activeTarget = targets[0];
+
+        // a response cut off by the token limit, the next segment of the turn continues it
+        let truncatedContent: string | undefined;
+        let segments = 1;
+
+        spendingCheck.warnings.forEach((warning) => {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'budget',
+            status: 'complete',
+            order: progressCounter++,
+            message: `Budget warning: ${warning}`,
+          } satisfies ProgressAnnotation);
+        });
 
-        const processedMessages = await mcpService.processToolInvocations(messages, dataStream);
+        // reports the files that made it into the context window once the budget is known
+        const writeCodeContext = (budget: ContextBudget) => {
+          if (!filteredFiles || codeContextWritten) {
+            return;
+          }
+
+          codeContextWritten = true;
 
-        if (processedMessages.length > 3) {
-          messageSliceId = processedMessages.length - 3;
+          const toRelativePath = (path: string) => (path.startsWith(WORK_DIR) ? path.replace(WORK_DIR, '') : path);
+
+          dataStream.writeMessageAnnotation({
+            type: 'codeContext',
+            files: budget.files.filter((file) => file.status !== 'omitted').map((file) => toRelativePath(file.path)),
+            budget: {
+              ...budget,
+              files: budget.files.map((file) => ({ ...file, path: toRelativePath(file.path) })),
+            },
+          } satisfies ContextAnnotation);
+        };
+
+        if (compactionSettings?.enabled) {
+          let compacting = false;
+
+          try {
+            const updated = await compactHistory({
+              messages: processedMessages,
+              previous: activeCompaction,
+              threshold: compactionSettings.threshold,
+              env: context.cloudflare?.env,
+              apiKeys,
+              providerSettings,
+              customProviders,
+              onStart() {
+                compacting = true;
+                dataStream.writeData({
+                  type: 'progress',
+                  label: 'compaction',
+                  status: 'in-progress',
+                  order: progressCounter++,
+                  message: 'Compacting Conversation',
+                } satisfies ProgressAnnotation);
+              },
+              onFinish(resp) {
+                if (resp.usage) {
+                  logger.debug('compactHistory token usage', JSON.stringify(resp.usage));
+                  cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
+                  cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                  cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                  costTracker.record('compaction', targets[0], resp.usage, resp.providerMetadata);
+                }
+              },
+            });
+
+            if (updated) {
+              activeCompaction = updated;
+              processedMessages = applyCompaction(processedMessages, updated).messages;
+
+              dataStream.writeMessageAnnotation({
+                type: 'compaction',
+                compaction: updated,
+              } satisfies ContextAnnotation);
+              dataStream.writeData({
+                type: 'progress',
+                label: 'compaction',
+                status: 'complete',
+                order: progressCounter++,
+                message: `Compacted ${updated.messageCount} Earlier Messages`,
+              } satisfies ProgressAnnotation);
+            }
+          } catch (error) {
+            // the turn goes on with the full history, the planner still drops what does not fit
+            logger.error('Failed to compact the conversation', error);
+
+            if (compacting) {
+              dataStream.writeData({
+                type: 'progress',
+                label: 'compaction',
+                status: 'complete',
+                order: progressCounter++,
+                message: 'Conversation Not Compacted',
+              } satisfies ProgressAnnotation);
+            }
+          }
         }
 
+        const conversationSummary = activeCompaction && renderConversationSummary(activeCompaction.summary);
+
         if (filePaths.length > 0 && contextOptimization) {
           logger.debug('Generating Chat Summary');
           dataStream.writeData({
@@ -123,6 +417,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             env: context.cloudflare?.env,
             apiKeys,
             providerSettings,
+            customProviders,
             promptId,
             contextOptimization,
             onFinish(resp) {
@@ -131,6 +426,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                 cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
                 cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
                 cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                costTracker.record('summary', targets[0], resp.usage, resp.providerMetadata);
               }
             },
           });
@@ -166,15 +462,19 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             apiKeys,
             files,
             providerSettings,
+            customProviders,
             promptId,
             contextOptimization,
             summary,
+            candidates: contextCandidates,
+            retrieval: contextRetrieval,
             onFinish(resp) {
               if (resp.usage) {
                 logger.debug('selectContext token usage', JSON.stringify(resp.usage));
                 cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
                 cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
                 cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                costTracker.record('context', targets[0], resp.usage, resp.providerMetadata);
               }
             },
           });
@@ -183,19 +483,6 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             logger.debug(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
           }
 
-          dataStream.writeMessageAnnotation({
-            type: 'codeContext',
-            files: Object.keys(filteredFiles).map((key) => {
-              let path = key;
-
-              if (path.startsWith(WORK_DIR)) {
-                path = path.replace(WORK_DIR, '');
-              }
-
-              return path;
-            }),
-          } as ContextAnnotation);
-
           dataStream.writeData({
             type: 'progress',
             label: 'context',
@@ -210,21 +497,25 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
         const options: StreamingOptions = {
           supabaseConnection: supabase,
           toolChoice: 'auto',
-          tools: mcpService.toolsWithoutExecute,
-          maxSteps: maxLLMSteps,
+          tools: useEditingTools
+            ? { ...mcpService.toolsWithoutExecute, ...createEditingTools() }
+            : mcpService.toolsWithoutExecute,
+          maxSteps: useEditingTools ? Math.max(maxLLMSteps, MAX_EDITING_TOOL_STEPS) : maxLLMSteps,
+          abortSignal: generationAbort.signal,
           onStepFinish: ({ toolCalls }) => {
             // add tool call annotations for frontend processing
             toolCalls.forEach((toolCall) => {
               mcpService.processToolCall(toolCall, dataStream);
             });
           },
-          onFinish: async ({ text: content, finishReason, usage }) => {
+          onFinish: async ({ text: content, finishReason, usage, providerMetadata }) => {
             logger.debug('usage', JSON.stringify(usage));
 
             if (usage) {
               cumulativeUsage.completionTokens += usage.completionTokens || 0;
               cumulativeUsage.promptTokens += usage.promptTokens || 0;
               cumulativeUsage.totalTokens += usage.totalTokens || 0;
+              costTracker.record('response', activeTarget, usage, providerMetadata);
             }
 
             if (finishReason !== 'length') {
@@ -235,7 +526,8 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                   promptTokens: cumulativeUsage.promptTokens,
                   totalTokens: cumulativeUsage.totalTokens,
                 },
-              });
+                cost: costTracker.toTurnCost(),
+              } satisfies UsageAnnotation);
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
@@ -249,53 +541,11 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               return;
             }
 
-            if (stream.switches >= MAX_RESPONSE_SEGMENTS) {
+            if (segments >= MAX_RESPONSE_SEGMENTS) {
               throw Error('Cannot continue message: Maximum segments reached');
             }
 
-            const switchesLeft = MAX_RESPONSE_SEGMENTS - stream.switches;
-
-            logger.info(`Reached max token limit (${MAX_TOKENS}): Continuing message (${switchesLeft} switches left)`);
-
-            const lastUserMessage = processedMessages.filter((x) => x.role == 'user').slice(-1)[0];
-            const { model, provider } = extractPropertiesFromMessage(lastUserMessage);
-            processedMessages.push({ id: generateId(), role: 'assistant', content });
-            processedMessages.push({
-              id: generateId(),
-              role: 'user',
-              content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${CONTINUE_PROMPT}`,
-            });
-
-            const result = await streamText({
-              messages: [...processedMessages],
-              env: context.cloudflare?.env,
-              options,
-              apiKeys,
-              files,
-              providerSettings,
-              promptId,
-              contextOptimization,
-              contextFiles: filteredFiles,
-              chatMode,
-              designScheme,
-              summary,
-              messageSliceId,
-            });
-
-            result.mergeIntoDataStream(dataStream);
-
-            (async () => {
-              for await (const part of result.fullStream) {
-                if (part.type === 'error') {
-                  const error: any = part.error;
-                  logger.error(`${error}`);
-
-                  return;
-                }
-              }
-            })();
-
-            return;
+            truncatedContent = content;
           },
         };
 
@@ -307,44 +557,97 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           message: 'Generating Response',
         } satisfies ProgressAnnotation);
 
-        const result = await streamText({
-          messages: [...processedMessages],
-          env: context.cloudflare?.env,
-          options,
-          apiKeys,
-          files,
-          providerSettings,
-          promptId,
-          contextOptimization,
-          contextFiles: filteredFiles,
-          chatMode,
-          designScheme,
-          summary,
-          messageSliceId,
-        });
+        const respond = (chain: FailoverTarget[]) =>
+          streamRecovery.runWithFailover({
+            targets: chain,
+            dataStream,
+            abortSignal: generationAbort.signal,
+            attempt: async (target, { abortSignal, partialText, attempt }) => {
+              activeTarget = target;
 
-        (async () => {
-          for await (const part of result.fullStream) {
-            streamRecovery.updateActivity();
+              if (attempt > 0) {
+                retargetMessages(processedMessages, target, partialText);
+              }
 
-            if (part.type === 'error') {
-              const error: any = part.error;
-              logger.error('Streaming error:', error);
-              streamRecovery.stop();
+              const result = await streamText({
+                messages: [...processedMessages],
+                env: context.cloudflare?.env,
+                options: { ...options, abortSignal },
+                apiKeys,
+                files,
+                providerSettings,
+                customProviders,
+                promptId,
+                contextOptimization,
+                contextFiles: filteredFiles,
+                chatMode,
+                designScheme,
+                summary,
+                conversationSummary,
+                editingMode: useEditingTools ? 'tools' : 'artifacts',
+                onContextPlanned: writeCodeContext,
+              });
 
-              // Enhanced error handling for common streaming issues
-              if (error.message?.includes('Invalid JSON response')) {
-                logger.error('Invalid JSON response detected - likely malformed API response');
-              } else if (error.message?.includes('token')) {
-                logger.error('Token-related error detected - possible token limit exceeded');
-              }
+              (async () => {
+                for await (const part of result.fullStream) {
+                  if (part.type === 'error') {
+                    const error: any = part.error;
+                    logger.error('Streaming error:', error);
+
+                    // Enhanced error handling for common streaming issues
+                    if (error.message?.includes('Invalid JSON response')) {
+                      logger.error('Invalid JSON response detected - likely malformed API response');
+                    } else if (error.message?.includes('token')) {
+                      logger.error('Token-related error detected - possible token limit exceeded');
+                    }
+
+                    return;
+                  }
+                }
+              })();
 
-              return;
-            }
-          }
-          streamRecovery.stop();
-        })();
-        result.mergeIntoDataStream(dataStream);
+              return result;
+            },
+            onFailover: (failed, next) => {
+              dataStream.writeData({
+                type: 'progress',
+                label: 'failover',
+                status: 'in-progress',
+                order: progressCounter++,
+                message: `${failed.model} (${failed.provider}) failed, retrying with ${next.model} (${next.provider})`,
+              } satisfies ProgressAnnotation);
+            },
+          });
+
+        let finishedBy = await respond(targets);
+
+        // continuations fail over like the first segment, starting from the model that got cut off
+        while (finishedBy && truncatedContent !== undefined) {
+          logger.info(
+            `Reached max token limit (${MAX_TOKENS}): Continuing message (${MAX_RESPONSE_SEGMENTS - segments} switches left)`,
+          );
+
+          processedMessages.push({ id: generateId(), role: 'assistant', content: truncatedContent });
+          processedMessages.push({
+            id: generateId(),
+            role: 'user',
+            content: `[Model: ${finishedBy.model}]\n\n[Provider: ${finishedBy.provider}]\n\n${CONTINUE_PROMPT}`,
+          });
+
+          truncatedContent = undefined;
+          segments++;
+          finishedBy = await respond(targets.slice(targets.indexOf(finishedBy)));
+        }
+
+        if (finishedBy && finishedBy !== targets[0]) {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'failover',
+            status: 'complete',
+            order: progressCounter++,
+            message: `Response completed by ${finishedBy.model} (${finishedBy.provider})`,
+          } satisfies ProgressAnnotation);
+        }
       },
       onError: (error: any) => {
         // Provide more specific error messages for common issues
@@ -367,7 +670,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
         }
 
         if (errorMessage.includes('token') && errorMessage.includes('limit')) {
-          return 'Custom error: Token limit exceeded. The conversation is too long for the selected model. Try using a model with larger context window or start a new conversation.';
+          return 'Custom error: Token limit exceeded. The conversation is too long for the selected model. Try enabling conversation compaction in the settings, using a model with larger context window or starting a new conversation.';
         }
 
         if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
@@ -418,13 +721,28 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
       }),
     );
 
-    return new Response(dataStream, {
+    const resumableStreams = ResumableStreamManager.getInstance();
+    const resumable = resumableStreams.create(dataStream, {
+      onDetach: () => {
+        logger.warn('Client disconnected mid-generation - waiting for reconnect');
+        reconnectWindow.startMonitoring();
+      },
+      onAttach: () => reconnectWindow.stop(),
+      onAbort: () => {
+        reconnectWindow.stop();
+        generationAbort.abort();
+      },
+    });
+
+    // keep buffering after the response is gone on runtimes that would otherwise drop the work
+    context.cloudflare?.ctx?.waitUntil?.(resumable.done);
+    resumable.done.finally(() => reconnectWindow.stop());
+
+    return new Response(resumableStreams.read(resumable.id), {
       status: 200,
       headers: {
-        'Content-Type': 'text/event-stream; charset=utf-8',
-        Connection: 'keep-alive',
-        'Cache-Control': 'no-cache',
-        'Text-Encoding': 'chunked',
+        ...STREAM_HEADERS,
+        [RESUMABLE_STREAM_ID_HEADER]: resumable.id,
       },
     });
   } catch (error: any) {
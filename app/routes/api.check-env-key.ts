@@ -1,6 +1,6 @@
 import type { LoaderFunction } from '@remix-run/cloudflare';
 import { LLMManager } from '~/lib/modules/llm/manager';
-import { getApiKeysFromCookie } from '~/lib/api/cookies';
+import { getApiKeysFromCookie, getCustomProvidersFromCookie } from '~/lib/api/cookies';
 
 export const loader: LoaderFunction = async ({ context, request }) => {
   const url = new URL(request.url);
@@ -11,7 +11,12 @@ export const loader: LoaderFunction = async ({ context, request }) => {
   }
 
   const llmManager = LLMManager.getInstance(context?.cloudflare?.env as any);
-  const providerInstance = llmManager.getProvider(provider);
+  const customProviders = llmManager.getCustomProviders(
+    getCustomProvidersFromCookie(request.headers.get('Cookie')),
+    context?.cloudflare?.env as any,
+  );
+
+  const providerInstance = llmManager.getProvider(provider, customProviders);
 
   if (!providerInstance || !providerInstance.config.apiTokenKey) {
     return Response.json({ isSet: false });
@@ -1,6 +1,8 @@
 import type { LoaderFunction } from '@remix-run/cloudflare';
 import { json } from '@remix-run/cloudflare';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import { parseCustomProviderConfigs } from '~/lib/modules/llm/custom-provider-config';
+import type { CustomProviderConfig } from '~/lib/modules/llm/types';
 import { LOCAL_PROVIDERS } from '~/lib/stores/settings';
 
 interface ConfiguredProvider {
@@ -11,6 +13,7 @@ interface ConfiguredProvider {
 
 interface ConfiguredProvidersResponse {
   providers: ConfiguredProvider[];
+  customProviders?: CustomProviderConfig[];
 }
 
 /**
@@ -92,8 +95,16 @@ export const loader: LoaderFunction = async ({ context }) => {
       });
     }
 
+    // Custom providers from CUSTOM_PROVIDERS, so the client can list them next to the built-in ones
+    const customProviders = parseCustomProviderConfigs(
+      (context?.cloudflare?.env as Record<string, any>)?.CUSTOM_PROVIDERS ||
+        process.env.CUSTOM_PROVIDERS ||
+        llmManager.env.CUSTOM_PROVIDERS,
+    );
+
     return json<ConfiguredProvidersResponse>({
       providers: configuredProviders,
+      customProviders,
     });
   } catch (error) {
     console.error('Error detecting configured providers:', error);
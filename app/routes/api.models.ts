@@ -1,8 +1,9 @@
 import { json } from '@remix-run/cloudflare';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { ProviderInfo } from '~/types/model';
-import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { getApiKeysFromCookie, getCustomProvidersFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
 
 interface ModelsResponse {
   modelList: ModelInfo[];
@@ -10,19 +11,17 @@ interface ModelsResponse {
   defaultProvider: ProviderInfo;
 }
 
-let cachedProviders: ProviderInfo[] | null = null;
 let cachedDefaultProvider: ProviderInfo | null = null;
 
-function getProviderInfo(llmManager: LLMManager) {
-  if (!cachedProviders) {
-    cachedProviders = llmManager.getAllProviders().map((provider) => ({
-      name: provider.name,
-      staticModels: provider.staticModels,
-      getApiKeyLink: provider.getApiKeyLink,
-      labelForGetApiKey: provider.labelForGetApiKey,
-      icon: provider.icon,
-    }));
-  }
+function getProviderInfo(llmManager: LLMManager, customProviders: BaseProvider[]) {
+  // not cached, the custom providers differ per request
+  const providers = [...llmManager.getAllProviders(), ...customProviders].map((provider) => ({
+    name: provider.name,
+    staticModels: provider.staticModels,
+    getApiKeyLink: provider.getApiKeyLink,
+    labelForGetApiKey: provider.labelForGetApiKey,
+    icon: provider.icon,
+  }));
 
   if (!cachedDefaultProvider) {
     const defaultProvider = llmManager.getDefaultProvider();
@@ -35,7 +34,7 @@ function getProviderInfo(llmManager: LLMManager) {
     };
   }
 
-  return { providers: cachedProviders, defaultProvider: cachedDefaultProvider };
+  return { providers, defaultProvider: cachedDefaultProvider };
 }
 
 export async function loader({
@@ -57,20 +56,25 @@ export async function loader({
   const cookieHeader = request.headers.get('Cookie');
   const apiKeys = getApiKeysFromCookie(cookieHeader);
   const providerSettings = getProviderSettingsFromCookie(cookieHeader);
+  const customProviders = llmManager.getCustomProviders(
+    getCustomProvidersFromCookie(cookieHeader),
+    context.cloudflare?.env,
+  );
 
-  const { providers, defaultProvider } = getProviderInfo(llmManager);
+  const { providers, defaultProvider } = getProviderInfo(llmManager, customProviders);
 
   let modelList: ModelInfo[] = [];
 
   if (params.provider) {
     // Only update models for the specific provider
-    const provider = llmManager.getProvider(params.provider);
+    const provider = llmManager.getProvider(params.provider, customProviders);
 
     if (provider) {
       modelList = await llmManager.getModelListFromProvider(provider, {
         apiKeys,
         providerSettings,
         serverEnv: context.cloudflare?.env,
+        customProviders,
       });
     }
   } else {
@@ -79,6 +83,7 @@ export async function loader({
       apiKeys,
       providerSettings,
       serverEnv: context.cloudflare?.env,
+      customProviders,
     });
   }
 
@@ -0,0 +1,61 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { openFileStorage } from '~/lib/.server/storage/file-storage';
+import type { ChatDeletion } from '~/lib/persistence/storage';
+import type { ChatHistoryItem } from '~/lib/persistence/useChatHistory';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.storage.chats');
+
+export async function loader({ context, params, request }: LoaderFunctionArgs) {
+  const storage = openFileStorage(request, context?.cloudflare?.env as any);
+
+  if (storage instanceof Response) {
+    return storage;
+  }
+
+  try {
+    const chat = await storage.getChat(params.id!);
+
+    return chat ? Response.json(chat) : Response.json({ error: 'Chat not found' }, { status: 404 });
+  } catch (error) {
+    logger.error('Failed to read chat:', error);
+    return Response.json({ error: 'Failed to read chat' }, { status: 500 });
+  }
+}
+
+export async function action({ context, params, request }: ActionFunctionArgs) {
+  const storage = openFileStorage(request, context?.cloudflare?.env as any);
+
+  if (storage instanceof Response) {
+    return storage;
+  }
+
+  try {
+    if (request.method === 'PUT') {
+      const chat = (await request.json()) as ChatHistoryItem;
+
+      if (chat?.id !== params.id || !Array.isArray(chat.messages) || isNaN(Date.parse(chat.timestamp))) {
+        return Response.json({ error: 'Invalid chat' }, { status: 400 });
+      }
+
+      return Response.json(await storage.putChat(chat));
+    }
+
+    if (request.method === 'DELETE') {
+      const deletion = (await request.json()) as ChatDeletion;
+
+      if (deletion?.id !== params.id || isNaN(Date.parse(deletion.timestamp))) {
+        return Response.json({ error: 'Invalid deletion' }, { status: 400 });
+      }
+
+      await storage.deleteChat(deletion);
+
+      return new Response(null, { status: 204 });
+    }
+
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  } catch (error) {
+    logger.error('Failed to write chat:', error);
+    return Response.json({ error: 'Failed to write chat' }, { status: 500 });
+  }
+}
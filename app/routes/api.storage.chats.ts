@@ -0,0 +1,20 @@
+import type { LoaderFunction } from '@remix-run/cloudflare';
+import { openFileStorage } from '~/lib/.server/storage/file-storage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.storage.chats');
+
+export const loader: LoaderFunction = async ({ context, request }) => {
+  const storage = openFileStorage(request, context?.cloudflare?.env as any);
+
+  if (storage instanceof Response) {
+    return storage;
+  }
+
+  try {
+    return Response.json(await storage.list());
+  } catch (error) {
+    logger.error('Failed to list chats:', error);
+    return Response.json({ error: 'Failed to list chats' }, { status: 500 });
+  }
+};
@@ -0,0 +1,48 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { openFileStorage } from '~/lib/.server/storage/file-storage';
+import type { TimestampedSnapshot } from '~/lib/persistence/storage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.storage.snapshots');
+
+export async function loader({ context, params, request }: LoaderFunctionArgs) {
+  const storage = openFileStorage(request, context?.cloudflare?.env as any);
+
+  if (storage instanceof Response) {
+    return storage;
+  }
+
+  try {
+    const record = await storage.getSnapshot(params.id!);
+
+    return record ? Response.json(record) : Response.json({ error: 'Snapshot not found' }, { status: 404 });
+  } catch (error) {
+    logger.error('Failed to read snapshot:', error);
+    return Response.json({ error: 'Failed to read snapshot' }, { status: 500 });
+  }
+}
+
+export async function action({ context, params, request }: ActionFunctionArgs) {
+  const storage = openFileStorage(request, context?.cloudflare?.env as any);
+
+  if (storage instanceof Response) {
+    return storage;
+  }
+
+  if (request.method !== 'PUT') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const record = (await request.json()) as TimestampedSnapshot;
+
+    if (!record?.snapshot?.files || isNaN(Date.parse(record.timestamp))) {
+      return Response.json({ error: 'Invalid snapshot' }, { status: 400 });
+    }
+
+    return Response.json(await storage.putSnapshot(params.id!, record));
+  } catch (error) {
+    logger.error('Failed to write snapshot:', error);
+    return Response.json({ error: 'Failed to write snapshot' }, { status: 500 });
+  }
+}
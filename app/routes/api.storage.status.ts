@@ -0,0 +1,8 @@
+import type { LoaderFunction } from '@remix-run/cloudflare';
+import { getFileStorage, isStorageAuthorized } from '~/lib/.server/storage/file-storage';
+
+export const loader: LoaderFunction = async ({ context, request }) => {
+  const env = context?.cloudflare?.env as any;
+
+  return Response.json({ available: !!getFileStorage(env), authorized: isStorageAuthorized(request, env) });
+};
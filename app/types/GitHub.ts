@@ -75,6 +75,17 @@ export interface GitHubBranch {
   };
 }
 
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged_at: string | null;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
 export interface GitHubBlobResponse {
   content: string;
   encoding: string;
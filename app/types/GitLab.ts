@@ -101,3 +101,13 @@ export interface GitLabCommitRequest {
   commit_message: string;
   actions: GitLabCommitAction[];
 }
+
+export interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  source_branch: string;
+  target_branch: string;
+}
@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell' | 'supabase';
+export type ActionType = 'file' | 'patch' | 'shell' | 'supabase';
 
 export interface BaseAction {
   content: string;
@@ -11,6 +11,12 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+// edits part of an existing file, the content is a unified diff or SEARCH/REPLACE blocks
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -30,7 +36,7 @@ export interface SupabaseAction extends BaseAction {
   projectId?: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction | SupabaseAction;
+export type BoltAction = FileAction | PatchAction | ShellAction | StartAction | BuildAction | SupabaseAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
@@ -39,7 +45,14 @@ export interface ActionAlert {
   title: string;
   description: string;
   content: string;
-  source?: 'terminal' | 'preview'; // Add source to differentiate between terminal and preview errors
+  source?: 'terminal' | 'preview' | 'patch'; // Add source to differentiate between terminal and preview errors
+  autoSend?: boolean; // send the fix request to the model right away instead of waiting for the user
+}
+
+// opt-in loop sending preview and terminal errors back to the model until they are fixed
+export interface SelfHealingSettings {
+  enabled: boolean;
+  maxAttempts: number;
 }
 
 export interface SupabaseAlert {
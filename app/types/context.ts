@@ -1,14 +1,100 @@
+import type { TurnCost } from './cost';
+
+export type ContextBudgetFile = {
+  path: string;
+  tokens: number;
+  originalTokens?: number;
+  status: 'included' | 'truncated' | 'omitted';
+};
+
+// how the model's context window was split up for a turn, see `planContext`
+export type ContextBudget = {
+  model: string;
+  contextWindow: number;
+  completionTokens: number;
+  inputBudget: number;
+  used: number;
+  allocation: {
+    system: number;
+    summary: number;
+    files: number;
+    history: number;
+  };
+  files: ContextBudgetFile[];
+  droppedMessages: number;
+  summaryTruncated?: boolean;
+};
+
+/*
+ * how `selectContext` picks files: 'llm' asks the model to choose from every path, 'hybrid' lets it
+ * choose among the files ranked by the local search index, 'index' uses that ranking directly
+ */
+export type ContextRetrievalMode = 'llm' | 'hybrid' | 'index';
+
+export type ContextRetrievalSettings = {
+  mode: ContextRetrievalMode;
+
+  // optional embedding model used to re-rank the index results
+  embedding?: {
+    provider: string;
+    model: string;
+  };
+};
+
+// the structured summary that stands in for the compacted turns of a chat
+export type ConversationSummary = {
+  decisions: string[];
+  files: { path: string; description: string }[];
+  todos: string[];
+};
+
+export type ChatCompaction = {
+  summary: ConversationSummary;
+
+  // the last message covered by the summary, the messages after it are sent as they are
+  lastMessageId: string;
+  messageCount: number;
+  updatedAt: string;
+
+  // set once the user edited the summary
+  editedAt?: string;
+};
+
+/*
+ * rolling compaction of long chats: once the history not covered by the summary takes more than
+ * `threshold` of the model's context window, older turns are folded into the summary
+ */
+export type CompactionSettings = {
+  enabled: boolean;
+  threshold: number;
+};
+
 export type ContextAnnotation =
   | {
       type: 'codeContext';
       files: string[];
+      budget?: ContextBudget;
     }
   | {
       type: 'chatSummary';
       summary: string;
       chatId: string;
+    }
+  | {
+      type: 'compaction';
+      compaction: ChatCompaction;
     };
 
+export type UsageAnnotation = {
+  type: 'usage';
+  value: {
+    completionTokens: number;
+    promptTokens: number;
+    totalTokens: number;
+  };
+  cost?: TurnCost;
+};
+
 export type ProgressAnnotation = {
   type: 'progress';
   label: string;
@@ -0,0 +1,42 @@
+// which step of a chat turn made a model call
+export type CostStage = 'compaction' | 'summary' | 'context' | 'response';
+
+export type UsageCostEntry = {
+  stage: CostStage;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens?: number;
+
+  // USD, undefined when there is no pricing for the model
+  cost?: number;
+};
+
+export type TurnCost = {
+  // USD, sum of the priced entries
+  total: number;
+  entries: UsageCostEntry[];
+};
+
+// USD limits, a soft limit warns and a hard limit blocks the request
+export type BudgetCap = {
+  soft?: number;
+  hard?: number;
+};
+
+export type BudgetCaps = {
+  perChat: BudgetCap;
+  perDay: BudgetCap;
+};
+
+export type SpendingTotals = {
+  chat: number;
+  day: number;
+};
+
+// sent with every chat request, the caps are advisory since the server checks the client's own totals
+export type SpendingLimits = {
+  caps: BudgetCaps;
+  spent: SpendingTotals;
+};
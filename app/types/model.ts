@@ -23,3 +23,15 @@ export interface IProviderSetting {
 export type IProviderConfig = ProviderInfo & {
   settings: IProviderSetting;
 };
+
+// a provider/model pair the chat falls back to when the selected model fails mid-turn
+export interface FailoverTarget {
+  provider: string;
+  model: string;
+}
+
+/*
+ * how the model writes files in build mode: `artifacts` through the `<boltArtifact>` text protocol,
+ * `tools` through native tool calls
+ */
+export type EditingMode = 'artifacts' | 'tools';
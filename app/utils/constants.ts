@@ -8,6 +8,7 @@ export const MODEL_REGEX = /^\[Model: (.*?)\]\n\n/;
 export const PROVIDER_REGEX = /\[Provider: (.*?)\]\n\n/;
 export const DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
 export const PROMPT_COOKIE_KEY = 'cachedPrompt';
+export const RESUMABLE_STREAM_ID_HEADER = 'X-Bolt-Stream-Id';
 export const TOOL_EXECUTION_APPROVAL = {
   APPROVE: 'Yes, approved.',
   REJECT: 'No, rejected.',
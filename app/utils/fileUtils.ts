@@ -1,4 +1,6 @@
 import ignore from 'ignore';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from './constants';
 
 // Common patterns to ignore, similar to .gitignore
 export const IGNORE_PATTERNS = [
@@ -119,3 +121,22 @@ ${files[filePath].content}
 </boltArtifact>
   `;
 };
+
+// the text files of the workspace by their path relative to it
+export const localTextFiles = (files: FileMap): Record<string, string> => {
+  const result: Record<string, string> = {};
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'file' && !dirent.isBinary) {
+      result[filePath.slice(WORK_DIR.length + 1)] = dirent.content;
+    }
+  }
+
+  return result;
+};
+
+// the text files a deployment pushes, `.env` files keep their secrets local
+export const deployableFiles = (files: FileMap): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(localTextFiles(files)).filter(([filePath]) => !filePath.split('/').pop()!.startsWith('.env')),
+  );
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { mergeFiles, mergeText } from './merge';
+
+describe('mergeText', () => {
+  const base = 'a\nb\nc\nd\ne\n';
+
+  it('should apply the changes of both sides', () => {
+    expect(mergeText(base, 'A\nb\nc\nd\ne\n', 'a\nb\nc\nd\nE\n')).toEqual({ content: 'A\nb\nc\nd\nE\n', conflicts: 0 });
+    expect(mergeText(base, 'a\nB\nc\nd\ne\n', 'a\nB\nc\nd\ne\n')).toEqual({ content: 'a\nB\nc\nd\ne\n', conflicts: 0 });
+  });
+
+  it('should mark lines both sides changed differently', () => {
+    expect(mergeText(base, 'a\nb\nours\nd\ne\n', 'a\nb\ntheirs\nd\ne\n')).toEqual({
+      content: 'a\nb\n<<<<<<< local\nours\n=======\ntheirs\n>>>>>>> upstream\nd\ne\n',
+      conflicts: 1,
+    });
+  });
+});
+
+describe('mergeFiles', () => {
+  it('should only touch the files upstream changed', () => {
+    const base = { 'same.ts': '1', 'updated.ts': '1', 'gone.ts': '1', 'edited.ts': '1' };
+    const ours = { 'same.ts': '2', 'updated.ts': '1', 'gone.ts': '1', 'edited.ts': '2', 'local.ts': '1' };
+    const theirs = { 'same.ts': '1', 'updated.ts': '2', 'edited.ts': '3', 'new.ts': '1' };
+
+    expect(mergeFiles(base, ours, theirs)).toEqual([
+      { path: 'edited.ts', status: 'conflict', content: '<<<<<<< local\n2\n=======\n3\n>>>>>>> upstream\n' },
+      { path: 'gone.ts', status: 'deleted' },
+      { path: 'new.ts', status: 'added', content: '1' },
+      { path: 'updated.ts', status: 'updated', content: '2' },
+    ]);
+  });
+});
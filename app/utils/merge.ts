@@ -0,0 +1,193 @@
+import { diffArrays } from 'diff';
+
+/*
+ * Line based three-way merge, as `git merge-file` does it: the changes each side made to the base
+ * are applied together, and where both sides changed the same or adjacent lines differently the
+ * region is a conflict with both versions between markers.
+ */
+
+export const CONFLICT_MARKERS = {
+  ours: '<<<<<<< local',
+  separator: '=======',
+  theirs: '>>>>>>> upstream',
+};
+
+interface Hunk {
+  side: 'ours' | 'theirs';
+
+  // the lines of the base the hunk replaces, `end` is exclusive
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export type FileMergeStatus = 'added' | 'updated' | 'deleted' | 'conflict';
+
+export interface FileMergeResult {
+  path: string;
+  status: FileMergeStatus;
+
+  // the merged content, `undefined` when the file is deleted
+  content?: string;
+}
+
+// lines with their line break, so a missing break at the end of the file survives the merge
+function splitLines(content: string) {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function findHunks(base: string[], other: string[], side: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | undefined;
+
+  for (const change of diffArrays(base, other)) {
+    if (!change.added && !change.removed) {
+      current = undefined;
+      index += change.value.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { side, start: index, end: index, lines: [] };
+      hunks.push(current);
+    }
+
+    if (change.removed) {
+      index += change.value.length;
+      current.end = index;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+
+  return hunks;
+}
+
+// the lines of `base` from `start` to `end` with `hunks` applied
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]) {
+  const lines: string[] = [];
+  let index = start;
+
+  for (const hunk of hunks) {
+    lines.push(...base.slice(index, hunk.start), ...hunk.lines);
+    index = hunk.end;
+  }
+
+  lines.push(...base.slice(index, end));
+
+  return lines;
+}
+
+function withLineBreak(lines: string[]) {
+  const last = lines[lines.length - 1];
+
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), `${last}\n`];
+}
+
+export function mergeText(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...findHunks(baseLines, splitLines(ours), 'ours'),
+    ...findHunks(baseLines, splitLines(theirs), 'theirs'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let index = 0;
+
+  for (let i = 0; i < hunks.length;) {
+    // hunks that overlap or touch are merged as one region
+    const group = [hunks[i++]];
+    let end = group[0].end;
+
+    while (i < hunks.length && hunks[i].start <= end) {
+      end = Math.max(end, hunks[i].end);
+      group.push(hunks[i++]);
+    }
+
+    const start = group[0].start;
+    const oursHunks = group.filter((hunk) => hunk.side === 'ours');
+    const theirsHunks = group.filter((hunk) => hunk.side === 'theirs');
+
+    merged.push(...baseLines.slice(index, start));
+    index = end;
+
+    const oursLines = applyHunks(baseLines, start, end, oursHunks);
+    const theirsLines = applyHunks(baseLines, start, end, theirsHunks);
+
+    if (theirsHunks.length === 0 || oursLines.join('') === theirsLines.join('')) {
+      merged.push(...oursLines);
+    } else if (oursHunks.length === 0) {
+      merged.push(...theirsLines);
+    } else {
+      conflicts++;
+      merged.push(
+        `${CONFLICT_MARKERS.ours}\n`,
+        ...withLineBreak(oursLines),
+        `${CONFLICT_MARKERS.separator}\n`,
+        ...withLineBreak(theirsLines),
+        `${CONFLICT_MARKERS.theirs}\n`,
+      );
+    }
+  }
+
+  merged.push(...baseLines.slice(index));
+
+  return { content: merged.join(''), conflicts };
+}
+
+/**
+ * Merges the upstream changes between `base` and `theirs` into `ours`, all keyed by path. Returns
+ * the files to change, files upstream did not change are left as they are. Without a base, every
+ * file that differs on both sides is a conflict.
+ */
+export function mergeFiles(
+  base: Record<string, string>,
+  ours: Record<string, string>,
+  theirs: Record<string, string>,
+): FileMergeResult[] {
+  const results: FileMergeResult[] = [];
+  const paths = [...new Set([...Object.keys(base), ...Object.keys(theirs)])].sort();
+
+  for (const path of paths) {
+    const [baseContent, oursContent, theirsContent] = [base[path], ours[path], theirs[path]];
+
+    if (theirsContent === baseContent || theirsContent === oursContent) {
+      continue;
+    }
+
+    if (theirsContent === undefined) {
+      if (oursContent === baseContent) {
+        results.push({ path, status: 'deleted' });
+      } else if (oursContent !== undefined) {
+        // deleted upstream but changed here, the local version is kept
+        results.push({ path, status: 'conflict', content: oursContent });
+      }
+
+      continue;
+    }
+
+    if (oursContent === undefined) {
+      // changed upstream but deleted here, the upstream version is brought back
+      results.push({ path, status: baseContent === undefined ? 'added' : 'conflict', content: theirsContent });
+      continue;
+    }
+
+    if (oursContent === baseContent) {
+      results.push({ path, status: 'updated', content: theirsContent });
+      continue;
+    }
+
+    const { content, conflicts } = mergeText(baseContent ?? '', oursContent, theirsContent);
+
+    results.push({ path, status: conflicts > 0 ? 'conflict' : 'updated', content });
+  }
+
+  return results;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, PatchApplyError } from './patch';
+
+const source = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+  '',
+].join('\n');
+
+describe('applyPatch', () => {
+  it('should apply SEARCH/REPLACE blocks in order', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      '  return a + b;',
+      '=======',
+      '  return Number(a) + Number(b);',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  return a - b;',
+      '=======',
+      '  return Number(a) - Number(b);',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(applyPatch(source, patch)).toBe(
+      source.replace('a + b', 'Number(a) + Number(b)').replace('a - b', 'Number(a) - Number(b)'),
+    );
+  });
+
+  it('should anchor unified diff hunks fuzzily', () => {
+    // wrong line numbers, missing indentation and a context line that no longer exists
+    const patch = [
+      '--- a/math.js',
+      '+++ b/math.js',
+      '@@ -12,4 +12,4 @@',
+      ' // subtracts two numbers',
+      ' function sub(a, b) {',
+      '-return a - b;',
+      '+  return b - a;',
+      ' }',
+    ].join('\n');
+
+    expect(applyPatch(source, patch)).toBe(source.replace('a - b', 'b - a'));
+  });
+
+  it('should append a block with an empty search', () => {
+    const patch = ['<<<<<<< SEARCH', '=======', 'export { add };', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyPatch(source, patch)).toBe(`${source}export { add };\n`);
+  });
+
+  it('should throw for hunks that do not match', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      'function mul(a, b) {',
+      '=======',
+      'function times(a, b) {',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(() => applyPatch(source, patch)).toThrow(PatchApplyError);
+    expect(() => applyPatch(source, patch)).toThrow('Hunk 1 of 1 does not match the current content of the file');
+    expect(() => applyPatch(source, 'just some text')).toThrow('no unified diff hunks');
+  });
+});
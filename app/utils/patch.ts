@@ -0,0 +1,287 @@
+/*
+ * Applies the `patch` action format: either unified diff hunks or SEARCH/REPLACE blocks.
+ *
+ * Models rarely reproduce the original text exactly, so hunks are anchored fuzzily: the search
+ * lines are first matched exactly, then ignoring trailing whitespace, then ignoring indentation,
+ * and for diffs with context the outer context lines are dropped one at a time (like the fuzz
+ * factor of GNU patch). Hunks are applied in order and all of them must match, otherwise nothing
+ * is changed.
+ */
+
+type PatchLineOp = ' ' | '-' | '+';
+
+interface PatchLine {
+  op: PatchLineOp;
+  text: string;
+}
+
+export interface PatchHunk {
+  lines: PatchLine[];
+
+  // 1-based line of the hunk in the original file, only known for unified diffs
+  oldStart?: number;
+}
+
+export class PatchApplyError extends Error {
+  constructor(
+    message: string,
+    readonly hunk?: string,
+  ) {
+    super(message);
+    this.name = 'PatchApplyError';
+  }
+}
+
+const SEARCH_MARKER = /^<{5,9} ?SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} ?REPLACE\s*$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+const MAX_FUZZ = 2;
+
+const NORMALIZERS: Array<(line: string) => string> = [
+  (line) => line,
+  (line) => line.trimEnd(),
+  (line) => line.trim(),
+  (line) => line.replace(/\s+/g, ' ').trim(),
+];
+
+export function isSearchReplacePatch(patch: string) {
+  return patch.split('\n').some((line) => SEARCH_MARKER.test(line));
+}
+
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks = isSearchReplacePatch(patch) ? parseSearchReplace(patch) : parseUnifiedDiff(patch);
+
+  if (hunks.length === 0) {
+    throw new PatchApplyError('The patch has no unified diff hunks or SEARCH/REPLACE blocks');
+  }
+
+  return hunks;
+}
+
+function parseSearchReplace(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let search: string[] | undefined;
+  let replace: string[] | undefined;
+
+  for (const line of patch.split('\n')) {
+    if (SEARCH_MARKER.test(line)) {
+      search = [];
+      replace = undefined;
+    } else if (search && !replace && DIVIDER_MARKER.test(line)) {
+      replace = [];
+    } else if (search && replace && REPLACE_MARKER.test(line)) {
+      hunks.push({ lines: toHunkLines(search, replace) });
+      search = undefined;
+      replace = undefined;
+    } else if (replace) {
+      replace.push(line);
+    } else if (search) {
+      search.push(line);
+    }
+  }
+
+  if (search) {
+    throw new PatchApplyError('A SEARCH/REPLACE block is not terminated with >>>>>>> REPLACE');
+  }
+
+  return hunks;
+}
+
+// lines shared at both ends of a block become context, so they can be fuzzed like diff context
+function toHunkLines(search: string[], replace: string[]): PatchLine[] {
+  let prefix = 0;
+
+  while (prefix < search.length && prefix < replace.length && search[prefix] === replace[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+
+  while (
+    suffix < search.length - prefix &&
+    suffix < replace.length - prefix &&
+    search[search.length - 1 - suffix] === replace[replace.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...search.slice(0, prefix).map((text) => ({ op: ' ' as const, text })),
+    ...search.slice(prefix, search.length - suffix).map((text) => ({ op: '-' as const, text })),
+    ...replace.slice(prefix, replace.length - suffix).map((text) => ({ op: '+' as const, text })),
+    ...search.slice(search.length - suffix).map((text) => ({ op: ' ' as const, text })),
+  ];
+}
+
+function parseUnifiedDiff(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | undefined;
+
+  const patchLines = patch.split('\n');
+
+  patchLines.forEach((line, index) => {
+    const header = line.match(HUNK_HEADER);
+
+    if (header) {
+      current = { lines: [], oldStart: Number(header[1]) };
+      hunks.push(current);
+
+      return;
+    }
+
+    if (!current || line.startsWith('\\')) {
+      // file headers before the first hunk and "\ No newline at end of file"
+      return;
+    }
+
+    if (line.startsWith('--- ') && patchLines[index + 1]?.startsWith('+++ ')) {
+      // headers of the next file, only one file is patched per action
+      current = undefined;
+    } else if (line.startsWith('-') || line.startsWith('+') || line.startsWith(' ')) {
+      current.lines.push({ op: line[0] as PatchLineOp, text: line.slice(1) });
+    } else {
+      // models often drop the leading space of blank context lines
+      current.lines.push({ op: ' ', text: line });
+    }
+  });
+
+  for (const hunk of hunks) {
+    // a trailing blank line is usually the end of the patch rather than context
+    while (hunk.lines.at(-1)?.op === ' ' && !hunk.lines.at(-1)?.text.trim()) {
+      hunk.lines.pop();
+    }
+  }
+
+  return hunks.filter((hunk) => hunk.lines.some((line) => line.op !== ' '));
+}
+
+function trimContext(lines: PatchLine[], fuzz: number) {
+  let start = 0;
+  let end = lines.length;
+
+  while (start < fuzz && lines[start]?.op === ' ') {
+    start++;
+  }
+
+  while (lines.length - end < fuzz && end > start && lines[end - 1].op === ' ') {
+    end--;
+  }
+
+  return { lines: lines.slice(start, end), trimmedStart: start };
+}
+
+function findAnchor(
+  fileLines: string[],
+  search: string[],
+  normalize: (line: string) => string,
+  from: number,
+  hint?: number,
+) {
+  const normalizedSearch = search.map(normalize);
+  const matches: number[] = [];
+
+  for (let i = 0; i <= fileLines.length - search.length; i++) {
+    if (normalizedSearch.every((line, j) => normalize(fileLines[i + j]) === line)) {
+      matches.push(i);
+    }
+  }
+
+  // hunks come in file order, so prefer matches after the previous hunk
+  const candidates = matches.some((index) => index >= from) ? matches.filter((index) => index >= from) : matches;
+
+  if (candidates.length === 0) {
+    return -1;
+  }
+
+  if (hint === undefined) {
+    return candidates[0];
+  }
+
+  return candidates.reduce((best, index) => (Math.abs(index - hint) < Math.abs(best - hint) ? index : best));
+}
+
+function describeHunk(hunk: PatchHunk) {
+  return hunk.lines
+    .filter((line) => line.op !== '+')
+    .map((line) => line.text)
+    .join('\n');
+}
+
+/**
+ * Applies `patch` to `original` and returns the patched content. Throws a `PatchApplyError`
+ * naming the first hunk that could not be anchored.
+ */
+export function applyPatch(original: string, patch: string) {
+  const hunks = parsePatch(patch);
+  const fileLines = original === '' ? [] : original.split('\n');
+
+  // where the previous hunk ended and how far it moved the following lines
+  let cursor = 0;
+  let offset = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const searchLength = hunk.lines.filter((line) => line.op !== '+').length;
+
+    if (searchLength === 0) {
+      const additions = hunk.lines.map((line) => line.text);
+
+      // a diff adding lines after line N has N as its start, blocks without a search append
+      const end = fileLines.at(-1) === '' ? fileLines.length - 1 : fileLines.length;
+      const index = hunk.oldStart !== undefined ? Math.min(hunk.oldStart + offset, end) : end;
+
+      fileLines.splice(index, 0, ...additions);
+      cursor = index + additions.length;
+      offset += additions.length;
+
+      return;
+    }
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      const { lines, trimmedStart } = trimContext(hunk.lines, fuzz);
+      const search = lines.filter((line) => line.op !== '+').map((line) => line.text);
+
+      if ((fuzz > 0 && lines.length === hunk.lines.length) || !search.some((line) => line.trim())) {
+        continue;
+      }
+
+      const hint = hunk.oldStart !== undefined ? hunk.oldStart - 1 + offset + trimmedStart : undefined;
+
+      for (const normalize of NORMALIZERS) {
+        const index = findAnchor(fileLines, search, normalize, cursor, hint);
+
+        if (index === -1) {
+          continue;
+        }
+
+        // context lines keep the text of the file, only removed and added lines change
+        const replacement: string[] = [];
+        let position = index;
+
+        for (const line of lines) {
+          if (line.op === ' ') {
+            replacement.push(fileLines[position++]);
+          } else if (line.op === '-') {
+            position++;
+          } else {
+            replacement.push(line.text);
+          }
+        }
+
+        fileLines.splice(index, search.length, ...replacement);
+        cursor = index + replacement.length;
+        offset += replacement.length - search.length;
+
+        return;
+      }
+    }
+
+    throw new PatchApplyError(
+      `Hunk ${hunkIndex + 1} of ${hunks.length} does not match the current content of the file`,
+      describeHunk(hunk),
+    );
+  });
+
+  return fileLines.join('\n');
+}